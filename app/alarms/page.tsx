@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { sendAlarmTest, AlarmTestRequest } from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
 import { FiBell, FiCalendar, FiClock, FiMapPin, FiInfo } from 'react-icons/fi';
 
 interface AlarmCase {
@@ -90,8 +91,8 @@ export default function AlarmsPage() {
 
       const response = await sendAlarmTest(request);
       setResult(`알람 테스트가 성공적으로 발송되었습니다.\n응답: ${JSON.stringify(response, null, 2)}`);
-    } catch (error: any) {
-      setResult(`알람 테스트 발송 실패: ${error.message}`);
+    } catch (error) {
+      setResult(`알람 테스트 발송 실패: ${getErrorMessage(error)}`);
     } finally {
       setIsLoading(false);
     }
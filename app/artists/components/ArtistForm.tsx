@@ -4,16 +4,24 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import FieldError from '@/components/FieldError';
+import { getErrorMessage } from '@/lib/errors';
 import { FiSearch, FiX } from 'react-icons/fi';
+import { createLogger } from '@/lib/logger';
+import { useValidation } from '@/lib/validation';
+import { artistRules } from '@/types/artist-rules';
+
+const log = createLogger('artists');
 
 interface ArtistFormProps {
   onSubmit: (data: Omit<Artist, 'id'>) => Promise<void>;
   onCancel: () => void;
   initialData?: Artist;
   isOpen: boolean;
+  fieldErrors?: Record<string, string>; // 서버 검증 실패 시 필드별 에러 메시지
 }
 
-export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }: ArtistFormProps) {
+export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen, fieldErrors }: ArtistFormProps) {
   const [formData, setFormData] = useState({
     name: initialData?.name || '',
     description: initialData?.description || '',
@@ -33,6 +41,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
   const [searchResults, setSearchResults] = useState<AppleMusicArtist[]>([]);
   const [showSearchResults, setShowSearchResults] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const { errors, touch, validateAll, reset: resetValidation } = useValidation(artistRules, formData, fieldErrors);
 
   useEffect(() => {
     if (initialData) {
@@ -51,6 +60,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
       });
     }
     setNewAlias('');
+    resetValidation();
     setNameError(null);
     setAliasError(null);
     setSearchResults([]);
@@ -76,7 +86,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
         setNameError(null);
       }
     } catch (error) {
-      console.error('Error checking duplicate:', error);
+      log.error('Error checking duplicate:', error);
       setNameError('중복 확인 중 오류가 발생했습니다.');
     } finally {
       setIsCheckingDuplicate(false);
@@ -101,6 +111,8 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (!validateAll()) return;
+
     // 중복 체크 에러가 있으면 제출하지 않음
     if (nameError) {
       alert('중복된 아티스트 이름이 있습니다. 다른 이름을 사용해주세요.');
@@ -109,10 +121,10 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
     
     setIsSubmitting(true);
     try {
+      // 저장 성공 시 페이지에서 폼을 닫음 (실패 시 필드 에러 표시를 위해 유지)
       await onSubmit(formData);
-      onCancel();
     } catch (error) {
-      console.error('Error submitting form:', error);
+      log.error('Error submitting form:', error);
     } finally {
       setIsSubmitting(false);
     }
@@ -148,10 +160,11 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
         ...prev,
         aliases: [...prev.aliases, newAliasObj]
       }));
+      touch('aliases');
       setNewAlias('');
       setAliasError(null);
     } catch (error) {
-      console.error('Error checking alias duplicate:', error);
+      log.error('Error checking alias duplicate:', error);
       setAliasError('중복 확인 중 오류가 발생했습니다.');
     } finally {
       setIsCheckingAliasDuplicate(false);
@@ -163,6 +176,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
       ...prev,
       aliases: prev.aliases.filter(alias => alias.id !== aliasId)
     }));
+    touch('aliases');
   };
 
   // Apple Music 검색 함수
@@ -178,8 +192,8 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
       setSearchResults(results);
       setShowSearchResults(true);
     } catch (error) {
-      console.error('Apple Music 검색 오류:', error);
-      alert('Apple Music 검색 중 오류가 발생했습니다.');
+      log.error('Apple Music 검색 오류:', error);
+      alert(`Apple Music 검색 중 오류가 발생했습니다.\n${getErrorMessage(error)}`);
     } finally {
       setIsSearching(false);
     }
@@ -192,6 +206,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
         ...prev,
         imageUrl: artist.artworkUrl || ''
       }));
+      touch('imageUrl');
       setShowSearchResults(false);
     } else {
       alert('이 아티스트는 이미지가 없습니다.');
@@ -234,7 +249,10 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
                     id="name"
                     required
                     value={formData.name}
-                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    onChange={(e) => {
+                      setFormData(prev => ({ ...prev, name: e.target.value }));
+                      touch('name');
+                    }}
                     className={`w-full rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500 ${
                       nameError ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : ''
                     }`}
@@ -265,6 +283,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
               {nameError && (
                 <p className="text-red-600 text-sm mt-1">{nameError}</p>
               )}
+              <FieldError message={errors.name} />
             </div>
 
             <div className="space-y-2">
@@ -273,11 +292,15 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
                 id="description"
                 required
                 value={formData.description}
-                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                onChange={(e) => {
+                  setFormData(prev => ({ ...prev, description: e.target.value }));
+                  touch('description');
+                }}
                 className="w-full rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
                 placeholder="아티스트에 대한 설명을 입력하세요"
                 rows={4}
               />
+              <FieldError message={errors.description} />
             </div>
 
             <div className="space-y-2">
@@ -286,10 +309,14 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
                 id="imageUrl"
                 type="url"
                 value={formData.imageUrl}
-                onChange={(e) => setFormData(prev => ({ ...prev, imageUrl: e.target.value }))}
+                onChange={(e) => {
+                  setFormData(prev => ({ ...prev, imageUrl: e.target.value }));
+                  touch('imageUrl');
+                }}
                 className="w-full rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
                 placeholder="아티스트 이미지 URL을 입력하세요 (선택사항)"
               />
+              <FieldError message={errors.imageUrl} />
             </div>
 
             <div className="space-y-2">
@@ -319,6 +346,7 @@ export default function ArtistForm({ onSubmit, onCancel, initialData, isOpen }:
               {aliasError && (
                 <p className="text-red-600 text-sm mt-1">{aliasError}</p>
               )}
+              <FieldError message={errors.aliasList || errors.aliases} />
               
               {formData.aliases.length > 0 && (
                 <div className="flex flex-wrap gap-2 mt-2">
@@ -6,9 +6,19 @@ import ArtistForm from './components/ArtistForm';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHeader, TableHead, TableRow } from '@/components/ui/table';
-import PasswordModal from '@/components/PasswordModal';
+import { ConflictError, NotFoundError, ValidationError, getErrorMessage, getFieldErrorMap } from '@/lib/errors';
+import { invalidateQueries, queryKeys, useQuerySubscription } from '@/lib/query-cache';
 import React from 'react';
 import { FiPlus, FiEdit2, FiTrash2, FiEye, FiSearch } from 'react-icons/fi';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('artists');
+
+interface ArtistAction {
+  type: 'create' | 'update' | 'delete';
+  data?: any;
+  id?: number;
+}
 
 export default function ArtistsPage() {
   const [artists, setArtists] = useState<Artist[]>([]);
@@ -20,19 +30,14 @@ export default function ArtistsPage() {
   const [editingArtist, setEditingArtist] = useState<Artist | null>(null);
   const [selectedArtist, setSelectedArtist] = useState<Artist | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  
-  // 비밀번호 모달 상태
-  const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
-  const [pendingAction, setPendingAction] = useState<{
-    type: 'create' | 'update' | 'delete';
-    data?: any;
-    id?: number;
-  } | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadArtists();
   }, []);
 
+  useQuerySubscription([queryKeys.artists], () => loadArtists());
+
   const loadArtists = async () => {
     try {
       const data = await fetchArtists();
@@ -41,7 +46,7 @@ export default function ArtistsPage() {
       setError(null);
     } catch (err) {
       setError('Failed to load artists');
-      console.error(err);
+      log.error('Failed to load artists:', err);
     } finally {
       setIsLoading(false);
     }
@@ -66,40 +71,37 @@ export default function ArtistsPage() {
   };
 
   const handleCreateArtist = async (artistData: Omit<Artist, 'id'>) => {
-    setPendingAction({ type: 'create', data: artistData });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'create', data: artistData });
   };
 
   const handleUpdateArtist = async (artistData: Omit<Artist, 'id'>) => {
     if (!editingArtist) return;
-    setPendingAction({ type: 'update', data: artistData, id: editingArtist.id });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'update', data: artistData, id: editingArtist.id });
   };
 
   const handleDeleteArtist = async (id: number) => {
-    setPendingAction({ type: 'delete', id });
-    setIsPasswordModalOpen(true);
+    if (!confirm('아티스트를 삭제하시겠습니까?')) return;
+    await runAction({ type: 'delete', id });
   };
 
-  const handlePasswordConfirm = async (password: string) => {
-    if (!pendingAction) return;
-
+  // 관리자 세션의 비밀번호는 lib/api.ts에서 자동으로 첨부됨
+  const runAction = async (action: ArtistAction) => {
     try {
-      switch (pendingAction.type) {
+      switch (action.type) {
         case 'create':
-          await createArtist(pendingAction.data, password);
+          await createArtist(action.data);
           alert('아티스트가 성공적으로 추가되었습니다.');
           await loadArtists(); // 목록 새로고침
           break;
         case 'update':
-          if (pendingAction.id) {
+          if (action.id) {
             // 아티스트 기본 정보 업데이트
-            await updateArtist(pendingAction.id, pendingAction.data, password);
+            await updateArtist(action.id, action.data);
             
             // 별칭 변경사항 처리
-            const originalArtist = artists.find(a => a.id === pendingAction.id);
+            const originalArtist = artists.find(a => a.id === action.id);
             if (originalArtist) {
-              const newAliases = pendingAction.data.aliases || [];
+              const newAliases = action.data.aliases || [];
               const originalAliases = originalArtist.aliases || [];
               
               // 삭제된 별칭들 찾기
@@ -120,7 +122,7 @@ export default function ArtistsPage() {
               // 새 별칭이 있으면 추가
               if (addedAliases.length > 0) {
                 const aliasNames = addedAliases.map((alias: ArtistAlias) => alias.name);
-                await addArtistAliases(pendingAction.id, aliasNames, password);
+                await addArtistAliases(action.id, aliasNames);
               }
             }
             
@@ -128,8 +130,8 @@ export default function ArtistsPage() {
           }
           break;
         case 'delete':
-          if (pendingAction.id) {
-            await deleteArtist(pendingAction.id, password);
+          if (action.id) {
+            await deleteArtist(action.id);
             alert('아티스트가 성공적으로 삭제되었습니다.');
           }
           break;
@@ -138,35 +140,24 @@ export default function ArtistsPage() {
       await loadArtists();
       setEditingArtist(null);
       setIsFormOpen(false);
-    } catch (error: any) {
+      setFormErrors({});
+    } catch (error) {
       // 서버 에러 응답을 alert로 표시
-      let errorMessage = error.message || '알 수 없는 오류가 발생했습니다.';
-      console.error('Full API Error:', error);
-      console.error('Error message:', error.message);
-      console.error('Error status:', error.status);
-      
-      // 401 에러 감지 (다양한 형태의 401 에러 메시지 처리)
-      if (error.message && (
-        error.message.includes('401') || 
-        error.message.includes('Unauthorized') ||
-        error.message.includes('비밀번호') ||
-        error.message.includes('password')
-      )) {
-        errorMessage = '비밀번호를 확인해주세요.';
-        alert(`오류: ${errorMessage}`);
-        // 401 에러일 때는 모달을 닫지 않음
-        return;
+      log.error('Full API Error:', error);
+
+      // 인증 실패(AuthError) 시에는 재인증 프롬프트가 뜨고 폼은 그대로 유지됨
+      if (error instanceof ValidationError || error instanceof ConflictError) {
+        // 이름 중복 등은 해당 입력 필드 옆에 표시
+        if (action.type === 'create' || action.type === 'update') {
+          setFormErrors(getFieldErrorMap(error));
+        }
+      } else if (error instanceof NotFoundError) {
+        invalidateQueries(queryKeys.artists);
+        await loadArtists();
       }
-      alert(`오류: ${errorMessage}`);
-    } finally {
-      setIsPasswordModalOpen(false);
-      setPendingAction(null);
-    }
-  };
 
-  const handlePasswordCancel = () => {
-    setIsPasswordModalOpen(false);
-    setPendingAction(null);
+      alert(`오류: ${getErrorMessage(error)}`);
+    }
   };
 
   const handleEdit = (artist: Artist) => {
@@ -181,6 +172,7 @@ export default function ArtistsPage() {
   const handleCloseForm = () => {
     setIsFormOpen(false);
     setEditingArtist(null);
+    setFormErrors({});
   };
 
   const handleCloseModal = () => {
@@ -210,26 +202,6 @@ export default function ArtistsPage() {
     }
   };
 
-  const getPasswordModalTitle = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '아티스트 추가';
-      case 'update': return '아티스트 수정';
-      case 'delete': return '아티스트 삭제';
-      default: return '관리자 인증';
-    }
-  };
-
-  const getPasswordModalMessage = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '새 아티스트를 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'update': return '아티스트를 수정하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'delete': return '아티스트를 삭제하기 위해 관리자 비밀번호를 입력해주세요.';
-      default: return '관리자 비밀번호를 입력해주세요.';
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -445,15 +417,9 @@ export default function ArtistsPage() {
         onSubmit={editingArtist ? handleUpdateArtist : handleCreateArtist}
         onCancel={handleCloseForm}
         initialData={editingArtist || undefined}
+        fieldErrors={formErrors}
       />
 
-      <PasswordModal
-        isOpen={isPasswordModalOpen}
-        onConfirm={handlePasswordConfirm}
-        onCancel={handlePasswordCancel}
-        title={getPasswordModalTitle()}
-        message={getPasswordModalMessage()}
-      />
 
       {/* 이미지 확대 모달 */}
       {selectedImage && (
@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHeader, TableHead, TableRow } from '@/components/ui/table';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditFilter,
+  auditEntriesToCsv,
+  auditEntriesToJson,
+  fetchAuditEntries,
+  subscribeAudit,
+} from '@/lib/audit';
+import { downloadFile } from '@/lib/download';
+import { createLogger } from '@/lib/logger';
+import { FiDownload } from 'react-icons/fi';
+import React from 'react';
+
+const log = createLogger('api');
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  festival: '페스티벌',
+  timetable: '타임테이블',
+  artist: '아티스트',
+  artistAlias: '아티스트 별칭',
+  place: '장소',
+  hall: '홀',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: '추가',
+  update: '수정',
+  delete: '삭제',
+  localOverride: '로컬 지정',
+};
+
+const ALL = 'all';
+
+interface FilterForm {
+  entityType: string;
+  entityId: string;
+  action: string;
+  fromDate: string; // yyyy-MM-dd
+  toDate: string; // yyyy-MM-dd
+}
+
+const EMPTY_FILTER: FilterForm = { entityType: ALL, entityId: '', action: ALL, fromDate: '', toDate: '' };
+
+const toAuditFilter = (form: FilterForm): AuditFilter => ({
+  entityType: form.entityType === ALL ? undefined : (form.entityType as AuditEntityType),
+  entityId: form.entityId.trim() ? Number(form.entityId) : undefined,
+  action: form.action === ALL ? undefined : (form.action as AuditAction),
+  from: form.fromDate ? new Date(`${form.fromDate}T00:00:00`).getTime() : undefined,
+  to: form.toDate ? new Date(`${form.toDate}T23:59:59.999`).getTime() : undefined,
+});
+
+const formatPayload = (value: unknown) => (value === undefined ? '-' : JSON.stringify(value, null, 2));
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<FilterForm>(EMPTY_FILTER);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await fetchAuditEntries(toAuditFilter(filter)));
+    } catch (error) {
+      log.error('Failed to load audit entries:', error);
+      alert('감사 로그를 불러오는데 실패했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+    // 다른 화면에서 변경이 기록되면 다시 반영
+    return subscribeAudit(() => loadEntries());
+  }, [filter]);
+
+  const updateFilter = (changes: Partial<FilterForm>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = (type: 'csv' | 'json') => {
+    if (entries.length === 0) {
+      alert('내보낼 기록이 없습니다.');
+      return;
+    }
+    const timestamp = format(new Date(), 'yyyyMMdd-HHmmss');
+    if (type === 'csv') {
+      downloadFile(auditEntriesToCsv(entries), `audit-${timestamp}.csv`, 'text/csv');
+    } else {
+      downloadFile(auditEntriesToJson(entries), `audit-${timestamp}.json`, 'application/json');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 py-10">
+      <div className="max-w-6xl mx-auto px-4">
+        <h1 className="text-3xl font-bold mb-8 text-gray-900">감사 로그</h1>
+        <div className="bg-white rounded-2xl shadow p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">변경 기록</h2>
+              <p className="text-sm text-gray-500 mt-1">이 브라우저에서 실행한 추가/수정/삭제 요청이 기록됩니다.</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => handleExport('csv')}>
+                <FiDownload className="mr-2" />
+                CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('json')}>
+                <FiDownload className="mr-2" />
+                JSON
+              </Button>
+            </div>
+          </div>
+
+          {/* 필터 */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <div className="space-y-2">
+              <Label>대상</Label>
+              <Select value={filter.entityType} onValueChange={value => updateFilter({ entityType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>전체</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-id">대상 ID</Label>
+              <Input
+                id="audit-entity-id"
+                type="number"
+                min={1}
+                value={filter.entityId}
+                onChange={e => updateFilter({ entityId: e.target.value })}
+                placeholder="전체"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>작업</Label>
+              <Select value={filter.action} onValueChange={value => updateFilter({ action: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>전체</SelectItem>
+                  {AUDIT_ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">시작일</Label>
+              <Input id="audit-from" type="date" value={filter.fromDate} onChange={e => updateFilter({ fromDate: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">종료일</Label>
+              <Input id="audit-to" type="date" value={filter.toDate} onChange={e => updateFilter({ toDate: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-600">{entries.length}건</p>
+            <Button size="sm" variant="outline" onClick={() => setFilter(EMPTY_FILTER)}>필터 초기화</Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>시각</TableHead>
+                    <TableHead>운영자</TableHead>
+                    <TableHead>환경</TableHead>
+                    <TableHead>작업</TableHead>
+                    <TableHead>대상</TableHead>
+                    <TableHead>결과</TableHead>
+                    <TableHead className="text-right">상세</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-gray-500 py-8">기록이 없습니다.</TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map(entry => (
+                      <React.Fragment key={entry.id}>
+                        <TableRow>
+                          <TableCell className="whitespace-nowrap">{format(new Date(entry.timestamp), 'yyyy-MM-dd HH:mm:ss')}</TableCell>
+                          <TableCell>{entry.operator || '-'}</TableCell>
+                          <TableCell>{entry.environment}</TableCell>
+                          <TableCell>
+                            {ACTION_LABELS[entry.action]}
+                            <br />
+                            <span className="font-mono text-xs text-gray-500">{entry.operation}</span>
+                          </TableCell>
+                          <TableCell>
+                            {ENTITY_LABELS[entry.entityType]}
+                            {entry.entityId !== undefined && <span className="text-gray-500"> #{entry.entityId}</span>}
+                          </TableCell>
+                          <TableCell>
+                            {entry.result === 'success' ? (
+                              <span className="text-green-600">성공</span>
+                            ) : (
+                              <span className="text-red-600" title={entry.error}>실패</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id!)}>
+                              {expandedId === entry.id ? '닫기' : '보기'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {expandedId === entry.id && (
+                          <TableRow>
+                            <TableCell colSpan={7} className="p-4 bg-muted">
+                              {entry.error && <p className="mb-2 text-sm text-red-600">{entry.error}</p>}
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <p className="text-xs font-semibold text-gray-600 mb-1">변경 전</p>
+                                  <pre className="max-h-80 overflow-auto rounded bg-white p-2 text-xs">{formatPayload(entry.before)}</pre>
+                                </div>
+                                <div>
+                                  <p className="text-xs font-semibold text-gray-600 mb-1">변경 후 (요청)</p>
+                                  <pre className="max-h-80 overflow-auto rounded bg-white p-2 text-xs">{formatPayload(entry.after)}</pre>
+                                </div>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Festival, PerformanceURL, ReservationInfo as ReservationInfoType, TimeTable as TimeTableType } from '@/types/festival';
+import { Hall } from '@/types/place';
+import { isAllowedPosterHost } from '@/lib/poster-image';
+import { addTimeTable, deleteFestival, fetchFestivalById, fetchPlaces, updateReservationInfos, updateUrlInfos } from '@/lib/api';
+import { NotFoundError, OfflineQueuedError, ValidationError, getErrorMessage, getFieldErrorMap } from '@/lib/errors';
+import { queryKeys, useQuerySubscription } from '@/lib/query-cache';
+import { getFestivalStatus } from '@/lib/festival-list';
+import { isUrlEditingEnabled } from '@/lib/url-types';
+import { buildFestivalUpdateSteps } from '@/lib/festival-steps';
+import { createUnitOfWork, UnitOfWork, UnitOfWorkState } from '@/lib/unit-of-work';
+import { createLogger } from '@/lib/logger';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import UnitOfWorkDialog from '@/components/UnitOfWorkDialog';
+import FestivalForm from '../components/FestivalForm';
+import TimeTable from '../components/TimeTable';
+import ReservationInfo from '../components/ReservationInfo';
+import LinkResolutionDialog from '../components/LinkResolutionDialog';
+import FestivalUrlList from '../components/FestivalUrlList';
+import FestivalLineup from '../components/FestivalLineup';
+import FestivalExportMenu from '../components/FestivalExportMenu';
+import FestivalUpdateDiffDialog from '../components/FestivalUpdateDiffDialog';
+import { FESTIVAL_STATUS_LABELS } from '../components/FestivalListFilters';
+import { FiAlertTriangle, FiArrowLeft, FiEdit2, FiImage, FiTrash2 } from 'react-icons/fi';
+
+const log = createLogger('festivals');
+
+// 탭은 ?tab= 쿼리에 보관 - 탭을 바꿀 때마다 히스토리가 쌓여 뒤로 가기로 이전 탭에 돌아감
+const FESTIVAL_TABS = [
+  { value: 'info', label: '기본 정보' },
+  { value: 'timetable', label: '타임테이블' },
+  { value: 'reservations', label: '예매정보' },
+  { value: 'urls', label: 'URL' },
+  { value: 'lineup', label: '라인업' },
+] as const;
+
+type FestivalTab = (typeof FESTIVAL_TABS)[number]['value'];
+
+const DEFAULT_TAB: FestivalTab = 'info';
+
+const parseTab = (value: string | null): FestivalTab =>
+  FESTIVAL_TABS.some(tab => tab.value === value) ? (value as FestivalTab) : DEFAULT_TAB;
+
+type FestivalDetailAction =
+  | { type: 'updateReservation'; data: ReservationInfoType[] }
+  | { type: 'updateUrls'; data: PerformanceURL[] }
+  | { type: 'addTimeTable'; data: Omit<TimeTableType, 'id'> };
+
+interface FestivalDetailPageProps {
+  params: { id: string };
+}
+
+export default function FestivalDetailPage({ params }: FestivalDetailPageProps) {
+  const festivalId = Number(params.id);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const tab = parseTab(searchParams.get('tab'));
+
+  const [festival, setFestival] = useState<Festival | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [pendingUpdate, setPendingUpdate] = useState<Omit<Festival, 'id'> | null>(null); // 변경 내용 확인 중인 수정본
+  const [halls, setHalls] = useState<Hall[]>([]);
+  const [isLinking, setIsLinking] = useState(false);
+  const [isFestivalStale, setIsFestivalStale] = useState(false); // 수정 폼이 열린 동안 서버 내용이 바뀜
+  const [workState, setWorkState] = useState<UnitOfWorkState | null>(null);
+  const workRef = useRef<UnitOfWork | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadFestival();
+  }, [festivalId]);
+
+  // 다른 화면에서 변경되거나 캐시가 무효화되면 다시 반영
+  // 수정 폼이 열려 있으면 작성 중인 내용이 초기화되지 않도록 다시 불러오지 않고 폼에 알림만 표시
+  // (수정 작업 단위 실행 중의 무효화는 직접 다시 불러오므로 무시)
+  useQuerySubscription([queryKeys.festival(festivalId), queryKeys.places], () => {
+    if (isFormOpen) {
+      if (!workRef.current) setIsFestivalStale(true);
+      return;
+    }
+    loadFestival();
+  });
+
+  const loadFestival = async () => {
+    if (!Number.isInteger(festivalId) || festivalId <= 0) {
+      setError('페스티벌을 찾을 수 없습니다.');
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const data = await fetchFestivalById(festivalId);
+      setFestival(data);
+      setIsFestivalStale(false);
+
+      try {
+        const places = await fetchPlaces();
+        const place = places.find(p => p.id === data.placeId);
+        setHalls(place?.halls || []);
+      } catch (error) {
+        log.error('Failed to fetch places:', error);
+        setHalls([]);
+      }
+
+      setError(null);
+    } catch (err) {
+      log.error(`Failed to load festival ${festivalId}:`, err);
+      setError(err instanceof NotFoundError ? '페스티벌을 찾을 수 없습니다.' : `페스티벌을 불러오지 못했습니다: ${getErrorMessage(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTabChange = (value: string) => {
+    const next = new URLSearchParams(searchParams.toString());
+    if (value === DEFAULT_TAB) {
+      next.delete('tab');
+    } else {
+      next.set('tab', value);
+    }
+    const queryString = next.toString();
+    router.push(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  };
+
+  const runAction = async (action: FestivalDetailAction): Promise<boolean> => {
+    try {
+      switch (action.type) {
+        case 'updateReservation':
+          await updateReservationInfos(festivalId, action.data);
+          alert('예매정보가 성공적으로 저장되었습니다.');
+          break;
+        case 'updateUrls':
+          await updateUrlInfos(festivalId, action.data);
+          alert('URL이 성공적으로 저장되었습니다.');
+          break;
+        case 'addTimeTable':
+          await addTimeTable(festivalId, {
+            performanceDate: action.data.performanceDate,
+            startTime: action.data.startTime,
+            endTime: action.data.endTime,
+            hallId: action.data.hallId || 0,
+          });
+          alert('타임테이블이 성공적으로 추가되었습니다.');
+          break;
+      }
+
+      await loadFestival();
+      setIsFormOpen(false);
+      setFormErrors({});
+      return true;
+    } catch (error) {
+      log.error('API Error:', error);
+
+      // 대기열에 저장된 변경은 연결되면 다시 전송됨
+      if (error instanceof OfflineQueuedError) {
+        alert(getErrorMessage(error));
+        return false;
+      }
+
+      if (error instanceof NotFoundError) {
+        await loadFestival();
+      }
+
+      alert(`오류: ${getErrorMessage(error)}`);
+      return false;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!festival || !confirm('페스티벌을 삭제하시겠습니까?')) return;
+
+    try {
+      await deleteFestival(festival.id);
+      alert('페스티벌이 성공적으로 삭제되었습니다.');
+      router.push('/festivals');
+    } catch (error) {
+      log.error('API Error:', error);
+      alert(`오류: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleSaveNewReservation = async (newReservation: Omit<ReservationInfoType, 'id'>) => {
+    if (!festival) return;
+    // 새로운 예매정보를 기존 목록에 추가 (id는 서버에서 생성됨)
+    await runAction({ type: 'updateReservation', data: [...festival.reservationInfos, newReservation] });
+  };
+
+  const handleSaveNewTimeTable = async (newTimeTable: Omit<TimeTableType, 'id'>) => {
+    // 빈 객체가 전달되면 아티스트 업데이트 후 새로고침
+    if (Object.keys(newTimeTable).length === 0) {
+      await loadFestival();
+      return;
+    }
+    await runAction({ type: 'addTimeTable', data: newTimeTable });
+  };
+
+  // 변경 내용을 확인한 뒤 URL → 기본 정보 순서로 저장 - 실패하면 대화상자에서 다시 시도하거나 되돌리고, 폼은 열어 둠
+  const handleConfirmUpdate = async (data: Omit<Festival, 'id'>) => {
+    if (!festival) return;
+    setPendingUpdate(null);
+    const unit = createUnitOfWork(buildFestivalUpdateSteps(festival, data), setWorkState);
+    workRef.current = unit;
+
+    const result = await unit.run();
+    if (result.status === 'completed') {
+      await finishUpdate('페스티벌이 성공적으로 수정되었습니다.');
+      return;
+    }
+
+    // 기본 정보 단계의 검증 실패는 폼의 해당 필드 옆에도 표시
+    const failedStep = result.steps.find(step => step.status === 'failed');
+    if (failedStep?.id === 'festival' && failedStep.error instanceof ValidationError) {
+      setFormErrors(getFieldErrorMap(failedStep.error, 'performance.'));
+    }
+  };
+
+  const finishUpdate = async (message?: string) => {
+    workRef.current = null;
+    setWorkState(null);
+    if (message) alert(message);
+    await loadFestival();
+    handleCloseForm();
+  };
+
+  const handleRetryUpdate = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.retryFailed();
+    if (result.status === 'completed') {
+      await finishUpdate('페스티벌이 성공적으로 수정되었습니다.');
+    }
+  };
+
+  const handleRollbackUpdate = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.rollback();
+    if (result.status === 'rolledBack') {
+      // 서버 내용이 수정 전(festival)으로 돌아갔으므로 다시 불러오지 않고 폼의 작성 내용을 유지
+      alert('수정을 취소하고 이전 내용으로 되돌렸습니다.');
+      workRef.current = null;
+      setWorkState(null);
+    }
+  };
+
+  // 일부만 반영된 채로 닫으면 서버 내용으로 다시 불러옴
+  const handleCloseUpdateWork = async () => {
+    const isPartiallyApplied = workState?.steps.some(step => step.status === 'done');
+    if (isPartiallyApplied) {
+      await finishUpdate();
+      return;
+    }
+    workRef.current = null;
+    setWorkState(null);
+  };
+
+  const handleCloseForm = () => {
+    setIsFormOpen(false);
+    setFormErrors({});
+    if (isFestivalStale) loadFestival();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !festival) {
+    return (
+      <div className="flex flex-col gap-4 justify-center items-center min-h-screen">
+        <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+        <Link href="/festivals" className="text-sm text-blue-600 hover:underline">
+          페스티벌 목록으로
+        </Link>
+      </div>
+    );
+  }
+
+  const status = getFestivalStatus(festival);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 py-10">
+      <div className="max-w-6xl mx-auto px-4">
+        <Link href="/festivals" className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <FiArrowLeft />
+          페스티벌 목록
+        </Link>
+        <div className="flex items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{festival.name}</h1>
+            <p className="mt-2 text-gray-600">
+              {`${festival.startDate} ~ ${festival.endDate}`} · {festival.placeName || '장소 미정'}
+              <span className="ml-2 rounded-full bg-gray-100 px-2 text-xs text-gray-600">{FESTIVAL_STATUS_LABELS[status]}</span>
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <FestivalExportMenu festivals={[festival]} fileName={`festival-${festival.id}`} />
+            <Button variant="outline" onClick={() => setIsFormOpen(true)}>
+              <FiEdit2 className="mr-2" />
+              수정
+            </Button>
+            <Button variant="outline" onClick={handleDelete} className="text-red-600 hover:text-red-700">
+              <FiTrash2 className="mr-2" />
+              삭제
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow p-6">
+          <Tabs value={tab} onValueChange={handleTabChange} className="w-full">
+            <TabsList className="mb-6">
+              {FESTIVAL_TABS.map(item => (
+                <TabsTrigger key={item.value} value={item.value}>
+                  {item.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            <TabsContent value="info">
+              <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-6">
+                {festival.posterUrl ? (
+                  <Image src={festival.posterUrl} alt={festival.name} unoptimized={!isAllowedPosterHost(festival.posterUrl)} width={200} height={280} className="rounded-lg object-cover" />
+                ) : (
+                  <div className="flex h-[280px] w-[200px] flex-col items-center justify-center gap-2 rounded-lg bg-gray-100 text-gray-400">
+                    <FiImage className="text-3xl" />
+                    <span className="text-sm">포스터 없음</span>
+                  </div>
+                )}
+                <dl className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-3 text-sm">
+                  <dt className="font-medium text-gray-500">장소</dt>
+                  <dd>
+                    {festival.placeName || '미정'}
+                    {festival.placeAddress && <span className="block text-xs text-gray-500">{festival.placeAddress}</span>}
+                    {festival.linkIssues && festival.linkIssues.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setIsLinking(true)}
+                        className="mt-1 flex items-center gap-1 text-xs font-medium text-amber-600 hover:text-amber-700"
+                      >
+                        <FiAlertTriangle />
+                        연결 확인 필요 ({festival.linkIssues.length})
+                      </button>
+                    )}
+                  </dd>
+                  <dt className="font-medium text-gray-500">기간</dt>
+                  <dd>{`${festival.startDate} ~ ${festival.endDate}`}</dd>
+                  <dt className="font-medium text-gray-500">금지물품</dt>
+                  <dd className="whitespace-pre-wrap">{festival.banGoods || '-'}</dd>
+                  <dt className="font-medium text-gray-500">교통정보</dt>
+                  <dd className="whitespace-pre-wrap">{festival.transportationInfo || '-'}</dd>
+                  <dt className="font-medium text-gray-500">비고</dt>
+                  <dd className="whitespace-pre-wrap">{festival.remark || '-'}</dd>
+                </dl>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="timetable">
+              <TimeTable
+                timeTables={festival.timeTables}
+                onSaveNewTimeTable={handleSaveNewTimeTable}
+                showManageButtons={true}
+                availableHalls={halls}
+                festivalStartDate={festival.startDate}
+                festivalEndDate={festival.endDate}
+                performanceId={festival.id}
+              />
+            </TabsContent>
+
+            <TabsContent value="reservations">
+              <ReservationInfo
+                reservationInfos={festival.reservationInfos}
+                onSaveNewReservation={handleSaveNewReservation}
+                onSaveUpdatedReservations={updated => runAction({ type: 'updateReservation', data: updated })}
+                showManageButtons={true}
+              />
+            </TabsContent>
+
+            <TabsContent value="urls">
+              <FestivalUrlList
+                urlInfos={festival.urlInfos}
+                onSave={isUrlEditingEnabled() ? urlInfos => runAction({ type: 'updateUrls', data: urlInfos }) : undefined}
+              />
+            </TabsContent>
+
+            <TabsContent value="lineup">
+              <FestivalLineup festival={festival} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <FestivalForm
+        isOpen={isFormOpen}
+        onSubmit={async data => setPendingUpdate(data)}
+        onCancel={handleCloseForm}
+        initialData={festival}
+        isReadOnly={false}
+        hideTimeTableAndReservation={true}
+        fieldErrors={formErrors}
+        isInitialDataStale={isFestivalStale}
+        onReloadInitialData={loadFestival}
+      />
+
+      <FestivalUpdateDiffDialog
+        original={festival}
+        edited={pendingUpdate}
+        onConfirm={handleConfirmUpdate}
+        onClose={() => setPendingUpdate(null)}
+      />
+
+      <UnitOfWorkDialog
+        title="페스티벌 수정"
+        state={workState}
+        onRetry={handleRetryUpdate}
+        onRollback={handleRollbackUpdate}
+        onClose={handleCloseUpdateWork}
+      />
+
+      <LinkResolutionDialog festival={isLinking ? festival : null} onClose={() => setIsLinking(false)} />
+    </div>
+  );
+}
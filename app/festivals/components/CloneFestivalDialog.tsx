@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CloneOptions, DEFAULT_CLONE_OFFSET_DAYS, getCloneOffsetDays, shiftDate } from '@/lib/festival-clone';
+import { Festival } from '@/types/festival';
+
+interface CloneFestivalDialogProps {
+  festival: Festival | null;
+  onConfirm: (festival: Festival, options: CloneOptions) => void;
+  onClose: () => void;
+}
+
+// 복제 옵션 선택 - 새 시작일로 날짜 이동 폭을 정하고, 확인하면 복제본을 폼에 채워서 검토
+export default function CloneFestivalDialog({ festival, onConfirm, onClose }: CloneFestivalDialogProps) {
+  const [startDate, setStartDate] = useState('');
+  const [includeArtists, setIncludeArtists] = useState(false);
+
+  useEffect(() => {
+    if (!festival) return;
+    setStartDate(shiftDate(festival.startDate, DEFAULT_CLONE_OFFSET_DAYS));
+    setIncludeArtists(false);
+  }, [festival]);
+
+  if (!festival) return null;
+
+  const offsetDays = startDate ? getCloneOffsetDays(festival, startDate) : 0;
+  const artistCount = festival.timeTables.reduce((count, tt) => count + tt.artists.length, 0);
+
+  const handleConfirm = () => {
+    if (!startDate) {
+      alert('새 시작일을 입력해주세요.');
+      return;
+    }
+    onConfirm(festival, { offsetDays, includeArtists });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">페스티벌 복제</h2>
+            <p className="text-sm text-gray-500 mt-1">{festival.name} ({festival.startDate} ~ {festival.endDate})</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>✕</Button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="clone-start-date">새 시작일</Label>
+            <Input id="clone-start-date" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+            {startDate && (
+              <p className="text-sm text-gray-500">
+                {offsetDays >= 0 ? `${offsetDays}일 뒤로` : `${-offsetDays}일 앞으로`} 이동 · 종료일 {shiftDate(festival.endDate, offsetDays)}
+                <br />
+                타임테이블과 예매 오픈/마감 일시도 같은 만큼 이동합니다.
+              </p>
+            )}
+          </div>
+
+          <ul className="rounded-md border divide-y divide-gray-100 text-sm">
+            <li className="px-3 py-2">기본 정보, URL {festival.urlInfos.length}개</li>
+            <li className="px-3 py-2">예매정보 {festival.reservationInfos.length}건</li>
+            <li className="px-3 py-2">타임테이블 {festival.timeTables.length}개 (홀 포함)</li>
+          </ul>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={includeArtists} onChange={e => setIncludeArtists(e.target.checked)} />
+            타임테이블 아티스트 배정도 복사 ({artistCount}명)
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>
+            취소
+          </Button>
+          <Button type="button" onClick={handleConfirm}>
+            복제본 검토
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import { ArtistSummary, Festival } from '@/types/festival';
+import { buildFestivalPreview } from '@/lib/festival-preview';
+import { FiCalendar, FiImage, FiMapPin } from 'react-icons/fi';
+
+interface FestivalAppPreviewProps {
+  festival: Omit<Festival, 'id'>;
+  artists?: ArtistSummary[];
+  hallNames?: Record<number, string>;
+}
+
+function PreviewSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="border-t border-gray-100 px-4 py-3">
+      <h4 className="mb-2 text-sm font-bold text-gray-900">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+const EmptyText = ({ children }: { children: React.ReactNode }) => <p className="text-xs text-gray-400">{children}</p>;
+
+// 앱 미리보기 - 폼 옆에 휴대폰 화면 크기로 표시, 입력할 때마다 바로 반영
+// 포스터는 허용되지 않은 호스트도 보이도록 img 사용
+export default function FestivalAppPreview({ festival, artists, hallNames }: FestivalAppPreviewProps) {
+  const preview = useMemo(() => buildFestivalPreview(festival, { artists, hallNames }), [festival, artists, hallNames]);
+
+  return (
+    <div className="w-[320px] shrink-0">
+      <p className="mb-2 text-center text-xs font-medium text-gray-200">앱 미리보기</p>
+      <div className="h-[640px] overflow-hidden rounded-[2.5rem] border-[10px] border-gray-900 bg-white shadow-xl">
+        <div className="h-full overflow-y-auto text-gray-800">
+          <div className="flex aspect-[3/4] w-full items-center justify-center bg-gray-100">
+            {festival.posterUrl ? (
+              <img src={festival.posterUrl} alt="포스터" className="h-full w-full object-cover" />
+            ) : (
+              <FiImage className="text-3xl text-gray-400" />
+            )}
+          </div>
+
+          <div className="space-y-1 px-4 py-3">
+            <h3 className="text-lg font-bold leading-snug">{festival.name || '페스티벌 이름'}</h3>
+            <p className="flex items-center gap-1 text-xs text-gray-600">
+              <FiCalendar className="shrink-0" />
+              {preview.period || '기간 미정'}
+            </p>
+            <p className="flex items-center gap-1 text-xs text-gray-600">
+              <FiMapPin className="shrink-0" />
+              {festival.placeName || '장소 미정'}
+            </p>
+            {festival.placeAddress && <p className="pl-4 text-[11px] text-gray-400">{festival.placeAddress}</p>}
+          </div>
+
+          <PreviewSection title="라인업">
+            {preview.lineup.length === 0 ? (
+              <EmptyText>라인업이 아직 없습니다.</EmptyText>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {preview.lineup.map(name => (
+                  <span key={name} className="rounded-full bg-purple-50 px-2 py-0.5 text-xs text-purple-700">
+                    {name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </PreviewSection>
+
+          <PreviewSection title="타임테이블">
+            {preview.days.length === 0 ? (
+              <EmptyText>타임테이블이 아직 없습니다.</EmptyText>
+            ) : (
+              <div className="space-y-3">
+                {preview.days.map(day => (
+                  <div key={day.date}>
+                    <p className="mb-1 text-xs font-semibold text-purple-700">{day.label}</p>
+                    {day.halls.map(hall => (
+                      <div key={hall.name} className="mb-2">
+                        <p className="text-[11px] font-medium text-gray-500">{hall.name}</p>
+                        <ul className="divide-y divide-gray-100 rounded-md border text-xs">
+                          {hall.slots.map((slot, index) => (
+                            <li key={index} className="flex gap-2 px-2 py-1">
+                              <span className="shrink-0 tabular-nums text-gray-500">
+                                {slot.time}
+                              </span>
+                              <span className="font-medium">{slot.artists.join(', ') || '미정'}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </PreviewSection>
+
+          <PreviewSection title="예매 정보">
+            {preview.reservations.length === 0 ? (
+              <EmptyText>예매 정보가 아직 없습니다.</EmptyText>
+            ) : (
+              <ul className="space-y-2">
+                {preview.reservations.map((reservation, index) => (
+                  <li key={index} className="rounded-md bg-gray-50 px-2 py-1.5 text-xs">
+                    <p className="font-semibold">{reservation.type || '예매'}</p>
+                    <p className="text-gray-600">
+                      {reservation.open}
+                      {reservation.close && ` ~ ${reservation.close}`}
+                    </p>
+                    {reservation.remark && <p className="text-gray-400">{reservation.remark}</p>}
+                    {reservation.ticketURL && (
+                      <span className="mt-1 inline-block rounded bg-gray-900 px-2 py-0.5 text-[11px] text-white">예매하기</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </PreviewSection>
+
+          <PreviewSection title="금지 물품">
+            {preview.banGoods.length === 0 ? (
+              <EmptyText>등록된 내용이 없습니다.</EmptyText>
+            ) : (
+              <ul className="list-disc space-y-0.5 pl-4 text-xs">
+                {preview.banGoods.map((line, index) => (
+                  <li key={index}>{line}</li>
+                ))}
+              </ul>
+            )}
+          </PreviewSection>
+
+          <PreviewSection title="교통 정보">
+            {preview.transportation.length === 0 ? (
+              <EmptyText>등록된 내용이 없습니다.</EmptyText>
+            ) : (
+              <div className="space-y-1 text-xs">
+                {preview.transportation.map((line, index) => (
+                  <p key={index}>{line}</p>
+                ))}
+              </div>
+            )}
+          </PreviewSection>
+        </div>
+      </div>
+    </div>
+  );
+}
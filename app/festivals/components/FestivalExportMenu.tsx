@@ -0,0 +1,39 @@
+import { downloadFile } from '@/lib/download';
+import { EXPORT_FILE_TYPES, ExportFormat, exportFestivals, getExportFileName } from '@/lib/festival-export';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Festival } from '@/types/festival';
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON (전체 정보)',
+  csv: 'CSV (타임테이블)',
+  ics: 'ICS (공연/예매 오픈 일정)',
+};
+
+interface FestivalExportMenuProps {
+  festivals: Festival[];
+  fileName: string; // 확장자와 시각은 getExportFileName에서 붙임
+}
+
+// 값을 비워 두는 Select - 같은 형식을 연달아 골라도 매번 내려받음
+export default function FestivalExportMenu({ festivals, fileName }: FestivalExportMenuProps) {
+  const handleExport = (exportFormat: ExportFormat) => {
+    if (festivals.length === 0) {
+      alert('내보낼 페스티벌이 없습니다.');
+      return;
+    }
+    downloadFile(exportFestivals(festivals, exportFormat), getExportFileName(fileName, exportFormat), EXPORT_FILE_TYPES[exportFormat]);
+  };
+
+  return (
+    <Select value="" onValueChange={value => handleExport(value as ExportFormat)}>
+      <SelectTrigger className="w-32">
+        <SelectValue placeholder="내보내기" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(exportFormat => (
+          <SelectItem key={exportFormat} value={exportFormat}>{EXPORT_FORMAT_LABELS[exportFormat]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
-import { Festival, TimeTable, TimeTableArtist, ReservationInfo, PerformanceURL, URLType } from '@/types/festival';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
+import { Festival, TimeTable, TimeTableArtist, ReservationInfo, PerformanceURL } from '@/types/festival';
 import { Place, PlaceRequestBody } from '@/types/place';
 import { fetchPlaces, createPlace, addTimeTable } from '@/lib/api';
 import { Button } from '@/components/ui/button';
@@ -8,8 +9,28 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import PlaceForm from './PlaceForm';
-import PasswordModal from '@/components/PasswordModal';
+import PosterPicker from './PosterPicker';
+import FestivalUrlEditor from './FestivalUrlEditor';
+import FestivalAppPreview from './FestivalAppPreview';
+import FieldError from '@/components/FieldError';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  clearFestivalDraft,
+  FestivalDraft,
+  FestivalDraftKey,
+  isSameFestivalFormData,
+  loadFestivalDraft,
+  saveFestivalDraft,
+} from '@/lib/festival-drafts';
+import { isUrlEditingEnabled } from '@/lib/url-types';
+import { getListErrors, useValidation } from '@/lib/validation';
+import { festivalRules, festivalUpdateRules, reservationInfoRules, timeTableRules } from '@/types/festival-rules';
+import { queryKeys, useQuerySubscription } from '@/lib/query-cache';
 import React from 'react';
+import { createLogger } from '@/lib/logger';
+import { FiSmartphone } from 'react-icons/fi';
+
+const log = createLogger('festivals');
 
 interface FestivalFormProps {
   onSubmit: (data: Omit<Festival, 'id'>) => Promise<void>;
@@ -18,9 +39,13 @@ interface FestivalFormProps {
   isOpen: boolean;
   isReadOnly?: boolean;
   hideTimeTableAndReservation?: boolean;
+  fieldErrors?: Record<string, string>; // 서버 검증 실패 시 필드별 에러 메시지
+  cloneSource?: Omit<Festival, 'id'>; // 복제본 - 새 페스티벌 폼을 이 값으로 채우고 함께 저장될 타임테이블/예매정보를 표시
+  isInitialDataStale?: boolean; // 폼을 연 뒤 서버의 initialData가 바뀜 - 작성 중인 내용을 지키려고 바로 반영하지 않음
+  onReloadInitialData?: () => void;
 }
 
-const getInitialFormData = (initialData?: Festival): Omit<Festival, 'id'> => ({
+const getInitialFormData = (initialData?: Omit<Festival, 'id'>): Omit<Festival, 'id'> => ({
   name: initialData?.name || '',
   placeId: initialData?.placeId || 0,
   placeName: initialData?.placeName || '',
@@ -36,18 +61,42 @@ const getInitialFormData = (initialData?: Festival): Omit<Festival, 'id'> => ({
   urlInfos: initialData?.urlInfos || [],
 });
 
-export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen, isReadOnly, hideTimeTableAndReservation }: FestivalFormProps) {
+// 시간 형식을 HH:mm으로 변환 (HHmm 입력 허용)
+const formatTime = (time: string) => {
+  if (time.includes(':')) {
+    return time; // 이미 HH:mm 형식인 경우
+  }
+  // HHmm 형식인 경우 HH:mm으로 변환
+  if (time.length === 4) {
+    return `${time.slice(0, 2)}:${time.slice(2)}`;
+  }
+  return time;
+};
+
+// 저장 시 표시할 목록 항목 에러 (예매정보, 타임테이블) - URL은 각 행 아래에 표시
+const LIST_FIELD_LABELS: [string, string][] = [
+  ['reservationInfos', '예매정보'],
+  ['timeTables', '타임테이블'],
+];
+
+export default function FestivalForm({
+  onSubmit,
+  onCancel,
+  initialData,
+  isOpen,
+  isReadOnly,
+  hideTimeTableAndReservation,
+  fieldErrors,
+  cloneSource,
+  isInitialDataStale,
+  onReloadInitialData,
+}: FestivalFormProps) {
   const [formData, setFormData] = useState<Omit<Festival, 'id'>>(() => getInitialFormData(initialData));
+  const { errors, touch, validateAll, reset: resetValidation } = useValidation(initialData ? festivalUpdateRules : festivalRules, formData, fieldErrors);
   const [places, setPlaces] = useState<Place[]>([]);
   const [isLoadingPlaces, setIsLoadingPlaces] = useState(false);
   const [isPlaceFormOpen, setIsPlaceFormOpen] = useState(false);
-  
-  const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
-  const [pendingPlaceData, setPendingPlaceData] = useState<PlaceRequestBody | null>(null);
-  
-  // 타임테이블 추가를 위한 비밀번호 모달 상태
-  const [isTimeTablePasswordModalOpen, setIsTimeTablePasswordModalOpen] = useState(false);
-  const [pendingTimeTableData, setPendingTimeTableData] = useState<any>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(true);
   
   const [newTimeTable, setNewTimeTable] = useState<Omit<TimeTable, 'id'>>({
     performanceDate: '',
@@ -66,11 +115,6 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
     remark: '',
   });
 
-  const [newUrlInfo, setNewUrlInfo] = useState<PerformanceURL>({
-    url: '',
-    type: URLType.HOMEPAGE,
-  });
-
   const [editingReservationIndex, setEditingReservationIndex] = useState<number | null>(null);
   const [editReservationInfo, setEditReservationInfo] = useState<ReservationInfo>({
     openDateTime: '',
@@ -82,10 +126,40 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
   const [showAddReservationForm, setShowAddReservationForm] = useState(false);
   const [showReservationSection, setShowReservationSection] = useState(false);
 
+  const newTimeTableData = useMemo(
+    () => ({ ...newTimeTable, startTime: formatTime(newTimeTable.startTime), endTime: formatTime(newTimeTable.endTime) }),
+    [newTimeTable]
+  );
+  const newTimeTableRules = useMemo(
+    () => timeTableRules({ startDate: formData.startDate, endDate: formData.endDate }),
+    [formData.startDate, formData.endDate]
+  );
+  const timeTableValidation = useValidation(newTimeTableRules, newTimeTableData);
+  const reservationValidation = useValidation(reservationInfoRules, newReservationInfo);
+  const editReservationValidation = useValidation(reservationInfoRules, editReservationInfo);
+
+  // 초안 - 연 시점의 내용(baseline)과 다르면 자동 저장, 닫힌 동안은 null
+  const [baseline, setBaseline] = useState<Omit<Festival, 'id'> | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<FestivalDraft | null>(null);
+  const draftKeyRef = useRef<FestivalDraftKey>('new');
+  const isSubmittedRef = useRef(false);
+  const isDirty = isOpen && baseline !== null && !isSameFestivalFormData(formData, baseline);
+
   useEffect(() => {
+    resetValidation();
+    timeTableValidation.reset();
+    reservationValidation.reset();
+    editReservationValidation.reset();
     if (isOpen) {
       loadPlaces();
-      setFormData(getInitialFormData(initialData));
+      const initialFormData = getInitialFormData(initialData ?? cloneSource);
+      setFormData(initialFormData);
+
+      draftKeyRef.current = initialData?.id ?? 'new';
+      isSubmittedRef.current = false;
+      const draft = isReadOnly ? null : loadFestivalDraft(draftKeyRef.current);
+      setBaseline(initialFormData);
+      setPendingDraft(draft && !isSameFestivalFormData(draft.data, initialFormData) ? draft : null);
       
       // 타임테이블 등록 시 페스티벌의 첫날짜를 기본값으로 설정
       if (initialData?.startDate) {
@@ -95,7 +169,10 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
         }));
       }
     } else {
-      // 폼이 닫힐 때 모든 상태를 초기화
+      // 폼이 닫힐 때 모든 상태를 초기화 - 저장한 뒤 닫힌 경우 초안도 삭제
+      if (isSubmittedRef.current) clearFestivalDraft(draftKeyRef.current);
+      setBaseline(null);
+      setPendingDraft(null);
       setFormData(getInitialFormData());
       setNewTimeTable({
         performanceDate: '',
@@ -112,10 +189,6 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
         type: '',
         remark: '',
       });
-      setNewUrlInfo({
-        url: '',
-        type: URLType.HOMEPAGE,
-      });
       setEditingReservationIndex(null);
       setEditReservationInfo({
         openDateTime: '',
@@ -127,43 +200,93 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
       setShowAddReservationForm(false);
       setShowReservationSection(false);
       setIsPlaceFormOpen(false);
-      setIsPasswordModalOpen(false);
-      setIsTimeTablePasswordModalOpen(false);
-      setPendingPlaceData(null);
-      setPendingTimeTableData(null);
     }
-  }, [initialData, isOpen]);
+  }, [initialData, cloneSource, isOpen]);
+
+  // 입력을 멈추고 0.5초 뒤 자동 저장 - 복원 여부를 고르기 전에는 이전 초안을 덮어쓰지 않음
+  useEffect(() => {
+    if (!isOpen || isReadOnly || !baseline || pendingDraft) return;
+    if (!isDirty) {
+      clearFestivalDraft(draftKeyRef.current);
+      return;
+    }
+    const timeoutId = setTimeout(() => saveFestivalDraft(draftKeyRef.current, formData), 500);
+    return () => clearTimeout(timeoutId);
+  }, [formData, baseline, pendingDraft, isOpen]);
+
+  // 저장하지 않은 변경이 있으면 새로고침/탭 닫기 전에 브라우저 확인창 표시
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // 사이드바 등 앱 안의 링크(next/link)로 이동할 때도 확인 - 새로고침이 아니라서 beforeunload가 발생하지 않음
+  // 캡처 단계에서 먼저 받아 취소하면 Link의 클릭 처리까지 전달되지 않음
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleLinkClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      const anchor = (e.target as Element | null)?.closest?.('a[href]');
+      if (!(anchor instanceof HTMLAnchorElement) || (anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) return;
+      const url = new URL(anchor.href, window.location.href);
+      if (url.origin !== window.location.origin) return;
+      if (url.pathname === window.location.pathname && url.search === window.location.search) return;
+      if (confirm('저장하지 않은 변경사항이 있습니다. 페이지를 떠나시겠습니까?\n작성 중인 내용은 초안으로 보관되어 다시 열 때 복원할 수 있습니다.')) {
+        // 자동 저장을 기다리지 않고 바로 초안 보관
+        if (!isReadOnly && !pendingDraft) saveFestivalDraft(draftKeyRef.current, formData);
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    document.addEventListener('click', handleLinkClick, true);
+    return () => document.removeEventListener('click', handleLinkClick, true);
+  }, [isDirty, formData, pendingDraft]);
 
   // 장소 목록이 로드된 후 placeId 설정
   useEffect(() => {
+    // 목록에서 이미 id로 연결된 경우 placeId가 있으므로, 이름은 연결되지 않은 경우에만 참고 (후보가 하나일 때만)
     if (places.length > 0 && initialData?.placeName && !formData.placeId) {
-      const matchingPlace = places.find(p => p.placeName === initialData.placeName);
+      const candidates = places.filter(p => p.placeName === initialData.placeName);
+      const matchingPlace = candidates.length === 1 ? candidates[0] : undefined;
       if (matchingPlace) {
-        setFormData(prev => ({
-          ...prev,
+        const placeFields = {
           placeId: matchingPlace.id,
           placeName: matchingPlace.placeName,
           placeAddress: matchingPlace.address,
-        }));
+        };
+        setFormData(prev => ({ ...prev, ...placeFields }));
+        // 사용자가 바꾼 내용이 아니므로 초안 비교 기준에도 반영
+        setBaseline(prev => prev && { ...prev, ...placeFields });
       }
     }
   }, [places, initialData, formData.placeId]);
 
+  // 장소 추가 등으로 캐시가 갱신되면 선택 목록도 다시 반영
+  useQuerySubscription([queryKeys.places], () => {
+    if (isOpen) loadPlaces();
+  });
+
   const loadPlaces = async () => {
     setIsLoadingPlaces(true);
     try {
       const data = await fetchPlaces();
       setPlaces(data);
     } catch (error) {
-      console.error("Failed to fetch places", error);
+      log.error("Failed to fetch places", error);
       alert("장소 목록을 불러오는데 실패했습니다.");
     } finally {
       setIsLoadingPlaces(false);
     }
   };
 
-  const handlePlaceSelect = (placeName: string) => {
-    const selectedPlace = places.find(p => p.placeName === placeName);
+  const handlePlaceSelect = (placeId: string) => {
+    const selectedPlace = places.find(p => p.id === Number(placeId));
     if (selectedPlace) {
       setFormData(prev => ({
         ...prev,
@@ -173,100 +296,97 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
         // Reset timetables when place changes as halls will be different
         timeTables: [], 
       }));
+      touch('placeId');
     }
   };
   
   const handleCreatePlace = async (placeData: PlaceRequestBody) => {
-    setPendingPlaceData(placeData);
-    setIsPasswordModalOpen(true);
-  };
-  
-  const handlePasswordConfirmForPlace = async (password: string) => {
-    if (!pendingPlaceData) return;
     try {
-      await createPlace(pendingPlaceData);
+      await createPlace(placeData);
       alert('장소가 성공적으로 추가되었습니다.');
       setIsPlaceFormOpen(false);
       await loadPlaces();
-    } catch (error: any) {
-      alert(`장소 추가 오류: ${error.message}`);
-    } finally {
-      setIsPasswordModalOpen(false);
-      setPendingPlaceData(null);
+    } catch (error) {
+      alert(`장소 추가 오류: ${getErrorMessage(error)}`);
     }
   };
 
-  const selectedPlace = places.find(p => p.placeName === formData.placeName);
+  const selectedPlace = places.find(p => p.id === formData.placeId);
+  const hallNames = useMemo(
+    () => Object.fromEntries((selectedPlace?.halls ?? []).map(h => [h.id, h.name])),
+    [selectedPlace]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!validateAll()) return;
+    isSubmittedRef.current = true;
     await onSubmit(formData);
   };
 
+  // 취소/✕ - 변경이 있으면 확인 후 닫고, 마지막 입력까지 초안으로 보관
+  const handleReloadInitialData = () => {
+    if (isDirty && !confirm('작성 중인 내용 대신 최신 내용을 불러오시겠습니까?\n작성 중인 내용은 초안으로 보관되어 복원할 수 있습니다.')) return;
+    if (isDirty && !isReadOnly && !pendingDraft) saveFestivalDraft(draftKeyRef.current, formData);
+    onReloadInitialData?.();
+  };
+
+  const handleCancel = () => {
+    if (isDirty) {
+      if (!confirm('저장하지 않은 변경사항이 있습니다. 닫으시겠습니까?\n작성 중인 내용은 초안으로 보관되어 다시 열 때 복원할 수 있습니다.')) return;
+      if (!isReadOnly && !pendingDraft) saveFestivalDraft(draftKeyRef.current, formData);
+    }
+    isSubmittedRef.current = false;
+    onCancel();
+  };
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    setFormData(pendingDraft.data);
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearFestivalDraft(draftKeyRef.current);
+    setPendingDraft(null);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { id, value } = e.target;
     setFormData(prev => ({ ...prev, [id]: value }));
+    touch(id);
   };
 
-  const handleAddTimeTable = () => {
-    if (!newTimeTable.performanceDate || !newTimeTable.startTime || !newTimeTable.endTime) {
-      alert('타임테이블의 날짜와 시간을 모두 입력해주세요.');
-      return;
-    }
-    
-    if (!newTimeTable.hallId || newTimeTable.hallId === 0) {
-      alert('홀을 선택해주세요.');
-      return;
-    }
+  const handleNewTimeTableChange = <K extends keyof TimeTable>(field: K, value: TimeTable[K]) => {
+    setNewTimeTable(prev => ({ ...prev, [field]: value }));
+    timeTableValidation.touch(field);
+  };
+
+  const handleNewReservationChange = (field: keyof ReservationInfo, value: string) => {
+    setNewReservationInfo(prev => ({ ...prev, [field]: value }));
+    reservationValidation.touch(field);
+  };
+
+  const handleEditReservationChange = (field: keyof ReservationInfo, value: string) => {
+    setEditReservationInfo(prev => ({ ...prev, [field]: value }));
+    editReservationValidation.touch(field);
+  };
+
+  const handleAddTimeTable = async () => {
+    if (!timeTableValidation.validateAll() || !newTimeTableData.hallId) return;
 
     if (!initialData?.id) {
       alert('페스티벌 ID가 없습니다.');
       return;
     }
 
-    // 디버깅 정보 출력
-    console.log('Selected place:', selectedPlace);
-    console.log('Selected place ID:', selectedPlace?.id);
-    console.log('Selected hall ID:', newTimeTable.hallId);
-    console.log('Available halls:', selectedPlace?.halls);
-
-    // 타임테이블 데이터를 저장하고 비밀번호 모달 열기
-    setPendingTimeTableData({
-      performanceDate: newTimeTable.performanceDate,
-      startTime: newTimeTable.startTime,
-      endTime: newTimeTable.endTime,
-      hallId: newTimeTable.hallId,
-    });
-    setIsTimeTablePasswordModalOpen(true);
-  };
-
-  const handleTimeTablePasswordConfirm = async (password: string) => {
-    if (!pendingTimeTableData || !initialData?.id) return;
-    
-    // 시간 형식을 HH:mm으로 변환
-    const formatTime = (time: string) => {
-      if (time.includes(':')) {
-        return time; // 이미 HH:mm 형식인 경우
-      }
-      // HHmm 형식인 경우 HH:mm으로 변환
-      if (time.length === 4) {
-        return `${time.slice(0, 2)}:${time.slice(2)}`;
-      }
-      return time;
-    };
-    
     const formattedData = {
-      performanceDate: pendingTimeTableData.performanceDate,
-      startTime: formatTime(pendingTimeTableData.startTime),
-      endTime: formatTime(pendingTimeTableData.endTime),
-      hallId: pendingTimeTableData.hallId,
-      password: password,
+      performanceDate: newTimeTableData.performanceDate,
+      startTime: newTimeTableData.startTime,
+      endTime: newTimeTableData.endTime,
+      hallId: newTimeTableData.hallId,
     };
-    
-    // 디버깅을 위한 로깅
-    console.log('Performance ID:', initialData.id);
-    console.log('Original TimeTable Data:', pendingTimeTableData);
-    console.log('Formatted TimeTable Data:', formattedData);
+    log.debug(`addTimeTable festival ${initialData.id}`, formattedData);
     
     try {
       await addTimeTable(initialData.id, formattedData);
@@ -291,24 +411,13 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
         hallId: 0,
         artists: [],
       });
-    } catch (error: any) {
-      let errorMessage = error.message || '알 수 없는 오류가 발생했습니다.';
-      if (error.message && error.message.includes('401')) {
-        errorMessage = '비밀번호를 확인해주세요.';
-      }
-      alert(`오류: ${errorMessage}`);
-      console.error('API Error:', error);
-    } finally {
-      setIsTimeTablePasswordModalOpen(false);
-      setPendingTimeTableData(null);
+      timeTableValidation.reset();
+    } catch (error) {
+      log.error('API Error:', error);
+      alert(`오류: ${getErrorMessage(error)}`);
     }
   };
 
-  const handleTimeTablePasswordCancel = () => {
-    setIsTimeTablePasswordModalOpen(false);
-    setPendingTimeTableData(null);
-  };
-
   const handleAddArtistToTimeTable = (timeTableId: string) => {
     if (!newArtist.artistId) {
       alert('아티스트 ID를 입력하세요.');
@@ -337,10 +446,7 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
   };
 
   const handleAddReservationInfo = () => {
-    if (!newReservationInfo.openDateTime || !newReservationInfo.closeDateTime || !newReservationInfo.ticketURL || !newReservationInfo.type) {
-      alert('예매 정보의 모든 필수 필드를 입력해주세요.');
-      return;
-    }
+    if (!reservationValidation.validateAll()) return;
 
     setFormData(prev => ({
       ...prev,
@@ -354,6 +460,7 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
       type: '',
       remark: '',
     });
+    reservationValidation.reset();
   };
 
   const handleRemoveReservationInfo = (id: number) => {
@@ -363,38 +470,24 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
     }));
   };
 
-  const handleAddUrlInfo = () => {
-    if (!newUrlInfo.url) {
-      alert('URL을 입력해주세요.');
-      return;
-    }
+  // 등록된 페스티벌의 URL은 URL 수정을 켠 빌드에서만 바꿀 수 있음 (lib/url-types.ts)
+  const isUrlLocked = Boolean(initialData) && !isUrlEditingEnabled();
 
-    setFormData(prev => ({
-      ...prev,
-      urlInfos: [...prev.urlInfos, { ...newUrlInfo }],
-    }));
-
-    setNewUrlInfo({
-      url: '',
-      type: URLType.HOMEPAGE,
-    });
-  };
-
-  const handleRemoveUrlInfo = (index: number) => {
-    setFormData(prev => ({
-      ...prev,
-      urlInfos: prev.urlInfos.filter((_, i) => i !== index),
-    }));
+  const handleUrlInfosChange = (urlInfos: PerformanceURL[]) => {
+    setFormData(prev => ({ ...prev, urlInfos }));
+    touch('urlInfos');
   };
 
   const handleEditReservationInfo = (index: number) => {
     const reservation = formData.reservationInfos[index];
     setEditingReservationIndex(index);
     setEditReservationInfo(reservation);
+    editReservationValidation.reset();
   };
 
   const handleSaveEditReservationInfo = (index: number) => {
     if (editingReservationIndex !== null) {
+      if (!editReservationValidation.validateAll()) return;
       const updatedReservationInfos = formData.reservationInfos.map((ri, i) =>
         i === editingReservationIndex ? editReservationInfo : ri
       );
@@ -412,28 +505,58 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
 
   if (!isOpen) return null;
 
+  const listErrorMessages = LIST_FIELD_LABELS.flatMap(([field, label]) =>
+    getListErrors(errors, field).map(error => `${label} ${error.index + 1}: ${error.message}`)
+  );
+
   return (
-    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center gap-6 p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 z-10">
           <div className="flex justify-between items-center">
             <h2 className="text-2xl font-bold text-gray-900">
-              {isReadOnly ? '페스티벌 상세보기' : (initialData ? '페스티벌 수정' : '새 페스티벌 추가')}
+              {isReadOnly ? '페스티벌 상세보기' : (initialData ? '페스티벌 수정' : cloneSource ? '페스티벌 복제' : '새 페스티벌 추가')}
             </h2>
-            <Button variant="ghost" size="sm" onClick={onCancel}>✕</Button>
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" size="sm" className="hidden xl:inline-flex" onClick={() => setIsPreviewOpen(open => !open)}>
+                <FiSmartphone className="mr-2" />
+                {isPreviewOpen ? '미리보기 닫기' : '앱 미리보기'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleCancel}>✕</Button>
+            </div>
           </div>
         </div>
         
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {isInitialDataStale && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800">
+              <span>폼을 연 뒤 다른 곳에서 이 페스티벌이 변경되었습니다. 그대로 저장하면 변경된 내용을 덮어씁니다.</span>
+              {onReloadInitialData && (
+                <Button type="button" size="sm" variant="outline" className="shrink-0" onClick={handleReloadInitialData}>
+                  최신 내용 불러오기
+                </Button>
+              )}
+            </div>
+          )}
+          {pendingDraft && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              <span>{format(pendingDraft.savedAt, 'yyyy-MM-dd HH:mm')}에 자동 저장된 초안이 있습니다. 복원하시겠습니까?</span>
+              <div className="flex shrink-0 gap-2">
+                <Button type="button" size="sm" onClick={handleRestoreDraft}>복원</Button>
+                <Button type="button" size="sm" variant="outline" onClick={handleDiscardDraft}>삭제</Button>
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
               <Label htmlFor="name">이름</Label>
               <Input id="name" required value={formData.name} onChange={handleInputChange} disabled={isReadOnly} />
+              <FieldError message={errors.name} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="place">장소</Label>
               <div className="flex gap-2">
-                <Select onValueChange={handlePlaceSelect} value={formData.placeName || ''} disabled={isReadOnly || (initialData && hideTimeTableAndReservation)}>
+                <Select onValueChange={handlePlaceSelect} value={formData.placeId ? String(formData.placeId) : ''} disabled={isReadOnly || (initialData && hideTimeTableAndReservation)}>
                   <SelectTrigger>
                     <SelectValue placeholder="장소를 선택하세요" />
                   </SelectTrigger>
@@ -441,7 +564,7 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                     {isLoadingPlaces ? (
                       <SelectItem value="loading" disabled>불러오는 중...</SelectItem>
                     ) : (
-                      places.map(p => <SelectItem key={p.id} value={p.placeName}>{p.placeName}</SelectItem>)
+                      places.map(p => <SelectItem key={p.id} value={String(p.id)}>{p.placeName}</SelectItem>)
                     )}
                   </SelectContent>
                 </Select>
@@ -450,18 +573,30 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                 )}
               </div>
               {selectedPlace && <p className="text-sm text-gray-500 mt-1">{selectedPlace.address}</p>}
+              <FieldError message={errors.placeId} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="startDate">시작일</Label>
               <Input id="startDate" type="date" required value={formData.startDate} onChange={handleInputChange} disabled={isReadOnly} />
+              <FieldError message={errors.startDate} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="endDate">종료일</Label>
               <Input id="endDate" type="date" required value={formData.endDate} onChange={handleInputChange} disabled={isReadOnly} />
+              <FieldError message={errors.endDate} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="posterUrl">포스터 URL</Label>
-              <Input id="posterUrl" type="url" required value={formData.posterUrl} onChange={handleInputChange} disabled={isReadOnly} />
+              <Label htmlFor="posterUrl">포스터</Label>
+              <PosterPicker
+                id="posterUrl"
+                value={formData.posterUrl}
+                onChange={posterUrl => {
+                  setFormData(prev => ({ ...prev, posterUrl }));
+                  touch('posterUrl');
+                }}
+                disabled={isReadOnly}
+              />
+              <FieldError message={errors.posterUrl} />
             </div>
             <div className="space-y-2 md:col-span-2">
               <Label htmlFor="banGoods">금지 물품</Label>
@@ -475,6 +610,7 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                   placeholder="금지 물품을 입력하세요..."
                 />
               </div>
+              <FieldError message={errors.banGoods} />
             </div>
             <div className="space-y-2 md:col-span-2">
               <Label htmlFor="transportationInfo">교통 정보</Label>
@@ -488,10 +624,12 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                   placeholder="교통 정보를 입력하세요..."
                 />
               </div>
+              <FieldError message={errors.transportationInfo} />
             </div>
             <div className="space-y-2 md:col-span-2">
               <Label htmlFor="remark">비고</Label>
               <Textarea id="remark" value={formData.remark} onChange={handleInputChange} disabled={isReadOnly} />
+              <FieldError message={errors.remark} />
             </div>
           </div>
           
@@ -499,71 +637,58 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
           <div className="border-t pt-6 space-y-4">
             <div className="flex items-center gap-2">
               <h3 className="text-lg font-medium">URL 정보</h3>
-              <span className="text-xs text-gray-500">(인스타그램 등)</span>
+              <span className="text-xs text-gray-500">(홈페이지, SNS, 예매처 등 - 목록 순서대로 표시됨)</span>
             </div>
-            {formData.urlInfos.length === 0 ? (
-              <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">
-                등록된 URL이 없습니다.
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {formData.urlInfos.map((urlInfo, index) => (
-                  <div key={index} className="p-4 border rounded-lg bg-white hover:shadow-md transition-shadow">
-                    <div className="flex items-center gap-3 mb-3">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                        urlInfo.type === URLType.INSTAGRAM 
-                          ? 'bg-gradient-to-r from-purple-500 to-pink-500' 
-                          : 'bg-gradient-to-r from-blue-500 to-blue-600'
-                      }`}>
-                        {urlInfo.type === URLType.INSTAGRAM ? (
-                          <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z"/>
-                          </svg>
-                        ) : (
-                          <svg className="w-4 h-4 text-white" fill="currentColor" viewBox="0 0 24 24">
-                            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-1 17.93c-3.94-.49-7-3.85-7-7.93 0-.62.08-1.21.21-1.79L9 15v1c0 1.1.9 2 2 2v1.93zm6.9-2.54c-.26-.81-1-1.39-1.9-1.39h-1v-3c0-.55-.45-1-1-1H8v-2h2c.55 0 1-.45 1-1V7h2c1.1 0 2-.9 2-2v-.41c2.93 1.19 5 4.06 5 7.41 0 2.08-.8 3.97-2.1 5.39z"/>
-                          </svg>
-                        )}
-                      </div>
-                      <div>
-                        <span className="font-medium text-gray-900">
-                          {urlInfo.type === URLType.INSTAGRAM ? '인스타그램' : '홈페이지'}
-                        </span>
-                      </div>
-                    </div>
-                    <a 
-                      href={urlInfo.url} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 hover:underline break-all text-sm"
-                    >
-                      {urlInfo.url}
-                    </a>
-                  </div>
-                ))}
-              </div>
+            {isUrlLocked && (
+              <p className="text-sm text-gray-500">등록된 페스티벌의 URL 수정은 아직 서버에서 지원하지 않습니다. URL은 페스티벌을 추가할 때만 저장됩니다.</p>
             )}
-            <div className="p-4 border rounded-lg space-y-4 bg-gray-50">
-                <h4 className="font-medium">새 URL 추가</h4>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Select onValueChange={(type) => setNewUrlInfo(p => ({...p, type: type as URLType}))} value={newUrlInfo.type}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="URL 타입 선택" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value={URLType.HOMEPAGE}>홈페이지</SelectItem>
-                      <SelectItem value={URLType.INSTAGRAM}>인스타그램</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Input type="url" placeholder="URL 입력" value={newUrlInfo.url} onChange={e => setNewUrlInfo(p => ({...p, url: e.target.value}))} />
-                </div>
-                <div className="flex items-center gap-2 mt-2">
-                  <Button type="button" onClick={handleAddUrlInfo}>URL 추가</Button>
-                  <span className="text-xs text-gray-500">URL 추가 버튼을 누른 후 저장해주세요</span>
-                </div>
-              </div>
+            <FieldError message={errors.urlInfos} />
+            <FestivalUrlEditor
+              urlInfos={formData.urlInfos}
+              onChange={handleUrlInfosChange}
+              errors={getListErrors(errors, 'urlInfos')}
+              disabled={isReadOnly || isUrlLocked}
+            />
           </div>
           
+          {/* 복제 시 함께 저장될 항목 - 장소를 바꾸면 홀이 달라지므로 타임테이블은 비워짐 */}
+          {cloneSource && (
+            <div className="border-t pt-6 space-y-4">
+              <h3 className="text-lg font-medium">함께 복제될 항목</h3>
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">타임테이블 ({formData.timeTables.length})</h4>
+                {formData.timeTables.length === 0 ? (
+                  <p className="text-sm text-gray-500">복제할 타임테이블이 없습니다.</p>
+                ) : (
+                  <ul className="rounded-md border divide-y divide-gray-100 text-sm">
+                    {formData.timeTables.map((tt, index) => (
+                      <li key={index} className="px-3 py-2">
+                        {tt.performanceDate} {tt.startTime}~{tt.endTime} · {tt.hallName || `홀 ID: ${tt.hallId}`}
+                        {tt.artists.length > 0 && (
+                          <span className="text-gray-500"> · {tt.artists.map(a => a.artistName || `#${a.artistId}`).join(', ')}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">예매정보 ({formData.reservationInfos.length})</h4>
+                {formData.reservationInfos.length === 0 ? (
+                  <p className="text-sm text-gray-500">복제할 예매정보가 없습니다.</p>
+                ) : (
+                  <ul className="rounded-md border divide-y divide-gray-100 text-sm">
+                    {formData.reservationInfos.map((ri, index) => (
+                      <li key={index} className="px-3 py-2">
+                        {ri.type} · {ri.openDateTime} ~ {ri.closeDateTime}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* TimeTables Section - 수정 시에만 표시 */}
           {initialData && !isReadOnly && !hideTimeTableAndReservation && (
             <div className="border-t pt-6 space-y-4">
@@ -586,17 +711,29 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
               <div className="p-4 border rounded-lg space-y-4 bg-gray-50">
                 <h4 className="font-medium">새 타임테이블 추가</h4>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <Input type="date" value={newTimeTable.performanceDate} onChange={e => setNewTimeTable(p => ({...p, performanceDate: e.target.value}))} />
-                  <Input placeholder="시작시간 (HH:mm)" value={newTimeTable.startTime} onChange={e => setNewTimeTable(p => ({...p, startTime: e.target.value}))} />
-                  <Input placeholder="종료시간 (HH:mm)" value={newTimeTable.endTime} onChange={e => setNewTimeTable(p => ({...p, endTime: e.target.value}))} />
-                  <Select onValueChange={(hallId) => setNewTimeTable(p => ({...p, hallId: parseInt(hallId, 10)}))}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="홀 선택" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {selectedPlace?.halls.map(h => <SelectItem key={h.id} value={h.id.toString()}>{h.name} (ID: {h.id})</SelectItem>)}
-                    </SelectContent>
-                  </Select>
+                  <div>
+                    <Input type="date" value={newTimeTable.performanceDate} onChange={e => handleNewTimeTableChange('performanceDate', e.target.value)} />
+                    <FieldError message={timeTableValidation.errors.performanceDate} />
+                  </div>
+                  <div>
+                    <Input placeholder="시작시간 (HH:mm)" value={newTimeTable.startTime} onChange={e => handleNewTimeTableChange('startTime', e.target.value)} />
+                    <FieldError message={timeTableValidation.errors.startTime} />
+                  </div>
+                  <div>
+                    <Input placeholder="종료시간 (HH:mm)" value={newTimeTable.endTime} onChange={e => handleNewTimeTableChange('endTime', e.target.value)} />
+                    <FieldError message={timeTableValidation.errors.endTime} />
+                  </div>
+                  <div>
+                    <Select onValueChange={(hallId) => handleNewTimeTableChange('hallId', parseInt(hallId, 10))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="홀 선택" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedPlace?.halls.map(h => <SelectItem key={h.id} value={h.id.toString()}>{h.name} (ID: {h.id})</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FieldError message={timeTableValidation.errors.hallId} />
+                  </div>
                 </div>
                 <Button type="button" onClick={handleAddTimeTable}>타임테이블 추가</Button>
               </div>
@@ -617,11 +754,23 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                     <div key={ri.id || index} className="p-4 border rounded-lg space-y-2">
                       {editingReservationIndex === index ? (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <Input type="datetime-local" value={editReservationInfo.openDateTime} onChange={e => setEditReservationInfo(p => ({...p, openDateTime: e.target.value}))} />
-                          <Input type="datetime-local" value={editReservationInfo.closeDateTime} onChange={e => setEditReservationInfo(p => ({...p, closeDateTime: e.target.value}))} />
-                          <Input placeholder="예매 종류" value={editReservationInfo.type} onChange={e => setEditReservationInfo(p => ({...p, type: e.target.value}))} />
-                          <Input type="url" placeholder="예매처 URL" value={editReservationInfo.ticketURL} onChange={e => setEditReservationInfo(p => ({...p, ticketURL: e.target.value}))} />
-                          <Textarea placeholder="비고" value={editReservationInfo.remark} onChange={e => setEditReservationInfo(p => ({...p, remark: e.target.value}))} className="md:col-span-2" />
+                          <div>
+                            <Input type="datetime-local" value={editReservationInfo.openDateTime} onChange={e => handleEditReservationChange('openDateTime', e.target.value)} />
+                            <FieldError message={editReservationValidation.errors.openDateTime} />
+                          </div>
+                          <div>
+                            <Input type="datetime-local" value={editReservationInfo.closeDateTime} onChange={e => handleEditReservationChange('closeDateTime', e.target.value)} />
+                            <FieldError message={editReservationValidation.errors.closeDateTime} />
+                          </div>
+                          <div>
+                            <Input placeholder="예매 종류" value={editReservationInfo.type} onChange={e => handleEditReservationChange('type', e.target.value)} />
+                            <FieldError message={editReservationValidation.errors.type} />
+                          </div>
+                          <div>
+                            <Input type="url" placeholder="예매처 URL" value={editReservationInfo.ticketURL} onChange={e => handleEditReservationChange('ticketURL', e.target.value)} />
+                            <FieldError message={editReservationValidation.errors.ticketURL} />
+                          </div>
+                          <Textarea placeholder="비고" value={editReservationInfo.remark} onChange={e => handleEditReservationChange('remark', e.target.value)} className="md:col-span-2" />
                           <div className="col-span-2 flex gap-2 mt-2">
                             <Button type="button" onClick={() => handleSaveEditReservationInfo(index)}>저장</Button>
                             <Button type="button" variant="outline" onClick={handleCancelEditReservationInfo}>취소</Button>
@@ -646,11 +795,23 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
                   <div className="p-4 border rounded-lg space-y-4 bg-gray-50 mt-4">
                     <h4 className="font-medium">새 예매 정보 추가</h4>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <Input type="datetime-local" placeholder="오픈 일시" value={newReservationInfo.openDateTime} onChange={e => setNewReservationInfo(p => ({...p, openDateTime: e.target.value}))} />
-                      <Input type="datetime-local" placeholder="마감 일시" value={newReservationInfo.closeDateTime} onChange={e => setNewReservationInfo(p => ({...p, closeDateTime: e.target.value}))} />
-                      <Input placeholder="예매 종류" value={newReservationInfo.type} onChange={e => setNewReservationInfo(p => ({...p, type: e.target.value}))} />
-                      <Input type="url" placeholder="예매처 URL" value={newReservationInfo.ticketURL} onChange={e => setNewReservationInfo(p => ({...p, ticketURL: e.target.value}))} />
-                      <Textarea placeholder="비고" value={newReservationInfo.remark} onChange={e => setNewReservationInfo(p => ({...p, remark: e.target.value}))} className="md:col-span-2" />
+                      <div>
+                        <Input type="datetime-local" placeholder="오픈 일시" value={newReservationInfo.openDateTime} onChange={e => handleNewReservationChange('openDateTime', e.target.value)} />
+                        <FieldError message={reservationValidation.errors.openDateTime} />
+                      </div>
+                      <div>
+                        <Input type="datetime-local" placeholder="마감 일시" value={newReservationInfo.closeDateTime} onChange={e => handleNewReservationChange('closeDateTime', e.target.value)} />
+                        <FieldError message={reservationValidation.errors.closeDateTime} />
+                      </div>
+                      <div>
+                        <Input placeholder="예매 종류" value={newReservationInfo.type} onChange={e => handleNewReservationChange('type', e.target.value)} />
+                        <FieldError message={reservationValidation.errors.type} />
+                      </div>
+                      <div>
+                        <Input type="url" placeholder="예매처 URL" value={newReservationInfo.ticketURL} onChange={e => handleNewReservationChange('ticketURL', e.target.value)} />
+                        <FieldError message={reservationValidation.errors.ticketURL} />
+                      </div>
+                      <Textarea placeholder="비고" value={newReservationInfo.remark} onChange={e => handleNewReservationChange('remark', e.target.value)} className="md:col-span-2" />
                     </div>
                     <div className="flex gap-2 mt-2">
                       <Button type="button" onClick={handleAddReservationInfo}>추가</Button>
@@ -664,31 +825,31 @@ export default function FestivalForm({ onSubmit, onCancel, initialData, isOpen,
             </div>
           )}
 
+          {listErrorMessages.length > 0 && (
+            <ul className="rounded-md border border-red-200 bg-red-50 p-3 space-y-1 text-sm text-red-600" role="alert">
+              {listErrorMessages.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
           <div className="flex justify-end space-x-3 pt-6 border-t">
-            <Button type="button" variant="outline" onClick={onCancel}>취소</Button>
+            <Button type="button" variant="outline" onClick={handleCancel}>취소</Button>
             <Button type="submit">저장</Button>
           </div>
         </form>
       </div>
+      {/* 앱 미리보기 - 폼 옆에 둘 자리가 있는 넓은 화면에서만 */}
+      {isPreviewOpen && (
+        <div className="hidden xl:block">
+          <FestivalAppPreview festival={formData} artists={initialData?.artists} hallNames={hallNames} />
+        </div>
+      )}
       <PlaceForm 
         isOpen={isPlaceFormOpen}
         onCancel={() => setIsPlaceFormOpen(false)}
         onSubmit={handleCreatePlace}
       />
-      <PasswordModal 
-        isOpen={isPasswordModalOpen}
-        onCancel={() => setIsPasswordModalOpen(false)}
-        onConfirm={handlePasswordConfirmForPlace}
-        title="장소 추가"
-        message="새 장소를 추가하려면 관리자 비밀번호를 입력해주세요."
-      />
-      <PasswordModal 
-        isOpen={isTimeTablePasswordModalOpen}
-        onCancel={handleTimeTablePasswordCancel}
-        onConfirm={handleTimeTablePasswordConfirm}
-        title="타임테이블 추가"
-        message="새 타임테이블을 추가하려면 관리자 비밀번호를 입력해주세요."
-      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { Festival } from '@/types/festival';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface LineupEntry {
+  artistId: number;
+  name: string;
+  appearances: string[]; // "2024-05-01 18:00 메인 스테이지 (MAIN)"
+}
+
+// 페스티벌에 연결된 아티스트와 타임테이블 출연 정보를 아티스트별로 묶음
+// 타임테이블에만 있는 아티스트도 포함
+const buildLineup = (festival: Festival): LineupEntry[] => {
+  const entries = new Map<number, LineupEntry>();
+
+  (festival.artists || []).forEach(artist => {
+    entries.set(artist.id, { artistId: artist.id, name: artist.displayName, appearances: [] });
+  });
+
+  festival.timeTables.forEach(timeTable => {
+    timeTable.artists.forEach(artist => {
+      const entry = entries.get(artist.artistId) || {
+        artistId: artist.artistId,
+        name: artist.artistName || `#${artist.artistId}`,
+        appearances: [],
+      };
+      const hall = timeTable.hallName ? ` ${timeTable.hallName}` : '';
+      entry.appearances.push(`${timeTable.performanceDate} ${timeTable.startTime}${hall} (${artist.type})`);
+      entries.set(artist.artistId, entry);
+    });
+  });
+
+  return Array.from(entries.values()).sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+};
+
+interface FestivalLineupProps {
+  festival: Festival;
+}
+
+export default function FestivalLineup({ festival }: FestivalLineupProps) {
+  const lineup = buildLineup(festival);
+
+  if (lineup.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">
+        등록된 아티스트가 없습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>아티스트</TableHead>
+            <TableHead>출연</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lineup.map(entry => (
+            <TableRow key={entry.artistId}>
+              <TableCell className="font-medium">{entry.name}</TableCell>
+              <TableCell>
+                {entry.appearances.length === 0 ? (
+                  <span className="text-sm text-gray-400">타임테이블 미등록</span>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {entry.appearances.map((appearance, index) => (
+                      <li key={index}>{appearance}</li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FESTIVAL_STATUSES, FestivalListQuery, FestivalStatus } from '@/lib/festival-list';
+import { Place } from '@/types/place';
+import { FiSearch } from 'react-icons/fi';
+
+export const FESTIVAL_STATUS_LABELS: Record<FestivalStatus, string> = {
+  upcoming: '예정',
+  ongoing: '진행 중',
+  past: '종료',
+};
+
+const ALL = 'all';
+
+// 검색어는 입력이 멈춘 뒤에 URL에 반영
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface FestivalListFiltersProps {
+  query: FestivalListQuery;
+  places: Place[];
+  onChange: (changes: Partial<FestivalListQuery>) => void;
+  onReset: () => void;
+}
+
+export default function FestivalListFilters({ query, places, onChange, onReset }: FestivalListFiltersProps) {
+  const [searchText, setSearchText] = useState(query.search);
+
+  // 뒤로 가기나 공유 링크로 URL이 바뀌면 입력창도 맞춤
+  useEffect(() => {
+    setSearchText(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (searchText === query.search) return;
+    const timer = setTimeout(() => onChange({ search: searchText }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="relative">
+        <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <Input
+          value={searchText}
+          onChange={e => setSearchText(e.target.value)}
+          placeholder="페스티벌 이름, 장소, 아티스트 이름으로 검색"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="festival-filter-from">시작일</Label>
+          <Input id="festival-filter-from" type="date" value={query.from} onChange={e => onChange({ from: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="festival-filter-to">종료일</Label>
+          <Input id="festival-filter-to" type="date" value={query.to} onChange={e => onChange({ to: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label>장소</Label>
+          <Select
+            value={query.placeId ? String(query.placeId) : ALL}
+            onValueChange={value => onChange({ placeId: value === ALL ? undefined : Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체</SelectItem>
+              {places.map(place => (
+                <SelectItem key={place.id} value={String(place.id)}>{place.placeName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>상태</Label>
+          <Select
+            value={query.status ?? ALL}
+            onValueChange={value => onChange({ status: value === ALL ? undefined : (value as FestivalStatus) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체</SelectItem>
+              {FESTIVAL_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{FESTIVAL_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={query.isMissingPoster}
+            onChange={e => onChange({ isMissingPoster: e.target.checked })}
+          />
+          포스터 없음
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={query.isMissingTimeTable}
+            onChange={e => onChange({ isMissingTimeTable: e.target.checked })}
+          />
+          타임테이블 없음
+        </label>
+        <Button type="button" size="sm" variant="outline" onClick={onReset} className="ml-auto">
+          필터 초기화
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { diffLines, FestivalFieldDiff, getFestivalDiff, getFestivalUpdateImpacts } from '@/lib/festival-diff';
+import { Festival } from '@/types/festival';
+import { FiAlertTriangle } from 'react-icons/fi';
+
+interface FestivalUpdateDiffDialogProps {
+  original: Festival;
+  edited: Omit<Festival, 'id'> | null;
+  onConfirm: (edited: Omit<Festival, 'id'>) => Promise<void>;
+  onClose: () => void;
+}
+
+const EMPTY_VALUE = <span className="text-gray-400">(비어 있음)</span>;
+
+function MultilineDiff({ diff }: { diff: FestivalFieldDiff }) {
+  const lines = diffLines(diff.before, diff.after);
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      {(['before', 'after'] as const).map(side => {
+        const visible = lines.filter(line => line.type !== (side === 'before' ? 'added' : 'removed'));
+        return (
+          <div key={side} className="rounded-md border bg-gray-50 py-1 font-mono text-xs">
+            {visible.length === 0 ? (
+              <div className="px-2 py-0.5">{EMPTY_VALUE}</div>
+            ) : (
+              visible.map((line, index) => (
+                <div
+                  key={index}
+                  className={`whitespace-pre-wrap break-all px-2 py-0.5 ${
+                    line.type === 'removed' ? 'bg-red-100 text-red-800' : line.type === 'added' ? 'bg-green-100 text-green-800' : ''
+                  }`}
+                >
+                  {line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  '}
+                  {line.text || ' '}
+                </div>
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// 수정 저장 전 확인 - 원본과 수정본을 나란히 보여주고 확인하면 저장
+export default function FestivalUpdateDiffDialog({ original, edited, onConfirm, onClose }: FestivalUpdateDiffDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!edited) return null;
+
+  const diffs = getFestivalDiff(original, edited);
+  const changed = diffs.filter(diff => diff.isChanged);
+  const impacts = getFestivalUpdateImpacts(original, edited);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(edited);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">변경 내용 확인</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {original.name} · 변경 {changed.length}개 항목 (변경 없음 {diffs.length - changed.length}개)
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isSaving}>✕</Button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {impacts.length > 0 && (
+            <ul className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-1 text-sm text-amber-800" role="alert">
+              {impacts.map(impact => (
+                <li key={impact} className="flex items-start gap-2">
+                  <FiAlertTriangle className="mt-0.5 shrink-0" />
+                  {impact}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {changed.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">변경된 내용이 없습니다.</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[120px_1fr_1fr] gap-2 text-xs font-medium text-gray-500">
+                <span />
+                <span>변경 전</span>
+                <span>변경 후</span>
+              </div>
+              {changed.map(diff => (
+                <div key={diff.field} className="grid grid-cols-[120px_1fr] gap-2 border-t pt-3">
+                  <span className="text-sm font-medium text-gray-700">{diff.label}</span>
+                  {diff.isMultiline ? (
+                    <MultilineDiff diff={diff} />
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      <div className="rounded-md bg-red-50 px-2 py-1 text-red-800 line-through break-all">{diff.before || EMPTY_VALUE}</div>
+                      <div className="rounded-md bg-green-50 px-2 py-1 text-green-800 break-all">{diff.after || EMPTY_VALUE}</div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            돌아가서 수정
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={isSaving || changed.length === 0}>
+            {isSaving ? '저장 중...' : '이대로 저장'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
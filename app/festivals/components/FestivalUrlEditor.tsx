@@ -0,0 +1,112 @@
+import { PerformanceURL, URLType } from '@/types/festival';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FieldError from '@/components/FieldError';
+import { URL_TYPE_LABELS, URL_TYPE_PLACEHOLDERS, URL_TYPES } from '@/lib/url-types';
+import { FiArrowDown, FiArrowUp, FiPlus, FiTrash2 } from 'react-icons/fi';
+
+interface UrlRowError {
+  index: number;
+  field: string;
+  message: string;
+}
+
+interface FestivalUrlEditorProps {
+  urlInfos: PerformanceURL[];
+  onChange: (urlInfos: PerformanceURL[]) => void;
+  errors?: UrlRowError[]; // getListErrors(errors, 'urlInfos')
+  disabled?: boolean;
+}
+
+// URL 목록 편집 - 추가/수정/삭제/순서 변경, 목록 순서가 그대로 저장됨
+export default function FestivalUrlEditor({ urlInfos, onChange, errors = [], disabled }: FestivalUrlEditorProps) {
+  const getError = (index: number, field: string) => errors.find(e => e.index === index && e.field === field)?.message;
+
+  const handleRowChange = (index: number, changes: Partial<PerformanceURL>) => {
+    onChange(urlInfos.map((urlInfo, i) => (i === index ? { ...urlInfo, ...changes } : urlInfo)));
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= urlInfos.length) return;
+    const next = [...urlInfos];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(urlInfos.filter((_, i) => i !== index));
+  };
+
+  const handleAdd = () => {
+    onChange([...urlInfos, { type: URLType.HOMEPAGE, url: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {urlInfos.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">
+          등록된 URL이 없습니다.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {urlInfos.map((urlInfo, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <div className="w-40 shrink-0">
+                <Select
+                  value={urlInfo.type}
+                  onValueChange={type => handleRowChange(index, { type: type as URLType })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="URL 종류 선택" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {URL_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {URL_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={getError(index, 'type')} />
+              </div>
+              <div className="flex-1">
+                <Input
+                  type="url"
+                  placeholder={URL_TYPE_PLACEHOLDERS[urlInfo.type] || 'https://'}
+                  value={urlInfo.url}
+                  onChange={e => handleRowChange(index, { url: e.target.value })}
+                  disabled={disabled}
+                />
+                <FieldError message={getError(index, 'url')} />
+              </div>
+              <Button type="button" variant="outline" size="icon" onClick={() => handleMove(index, -1)} disabled={disabled || index === 0} title="위로">
+                <FiArrowUp />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => handleMove(index, 1)}
+                disabled={disabled || index === urlInfos.length - 1}
+                title="아래로"
+              >
+                <FiArrowDown />
+              </Button>
+              <Button type="button" variant="outline" size="icon" onClick={() => handleRemove(index)} disabled={disabled} title="삭제">
+                <FiTrash2 />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!disabled && (
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+          <FiPlus className="mr-2" /> URL 추가
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { PerformanceURL } from '@/types/festival';
+import { Button } from '@/components/ui/button';
+import { URL_TYPE_LABELS } from '@/lib/url-types';
+import { getListErrors, useValidation, ValidationSchema } from '@/lib/validation';
+import { urlInfoRules } from '@/types/festival-rules';
+import FestivalUrlEditor from './FestivalUrlEditor';
+import { FiEdit2, FiExternalLink } from 'react-icons/fi';
+
+const urlListRules: ValidationSchema<{ urlInfos: PerformanceURL[] }> = {
+  urlInfos: { each: urlInfoRules },
+};
+
+interface FestivalUrlListProps {
+  urlInfos: PerformanceURL[];
+  onSave?: (urlInfos: PerformanceURL[]) => Promise<boolean>; // 성공하면 true - 실패하면 편집 중인 내용을 유지
+}
+
+export default function FestivalUrlList({ urlInfos, onSave }: FestivalUrlListProps) {
+  const [editingUrlInfos, setEditingUrlInfos] = useState<PerformanceURL[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { errors, touch, validateAll, reset } = useValidation(urlListRules, { urlInfos: editingUrlInfos ?? [] });
+
+  const handleEdit = () => {
+    setEditingUrlInfos(urlInfos.map(urlInfo => ({ ...urlInfo })));
+    reset();
+  };
+
+  const handleSave = async () => {
+    if (!onSave || !editingUrlInfos || !validateAll()) return;
+    setIsSaving(true);
+    try {
+      if (await onSave(editingUrlInfos)) setEditingUrlInfos(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (editingUrlInfos) {
+    return (
+      <div className="space-y-4">
+        <FestivalUrlEditor
+          urlInfos={editingUrlInfos}
+          onChange={next => {
+            setEditingUrlInfos(next);
+            touch('urlInfos');
+          }}
+          errors={getListErrors(errors, 'urlInfos')}
+          disabled={isSaving}
+        />
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button type="button" variant="outline" onClick={() => setEditingUrlInfos(null)} disabled={isSaving}>
+            취소
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? '저장 중...' : '저장'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {onSave && (
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={handleEdit}>
+            <FiEdit2 className="mr-2" />
+            URL 편집
+          </Button>
+        </div>
+      )}
+      {urlInfos.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">
+          등록된 URL이 없습니다.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-md border">
+          {urlInfos.map((urlInfo, index) => (
+            <li key={index} className="flex items-center gap-4 px-4 py-3">
+              <span className="w-28 shrink-0 text-sm font-medium text-gray-700">{URL_TYPE_LABELS[urlInfo.type] || urlInfo.type}</span>
+              <a
+                href={urlInfo.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 hover:underline break-all"
+              >
+                {urlInfo.url}
+                <FiExternalLink className="shrink-0" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Festival, LinkIssue } from '@/types/festival';
+import { Place } from '@/types/place';
+import { fetchPlaces, saveFestivalLinks } from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface LinkResolutionDialogProps {
+  festival: Festival | null;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<LinkIssue['status'], string> = {
+  ambiguous: '같은 이름의 후보가 여러 개입니다',
+  unresolved: '일치하는 항목이 없습니다',
+};
+
+const issueKey = (issue: LinkIssue) => (issue.kind === 'place' ? 'place' : `hall:${issue.timeTableId}`);
+
+// 페스티벌 목록에서 장소/홀 연결을 확정하지 못한 항목을 관리자가 직접 선택
+export default function LinkResolutionDialog({ festival, onClose }: LinkResolutionDialogProps) {
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!festival) return;
+    setSelections({});
+    fetchPlaces()
+      .then(setPlaces)
+      .catch(error => alert(`장소 목록을 불러오는데 실패했습니다: ${getErrorMessage(error)}`));
+  }, [festival]);
+
+  if (!festival) return null;
+
+  const issues = festival.linkIssues || [];
+  const festivalPlace = places.find(p => p.id === festival.placeId);
+
+  // ambiguous면 이름이 같은 후보만, unresolved면 선택 가능한 전체 목록
+  const getOptions = (issue: LinkIssue): { id: number; label: string }[] => {
+    if (issue.kind === 'place') {
+      const options = issue.status === 'ambiguous' ? places.filter(p => issue.candidateIds.includes(p.id)) : places;
+      return options.map(p => ({ id: p.id, label: `${p.placeName} (${p.address})` }));
+    }
+    const halls = festivalPlace?.halls || [];
+    const options = issue.status === 'ambiguous' ? halls.filter(h => issue.candidateIds.includes(h.id)) : halls;
+    return options.map(h => ({ id: h.id, label: `${h.name} (#${h.id})` }));
+  };
+
+  const describeIssue = (issue: LinkIssue) => {
+    if (issue.kind === 'place') return `장소 "${issue.name || '(이름 없음)'}"`;
+    const timeTable = festival.timeTables.find(tt => tt.id === issue.timeTableId);
+    const when = timeTable ? ` - ${timeTable.performanceDate} ${timeTable.startTime}` : '';
+    return `홀 "${issue.name || '(이름 없음)'}"${when}`;
+  };
+
+  const handleSave = async () => {
+    const placeSelection = selections.place;
+    const hallIds: Record<number, number> = {};
+    issues.forEach(issue => {
+      const selected = selections[issueKey(issue)];
+      if (issue.kind === 'hall' && issue.timeTableId && selected) hallIds[issue.timeTableId] = Number(selected);
+    });
+
+    if (!placeSelection && Object.keys(hallIds).length === 0) {
+      alert('연결할 항목을 선택해주세요.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveFestivalLinks(festival.id, {
+        placeId: placeSelection ? Number(placeSelection) : undefined,
+        hallIds,
+      });
+      onClose();
+    } catch (error) {
+      alert(`연결 저장 오류: ${getErrorMessage(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">장소/홀 연결 확인</h2>
+            <p className="text-sm text-gray-500 mt-1">{festival.name}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>✕</Button>
+        </div>
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-gray-500">
+            장소는 페스티벌 정보에 저장됩니다. 홀 연결은 이 브라우저에만 저장되며 서버 데이터는 변경되지 않습니다.
+            장소를 먼저 연결하면 홀 목록이 표시됩니다.
+          </p>
+          {issues.length === 0 ? (
+            <p className="text-sm text-gray-600">확인이 필요한 항목이 없습니다.</p>
+          ) : (
+            issues.map(issue => {
+              const key = issueKey(issue);
+              const options = getOptions(issue);
+              return (
+                <div key={key} className="space-y-2">
+                  <Label>{describeIssue(issue)}</Label>
+                  <p className="text-xs text-amber-600">{STATUS_LABELS[issue.status]}</p>
+                  <Select
+                    value={selections[key] || ''}
+                    onValueChange={value => setSelections(prev => ({ ...prev, [key]: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={issue.kind === 'place' ? '장소를 선택하세요' : '홀을 선택하세요'} />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-60 overflow-y-auto">
+                      {options.length === 0 ? (
+                        <SelectItem value="none" disabled>선택할 수 있는 항목이 없습니다</SelectItem>
+                      ) : (
+                        options.map(option => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.label}</SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>취소</Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || issues.length === 0}>
+            {isSaving ? '저장 중...' : '연결 저장'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
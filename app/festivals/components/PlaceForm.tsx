@@ -3,7 +3,10 @@ import { PlaceRequestBody } from '@/types/place';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import FieldError from '@/components/FieldError';
 import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import { useValidation } from '@/lib/validation';
+import { placeRules } from '@/types/place-rules';
 
 interface PlaceFormProps {
   isOpen: boolean;
@@ -15,11 +18,13 @@ export default function PlaceForm({ isOpen, onCancel, onSubmit }: PlaceFormProps
   const [placeName, setPlaceName] = useState('');
   const [address, setAddress] = useState('');
   const [halls, setHalls] = useState<string[]>(['']);
+  const { errors, touch, validateAll } = useValidation(placeRules, { placeName, address, placeHalls: halls });
   
   const handleHallChange = (index: number, value: string) => {
     const newHalls = [...halls];
     newHalls[index] = value;
     setHalls(newHalls);
+    touch('placeHalls');
   };
 
   const addHallInput = () => {
@@ -35,6 +40,7 @@ export default function PlaceForm({ isOpen, onCancel, onSubmit }: PlaceFormProps
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!validateAll()) return;
     const placeData: PlaceRequestBody = {
       placeName,
       address,
@@ -55,11 +61,27 @@ export default function PlaceForm({ isOpen, onCancel, onSubmit }: PlaceFormProps
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           <div className="space-y-2">
             <Label htmlFor="placeName">장소명</Label>
-            <Input id="placeName" value={placeName} onChange={e => setPlaceName(e.target.value)} required />
+            <Input
+              id="placeName"
+              value={placeName}
+              onChange={e => {
+                setPlaceName(e.target.value);
+                touch('placeName');
+              }}
+            />
+            <FieldError message={errors.placeName} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="address">주소</Label>
-            <Input id="address" value={address} onChange={e => setAddress(e.target.value)} required />
+            <Input
+              id="address"
+              value={address}
+              onChange={e => {
+                setAddress(e.target.value);
+                touch('address');
+              }}
+            />
+            <FieldError message={errors.address} />
           </div>
           <div className="space-y-2">
             <Label>홀(공연장) 목록</Label>
@@ -75,6 +97,7 @@ export default function PlaceForm({ isOpen, onCancel, onSubmit }: PlaceFormProps
                 </Button>
               </div>
             ))}
+            <FieldError message={errors.placeHalls} />
             <Button type="button" variant="outline" size="sm" onClick={addHallInput} className="mt-2">
               <FiPlus className="mr-2" /> 홀 추가
             </Button>
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getPosterHostWarning, getPosterSizeWarnings, ImageSize } from '@/lib/poster-image';
+import { FiAlertTriangle, FiImage, FiUpload, FiX } from 'react-icons/fi';
+
+interface PosterPickerProps {
+  id: string;
+  value: string;
+  onChange: (posterUrl: string) => void;
+  disabled?: boolean;
+}
+
+interface LocalPreview {
+  name: string;
+  objectUrl: string;
+}
+
+// 포스터 입력 - 저장하는 값은 항상 http(s) URL, 미리보기와 함께 호스트/해상도/비율 경고를 표시
+// 로컬 파일은 올리기 전에 미리보기와 해상도 확인에만 사용하고 저장하지 않음 (이미지 업로드 API 없음)
+// 허용되지 않은 호스트도 미리보기는 되도록 next/image 대신 img 사용
+export default function PosterPicker({ id, value, onChange, disabled }: PosterPickerProps) {
+  const [localPreview, setLocalPreview] = useState<LocalPreview | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  const [hasLoadError, setHasLoadError] = useState(false);
+
+  const previewSrc = localPreview?.objectUrl ?? value;
+
+  useEffect(() => {
+    setImageSize(null);
+    setHasLoadError(false);
+  }, [previewSrc]);
+
+  useEffect(() => () => {
+    if (localPreview) URL.revokeObjectURL(localPreview.objectUrl);
+  }, [localPreview]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      alert('이미지 파일만 선택할 수 있습니다.');
+      return;
+    }
+    setLocalPreview({ name: file.name, objectUrl: URL.createObjectURL(file) });
+  };
+
+  const warnings = [
+    getPosterHostWarning(value),
+    ...(imageSize ? getPosterSizeWarnings(imageSize) : []),
+    hasLoadError ? (localPreview ? '파일을 이미지로 읽지 못했습니다.' : '이미지를 불러올 수 없습니다. 주소를 확인해주세요.') : null,
+  ].filter((warning): warning is string => Boolean(warning));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="url"
+          required={!value}
+          placeholder="https://"
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          disabled={disabled}
+        />
+        <Button type="button" variant="outline" asChild disabled={disabled}>
+          <label className={disabled ? 'pointer-events-none opacity-50' : 'cursor-pointer'}>
+            <FiUpload className="mr-1" />
+            파일로 확인
+            <input type="file" accept="image/*" className="hidden" onChange={handleFileChange} disabled={disabled} />
+          </label>
+        </Button>
+      </div>
+
+      {localPreview && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span>
+            로컬 파일 &apos;{localPreview.name}&apos;을(를) 미리보는 중입니다. 파일은 저장되지 않으니 이미지를 올린 곳의 URL을 입력해주세요.
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setLocalPreview(null)}>
+            <FiX className="mr-1" />
+            닫기
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-start gap-3">
+        <div className="flex h-40 w-32 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-gray-50">
+          {previewSrc && !hasLoadError ? (
+            <img
+              src={previewSrc}
+              alt="포스터 미리보기"
+              className="h-full w-full object-contain"
+              onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              onError={() => setHasLoadError(true)}
+            />
+          ) : (
+            <FiImage className="text-2xl text-gray-400" />
+          )}
+        </div>
+        <div className="space-y-1 text-sm">
+          {imageSize && <p className="text-gray-500">{imageSize.width}×{imageSize.height}</p>}
+          {warnings.map(warning => (
+            <p key={warning} className="flex items-start gap-1 text-amber-600">
+              <FiAlertTriangle className="mt-0.5 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { TableHead } from '@/components/ui/table';
+import { FestivalSortKey, SortOrder } from '@/lib/festival-list';
+import { FiChevronDown, FiChevronUp } from 'react-icons/fi';
+
+interface SortableHeadProps {
+  label: string;
+  sortKey: FestivalSortKey;
+  currentSort: FestivalSortKey;
+  currentOrder: SortOrder;
+  onSort: (sort: FestivalSortKey, order: SortOrder) => void;
+}
+
+// 클릭하면 해당 열로 정렬 - 이미 정렬 중인 열이면 방향을 바꿈
+export default function SortableHead({ label, sortKey, currentSort, currentOrder, onSort }: SortableHeadProps) {
+  const isActive = currentSort === sortKey;
+
+  const handleClick = () => {
+    onSort(sortKey, isActive && currentOrder === 'asc' ? 'desc' : 'asc');
+  };
+
+  return (
+    <TableHead aria-sort={isActive ? (currentOrder === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button type="button" onClick={handleClick} className="flex items-center gap-1 hover:text-gray-900">
+        {label}
+        {isActive && (currentOrder === 'asc' ? <FiChevronUp /> : <FiChevronDown />)}
+      </button>
+    </TableHead>
+  );
+}
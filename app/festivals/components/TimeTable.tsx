@@ -7,6 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { fetchArtists, addTimeTableArtist, deleteTimeTableArtist } from '@/lib/api';
+import { getErrorMessage, OfflineQueuedError } from '@/lib/errors';
+import { queryKeys, useQuerySubscription } from '@/lib/query-cache';
+import { createLogger } from '@/lib/logger';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import TimeTableGridEditor from './TimeTableGridEditor';
+
+const log = createLogger('timetable');
 
 interface Artist {
   id: number;
@@ -23,6 +30,8 @@ interface TimeTableProps {
   onSaveNewTimeTable?: (timeTable: Omit<TimeTableType, 'id'>) => void;
   availableHalls?: { id: number; name: string }[];
   festivalStartDate?: string; // 페스티벌 시작 날짜
+  festivalEndDate?: string;
+  performanceId?: number; // 있으면 그리드 편집 사용 가능
 }
 
 export default function TimeTable({ 
@@ -32,9 +41,12 @@ export default function TimeTable({
   showManageButtons = false,
   onSaveNewTimeTable,
   availableHalls = [],
-  festivalStartDate
+  festivalStartDate,
+  festivalEndDate,
+  performanceId
 }: TimeTableProps) {
   const [isAddingTimeTable, setIsAddingTimeTable] = useState(false);
+  const [isGridEditing, setIsGridEditing] = useState(false);
   const [isEditingArtists, setIsEditingArtists] = useState(false);
   const [selectedTimeTable, setSelectedTimeTable] = useState<TimeTableType | null>(null);
   const [artists, setArtists] = useState<Artist[]>([]);
@@ -50,19 +62,22 @@ export default function TimeTable({
     artists: []
   });
 
-  // 아티스트 목록 가져오기
+  // 아티스트 목록 가져오기 (캐시가 갱신되면 다시 반영)
+  const loadArtists = async () => {
+    try {
+      const artistData = await fetchArtists();
+      setArtists(artistData);
+    } catch (error) {
+      log.error('Failed to load artists:', error);
+    }
+  };
+
   useEffect(() => {
-    const loadArtists = async () => {
-      try {
-        const artistData = await fetchArtists();
-        setArtists(artistData);
-      } catch (error) {
-        console.error('Failed to load artists:', error);
-      }
-    };
     loadArtists();
   }, []);
 
+  useQuerySubscription([queryKeys.artists], () => loadArtists());
+
   // 10분 단위로 반올림하는 함수
   const roundToNearest10Minutes = (time: string) => {
     const [hours, minutes] = time.split(':').map(Number);
@@ -185,27 +200,10 @@ export default function TimeTable({
     );
   }, [artists, artistSearchTerm]);
 
-  // 디버깅 로그
-  console.log('TimeTable component - availableHalls:', availableHalls);
-  console.log('TimeTable component - timeTables:', timeTables);
-  console.log('TimeTable component - timeTablesByDate:', timeTablesByDate);
-  console.log('TimeTable component - timeSlots:', timeSlots);
-  console.log('TimeTable component - generateTimeSlots:', generateTimeSlots);
-  console.log('TimeTable component - filteredTimeSlots:', filteredTimeSlots);
-  console.log('TimeTable component - halls:', halls);
-  
-  // 각 타임테이블의 상세 정보 로깅
-  timeTables.forEach((tt, index) => {
-    console.log(`TimeTable ${index}:`, {
-      id: tt.id,
-      date: tt.performanceDate,
-      startTime: tt.startTime,
-      endTime: tt.endTime,
-      hallName: tt.hallName,
-      hallId: tt.hallId,
-      artists: tt.artists
-    });
-  });
+  // 렌더링마다가 아니라 데이터가 바뀔 때만 기록
+  useEffect(() => {
+    log.debug('timetables changed', { timeTables, halls, availableHalls });
+  }, [timeTables, halls, availableHalls]);
 
   const handleAddTimeTableClick = () => {
     if (onAddTimeTable) {
@@ -272,15 +270,23 @@ export default function TimeTable({
         !existingArtists.some(existing => existing.artistId === newArtist.artistId)
       );
 
-      // 추가 API 호출
+      // 추가 API 호출 - 연결이 끊기면 나머지도 전송 대기열에 순서대로 저장됨
+      let queuedCount = 0;
       for (const artist of artistsToAdd) {
-        await addTimeTableArtist(selectedTimeTable.id!, {
-          artistId: artist.artistId,
-          participationType: artist.participationType
-        });
+        try {
+          await addTimeTableArtist(selectedTimeTable.id!, {
+            artistId: artist.artistId,
+            participationType: artist.participationType
+          });
+        } catch (error) {
+          if (!(error instanceof OfflineQueuedError)) throw error;
+          queuedCount += 1;
+        }
       }
 
-      alert('아티스트가 성공적으로 업데이트되었습니다.');
+      alert(queuedCount > 0
+        ? `서버에 연결할 수 없어 아티스트 ${queuedCount}명의 배정을 전송 대기열에 저장했습니다. 연결되면 자동으로 다시 전송합니다.`
+        : '아티스트가 성공적으로 업데이트되었습니다.');
       
       // 페이지 새로고침을 위해 부모 컴포넌트에 알림
       if (onSaveNewTimeTable) {
@@ -288,9 +294,9 @@ export default function TimeTable({
         onSaveNewTimeTable({} as any);
       }
       
-    } catch (error: any) {
-      console.error('아티스트 업데이트 오류:', error);
-      alert(`아티스트 업데이트 오류: ${error.message}`);
+    } catch (error) {
+      log.error('아티스트 업데이트 오류:', error);
+      alert(`아티스트 업데이트 오류: ${getErrorMessage(error)}`);
     } finally {
       setIsEditingArtists(false);
       setSelectedTimeTable(null);
@@ -325,10 +331,9 @@ export default function TimeTable({
         setDeletingArtistIndex(index);
         try {
           await deleteTimeTableArtist(selectedTimeTable.id!, existingArtist.artistId);
-          console.log('아티스트가 성공적으로 삭제되었습니다.');
-        } catch (error: any) {
-          console.error('아티스트 삭제 오류:', error);
-          alert(`아티스트 삭제 오류: ${error.message}`);
+        } catch (error) {
+          log.error('아티스트 삭제 오류:', error);
+          alert(`아티스트 삭제 오류: ${getErrorMessage(error)}`);
           setDeletingArtistIndex(null);
           return; // 삭제 실패 시 UI에서 제거하지 않음
         } finally {
@@ -362,6 +367,24 @@ export default function TimeTable({
     }
   };
 
+  const canGridEdit = showManageButtons && performanceId !== undefined;
+
+  if (canGridEdit && isGridEditing) {
+    return (
+      <div className="w-full max-w-7xl mx-auto p-4">
+        <h2 className="text-2xl font-bold mb-6 text-gray-800">공연 타임테이블 - 그리드 편집</h2>
+        <TimeTableGridEditor
+          performanceId={performanceId}
+          timeTables={timeTables}
+          halls={availableHalls}
+          festivalStartDate={festivalStartDate || ''}
+          festivalEndDate={festivalEndDate || festivalStartDate || ''}
+          onClose={() => setIsGridEditing(false)}
+        />
+      </div>
+    );
+  }
+
   if (timeTablesByDate.length === 0 && !isAddingTimeTable) {
     return (
       <div className="w-full max-w-7xl mx-auto p-4">
@@ -393,6 +416,11 @@ export default function TimeTable({
               <Button size="sm" onClick={handleAddTimeTableClick}>
                 타임테이블 추가
               </Button>
+              {canGridEdit && (
+                <Button size="sm" variant="outline" onClick={() => setIsGridEditing(true)}>
+                  그리드 편집
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -549,7 +577,7 @@ export default function TimeTable({
                 variant="outline" 
                 onClick={() => setNewTimeTable(prev => ({ 
                   ...prev, 
-                  performanceDate: '0001-01-01',
+                  performanceDate: UNDECIDED_DATE,
                   startTime: '00:00',
                   endTime: '00:00'
                 }))}
@@ -702,6 +730,11 @@ export default function TimeTable({
               타임테이블 추가
             </Button>
           )}
+          {canGridEdit && !isAddingTimeTable && (
+            <Button variant="outline" onClick={() => setIsGridEditing(true)}>
+              그리드 편집
+            </Button>
+          )}
         </div>
       )}
 
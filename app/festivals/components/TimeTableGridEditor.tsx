@@ -0,0 +1,549 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { TimeTable as TimeTableType } from '@/types/festival';
+import { Artist, fetchArtists, fetchFestivalById } from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { queryKeys, useQuerySubscription } from '@/lib/query-cache';
+import { createLogger } from '@/lib/logger';
+import {
+  clampToRange,
+  DEFAULT_GRID_STEP,
+  findOverlap,
+  formatGridTime,
+  getGridDates,
+  getGridRange,
+  GRID_STEPS,
+  GridSlot,
+  GridStep,
+  isGridEditable,
+  snapMinutes,
+  toGridSlots,
+} from '@/lib/timetable-grid';
+import { buildTimeTableEditSteps, countTimeTableEdits, diffTimeTables } from '@/lib/timetable-edits';
+import { createUnitOfWork, UnitOfWork, UnitOfWorkState } from '@/lib/unit-of-work';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import UnitOfWorkDialog from '@/components/UnitOfWorkDialog';
+import { FiTrash2, FiX } from 'react-icons/fi';
+
+const log = createLogger('timetable');
+
+const ROW_HEIGHT = 16; // 한 간격(step)의 높이(px)
+const ARTIST_DRAG_TYPE = 'application/x-dals2bo-artist';
+
+interface TimeTableGridEditorProps {
+  performanceId: number;
+  timeTables: TimeTableType[];
+  halls: { id: number; name: string }[];
+  festivalStartDate: string;
+  festivalEndDate: string;
+  onClose: () => void;
+}
+
+// 끌기 상태 - create: 빈 칸을 끌어서 새 공연, move: 공연을 다른 시간/홀로, resize-*: 위/아래 끝을 끌어서 길이 조절
+interface DragState {
+  mode: 'create' | 'move' | 'resize-start' | 'resize-end';
+  key?: string;
+  hallId: number;
+  start: number;
+  end: number;
+  anchor: number; // create - 처음 누른 시간, move - 누른 위치와 공연 시작의 차이
+  hasMoved: boolean;
+}
+
+// 타임테이블 그리드 편집 - 변경은 화면에만 반영했다가 저장할 때 단계별로 한 번에 전송
+export default function TimeTableGridEditor({
+  performanceId,
+  timeTables,
+  halls,
+  festivalStartDate,
+  festivalEndDate,
+  onClose,
+}: TimeTableGridEditorProps) {
+  const originals = useMemo(() => timeTables.filter(isGridEditable), [timeTables]);
+  const lockedTimeTables = useMemo(() => timeTables.filter(tt => !isGridEditable(tt)), [timeTables]);
+  const [slots, setSlots] = useState<GridSlot[]>(() => toGridSlots(timeTables));
+  const [step, setStep] = useState<GridStep>(DEFAULT_GRID_STEP);
+  const dates = useMemo(() => getGridDates(festivalStartDate, festivalEndDate, slots), [festivalStartDate, festivalEndDate, slots]);
+  const [selectedDate, setSelectedDate] = useState(() => dates[0] ?? '');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [artists, setArtists] = useState<Artist[]>([]);
+  const [artistSearchTerm, setArtistSearchTerm] = useState('');
+  const [workState, setWorkState] = useState<UnitOfWorkState | null>(null);
+  const workRef = useRef<UnitOfWork | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const nextKeyRef = useRef(1);
+
+  const hallNames = useMemo(() => Object.fromEntries(halls.map(h => [h.id, h.name])), [halls]);
+  const edits = useMemo(() => diffTimeTables(originals, slots), [originals, slots]);
+  const editCount = countTimeTableEdits(edits);
+  const changedKeys = useMemo(
+    () =>
+      new Set([
+        ...edits.added.map(slot => slot.key),
+        ...edits.moved.map(({ slot }) => slot.key),
+        ...edits.artistChanges.map(({ original }) => `tt-${original.id}`),
+      ]),
+    [edits]
+  );
+
+  const daySlots = useMemo(() => slots.filter(slot => slot.performanceDate === selectedDate), [slots, selectedDate]);
+  const range = useMemo(() => getGridRange(daySlots), [daySlots]);
+  const pxPerMinute = ROW_HEIGHT / step;
+  const gridHeight = (range.end - range.start) * pxPerMinute;
+  const selectedSlot = slots.find(slot => slot.key === selectedKey) ?? null;
+  const isSaving = workState?.status === 'running' || workState?.status === 'rollingBack';
+
+  const loadArtists = async () => {
+    try {
+      setArtists(await fetchArtists());
+    } catch (error) {
+      log.error('Failed to load artists:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadArtists();
+  }, []);
+
+  useQuerySubscription([queryKeys.artists], () => loadArtists());
+
+  useEffect(() => {
+    if (!dates.includes(selectedDate) && dates.length > 0) setSelectedDate(dates[0]);
+  }, [dates, selectedDate]);
+
+  const filteredArtists = useMemo(() => {
+    const term = artistSearchTerm.trim().toLowerCase();
+    if (!term) return artists;
+    return artists.filter(
+      artist => artist.name.toLowerCase().includes(term) || artist.aliases.some(alias => alias.name.toLowerCase().includes(term))
+    );
+  }, [artists, artistSearchTerm]);
+
+  // --- 끌기 ---
+
+  const getPointerMinutes = (clientY: number) => {
+    const top = gridRef.current?.getBoundingClientRect().top ?? 0;
+    return range.start + (clientY - top) / pxPerMinute;
+  };
+
+  const getHallAt = (clientX: number, clientY: number) => {
+    const column = document
+      .elementsFromPoint(clientX, clientY)
+      .find((el): el is HTMLElement => el instanceof HTMLElement && el.dataset.hallId !== undefined);
+    return column ? Number(column.dataset.hallId) : null;
+  };
+
+  const isPlaceable = (state: DragState) =>
+    !findOverlap(slots, { key: state.key ?? '', performanceDate: selectedDate, hallId: state.hallId, start: state.start, end: state.end });
+
+  useEffect(() => {
+    dragRef.current = drag;
+  }, [drag]);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const minutes = getPointerMinutes(e.clientY);
+      setDrag(current => {
+        if (!current) return current;
+        switch (current.mode) {
+          case 'create': {
+            const point = Math.floor(minutes / step) * step;
+            const start = Math.max(range.start, Math.min(current.anchor, point));
+            const end = Math.min(range.end, Math.max(current.anchor, point) + step);
+            return { ...current, start, end, hasMoved: true };
+          }
+          case 'move': {
+            const { start, end } = clampToRange(snapMinutes(minutes - current.anchor, step), current.end - current.start, range);
+            const hallId = getHallAt(e.clientX, e.clientY) ?? current.hallId;
+            const hasMoved = current.hasMoved || start !== current.start || hallId !== current.hallId;
+            return { ...current, start, end, hallId, hasMoved };
+          }
+          case 'resize-start':
+            return { ...current, start: Math.max(range.start, Math.min(current.end - step, snapMinutes(minutes, step))), hasMoved: true };
+          case 'resize-end':
+            return { ...current, end: Math.min(range.end, Math.max(current.start + step, snapMinutes(minutes, step))), hasMoved: true };
+        }
+      });
+    };
+
+    const handlePointerUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (current) finishDrag(current);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag !== null, range, step, slots, selectedDate]);
+
+  const finishDrag = (state: DragState) => {
+    if (state.mode === 'move' && !state.hasMoved) {
+      setSelectedKey(state.key ?? null);
+      return;
+    }
+    if (!isPlaceable(state)) return;
+
+    if (state.mode === 'create') {
+      const key = `new-${nextKeyRef.current++}`;
+      setSlots(prev => [...prev, { key, performanceDate: selectedDate, hallId: state.hallId, start: state.start, end: state.end, artists: [] }]);
+      setSelectedKey(key);
+      return;
+    }
+    setSlots(prev => prev.map(slot => (slot.key === state.key ? { ...slot, hallId: state.hallId, start: state.start, end: state.end } : slot)));
+    setSelectedKey(state.key ?? null);
+  };
+
+  const handleColumnPointerDown = (e: React.PointerEvent, hallId: number) => {
+    if (e.button !== 0 || isSaving) return;
+    const anchor = Math.floor(getPointerMinutes(e.clientY) / step) * step;
+    setDrag({ mode: 'create', hallId, start: anchor, end: anchor + step, anchor, hasMoved: false });
+  };
+
+  const handleSlotPointerDown = (e: React.PointerEvent, slot: GridSlot, mode: DragState['mode']) => {
+    if (e.button !== 0 || isSaving) return;
+    e.stopPropagation();
+    const anchor = mode === 'move' ? getPointerMinutes(e.clientY) - slot.start : 0;
+    setDrag({ mode, key: slot.key, hallId: slot.hallId, start: slot.start, end: slot.end, anchor, hasMoved: false });
+  };
+
+  // --- 아티스트 ---
+
+  const handleArtistDrop = (e: React.DragEvent, slotKey: string) => {
+    e.preventDefault();
+    const artistId = Number(e.dataTransfer.getData(ARTIST_DRAG_TYPE));
+    const artist = artists.find(a => a.id === artistId);
+    if (!artist) return;
+    setSlots(prev =>
+      prev.map(slot => {
+        if (slot.key !== slotKey || slot.artists.some(a => a.artistId === artistId)) return slot;
+        // 먼저 배정된 아티스트가 있으면 서브로
+        const type = slot.artists.length === 0 ? 'MAIN' : 'SUB';
+        return { ...slot, artists: [...slot.artists, { artistId, artistName: artist.name, type }] };
+      })
+    );
+    setSelectedKey(slotKey);
+  };
+
+  const updateSelectedSlot = (update: (slot: GridSlot) => GridSlot) => {
+    setSlots(prev => prev.map(slot => (slot.key === selectedKey ? update(slot) : slot)));
+  };
+
+  const handleToggleArtistType = (artistId: number) => {
+    updateSelectedSlot(slot => ({
+      ...slot,
+      artists: slot.artists.map(a => (a.artistId === artistId ? { ...a, type: a.type === 'MAIN' ? 'SUB' : 'MAIN' } : a)),
+    }));
+  };
+
+  const handleRemoveArtist = (artistId: number) => {
+    updateSelectedSlot(slot => ({ ...slot, artists: slot.artists.filter(a => a.artistId !== artistId) }));
+  };
+
+  const handleDeleteSlot = () => {
+    setSlots(prev => prev.filter(slot => slot.key !== selectedKey));
+    setSelectedKey(null);
+  };
+
+  // --- 저장 ---
+
+  // 저장 후에는 서버 목록으로 다시 시작 - 다시 만든 타임테이블은 id가 바뀌므로
+  const resync = async () => {
+    try {
+      const festival = await fetchFestivalById(performanceId);
+      setSlots(toGridSlots(festival.timeTables));
+    } catch (error) {
+      log.error('Failed to reload timetables:', error);
+      alert(`타임테이블을 다시 불러오지 못했습니다: ${getErrorMessage(error)}`);
+    }
+    setSelectedKey(null);
+  };
+
+  const finishWork = async (message?: string) => {
+    workRef.current = null;
+    setWorkState(null);
+    if (message) alert(message);
+    await resync();
+  };
+
+  const handleSave = async () => {
+    if (editCount === 0 || !confirm(`변경 ${editCount}건을 저장하시겠습니까?`)) return;
+    const unit = createUnitOfWork(buildTimeTableEditSteps(performanceId, edits, hallNames), setWorkState);
+    workRef.current = unit;
+    const result = await unit.run();
+    if (result.status === 'completed') await finishWork('타임테이블이 저장되었습니다.');
+  };
+
+  const handleRetry = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.retryFailed();
+    if (result.status === 'completed') await finishWork('타임테이블이 저장되었습니다.');
+  };
+
+  const handleRollback = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.rollback();
+    if (result.status === 'rolledBack') await finishWork('저장한 변경을 되돌렸습니다.');
+  };
+
+  // 일부 단계가 이미 반영됐으면 서버 목록으로 다시 시작
+  const handleCloseWork = async () => {
+    const isPartiallyApplied = workState?.steps.some(s => s.status === 'done');
+    if (isPartiallyApplied) {
+      await finishWork();
+      return;
+    }
+    workRef.current = null;
+    setWorkState(null);
+  };
+
+  const handleReset = () => {
+    if (editCount > 0 && !confirm('저장하지 않은 변경을 모두 취소하시겠습니까?')) return;
+    setSlots(toGridSlots(timeTables));
+    setSelectedKey(null);
+  };
+
+  const handleClose = () => {
+    if (editCount > 0 && !confirm('저장하지 않은 변경이 있습니다. 그리드 편집을 닫으시겠습니까?')) return;
+    onClose();
+  };
+
+  // --- 화면 ---
+
+  const rowCount = (range.end - range.start) / step;
+  const hourMarks = Array.from({ length: Math.floor((range.end - range.start) / 60) + 1 }, (_, i) => range.start + i * 60);
+
+  const renderSlot = (slot: GridSlot) => {
+    const isDragging = drag?.key === slot.key && drag.hasMoved;
+    if (isDragging && drag.hallId !== slot.hallId) return null;
+    const start = isDragging ? drag.start : slot.start;
+    const end = isDragging ? drag.end : slot.end;
+    const mainArtists = slot.artists.filter(a => a.type === 'MAIN').map(a => a.artistName || `ID ${a.artistId}`);
+    const subArtists = slot.artists.filter(a => a.type !== 'MAIN').map(a => a.artistName || `ID ${a.artistId}`);
+    const isInvalid = isDragging && !isPlaceable(drag);
+
+    return (
+      <div
+        key={slot.key}
+        className={`absolute inset-x-1 overflow-hidden rounded-md border px-2 py-1 text-xs cursor-move ${
+          isInvalid
+            ? 'border-red-400 bg-red-100'
+            : changedKeys.has(slot.key)
+              ? 'border-amber-400 bg-amber-50'
+              : 'border-blue-200 bg-blue-50'
+        } ${selectedKey === slot.key ? 'ring-2 ring-purple-500' : ''}`}
+        style={{ top: (start - range.start) * pxPerMinute, height: Math.max((end - start) * pxPerMinute, ROW_HEIGHT) }}
+        onPointerDown={e => handleSlotPointerDown(e, slot, 'move')}
+        onDragOver={e => e.preventDefault()}
+        onDrop={e => handleArtistDrop(e, slot.key)}
+      >
+        <div
+          className="absolute inset-x-0 top-0 h-1.5 cursor-ns-resize"
+          onPointerDown={e => handleSlotPointerDown(e, slot, 'resize-start')}
+        />
+        <p className="font-medium text-purple-700">
+          {mainArtists.join(', ') || '아티스트 미정'}
+          {subArtists.length > 0 && ` (With ${subArtists.join(', ')})`}
+        </p>
+        <p className="text-green-600">
+          {formatGridTime(start)} - {formatGridTime(end)}
+        </p>
+        <div
+          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+          onPointerDown={e => handleSlotPointerDown(e, slot, 'resize-end')}
+        />
+      </div>
+    );
+  };
+
+  // 다른 홀로 끌고 가는 중인 공연과 새로 만드는 공연의 미리보기
+  const renderDragPreview = (hallId: number) => {
+    if (!drag || drag.hallId !== hallId || !drag.hasMoved) return null;
+    const dragged = drag.key ? slots.find(slot => slot.key === drag.key) : undefined;
+    if (dragged && dragged.hallId === hallId) return null;
+    return (
+      <div
+        className={`pointer-events-none absolute inset-x-1 rounded-md border-2 border-dashed px-2 py-1 text-xs ${
+          isPlaceable(drag) ? 'border-purple-400 bg-purple-50/70' : 'border-red-400 bg-red-100/70'
+        }`}
+        style={{ top: (drag.start - range.start) * pxPerMinute, height: (drag.end - drag.start) * pxPerMinute }}
+      >
+        {formatGridTime(drag.start)} - {formatGridTime(drag.end)}
+      </div>
+    );
+  };
+
+  if (halls.length === 0) {
+    return (
+      <div className="space-y-4">
+        <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg">
+          장소의 홀 정보가 없어 그리드로 편집할 수 없습니다. 장소 연결을 먼저 확인해주세요.
+        </div>
+        <Button variant="outline" onClick={onClose}>닫기</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {dates.map(date => (
+            <Button
+              key={date}
+              size="sm"
+              variant={date === selectedDate ? 'default' : 'outline'}
+              onClick={() => {
+                setSelectedDate(date);
+                setSelectedKey(null);
+              }}
+            >
+              {format(parseISO(date), 'MM/dd (EEE)')}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(step)} onValueChange={value => setStep(Number(value) as GridStep)}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRID_STEPS.map(value => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}분
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleReset} disabled={editCount === 0 || isSaving}>
+            변경 취소
+          </Button>
+          <Button onClick={handleSave} disabled={editCount === 0 || isSaving}>
+            {editCount > 0 ? `저장 (${editCount})` : '저장'}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleClose}>✕</Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        빈 칸을 끌어서 공연 추가 · 공연을 끌어서 시간/홀 이동 · 위/아래 끝을 끌어서 길이 조절 · 오른쪽 아티스트를 공연에 끌어다 놓아 배정
+      </p>
+
+      <div className="flex gap-4">
+        <div className="flex-1 overflow-auto rounded-lg border border-gray-200 max-h-[640px]">
+          <div className="sticky top-0 z-10 flex border-b bg-gray-50">
+            <div className="w-14 shrink-0" />
+            {halls.map(hall => (
+              <div key={hall.id} className="min-w-[140px] flex-1 border-l px-2 py-2 text-sm font-semibold text-gray-700">
+                {hall.name}
+              </div>
+            ))}
+          </div>
+          <div className="flex">
+            <div className="relative w-14 shrink-0" style={{ height: gridHeight }}>
+              {hourMarks.map(minutes => (
+                <span key={minutes} className="absolute right-2 -translate-y-1/2 text-xs text-gray-500" style={{ top: (minutes - range.start) * pxPerMinute }}>
+                  {formatGridTime(minutes)}
+                </span>
+              ))}
+            </div>
+            <div ref={gridRef} className="relative flex flex-1 touch-none select-none" style={{ height: gridHeight }}>
+              {Array.from({ length: rowCount }, (_, i) => (
+                <div
+                  key={i}
+                  className={`pointer-events-none absolute inset-x-0 border-t ${(range.start + i * step) % 60 === 0 ? 'border-gray-300' : 'border-gray-100'}`}
+                  style={{ top: i * ROW_HEIGHT }}
+                />
+              ))}
+              {halls.map(hall => (
+                <div
+                  key={hall.id}
+                  data-hall-id={hall.id}
+                  className="relative min-w-[140px] flex-1 border-l"
+                  onPointerDown={e => handleColumnPointerDown(e, hall.id)}
+                >
+                  {daySlots.filter(slot => slot.hallId === hall.id).map(renderSlot)}
+                  {renderDragPreview(hall.id)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="w-64 shrink-0 space-y-4">
+          <div className="rounded-lg border p-3 space-y-2">
+            <h4 className="text-sm font-medium">아티스트</h4>
+            <Input placeholder="이름 또는 별명 검색" value={artistSearchTerm} onChange={e => setArtistSearchTerm(e.target.value)} />
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 text-sm">
+              {filteredArtists.map(artist => (
+                <li
+                  key={artist.id}
+                  draggable
+                  onDragStart={e => {
+                    e.dataTransfer.setData(ARTIST_DRAG_TYPE, String(artist.id));
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  className="cursor-grab px-2 py-1.5 hover:bg-gray-50"
+                >
+                  {artist.name}
+                  {artist.aliases.length > 0 && <span className="ml-1 text-xs text-gray-500">({artist.aliases[0].name})</span>}
+                </li>
+              ))}
+              {filteredArtists.length === 0 && <li className="px-2 py-1.5 text-gray-500">검색 결과가 없습니다</li>}
+            </ul>
+          </div>
+
+          {selectedSlot && (
+            <div className="rounded-lg border p-3 space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">선택한 공연</h4>
+                <Button size="sm" variant="outline" className="text-red-600" onClick={handleDeleteSlot} disabled={isSaving}>
+                  <FiTrash2 className="mr-1" /> 삭제
+                </Button>
+              </div>
+              <p className="text-gray-600">
+                {selectedSlot.performanceDate} {formatGridTime(selectedSlot.start)}~{formatGridTime(selectedSlot.end)} ·{' '}
+                {hallNames[selectedSlot.hallId]}
+              </p>
+              {selectedSlot.artists.length === 0 ? (
+                <p className="text-gray-500">아티스트를 끌어다 놓아 배정하세요.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {selectedSlot.artists.map(artist => (
+                    <li key={artist.artistId} className="flex items-center gap-2">
+                      <span className="flex-1">{artist.artistName || `ID ${artist.artistId}`}</span>
+                      <Button size="sm" variant="outline" onClick={() => handleToggleArtistType(artist.artistId)} disabled={isSaving}>
+                        {artist.type === 'MAIN' ? '메인' : '서브'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleRemoveArtist(artist.artistId)} disabled={isSaving}>
+                        <FiX />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {lockedTimeTables.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+              <p className="font-medium">그리드에 표시하지 않는 항목 {lockedTimeTables.length}개</p>
+              <p>날짜/시간이 미정이거나 홀이 연결되지 않은 타임테이블은 변경되지 않습니다.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <UnitOfWorkDialog title="타임테이블 저장" state={workState} onRetry={handleRetry} onRollback={handleRollback} onClose={handleCloseWork} />
+    </div>
+  );
+}
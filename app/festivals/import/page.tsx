@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { fetchArtists, fetchFestivals, fetchPlaces } from '@/lib/api';
+import { downloadFile } from '@/lib/download';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  getImportFormat,
+  IMPORT_CSV_TEMPLATE,
+  IMPORT_JSON_TEMPLATE,
+  ImportPreview,
+  ImportReferenceData,
+  ImportRow,
+  ImportRowKind,
+  previewFestivalImport,
+} from '@/lib/festival-import';
+import { buildFestivalCreateSteps } from '@/lib/festival-steps';
+import { createUnitOfWork, UnitOfWork, UnitOfWorkState } from '@/lib/unit-of-work';
+import { createLogger } from '@/lib/logger';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import UnitOfWorkDialog from '@/components/UnitOfWorkDialog';
+import { FiAlertCircle, FiAlertTriangle, FiArrowLeft, FiCheckCircle, FiDownload, FiRefreshCw, FiUpload } from 'react-icons/fi';
+
+const log = createLogger('festivals');
+
+const KIND_LABELS: Record<ImportRowKind, string> = {
+  performance: '공연',
+  timetable: '타임테이블',
+  reservation: '예매정보',
+  url: 'URL',
+  unknown: '알 수 없음',
+};
+
+const ImportRowCells = ({ row }: { row: ImportRow }) => (
+  <>
+    <TableCell className="whitespace-nowrap text-xs text-gray-500">{row.location}</TableCell>
+    <TableCell className="whitespace-nowrap text-sm">{KIND_LABELS[row.kind]}</TableCell>
+    <TableCell className="text-sm">{row.summary}</TableCell>
+    <TableCell className="text-xs">
+      {row.errors.length === 0 && row.warnings.length === 0 && <FiCheckCircle className="text-green-600" />}
+      {row.errors.map((message, index) => (
+        <p key={`error-${index}`} className="flex items-start gap-1 text-red-600">
+          <FiAlertCircle className="mt-0.5 shrink-0" />
+          {message}
+        </p>
+      ))}
+      {row.warnings.map((message, index) => (
+        <p key={`warning-${index}`} className="flex items-start gap-1 text-amber-600">
+          <FiAlertTriangle className="mt-0.5 shrink-0" />
+          {message}
+        </p>
+      ))}
+    </TableCell>
+  </>
+);
+
+// 페스티벌 일괄 가져오기 - 파일 선택 → 행별 미리보기 → 오류 없는 페스티벌만 생성
+export default function FestivalImportPage() {
+  const router = useRouter();
+  const [refs, setRefs] = useState<ImportReferenceData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [workState, setWorkState] = useState<UnitOfWorkState | null>(null);
+  const workRef = useRef<UnitOfWork | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  // 장소, 아티스트, 기존 페스티벌 - 이름으로 찾거나 중복을 확인할 때 사용
+  const loadReferenceData = async (): Promise<ImportReferenceData | null> => {
+    try {
+      const [places, artists, festivals] = await Promise.all([fetchPlaces(), fetchArtists(), fetchFestivals()]);
+      const data = { places, artists, festivals };
+      setRefs(data);
+      setError(null);
+      return data;
+    } catch (err) {
+      log.error('Failed to load import reference data:', err);
+      setError(`장소/아티스트 목록을 불러오지 못했습니다: ${getErrorMessage(err)}`);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected || !refs) return;
+
+    try {
+      const content = await selected.text();
+      setFile({ name: selected.name, content });
+      setPreview(previewFestivalImport(content, getImportFormat(selected.name), refs));
+    } catch (err) {
+      log.error('Failed to read import file:', err);
+      alert(`파일을 읽지 못했습니다: ${getErrorMessage(err)}`);
+    }
+  };
+
+  // 빠진 장소/아티스트를 다른 화면에서 추가한 뒤 최신 목록으로 다시 검사
+  const handleRecheck = async () => {
+    if (!file) return;
+    const data = await loadReferenceData();
+    if (data) setPreview(previewFestivalImport(file.content, getImportFormat(file.name), data));
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const importable = preview?.festivals.filter(f => !f.hasErrors) || [];
+
+  const handleImport = async () => {
+    if (importable.length === 0) return;
+    const skipped = (preview?.festivals.length || 0) - importable.length;
+    const message = skipped > 0
+      ? `페스티벌 ${importable.length}개를 가져옵니다. 오류가 있는 ${skipped}개는 제외됩니다. 계속하시겠습니까?`
+      : `페스티벌 ${importable.length}개를 가져오시겠습니까?`;
+    if (!confirm(message)) return;
+
+    const steps = importable.flatMap((item, index) => buildFestivalCreateSteps(item.festival, `${index}-`));
+    const unit = createUnitOfWork(steps, setWorkState);
+    workRef.current = unit;
+
+    const result = await unit.run();
+    if (result.status === 'completed') finishImport();
+  };
+
+  const finishImport = () => {
+    workRef.current = null;
+    setWorkState(null);
+    alert('페스티벌을 모두 가져왔습니다.');
+    router.push('/festivals');
+  };
+
+  const handleRetryImport = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.retryFailed();
+    if (result.status === 'completed') finishImport();
+  };
+
+  const handleRollbackImport = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.rollback();
+    if (result.status === 'rolledBack') {
+      alert('가져오기를 취소하고 생성된 페스티벌을 삭제했습니다.');
+      workRef.current = null;
+      setWorkState(null);
+    }
+  };
+
+  // 일부만 생성된 채로 닫으면 같은 파일을 다시 가져와 중복되지 않도록 목록으로 이동
+  const handleCloseImport = () => {
+    const isPartiallyApplied = workState?.steps.some(step => step.status === 'done');
+    workRef.current = null;
+    setWorkState(null);
+    if (isPartiallyApplied) {
+      alert('일부 페스티벌만 생성되었습니다. 목록에서 확인 후 나머지를 다시 가져와주세요.');
+      router.push('/festivals');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 py-10">
+      <div className="max-w-6xl mx-auto px-4">
+        <Link href="/festivals" className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <FiArrowLeft />
+          페스티벌 목록
+        </Link>
+        <h1 className="text-3xl font-bold mb-8 text-gray-900">페스티벌 가져오기</h1>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow p-6 mb-6">
+          <h2 className="text-xl font-bold mb-2">1. 파일 선택</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            CSV 또는 JSON 파일로 공연, 타임테이블(날짜, 시작/종료 시간, 홀 이름, 아티스트 이름), 예매정보를 한 번에 등록합니다.
+            장소, 홀, 아티스트는 이미 등록된 이름(아티스트는 별칭 포함)으로 찾습니다.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+            <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={!refs}>
+              <FiUpload className="mr-2" />
+              파일 선택
+            </Button>
+            <Button type="button" variant="outline" onClick={() => downloadFile(IMPORT_CSV_TEMPLATE, 'festival-import.csv', 'text/csv')}>
+              <FiDownload className="mr-2" />
+              CSV 예시
+            </Button>
+            <Button type="button" variant="outline" onClick={() => downloadFile(IMPORT_JSON_TEMPLATE, 'festival-import.json', 'application/json')}>
+              <FiDownload className="mr-2" />
+              JSON 예시
+            </Button>
+            {file && <span className="ml-2 text-sm text-gray-600">{file.name}</span>}
+          </div>
+        </div>
+
+        {preview && (
+          <div className="bg-white rounded-2xl shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-bold">2. 미리보기</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  페스티벌 {preview.festivals.length}개 중 {importable.length}개를 가져올 수 있습니다.
+                  {preview.festivals.length > importable.length && ' 오류가 있는 페스티벌은 제외됩니다.'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={handleRecheck}>
+                  <FiRefreshCw className="mr-2" />
+                  다시 검사
+                </Button>
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  취소
+                </Button>
+                <Button type="button" onClick={handleImport} disabled={importable.length === 0}>
+                  가져오기 ({importable.length}개)
+                </Button>
+              </div>
+            </div>
+
+            {preview.fileErrors.map((message, index) => (
+              <div key={index} className="mb-4 flex items-start gap-2 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-600">
+                <FiAlertCircle className="mt-0.5 shrink-0" />
+                {message}
+              </div>
+            ))}
+
+            {(preview.festivals.length > 0 || preview.unmatchedRows.length > 0) && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>위치</TableHead>
+                      <TableHead>종류</TableHead>
+                      <TableHead>내용</TableHead>
+                      <TableHead>확인 사항</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.festivals.map((item, index) => (
+                      <React.Fragment key={index}>
+                        <TableRow className="bg-gray-50">
+                          <TableCell colSpan={4} className="font-medium">
+                            {item.name || '(이름 없음)'}
+                            <span className={`ml-2 rounded-full px-2 text-xs ${item.hasErrors ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>
+                              {item.hasErrors ? '오류로 제외' : '가져오기 가능'}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                        {item.rows.map(row => (
+                          <TableRow key={row.location}>
+                            <ImportRowCells row={row} />
+                          </TableRow>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                    {preview.unmatchedRows.length > 0 && (
+                      <TableRow className="bg-gray-50">
+                        <TableCell colSpan={4} className="font-medium">페스티벌에 속하지 않는 행</TableCell>
+                      </TableRow>
+                    )}
+                    {preview.unmatchedRows.map(row => (
+                      <TableRow key={row.location}>
+                        <ImportRowCells row={row} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <UnitOfWorkDialog
+        title="페스티벌 가져오기"
+        state={workState}
+        onRetry={handleRetryImport}
+        onRollback={handleRollbackImport}
+        onClose={handleCloseImport}
+      />
+    </div>
+  );
+}
@@ -1,292 +1,239 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { Festival } from '@/types/festival';
-import { fetchFestivals, createFestival, updateFestival, deleteFestival, updateReservationInfos, fetchHallsByPlaceId, addTimeTable, fetchPlaces } from '@/lib/api';
+import { isAllowedPosterHost } from '@/lib/poster-image';
+import { fetchFestivals, createFestival, deleteFestival, fetchPlaces } from '@/lib/api';
 import { format } from 'date-fns';
 import FestivalForm from './components/FestivalForm';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHeader, TableHead, TableRow } from '@/components/ui/table';
-import TimeTable from './components/TimeTable';
-import ReservationInfo from './components/ReservationInfo';
-import PasswordModal from '@/components/PasswordModal';
-import React from 'react';
-import { FiPlus, FiEdit2, FiTrash2 } from 'react-icons/fi';
-import { Hall } from '@/types/place';
+import LinkResolutionDialog from './components/LinkResolutionDialog';
+import FestivalExportMenu from './components/FestivalExportMenu';
+import CloneFestivalDialog from './components/CloneFestivalDialog';
+import FestivalListFilters, { FESTIVAL_STATUS_LABELS } from './components/FestivalListFilters';
+import SortableHead from './components/SortableHead';
+import Pagination from '@/components/Pagination';
+import UnitOfWorkDialog from '@/components/UnitOfWorkDialog';
+import Link from 'next/link';
+import { FiPlus, FiEdit2, FiTrash2, FiAlertTriangle, FiImage, FiCopy, FiUpload } from 'react-icons/fi';
+import { Place } from '@/types/place';
+import { NotFoundError, ValidationError, getErrorMessage, getFieldErrorMap } from '@/lib/errors';
+import { invalidateQueries, queryKeys, useQuerySubscription } from '@/lib/query-cache';
+import { createLogger } from '@/lib/logger';
+import { createUnitOfWork, UnitOfWork, UnitOfWorkState } from '@/lib/unit-of-work';
+import { cloneFestival, CloneOptions } from '@/lib/festival-clone';
+import { buildFestivalCreateSteps } from '@/lib/festival-steps';
+import {
+  applyFestivalListQuery,
+  DEFAULT_FESTIVAL_LIST_QUERY,
+  FestivalListQuery,
+  FestivalStatus,
+  getFestivalStatus,
+  getToday,
+  hasActiveFilters,
+  parseFestivalListQuery,
+  toFestivalListSearchParams,
+} from '@/lib/festival-list';
+
+const log = createLogger('festivals');
+
+// 수정, 타임테이블, 예매정보는 상세 페이지(/festivals/[id])에서 처리
+interface FestivalAction {
+  type: 'create' | 'delete';
+  data?: any;
+  id?: number;
+}
+
+const STATUS_BADGE_CLASS_NAMES: Record<FestivalStatus, string> = {
+  upcoming: 'bg-blue-50 text-blue-700',
+  ongoing: 'bg-green-50 text-green-700',
+  past: 'bg-gray-100 text-gray-500',
+};
 
 export default function FestivalsPage() {
   const [festivals, setFestivals] = useState<Festival[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingFestival, setEditingFestival] = useState<Festival | null>(null);
-  const [openTimeTable, setOpenTimeTable] = useState<number | null>(null);
-  const [openReservation, setOpenReservation] = useState<number | null>(null);
-  const [hallsByPlaceId, setHallsByPlaceId] = useState<Record<number, Hall[]>>({});
-  
-  // 비밀번호 모달 상태
-  const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
-  const [pendingAction, setPendingAction] = useState<{
-    type: 'create' | 'update' | 'delete' | 'updateReservation' | 'updateTimeTable';
-    data?: any;
-    id?: number;
-  } | null>(null);
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [linkingFestival, setLinkingFestival] = useState<Festival | null>(null);
+  const [cloningFestival, setCloningFestival] = useState<Festival | null>(null);
+  const [cloneSource, setCloneSource] = useState<Omit<Festival, 'id'> | undefined>(undefined);
+  const [workState, setWorkState] = useState<UnitOfWorkState | null>(null);
+  const workRef = useRef<UnitOfWork | null>(null);
+
+  // 검색/필터/정렬/페이지는 URL 쿼리에 보관 - 링크를 공유하면 같은 목록이 열림
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const listQuery = useMemo(() => parseFestivalListQuery(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const listResult = useMemo(() => applyFestivalListQuery(festivals, listQuery), [festivals, listQuery]);
+  const today = getToday();
 
   useEffect(() => {
     loadFestivals();
   }, []);
 
+  // 캐시가 갱신되면(백그라운드 재검증, 변경 후 무효화) 목록 다시 반영
+  useQuerySubscription([queryKeys.festivals, queryKeys.places], () => loadFestivals());
+
   const loadFestivals = async () => {
     try {
       const data = await fetchFestivals();
-      console.log('Fetched festivals:', data);
       setFestivals(data);
       
-      // 전체 장소 목록을 가져와서 홀 정보 추출
+      // 장소 필터에 쓸 전체 장소 목록
       try {
         const places = await fetchPlaces();
-        console.log('Fetched places:', places);
-        const hallsMap: Record<number, Hall[]> = {};
-        
-        // 각 장소의 홀 정보를 맵에 저장
-        places.forEach(place => {
-          console.log(`Processing place ${place.id}: ${place.placeName}`, place.halls);
-          hallsMap[place.id] = place.halls || [];
-        });
-        
-        console.log('Halls map:', hallsMap);
-        
-        // 페스티벌의 placeId 확인
-        data.forEach(festival => {
-          console.log(`Festival "${festival.name}" has placeId: ${festival.placeId}`);
-          if (festival.placeId && hallsMap[festival.placeId]) {
-            console.log(`Available halls for festival "${festival.name}":`, hallsMap[festival.placeId]);
-          }
-        });
-        
-        setHallsByPlaceId(hallsMap);
+        log.debug(`loaded ${data.length} festivals, ${places.length} places`, { festivals: data });
+        setPlaces(places);
       } catch (error) {
-        console.error('Failed to fetch places:', error);
-        setHallsByPlaceId({});
+        log.error('Failed to fetch places:', error);
+        setPlaces([]);
       }
       
       setError(null);
     } catch (err) {
       setError('Failed to load festivals');
-      console.error(err);
+      log.error('Failed to load festivals:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleCreateFestival = async (festivalData: Omit<Festival, 'id'>) => {
-    setPendingAction({ type: 'create', data: festivalData });
-    setIsPasswordModalOpen(true);
-  };
-
-  const handleUpdateFestival = async (festivalData: Omit<Festival, 'id'>) => {
-    if (!editingFestival) return;
-    setPendingAction({ type: 'update', data: festivalData, id: editingFestival.id });
-    setIsPasswordModalOpen(true);
+  const replaceListQuery = (query: FestivalListQuery) => {
+    const queryString = toFestivalListSearchParams(query).toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
   };
 
-  const handleDeleteFestival = async (id: number) => {
-    setPendingAction({ type: 'delete', id });
-    setIsPasswordModalOpen(true);
+  // 필터가 바뀌면 첫 페이지로 이동
+  const updateListQuery = (changes: Partial<FestivalListQuery>) => {
+    replaceListQuery({ ...listQuery, page: 1, ...changes });
   };
 
-  const handlePasswordConfirm = async (password: string) => {
-    if (!pendingAction) return;
-    
-    try {
-      switch (pendingAction.type) {
-        case 'create':
-          await createFestival(pendingAction.data, password);
-          alert('페스티벌이 성공적으로 추가되었습니다.');
-          break;
-        case 'update':
-          if (pendingAction.id) {
-            await updateFestival(pendingAction.id, pendingAction.data, password);
-            alert('페스티벌이 성공적으로 수정되었습니다.');
-          }
-          break;
-        case 'delete':
-          if (pendingAction.id) {
-            await deleteFestival(pendingAction.id);
-            alert('페스티벌이 성공적으로 삭제되었습니다.');
-          }
-          break;
-        case 'updateReservation':
-          if (pendingAction.id) {
-            await updateReservationInfos(pendingAction.id, pendingAction.data, password);
-            alert('예매정보가 성공적으로 추가되었습니다.');
-          }
-          break;
-        case 'updateTimeTable':
-          if (pendingAction.id) {
-            // 새로운 타임테이블 데이터 추출
-            const newTimeTable = pendingAction.data[pendingAction.data.length - 1]; // 마지막 항목이 새로 추가된 것
-            await addTimeTable(pendingAction.id, {
-              performanceDate: newTimeTable.performanceDate,
-              startTime: newTimeTable.startTime,
-              endTime: newTimeTable.endTime,
-              hallId: newTimeTable.hallId,
-              password: password
-            });
-            alert('타임테이블이 성공적으로 추가되었습니다.');
-            await loadFestivals();
-          }
-          break;
-      }
-      
-      await loadFestivals();
-      setEditingFestival(null);
-      setIsFormOpen(false);
-      // 성공 후 모든 상태를 초기화
-      setOpenTimeTable(null);
-      setOpenReservation(null);
-    } catch (error: any) {
-      // 서버 에러 응답을 alert로 표시
-      let errorMessage = error.message || '알 수 없는 오류가 발생했습니다.';
-      if (error.message && error.message.includes('401')) {
-        errorMessage = '비밀번호를 확인해주세요.';
-      }
-      alert(`오류: ${errorMessage}`);
-      console.error('API Error:', error);
-    } finally {
-      setIsPasswordModalOpen(false);
-      setPendingAction(null);
+  const handleCreateFestival = async (festivalData: Omit<Festival, 'id'>) => {
+    if (cloneSource) {
+      await runClone(festivalData);
+      return;
     }
+    await runAction({ type: 'create', data: festivalData });
   };
 
-  const handlePasswordCancel = () => {
-    setIsPasswordModalOpen(false);
-    setPendingAction(null);
-  };
-
-  const handleEdit = (festival: Festival) => {
-    setEditingFestival(festival);
+  // 복제 옵션을 고르면 복제본을 새 페스티벌 폼에 채워서 저장 전에 검토
+  const handleConfirmClone = (festival: Festival, options: CloneOptions) => {
+    setCloningFestival(null);
+    setCloneSource(cloneFestival(festival, options));
+    setFormErrors({});
     setIsFormOpen(true);
   };
 
-  const handleCloseForm = () => {
-    setIsFormOpen(false);
-    setEditingFestival(null);
-    // 폼이 닫힐 때 모든 관련 상태를 초기화
-    setOpenTimeTable(null);
-    setOpenReservation(null);
+  // 페스티벌 생성, 예매정보, 타임테이블 추가를 단계별로 실행 - 실패하면 대화상자에서 다시 시도하거나 되돌림
+  const runClone = async (festivalData: Omit<Festival, 'id'>) => {
+    const unit = createUnitOfWork(buildFestivalCreateSteps(festivalData), setWorkState);
+    workRef.current = unit;
+
+    const result = await unit.run();
+    if (result.status === 'completed') {
+      await finishClone('페스티벌이 성공적으로 복제되었습니다.');
+      return;
+    }
+
+    // 페스티벌 생성 단계의 검증 실패는 폼의 해당 필드 옆에도 표시
+    const failedStep = result.steps.find(step => step.status === 'failed');
+    if (failedStep?.id === 'festival' && failedStep.error instanceof ValidationError) {
+      setFormErrors(getFieldErrorMap(failedStep.error, 'performance.'));
+    }
   };
 
-  const handleAddReservation = (festivalId: number) => {
-    // 예매정보 추가는 인라인 폼에서 처리하므로 아무것도 하지 않음
-    // ReservationInfo 컴포넌트 내부에서 처리됨
+  const finishClone = async (message?: string) => {
+    workRef.current = null;
+    setWorkState(null);
+    if (message) alert(message);
+    await loadFestivals();
+    handleCloseForm();
   };
 
-  const handleEditReservation = (festivalId: number) => {
-    // 예매정보 수정 로직 - 상세보기 모달을 열고 예매정보 수정 모드로 설정
-    const festival = festivals.find(f => f.id === festivalId);
-    if (festival) {
-      setEditingFestival(festival);
-      setIsFormOpen(true);
-      // TODO: 예매정보 수정 모드로 설정하는 로직 추가 필요
+  const handleRetryClone = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.retryFailed();
+    if (result.status === 'completed') {
+      await finishClone('페스티벌이 성공적으로 복제되었습니다.');
     }
   };
 
-  const handleSaveNewReservation = async (festivalId: number, newReservation: any) => {
-    try {
-      // 현재 페스티벌의 예매정보 목록을 가져옴
-      const currentFestival = festivals.find(f => f.id === festivalId);
-      if (!currentFestival) {
-        throw new Error('페스티벌을 찾을 수 없습니다.');
-      }
-
-      // 새로운 예매정보를 기존 목록에 추가 (id는 서버에서 생성됨)
-      const updatedReservationInfos = [
-        ...currentFestival.reservationInfos,
-        newReservation
-      ];
-
-      // 비밀번호 모달을 열기 위해 pendingAction 설정
-      setPendingAction({
-        type: 'updateReservation',
-        id: festivalId,
-        data: updatedReservationInfos,
-      });
-      setIsPasswordModalOpen(true);
-    } catch (error: any) {
-      alert(`예매정보 추가 오류: ${error.message}`);
+  const handleRollbackClone = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.rollback();
+    if (result.status === 'rolledBack') {
+      alert('복제를 취소하고 생성된 페스티벌을 삭제했습니다.');
+      workRef.current = null;
+      setWorkState(null);
+      await loadFestivals();
     }
   };
 
-  const handleSaveUpdatedReservations = async (festivalId: number, updatedReservations: any[]) => {
-    try {
-      // 비밀번호 모달을 열기 위해 pendingAction 설정
-      setPendingAction({
-        type: 'updateReservation',
-        id: festivalId,
-        data: updatedReservations,
-      });
-      setIsPasswordModalOpen(true);
-    } catch (error: any) {
-      alert(`예매정보 수정 오류: ${error.message}`);
+  // 페스티벌이 이미 만들어졌으면 폼을 닫아서 같은 복제본이 다시 저장되지 않게 함
+  const handleCloseCloneWork = async () => {
+    const isFestivalCreated = workState?.steps.some(step => step.id === 'festival' && step.status === 'done');
+    if (isFestivalCreated) {
+      await finishClone();
+      return;
     }
+    workRef.current = null;
+    setWorkState(null);
   };
 
-  const handleSaveNewTimeTable = async (newTimeTable: any) => {
+  const handleDeleteFestival = async (id: number) => {
+    if (!confirm('페스티벌을 삭제하시겠습니까?')) return;
+    await runAction({ type: 'delete', id });
+  };
+
+  // 관리자 세션의 비밀번호는 lib/api.ts에서 자동으로 첨부됨
+  const runAction = async (action: FestivalAction) => {
     try {
-      // 빈 객체가 전달되면 아티스트 업데이트 후 새로고침
-      if (Object.keys(newTimeTable).length === 0) {
-        await loadFestivals();
-        return;
+      switch (action.type) {
+        case 'create':
+          await createFestival(action.data);
+          alert('페스티벌이 성공적으로 추가되었습니다.');
+          break;
+        case 'delete':
+          if (action.id) {
+            await deleteFestival(action.id);
+            alert('페스티벌이 성공적으로 삭제되었습니다.');
+          }
+          break;
       }
+      
+      await loadFestivals();
+      setIsFormOpen(false);
+      setFormErrors({});
+    } catch (error) {
+      log.error('API Error:', error);
 
-      // 현재 페스티벌의 타임테이블 목록을 가져옴
-      const currentFestival = festivals.find(f => f.id === openTimeTable);
-      if (!currentFestival) {
-        throw new Error('페스티벌을 찾을 수 없습니다.');
+      // 인증 실패(AuthError) 시에는 재인증 프롬프트가 뜨고 폼은 그대로 유지됨
+      if (error instanceof ValidationError) {
+        // 폼에서 발생한 요청이면 해당 입력 필드 옆에 에러 표시
+        if (action.type === 'create') {
+          setFormErrors(getFieldErrorMap(error, 'performance.'));
+        }
+      } else if (error instanceof NotFoundError) {
+        // 다른 관리자가 먼저 삭제한 경우 목록을 최신 상태로 갱신
+        invalidateQueries(queryKeys.festivals);
+        await loadFestivals();
       }
 
-      // 새로운 타임테이블을 기존 목록에 추가 (id는 서버에서 생성됨)
-      const updatedTimeTables = [
-        ...currentFestival.timeTables,
-        newTimeTable
-      ];
-
-      // 비밀번호 모달을 열기 위해 pendingAction 설정
-      setPendingAction({
-        type: 'updateTimeTable',
-        id: currentFestival.id,
-        data: updatedTimeTables,
-      });
-      setIsPasswordModalOpen(true);
-    } catch (error: any) {
-      alert(`타임테이블 추가 오류: ${error.message}`);
-    }
-  };
-
-  const getPasswordModalTitle = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '페스티벌 추가';
-      case 'update': return '페스티벌 수정';
-      case 'delete': return '페스티벌 삭제';
-      case 'updateReservation': return '예매정보 추가';
-      case 'updateTimeTable': return '타임테이블 추가';
-      default: return '관리자 인증';
+      alert(`오류: ${getErrorMessage(error)}`);
     }
   };
 
-  const getPasswordModalMessage = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '새 페스티벌을 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'update': return '페스티벌을 수정하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'delete': return '페스티벌을 삭제하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'updateReservation': return '예매정보를 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'updateTimeTable': return '타임테이블을 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      default: return '관리자 비밀번호를 입력해주세요.';
-    }
+  const handleCloseForm = () => {
+    setIsFormOpen(false);
+    setFormErrors({});
+    setCloneSource(undefined);
   };
 
   if (isLoading) {
@@ -314,19 +261,39 @@ export default function FestivalsPage() {
         <div className="bg-white rounded-2xl shadow p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold">페스티벌 목록</h2>
-            <Button onClick={() => setIsFormOpen(true)}>
-              <FiPlus className="mr-2" />
-              페스티벌 추가
-            </Button>
+            <div className="flex gap-2">
+              <FestivalExportMenu festivals={listResult.filtered} fileName="festivals" />
+              <Button variant="outline" asChild>
+                <Link href="/festivals/import">
+                  <FiUpload className="mr-2" />
+                  가져오기
+                </Link>
+              </Button>
+              <Button onClick={() => setIsFormOpen(true)}>
+                <FiPlus className="mr-2" />
+                페스티벌 추가
+              </Button>
+            </div>
           </div>
+          <FestivalListFilters
+            query={listQuery}
+            places={places}
+            onChange={updateListQuery}
+            onReset={() => replaceListQuery({ ...DEFAULT_FESTIVAL_LIST_QUERY, sort: listQuery.sort, order: listQuery.order })}
+          />
+          <p className="mb-2 text-sm text-gray-500">
+            {hasActiveFilters(listQuery)
+              ? `전체 ${festivals.length}개 중 ${listResult.totalCount}개`
+              : `전체 ${festivals.length}개`}
+          </p>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>포스터</TableHead>
-                  <TableHead>이름</TableHead>
-                  <TableHead>장소</TableHead>
-                  <TableHead>기간</TableHead>
+                  <SortableHead label="이름" sortKey="name" currentSort={listQuery.sort} currentOrder={listQuery.order} onSort={(sort, order) => updateListQuery({ sort, order })} />
+                  <SortableHead label="장소" sortKey="place" currentSort={listQuery.sort} currentOrder={listQuery.order} onSort={(sort, order) => updateListQuery({ sort, order })} />
+                  <SortableHead label="기간" sortKey="startDate" currentSort={listQuery.sort} currentOrder={listQuery.order} onSort={(sort, order) => updateListQuery({ sort, order })} />
                   <TableHead>금지물품</TableHead>
                   <TableHead>교통정보</TableHead>
                   <TableHead>비고</TableHead>
@@ -334,116 +301,118 @@ export default function FestivalsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {festivals.map(festival => (
-                  <React.Fragment key={festival.id}>
-                    <TableRow>
-                      <TableCell>
-                        <Image src={festival.posterUrl} alt={festival.name} width={48} height={48} className="rounded-md" />
-                      </TableCell>
-                      <TableCell className="font-medium">{festival.name}</TableCell>
-                      <TableCell>{festival.placeName || '미정'}<br/><span className="text-xs text-gray-500">{festival.placeAddress || ''}</span></TableCell>
-                      <TableCell>{`${festival.startDate} ~ ${festival.endDate}`}</TableCell>
-                      <TableCell>
-                        <div className="max-h-20 overflow-y-auto">
-                          <div className="whitespace-pre-wrap text-sm">
-                            {festival.banGoods}
-                          </div>
+                {listResult.items.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="py-10 text-center text-sm text-gray-500">
+                      {hasActiveFilters(listQuery) ? '조건에 맞는 페스티벌이 없습니다.' : '등록된 페스티벌이 없습니다.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {listResult.items.map(festival => (
+                  <TableRow key={festival.id}>
+                    <TableCell>
+                      {festival.posterUrl ? (
+                        <Image src={festival.posterUrl} alt={festival.name} unoptimized={!isAllowedPosterHost(festival.posterUrl)} width={48} height={48} className="rounded-md" />
+                      ) : (
+                        <div className="flex h-12 w-12 items-center justify-center rounded-md bg-gray-100 text-gray-400" title="포스터 없음">
+                          <FiImage />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/festivals/${festival.id}`} className="hover:text-blue-700 hover:underline">
+                        {festival.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {festival.placeName || '미정'}<br/><span className="text-xs text-gray-500">{festival.placeAddress || ''}</span>
+                      {festival.linkIssues && festival.linkIssues.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setLinkingFestival(festival)}
+                          className="mt-1 flex items-center gap-1 text-xs font-medium text-amber-600 hover:text-amber-700"
+                        >
+                          <FiAlertTriangle />
+                          연결 확인 필요 ({festival.linkIssues.length})
+                        </button>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {`${festival.startDate} ~ ${festival.endDate}`}
+                      <br />
+                      <span className={`mt-1 inline-block rounded-full px-2 text-xs ${STATUS_BADGE_CLASS_NAMES[getFestivalStatus(festival, today)]}`}>
+                        {FESTIVAL_STATUS_LABELS[getFestivalStatus(festival, today)]}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="max-h-20 overflow-y-auto">
+                        <div className="whitespace-pre-wrap text-sm">
+                          {festival.banGoods}
                         </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="max-h-20 overflow-y-auto">
-                          <div className="whitespace-pre-wrap text-sm">
-                            {festival.transportationInfo}
-                          </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="max-h-20 overflow-y-auto">
+                        <div className="whitespace-pre-wrap text-sm">
+                          {festival.transportationInfo}
                         </div>
-                      </TableCell>
-                      <TableCell>{festival.remark}</TableCell>
-                      <TableCell className="text-right space-x-2">
-                        <Button size="sm" variant="outline" onClick={() => {
-                          if (openTimeTable === festival.id) {
-                            setOpenTimeTable(null);
-                          } else {
-                            setOpenTimeTable(festival.id);
-                            setOpenReservation(null);
-                          }
-                        }}>
-                          {openTimeTable === festival.id ? '닫기' : '타임테이블'}
-                        </Button>
-                        <Button size="sm" variant="outline" onClick={() => {
-                          if (openReservation === festival.id) {
-                            setOpenReservation(null);
-                          } else {
-                            setOpenReservation(festival.id);
-                            setOpenTimeTable(null);
-                          }
-                        }}>
-                          {openReservation === festival.id ? '닫기' : '예매정보'}
-                        </Button>
-                        <Button size="sm" variant="outline" onClick={() => handleEdit(festival)}>
+                      </div>
+                    </TableCell>
+                    <TableCell>{festival.remark}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => setCloningFestival(festival)}>
+                        <FiCopy className="mr-1" />
+                        복제
+                      </Button>
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/festivals/${festival.id}`}>
                           <FiEdit2 className="mr-1" />
                           상세보기
-                        </Button>
-                        <Button 
-                          size="sm" 
-                          variant="outline" 
-                          onClick={() => handleDeleteFestival(festival.id)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <FiTrash2 className="mr-1" />
-                          삭제
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                    {openTimeTable === festival.id && (
-                      <TableRow>
-                        <TableCell colSpan={8} className="p-4 bg-muted">
-                          <TimeTable 
-                            timeTables={festival.timeTables}
-                            onSaveNewTimeTable={(newTimeTable) => handleSaveNewTimeTable(newTimeTable)}
-                            showManageButtons={true}
-                            availableHalls={festival.placeId ? (hallsByPlaceId[festival.placeId] || []) : []}
-                            festivalStartDate={festival.startDate}
-                          />
-                        </TableCell>
-                      </TableRow>
-                    )}
-                    {openReservation === festival.id && (
-                      <TableRow>
-                        <TableCell colSpan={8} className="p-4 bg-muted">
-                          <ReservationInfo 
-                            reservationInfos={festival.reservationInfos}
-                            onEditReservation={() => handleEditReservation(festival.id)}
-                            onSaveNewReservation={(newReservation) => handleSaveNewReservation(festival.id, newReservation)}
-                            onSaveUpdatedReservations={(updatedReservations) => handleSaveUpdatedReservations(festival.id, updatedReservations)}
-                            showManageButtons={true}
-                          />
-                        </TableCell>
-                      </TableRow>
-                    )}
-                  </React.Fragment>
+                        </Link>
+                      </Button>
+                      <Button 
+                        size="sm" 
+                        variant="outline" 
+                        onClick={() => handleDeleteFestival(festival.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <FiTrash2 className="mr-1" />
+                        삭제
+                      </Button>
+                    </TableCell>
+                  </TableRow>
                 ))}
               </TableBody>
             </Table>
           </div>
+          <Pagination
+            page={listResult.page}
+            pageCount={listResult.pageCount}
+            onChange={page => replaceListQuery({ ...listQuery, page })}
+          />
         </div>
       </div>
 
       <FestivalForm
         isOpen={isFormOpen}
-        onSubmit={editingFestival ? handleUpdateFestival : handleCreateFestival}
+        onSubmit={handleCreateFestival}
         onCancel={handleCloseForm}
-        initialData={editingFestival || undefined}
         isReadOnly={false}
-        hideTimeTableAndReservation={editingFestival ? true : false}
+        fieldErrors={formErrors}
+        cloneSource={cloneSource}
       />
 
-      <PasswordModal
-        isOpen={isPasswordModalOpen}
-        onConfirm={handlePasswordConfirm}
-        onCancel={handlePasswordCancel}
-        title={getPasswordModalTitle()}
-        message={getPasswordModalMessage()}
+      <CloneFestivalDialog festival={cloningFestival} onConfirm={handleConfirmClone} onClose={() => setCloningFestival(null)} />
+
+      <UnitOfWorkDialog
+        title="페스티벌 복제"
+        state={workState}
+        onRetry={handleRetryClone}
+        onRollback={handleRollbackClone}
+        onClose={handleCloseCloneWork}
       />
+
+      <LinkResolutionDialog festival={linkingFestival} onClose={() => setLinkingFestival(null)} />
     </div>
   );
 } 
\ No newline at end of file
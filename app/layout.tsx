@@ -1,7 +1,14 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import Link from 'next/link';
-import { FiCalendar, FiUsers, FiMapPin, FiBell } from 'react-icons/fi';
+import { FiCalendar, FiUsers, FiMapPin, FiBell, FiClipboard } from 'react-icons/fi';
+import AdminSessionGate from '@/components/AdminSessionGate';
+import SessionControls from '@/components/SessionControls';
+import EnvironmentSwitcher from '@/components/EnvironmentSwitcher';
+import EnvironmentBanner from '@/components/EnvironmentBanner';
+import DiagnosticsPanel from '@/components/DiagnosticsPanel';
+import DebugPanel from '@/components/DebugPanel';
+import OutboxIndicator from '@/components/OutboxIndicator';
 
 export const metadata: Metadata = {
   title: 'Festibee Dashboard',
@@ -20,7 +27,7 @@ export default function RootLayout({
           {/* Sidebar */}
           <aside className="w-60 bg-white border-r border-gray-200 flex flex-col py-8 px-4 shadow-sm">
             <div className="mb-10 text-2xl font-bold text-blue-600 tracking-tight">Festibee Dashboard</div>
-            <nav className="flex flex-col gap-2">
+            <nav className="flex flex-col gap-2 flex-1">
               <Link href="/festivals" className="flex items-center gap-3 px-3 py-2 rounded-lg text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition font-medium">
                 <FiCalendar className="text-xl" />
                 Manage Festivals
@@ -37,10 +44,22 @@ export default function RootLayout({
                 <FiBell className="text-xl" />
                 Alarm Tests
               </Link>
+              <Link href="/audit" className="flex items-center gap-3 px-3 py-2 rounded-lg text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition font-medium">
+                <FiClipboard className="text-xl" />
+                Audit Log
+              </Link>
             </nav>
+            <OutboxIndicator />
+            <DebugPanel />
+            <EnvironmentSwitcher />
+            <SessionControls />
           </aside>
           {/* Main content */}
-          <main className="flex-1 p-8">{children}</main>
+          <main className="flex-1 p-8">
+            <EnvironmentBanner />
+            <AdminSessionGate>{children}</AdminSessionGate>
+          </main>
+          <DiagnosticsPanel />
         </div>
       </body>
     </html>
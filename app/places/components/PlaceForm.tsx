@@ -4,17 +4,25 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import FieldError from '@/components/FieldError';
 import React from 'react';
 import { FiPlus, FiX, FiEdit2 } from 'react-icons/fi';
+import { createLogger } from '@/lib/logger';
+import { diffHalls, HallChanges } from '@/lib/place-edits';
+import { useValidation } from '@/lib/validation';
+import { placeRules } from '@/types/place-rules';
+
+const log = createLogger('places');
 
 interface PlaceFormProps {
-  onSubmit: (data: PlaceRequestBody, hallChanges?: { edits: Array<{id: number, name: string}>, adds: string[] }) => Promise<void>;
+  onSubmit: (data: PlaceRequestBody, hallChanges?: HallChanges) => Promise<void>;
   onCancel: () => void;
   onEditHall?: (hallId: number, newName: string) => void;
   onAddHalls?: (placeId: number, hallNames: string[]) => void;
   initialData?: Place;
   isOpen: boolean;
   isReadOnly?: boolean;
+  fieldErrors?: Record<string, string>; // 서버 검증 실패 시 필드별 에러 메시지
 }
 
 // 초기 폼 데이터 생성 함수
@@ -33,8 +41,9 @@ const getInitialFormData = (initialData?: Place): PlaceRequestBody => {
   };
 };
 
-export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls, initialData, isOpen, isReadOnly }: PlaceFormProps) {
+export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls, initialData, isOpen, isReadOnly, fieldErrors }: PlaceFormProps) {
   const [formData, setFormData] = useState<PlaceRequestBody>(() => getInitialFormData(initialData));
+  const { errors, touch, validateAll, reset: resetValidation } = useValidation(placeRules, formData, fieldErrors);
 
   // initialData가 변경될 때 폼 데이터 업데이트
   useEffect(() => {
@@ -45,21 +54,13 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
   useEffect(() => {
     if (!isOpen) {
       setFormData(getInitialFormData());
+      resetValidation();
     }
   }, [isOpen]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!formData.placeName.trim()) {
-      alert('장소명을 입력해주세요.');
-      return;
-    }
-    
-    if (!formData.address.trim()) {
-      alert('주소를 입력해주세요.');
-      return;
-    }
+    if (!validateAll()) return;
     
     // 빈 홀 이름 필터링
     let validHalls = formData.placeHalls.filter(hall => hall.trim() !== '');
@@ -71,33 +72,12 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
 
     try {
       // 기존 장소 수정 시 홀 변경사항 수집
-      let hallChanges = undefined;
+      let hallChanges: HallChanges | undefined = undefined;
       if (initialData) {
-        console.log('기존 장소 수정:', initialData);
-        console.log('폼 데이터:', validHalls);
-        
-        const originalHalls = initialData.halls;
-        const originalHallNames = originalHalls.map(hall => hall.name);
-        
-        // 1. 이름이 변경된 기존 홀 수집
-        const edits: Array<{id: number, name: string}> = [];
-        for (let i = 0; i < Math.min(originalHalls.length, validHalls.length); i++) {
-          const orig = originalHalls[i];
-          const newName = validHalls[i];
-          if (newName && newName !== orig.name) {
-            console.log(`홀 수정: ${orig.name} -> ${newName}`);
-            edits.push({ id: orig.id, name: newName });
-          }
-        }
-        
-        // 2. 기존에 없던 이름만 수집
-        const adds = validHalls.filter(hallName => !originalHallNames.includes(hallName));
-        if (adds.length > 0) {
-          console.log('새 홀 추가:', adds);
-        }
-        
-        if (edits.length > 0 || adds.length > 0) {
-          hallChanges = { edits, adds };
+        const changes = diffHalls(initialData.halls, validHalls);
+        if (changes.edits.length > 0 || changes.adds.length > 0) {
+          log.debug(`place ${initialData.id} hall changes`, changes);
+          hallChanges = changes;
         }
       }
       
@@ -108,7 +88,7 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
       }, hallChanges);
       
     } catch (error) {
-      console.error('Place form submission error:', error);
+      log.error('Place form submission error:', error);
     }
   };
 
@@ -117,6 +97,7 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
       ...prev,
       [field]: value,
     }));
+    touch(field);
   };
 
   const handleHallChange = (index: number, value: string) => {
@@ -124,6 +105,7 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
       ...prev,
       placeHalls: prev.placeHalls.map((hall, i) => i === index ? value : hall),
     }));
+    touch('placeHalls');
   };
 
   const addHall = () => {
@@ -195,6 +177,7 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
               disabled={isReadOnly}
               className="w-full"
             />
+            <FieldError message={errors.placeName} />
           </div>
 
           {/* 주소 */}
@@ -211,6 +194,7 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
               className="w-full"
               rows={3}
             />
+            <FieldError message={errors.address} />
           </div>
 
           {/* 홀 목록 */}
@@ -235,40 +219,44 @@ export default function PlaceForm({ onSubmit, onCancel, onEditHall, onAddHalls,
             
             <div className="space-y-3">
               {formData.placeHalls.map((hall, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <Input
-                    type="text"
-                    value={hall}
-                    onChange={(e) => handleHallChange(index, e.target.value)}
-                    placeholder={`홀 ${index + 1} 이름`}
-                    disabled={isReadOnly}
-                    className="flex-1"
-                  />
-                  {!isReadOnly && initialData && initialData.halls[index] && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEditHall(initialData.halls[index], hall)}
-                      className="text-blue-600 hover:text-blue-700"
-                      title="홀 수정"
-                    >
-                      <FiEdit2 className="w-4 h-4" />
-                    </Button>
-                  )}
-                  {!isReadOnly && formData.placeHalls.length > 1 && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeHall(index)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <FiX className="w-4 h-4" />
-                    </Button>
-                  )}
+                <div key={index}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="text"
+                      value={hall}
+                      onChange={(e) => handleHallChange(index, e.target.value)}
+                      placeholder={`홀 ${index + 1} 이름`}
+                      disabled={isReadOnly}
+                      className="flex-1"
+                    />
+                    {!isReadOnly && initialData && initialData.halls[index] && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditHall(initialData.halls[index], hall)}
+                        className="text-blue-600 hover:text-blue-700"
+                        title="홀 수정"
+                      >
+                        <FiEdit2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {!isReadOnly && formData.placeHalls.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeHall(index)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <FiX className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <FieldError message={errors[`placeHalls[${index}]`]} />
                 </div>
               ))}
+              <FieldError message={errors.placeHalls} />
             </div>
           </div>
 
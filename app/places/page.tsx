@@ -1,14 +1,31 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { fetchPlaces, createPlace, updatePlace, deletePlace, updateHall, addHalls } from '@/lib/api';
+import { useEffect, useRef, useState } from 'react';
+import { fetchPlaces, createPlace, deletePlace, updateHall } from '@/lib/api';
 import { Place, PlaceRequestBody } from '@/types/place';
 import PlaceForm from './components/PlaceForm';
+import UnitOfWorkDialog from '@/components/UnitOfWorkDialog';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHeader, TableHead, TableRow } from '@/components/ui/table';
-import PasswordModal from '@/components/PasswordModal';
+import { ConflictError, NotFoundError, ValidationError, getErrorMessage, getFieldErrorMap } from '@/lib/errors';
+import { invalidateQueries, queryKeys, useQuerySubscription } from '@/lib/query-cache';
 import React from 'react';
 import { FiPlus, FiEdit2, FiTrash2, FiEye } from 'react-icons/fi';
+import { createLogger } from '@/lib/logger';
+import { buildAddHallsSteps, buildPlaceUpdateSteps, HallChanges } from '@/lib/place-edits';
+import { createUnitOfWork, UnitOfWork, UnitOfWorkState, WorkStep } from '@/lib/unit-of-work';
+
+const log = createLogger('places');
+
+interface PlaceAction {
+  type: 'create' | 'update' | 'delete' | 'editHall' | 'addHalls';
+  data?: any;
+  id?: number;
+  hallId?: number;
+  hallName?: string;
+  hallNames?: string[];
+  hallChanges?: HallChanges;
+}
 
 export default function PlacesPage() {
   const [places, setPlaces] = useState<Place[]>([]);
@@ -17,23 +34,17 @@ export default function PlacesPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingPlace, setEditingPlace] = useState<Place | null>(null);
   const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
-  
-  // 비밀번호 모달 상태
-  const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
-  const [pendingAction, setPendingAction] = useState<{
-    type: 'create' | 'update' | 'delete' | 'editHall' | 'addHalls';
-    data?: any;
-    id?: number;
-    hallId?: number;
-    hallName?: string;
-    hallNames?: string[];
-    hallChanges?: { edits: Array<{id: number, name: string}>, adds: string[] };
-  } | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [workTitle, setWorkTitle] = useState('');
+  const [workState, setWorkState] = useState<UnitOfWorkState | null>(null);
+  const workRef = useRef<{ unit: UnitOfWork; successMessage: string } | null>(null);
 
   useEffect(() => {
     loadPlaces();
   }, []);
 
+  useQuerySubscription([queryKeys.places], () => loadPlaces());
+
   const loadPlaces = async () => {
     try {
       const data = await fetchPlaces();
@@ -41,85 +52,127 @@ export default function PlacesPage() {
       setError(null);
     } catch (err) {
       setError('Failed to load places');
-      console.error(err);
+      log.error('Failed to load places:', err);
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleCreatePlace = async (placeData: PlaceRequestBody) => {
-    setPendingAction({ type: 'create', data: placeData });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'create', data: placeData });
   };
 
-  const handleUpdatePlace = async (placeData: PlaceRequestBody, hallChanges?: { edits: Array<{id: number, name: string}>, adds: string[] }) => {
+  const handleUpdatePlace = async (placeData: PlaceRequestBody, hallChanges?: HallChanges) => {
     if (!editingPlace) return;
-    setPendingAction({ type: 'update', data: placeData, id: editingPlace.id, hallChanges });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'update', data: placeData, id: editingPlace.id, hallChanges });
   };
 
   const handleDeletePlace = async (id: number) => {
-    setPendingAction({ type: 'delete', id });
-    setIsPasswordModalOpen(true);
+    if (!confirm('장소를 삭제하시겠습니까?')) return;
+    await runAction({ type: 'delete', id });
   };
 
   const handleEditHall = async (hallId: number, newName: string) => {
-    setPendingAction({ type: 'editHall', hallId, hallName: newName });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'editHall', hallId, hallName: newName });
   };
 
   const handleAddHalls = async (placeId: number, hallNames: string[]) => {
-    setPendingAction({ type: 'addHalls', id: placeId, hallNames });
-    setIsPasswordModalOpen(true);
+    await runAction({ type: 'addHalls', id: placeId, hallNames });
+  };
+
+  // 여러 요청으로 이루어진 변경 - 진행 상황을 단계별로 표시하고, 실패하면 대화상자를 열어둔 채 false 반환
+  const runSteps = async (title: string, steps: WorkStep[], successMessage: string): Promise<boolean> => {
+    const unit = createUnitOfWork(steps, setWorkState);
+    workRef.current = { unit, successMessage };
+    setWorkTitle(title);
+
+    const result = await unit.run();
+    if (result.status === 'completed') {
+      finishWork();
+      return true;
+    }
+
+    // 장소 정보 단계의 검증 실패(장소명 중복 등)는 폼의 해당 필드 옆에도 표시
+    const failedStep = result.steps.find(step => step.status === 'failed');
+    if (failedStep?.id === 'place' && (failedStep.error instanceof ValidationError || failedStep.error instanceof ConflictError)) {
+      setFormErrors(getFieldErrorMap(failedStep.error));
+    }
+    return false;
+  };
+
+  const finishWork = () => {
+    const successMessage = workRef.current?.successMessage;
+    workRef.current = null;
+    setWorkState(null);
+    if (successMessage) alert(successMessage);
+  };
+
+  const handleRetryWork = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.unit.retryFailed();
+    if (result.status === 'completed') {
+      finishWork();
+      await loadPlaces();
+      handleCloseForm();
+    }
+  };
+
+  const handleRollbackWork = async () => {
+    if (!workRef.current) return;
+    const result = await workRef.current.unit.rollback();
+    if (result.status === 'rolledBack') {
+      const irreversible = result.steps.filter(step => step.status === 'done');
+      alert(irreversible.length > 0
+        ? `변경을 되돌렸습니다. 다음 단계는 되돌릴 수 없어 적용된 상태로 남아 있습니다:\n${irreversible.map(step => `- ${step.label}`).join('\n')}`
+        : '변경을 모두 되돌렸습니다.');
+      workRef.current = null;
+      setWorkState(null);
+    }
   };
 
-  const handlePasswordConfirm = async (password: string) => {
-    if (!pendingAction) return;
+  const handleCloseWork = () => {
+    workRef.current = null;
+    setWorkState(null);
+  };
 
+  // 관리자 세션의 비밀번호는 lib/api.ts에서 자동으로 첨부됨
+  const runAction = async (action: PlaceAction) => {
     try {
-      switch (pendingAction.type) {
+      switch (action.type) {
         case 'create':
-          await createPlace(pendingAction.data);
+          await createPlace(action.data);
           alert('장소가 성공적으로 추가되었습니다.');
           break;
-        case 'update':
-          if (pendingAction.id) {
-            await updatePlace(pendingAction.id, pendingAction.data, password);
-            
-            // 홀 변경사항 처리
-            if (pendingAction.hallChanges) {
-              const { edits, adds } = pendingAction.hallChanges;
-              
-              // 홀 수정
-              for (const edit of edits) {
-                await updateHall(edit.id, { name: edit.name }, password);
-              }
-              
-              // 홀 추가
-              if (adds.length > 0) {
-                await addHalls(pendingAction.id, adds, password);
-              }
-            }
-            
-            alert('장소가 성공적으로 수정되었습니다.');
+        case 'update': {
+          const original = places.find(p => p.id === action.id);
+          if (!original) break;
+
+          // 장소 정보 수정, 홀 이름 변경, 홀 추가를 하나의 작업 단위로 실행
+          const steps = buildPlaceUpdateSteps(original, action.data, action.hallChanges);
+          if (steps.length === 0) {
+            alert('변경된 내용이 없습니다.');
+            break;
           }
+          const isCompleted = await runSteps('장소 수정', steps, '장소가 성공적으로 수정되었습니다.');
+          if (!isCompleted) return;
           break;
+        }
         case 'delete':
-          if (pendingAction.id) {
-            await deletePlace(pendingAction.id, password);
+          if (action.id) {
+            await deletePlace(action.id);
             alert('장소가 성공적으로 삭제되었습니다.');
           }
           break;
         case 'editHall':
-          if (pendingAction.hallId && pendingAction.hallName) {
-            await updateHall(pendingAction.hallId, { name: pendingAction.hallName }, password);
+          if (action.hallId && action.hallName) {
+            await updateHall(action.hallId, { name: action.hallName });
             alert('홀이 성공적으로 수정되었습니다.');
           }
           break;
         case 'addHalls':
-          if (pendingAction.id && pendingAction.hallNames) {
-            await addHalls(pendingAction.id, pendingAction.hallNames, password);
-            alert('홀이 성공적으로 추가되었습니다.');
+          if (action.id && action.hallNames) {
+            const isCompleted = await runSteps('홀 추가', buildAddHallsSteps(action.id, action.hallNames), '홀이 성공적으로 추가되었습니다.');
+            if (!isCompleted) return;
           }
           break;
       }
@@ -127,30 +180,23 @@ export default function PlacesPage() {
       await loadPlaces();
       setEditingPlace(null);
       setIsFormOpen(false);
-    } catch (error: any) {
-      let errorMessage = error.message || '알 수 없는 오류가 발생했습니다.';
-      console.error('Full API Error:', error);
-      
-      if (error.message && (
-        error.message.includes('401') || 
-        error.message.includes('Unauthorized') ||
-        error.message.includes('비밀번호') ||
-        error.message.includes('password')
-      )) {
-        errorMessage = '비밀번호를 확인해주세요.';
-        alert(`오류: ${errorMessage}`);
-        return;
+      setFormErrors({});
+    } catch (error) {
+      log.error('Full API Error:', error);
+
+      // 인증 실패(AuthError) 시에는 재인증 프롬프트가 뜨고 폼은 그대로 유지됨
+      if (error instanceof ValidationError || error instanceof ConflictError) {
+        // 장소명 중복 등은 해당 입력 필드 옆에 표시
+        if (action.type === 'create' || action.type === 'update') {
+          setFormErrors(getFieldErrorMap(error));
+        }
+      } else if (error instanceof NotFoundError) {
+        invalidateQueries(queryKeys.places);
+        await loadPlaces();
       }
-      alert(`오류: ${errorMessage}`);
-    } finally {
-      setIsPasswordModalOpen(false);
-      setPendingAction(null);
-    }
-  };
 
-  const handlePasswordCancel = () => {
-    setIsPasswordModalOpen(false);
-    setPendingAction(null);
+      alert(`오류: ${getErrorMessage(error)}`);
+    }
   };
 
   const handleEdit = (place: Place) => {
@@ -165,36 +211,13 @@ export default function PlacesPage() {
   const handleCloseForm = () => {
     setIsFormOpen(false);
     setEditingPlace(null);
+    setFormErrors({});
   };
 
   const handleCloseModal = () => {
     setSelectedPlace(null);
   };
 
-  const getPasswordModalTitle = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '장소 추가';
-      case 'update': return '장소 수정';
-      case 'delete': return '장소 삭제';
-      case 'editHall': return '홀 수정';
-      case 'addHalls': return '홀 추가';
-      default: return '관리자 인증';
-    }
-  };
-
-  const getPasswordModalMessage = () => {
-    if (!pendingAction) return '';
-    switch (pendingAction.type) {
-      case 'create': return '새 장소를 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'update': return '장소를 수정하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'delete': return '장소를 삭제하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'editHall': return '홀을 수정하기 위해 관리자 비밀번호를 입력해주세요.';
-      case 'addHalls': return '홀을 추가하기 위해 관리자 비밀번호를 입력해주세요.';
-      default: return '관리자 비밀번호를 입력해주세요.';
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -355,14 +378,15 @@ export default function PlacesPage() {
         onEditHall={handleEditHall}
         onAddHalls={handleAddHalls}
         initialData={editingPlace || undefined}
+        fieldErrors={formErrors}
       />
 
-      <PasswordModal
-        isOpen={isPasswordModalOpen}
-        onConfirm={handlePasswordConfirm}
-        onCancel={handlePasswordCancel}
-        title={getPasswordModalTitle()}
-        message={getPasswordModalMessage()}
+      <UnitOfWorkDialog
+        title={workTitle}
+        state={workState}
+        onRetry={handleRetryWork}
+        onRollback={handleRollbackWork}
+        onClose={handleCloseWork}
       />
     </div>
   );
@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  checkAdminSessionExpiry,
+  endAdminSession,
+  SessionEndReason,
+  startAdminSession,
+  touchAdminSession,
+  useAdminSession,
+} from '@/lib/auth';
+import LoginScreen from './LoginScreen';
+import PasswordModal from './PasswordModal';
+
+interface AdminSessionGateProps {
+  children: React.ReactNode;
+}
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart'] as const;
+
+const getExpiredMessage = (reason: SessionEndReason) => {
+  switch (reason) {
+    case 'idle': return '오랫동안 사용하지 않아 관리자 세션이 만료되었습니다. 비밀번호를 다시 입력해주세요.';
+    case 'rejected': return '서버에서 관리자 비밀번호를 거부했습니다. 올바른 비밀번호를 다시 입력해주세요.';
+    default: return '관리자 세션이 만료되었습니다. 비밀번호를 다시 입력해주세요.';
+  }
+};
+
+// 로그인 전에는 로그인 화면을, 세션 만료 시에는 현재 화면 위에 재인증 프롬프트를 표시
+export default function AdminSessionGate({ children }: AdminSessionGateProps) {
+  const session = useAdminSession();
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+
+    // 사용자 활동을 감지해서 유휴 타이머 연장
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touchAdminSession, { passive: true }));
+    // 만료 여부를 30초마다 확인
+    const intervalId = window.setInterval(checkAdminSessionExpiry, 30 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touchAdminSession));
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  if (!isMounted) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (session.status === 'anonymous') {
+    return <LoginScreen />;
+  }
+
+  return (
+    <>
+      {children}
+      <PasswordModal
+        isOpen={session.status === 'expired'}
+        onConfirm={startAdminSession}
+        onCancel={() => endAdminSession('logout')}
+        title="세션 만료"
+        message={session.status === 'expired' ? getExpiredMessage(session.reason) : ''}
+      />
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LOG_LEVELS, LOG_SCOPES, LogLevel, LogScope, updateLogSettings, useLogSettings } from '@/lib/logger';
+import { buildBugReport, clearRequestLog, RequestLogEntry, useRequestLog } from '@/lib/request-log';
+import { FiTerminal } from 'react-icons/fi';
+
+const statusClassName = (entry: RequestLogEntry) => {
+  if (entry.status === undefined) return 'text-gray-400';
+  if (entry.status === 0 || entry.status >= 400) return 'text-red-600';
+  return 'text-green-600';
+};
+
+// 사이드바의 디버그 설정 - 로그 범위/레벨 토글과 최근 API 요청 기록, 버그 리포트 내보내기
+export default function DebugPanel() {
+  const settings = useLogSettings();
+  const requests = useRequestLog();
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+
+  const toggleScope = (scope: LogScope) => {
+    const scopes = settings.scopes.includes(scope)
+      ? settings.scopes.filter(s => s !== scope)
+      : [...settings.scopes, scope];
+    updateLogSettings({ scopes });
+  };
+
+  const handleCopyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(buildBugReport(note));
+      alert('버그 리포트가 클립보드에 복사되었습니다.');
+    } catch {
+      alert('클립보드에 복사할 수 없습니다. JSON 다운로드를 이용해주세요.');
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const blob = new Blob([buildBugReport(note)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bug-report-${format(new Date(), 'yyyyMMdd-HHmmss')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center gap-3 px-3 py-2 mb-2 rounded-lg text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition font-medium"
+      >
+        <FiTerminal className="text-xl" />
+        Debug
+        {settings.isDebugEnabled && <span className="ml-auto h-2 w-2 rounded-full bg-green-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+            <div className="flex justify-between items-center p-6 border-b">
+              <h2 className="text-xl font-bold">디버그</h2>
+              <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>✕</Button>
+            </div>
+
+            <div className="p-6 space-y-6 overflow-y-auto">
+              <section className="space-y-3">
+                <h3 className="font-semibold text-gray-900">콘솔 로그</h3>
+                <p className="text-xs text-gray-500">
+                  경고와 오류는 항상 출력됩니다. 주소에 <code>?debug=1</code> 또는 <code>?debug=api,timetable</code>을 붙여도 켤 수 있습니다.
+                </p>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings.isDebugEnabled}
+                    onChange={e => updateLogSettings({ isDebugEnabled: e.target.checked })}
+                  />
+                  디버그 로그 출력
+                </label>
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="w-40 space-y-1">
+                    <Label>최소 레벨</Label>
+                    <Select
+                      value={settings.level}
+                      onValueChange={value => updateLogSettings({ level: value as LogLevel })}
+                      disabled={!settings.isDebugEnabled}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LOG_LEVELS.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>범위</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {LOG_SCOPES.map(scope => (
+                        <label key={scope} className="flex items-center gap-1 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={settings.scopes.includes(scope)}
+                            onChange={() => toggleScope(scope)}
+                            disabled={!settings.isDebugEnabled}
+                          />
+                          {scope}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </section>
+
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900">최근 요청 ({requests.length})</h3>
+                  <Button type="button" size="sm" variant="outline" onClick={clearRequestLog}>기록 지우기</Button>
+                </div>
+                {requests.length === 0 ? (
+                  <p className="text-sm text-gray-500">기록된 요청이 없습니다.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 rounded-md border text-sm">
+                    {requests.map(entry => (
+                      <li key={entry.id} className="px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          className="w-full flex items-center justify-between gap-2 text-left"
+                        >
+                          <span className="font-mono text-xs text-gray-700 break-all">
+                            {entry.method} {entry.endpoint}
+                          </span>
+                          <span className="shrink-0 text-xs">
+                            <span className={statusClassName(entry)}>{entry.status ?? '대기 중'}</span>
+                            <span className="text-gray-400">
+                              {entry.durationMs !== undefined && ` · ${entry.durationMs}ms`} · {format(new Date(entry.startedAt), 'HH:mm:ss')}
+                            </span>
+                          </span>
+                        </button>
+                        {expandedId === entry.id && (
+                          <div className="mt-2 space-y-2 font-mono text-xs">
+                            <p className="text-gray-500">{entry.baseUrl}{entry.isAuthenticated && ' · 관리자 인증'}</p>
+                            {entry.error && <p className="text-red-600">{entry.error}</p>}
+                            {entry.requestBody && (
+                              <pre className="whitespace-pre-wrap break-all rounded bg-gray-50 p-2">요청: {entry.requestBody}</pre>
+                            )}
+                            {entry.responseBody && (
+                              <pre className="whitespace-pre-wrap break-all rounded bg-gray-50 p-2">응답: {entry.responseBody}</pre>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section className="space-y-3">
+                <h3 className="font-semibold text-gray-900">버그 리포트</h3>
+                <Textarea
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  placeholder="어떤 작업 중에 문제가 생겼는지 적어주세요"
+                />
+                <p className="text-xs text-gray-500">현재 환경, 페이지 주소와 최근 요청 기록이 함께 포함됩니다. 관리자 비밀번호는 포함되지 않습니다.</p>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={handleDownloadReport}>JSON 다운로드</Button>
+                  <Button type="button" onClick={handleCopyReport}>클립보드에 복사</Button>
+                </div>
+              </section>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
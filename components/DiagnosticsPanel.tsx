@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { clearDiagnostics, useDiagnostics } from '@/lib/diagnostics';
+import { FiAlertCircle, FiX } from 'react-icons/fi';
+
+// 화면 오른쪽 아래의 응답 진단 목록 - 스키마와 맞지 않는 서버 응답이 있을 때만 표시
+export default function DiagnosticsPanel() {
+  const diagnostics = useDiagnostics();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (diagnostics.length === 0) return null;
+
+  const totalCount = diagnostics.reduce((sum, d) => sum + d.count, 0);
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 right-4 z-40 flex items-center gap-2 rounded-full bg-amber-500 px-4 py-2 text-sm font-medium text-white shadow-lg hover:bg-amber-600 transition"
+      >
+        <FiAlertCircle />
+        응답 진단 {totalCount}건
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-[36rem] max-w-[calc(100vw-2rem)] rounded-xl bg-white shadow-2xl border border-amber-200">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">응답 진단</h3>
+          <p className="text-xs text-gray-500">서버 응답이 예상 형식과 다른 필드입니다. 화면에는 빈 값으로 표시되거나 항목이 제외됩니다.</p>
+        </div>
+        <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600">
+          <FiX className="text-xl" />
+        </button>
+      </div>
+      <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 text-sm">
+        {diagnostics.map(diagnostic => (
+          <li key={diagnostic.id} className="px-4 py-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-mono text-xs text-gray-700 break-all">
+                {diagnostic.method} {diagnostic.endpoint}
+              </span>
+              <span className="shrink-0 text-xs text-gray-400">
+                {format(new Date(diagnostic.lastSeenAt), 'HH:mm:ss')}
+                {diagnostic.count > 1 && ` · ${diagnostic.count}회`}
+              </span>
+            </div>
+            <div className="mt-1 font-mono text-xs">
+              <span className="text-red-600">{diagnostic.path}</span>
+              <span className="text-gray-500"> - 예상: {diagnostic.expected}, 실제: {diagnostic.received}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end border-t border-gray-200 px-4 py-2">
+        <Button type="button" size="sm" variant="outline" onClick={clearDiagnostics}>
+          목록 지우기
+        </Button>
+      </div>
+    </div>
+  );
+}
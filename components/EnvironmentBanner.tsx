@@ -0,0 +1,25 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApiEnvironment } from '@/lib/environment';
+import { FiAlertTriangle } from 'react-icons/fi';
+
+// 운영 서버에 연결된 경우 화면 상단에 경고 배너 표시
+export default function EnvironmentBanner() {
+  const { profile } = useApiEnvironment();
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  if (!isMounted || !profile.isProduction) return null;
+
+  return (
+    <div className="sticky top-0 z-40 -mx-8 -mt-8 mb-6 flex items-center justify-center gap-2 bg-red-600 px-4 py-2 text-sm font-semibold text-white shadow">
+      <FiAlertTriangle />
+      운영(Production) 서버에 연결되어 있습니다. 모든 변경 사항이 실제 서비스에 즉시 반영됩니다.
+      <span className="font-normal opacity-80">({profile.baseUrl})</span>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { endAdminSession } from '@/lib/auth';
+import {
+  ApiEnvironmentId,
+  getAvailableEnvironments,
+  isValidApiUrl,
+  setApiEnvironment,
+  useApiEnvironment,
+} from '@/lib/environment';
+import { isMockApiEnabled, resetMockDatabase } from '@/lib/mock';
+import { FiDatabase, FiServer } from 'react-icons/fi';
+
+// 사이드바의 백엔드 환경 선택
+export default function EnvironmentSwitcher() {
+  const { profile, customUrl } = useApiEnvironment();
+  const [isMounted, setIsMounted] = useState(false);
+  const [customUrlInput, setCustomUrlInput] = useState(customUrl);
+  const [isEditingCustomUrl, setIsEditingCustomUrl] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  useEffect(() => {
+    setCustomUrlInput(customUrl);
+  }, [customUrl]);
+
+  // 저장된 선택은 브라우저에만 있으므로 마운트 전에는 렌더링하지 않음
+  if (!isMounted) return null;
+
+  // 환경이 바뀌면 비밀번호와 화면 데이터가 모두 달라지므로 로그아웃 후 새로고침
+  const switchEnvironment = (id: ApiEnvironmentId, url?: string) => {
+    setApiEnvironment(id, url);
+    endAdminSession('logout');
+    window.location.reload();
+  };
+
+  const handleSelect = (value: string) => {
+    const id = value as ApiEnvironmentId;
+    setIsEditingCustomUrl(false);
+    if (id === profile.id) return;
+
+    // 사용자 지정 URL이 아직 없으면 입력란부터 표시
+    if (id === 'custom' && !isValidApiUrl(customUrl)) {
+      setIsEditingCustomUrl(true);
+      return;
+    }
+
+    if (id === 'prod' && !confirm('운영(Production) 서버로 전환합니다. 이후 모든 변경 사항이 실제 서비스에 반영됩니다. 계속하시겠습니까?')) {
+      return;
+    }
+    switchEnvironment(id);
+  };
+
+  const handleApplyCustomUrl = () => {
+    if (!isValidApiUrl(customUrlInput)) {
+      alert('http:// 또는 https://로 시작하는 주소를 입력해주세요.');
+      return;
+    }
+    switchEnvironment('custom', customUrlInput);
+  };
+
+  const handleResetMockData = async () => {
+    if (!confirm('목업 데이터를 초기 상태로 되돌리시겠습니까? 추가/수정한 내용은 모두 사라집니다.')) return;
+    await resetMockDatabase();
+    window.location.reload();
+  };
+
+  // 목업 서버를 사용하는 동안에는 환경 프로필이 무시되므로 선택 UI 대신 안내 표시
+  if (isMockApiEnabled()) {
+    return (
+      <div className="border-t border-gray-200 pt-4 mb-4 space-y-2">
+        <div className="flex items-center gap-2 px-3 text-xs font-medium text-amber-700">
+          <FiDatabase />
+          목업 서버 사용 중
+        </div>
+        <p className="px-3 text-xs text-gray-500">
+          데이터는 이 브라우저에만 저장됩니다.
+        </p>
+        <Button type="button" size="sm" variant="outline" className="w-full" onClick={handleResetMockData}>
+          목업 데이터 초기화
+        </Button>
+      </div>
+    );
+  }
+
+  const showCustomUrlForm = isEditingCustomUrl || profile.id === 'custom';
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mb-4 space-y-2">
+      <div className="flex items-center gap-2 px-3 text-xs font-medium text-gray-500">
+        <FiServer />
+        API 환경
+      </div>
+      <Select value={isEditingCustomUrl ? 'custom' : profile.id} onValueChange={handleSelect}>
+        <SelectTrigger className={profile.isProduction ? 'border-red-400 text-red-700 font-semibold' : ''}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {getAvailableEnvironments(customUrl).map(env => (
+            <SelectItem key={env.id} value={env.id}>
+              {env.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {showCustomUrlForm ? (
+        <div className="space-y-2">
+          <Input
+            value={customUrlInput}
+            onChange={(e) => setCustomUrlInput(e.target.value)}
+            placeholder="https://api.example.com"
+            className="text-xs"
+          />
+          <div className="flex gap-2">
+            <Button type="button" size="sm" className="flex-1" onClick={handleApplyCustomUrl}>
+              적용
+            </Button>
+            {isEditingCustomUrl && (
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsEditingCustomUrl(false)}>
+                취소
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="px-3 text-xs text-gray-400 break-all">{profile.baseUrl}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+interface FieldErrorProps {
+  message?: string | null;
+}
+
+// 입력 필드 아래에 표시하는 검증 에러 메시지
+export default function FieldError({ message }: FieldErrorProps) {
+  if (!message) return null;
+
+  return (
+    <p className="text-red-600 text-sm mt-1" role="alert">{message}</p>
+  );
+}
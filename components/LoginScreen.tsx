@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getLastOperatorName, startAdminSession, SESSION_IDLE_TIMEOUT_MS, SESSION_MAX_AGE_MS } from '@/lib/auth';
+import { isMockApiEnabled, MOCK_ADMIN_PASSWORD } from '@/lib/mock';
+import { FiLock } from 'react-icons/fi';
+
+export default function LoginScreen() {
+  const [operatorName, setOperatorName] = useState(getLastOperatorName);
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!operatorName.trim()) {
+      alert('운영자 이름을 입력해주세요.');
+      return;
+    }
+    if (!password.trim()) {
+      alert('비밀번호를 입력해주세요.');
+      return;
+    }
+    startAdminSession(password, operatorName);
+    setPassword('');
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-[70vh]">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex items-center gap-3 p-6 border-b border-gray-200">
+          <FiLock className="text-xl text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">관리자 로그인</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-gray-600">
+            관리자 비밀번호를 입력하면 이후 추가/수정/삭제 작업에 자동으로 사용됩니다.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="operator-name" className="text-sm font-medium text-gray-700">운영자 이름</Label>
+            <Input
+              id="operator-name"
+              required
+              value={operatorName}
+              onChange={(e) => setOperatorName(e.target.value)}
+              className="w-full rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+              placeholder="변경 기록(감사 로그)에 남을 이름"
+              autoFocus={!operatorName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="admin-password" className="text-sm font-medium text-gray-700">관리자 비밀번호</Label>
+            <Input
+              id="admin-password"
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+              placeholder="비밀번호를 입력하세요"
+              autoFocus={!!operatorName}
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            세션은 {SESSION_MAX_AGE_MS / (60 * 60 * 1000)}시간 동안 유지되며, {SESSION_IDLE_TIMEOUT_MS / (60 * 1000)}분 동안 사용하지 않으면 만료됩니다.
+            비밀번호가 틀린 경우 첫 저장 시점에 다시 입력을 요청합니다.
+          </p>
+
+          {isMockApiEnabled() && (
+            <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+              목업 서버 사용 중 - 비밀번호: <code>{MOCK_ADMIN_PASSWORD}</code>
+            </p>
+          )}
+
+          <div className="flex justify-end pt-2">
+            <Button type="submit" disabled={!operatorName.trim() || !password.trim()}>
+              로그인
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { replayOutbox } from '@/lib/api';
+import { useApiEnvironment } from '@/lib/environment';
+import { discardOutboxItem, OutboxItemStatus, retryOutboxItem, useOutbox } from '@/lib/outbox';
+import { FiUploadCloud, FiWifiOff } from 'react-icons/fi';
+
+// 연결이 돌아오지 않았는지 주기적으로 다시 확인 - 현장 Wi-Fi는 online 이벤트 없이 복구되기도 함
+const REPLAY_INTERVAL_MS = 30 * 1000;
+
+const STATUS_LABELS: Record<OutboxItemStatus, string> = {
+  pending: '전송 대기',
+  sending: '전송 중',
+  conflict: '충돌',
+  failed: '실패',
+};
+
+const STATUS_CLASS_NAMES: Record<OutboxItemStatus, string> = {
+  pending: 'text-gray-500',
+  sending: 'text-blue-600',
+  conflict: 'text-amber-600',
+  failed: 'text-red-600',
+};
+
+const useIsOnline = () => {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// 사이드바의 오프라인 대기열 표시 - 저장된 변경 수를 보여주고, 연결되면 자동으로 다시 전송
+export default function OutboxIndicator() {
+  const allItems = useOutbox();
+  const { profile } = useApiEnvironment();
+  const isOnline = useIsOnline();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const items = allItems.filter(item => item.environment === profile.id);
+  const hasPending = items.some(item => item.status === 'pending');
+  const needsAttentionCount = items.filter(item => item.status === 'conflict' || item.status === 'failed').length;
+
+  useEffect(() => {
+    if (!isOnline || !hasPending) return;
+
+    replayOutbox();
+    const timer = setInterval(() => replayOutbox(), REPLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, hasPending, profile.id]);
+
+  if (isOnline && items.length === 0) return null;
+
+  const handleRetry = (id: number) => {
+    retryOutboxItem(id);
+    replayOutbox();
+  };
+
+  const handleDiscard = (id: number) => {
+    if (!confirm('이 변경을 버리시겠습니까? 서버에 전송되지 않습니다.')) return;
+    discardOutboxItem(id);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`w-full flex items-center gap-3 px-3 py-2 mb-2 rounded-lg font-medium transition ${
+          needsAttentionCount > 0 ? 'text-amber-700 bg-amber-50 hover:bg-amber-100' : 'text-gray-700 hover:bg-blue-50 hover:text-blue-700'
+        }`}
+      >
+        {isOnline ? <FiUploadCloud className="text-xl" /> : <FiWifiOff className="text-xl" />}
+        {isOnline ? '전송 대기열' : '오프라인'}
+        {items.length > 0 && (
+          <span className="ml-auto rounded-full bg-gray-200 px-2 text-xs text-gray-700">{items.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+            <div className="flex justify-between items-center p-6 border-b">
+              <div>
+                <h2 className="text-xl font-bold">전송 대기열</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {isOnline
+                    ? '서버에 연결하지 못해 저장된 변경입니다. 연결되면 저장된 순서대로 자동 전송됩니다.'
+                    : '오프라인 상태입니다. 변경은 이 브라우저에 저장되었다가 연결되면 전송됩니다.'}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>✕</Button>
+            </div>
+
+            <div className="p-6 overflow-y-auto">
+              {items.length === 0 ? (
+                <p className="text-sm text-gray-500">저장된 변경이 없습니다.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 rounded-md border text-sm">
+                  {items.map(item => (
+                    <li key={item.id} className="px-3 py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-gray-900">{item.label}</span>
+                        <span className="shrink-0 text-xs">
+                          <span className={STATUS_CLASS_NAMES[item.status]}>{STATUS_LABELS[item.status]}</span>
+                          <span className="text-gray-400"> · {format(new Date(item.createdAt), 'MM-dd HH:mm')}</span>
+                        </span>
+                      </div>
+                      {item.error && <p className="mt-1 text-xs text-red-600 whitespace-pre-line">{item.error}</p>}
+                      {(item.status === 'conflict' || item.status === 'failed') && (
+                        <div className="mt-2 flex justify-end gap-2">
+                          <Button type="button" size="sm" variant="outline" onClick={() => handleDiscard(item.id)}>
+                            버리기
+                          </Button>
+                          <Button type="button" size="sm" onClick={() => handleRetry(item.id)}>
+                            다시 시도
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 p-6 border-t">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                닫기
+              </Button>
+              <Button type="button" onClick={() => replayOutbox()} disabled={!hasPending}>
+                지금 전송
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+
+interface PaginationProps {
+  page: number; // 1부터
+  pageCount: number;
+  onChange: (page: number) => void;
+}
+
+// 현재 페이지 주변의 번호만 표시 (처음/마지막 페이지는 항상 표시)
+const getVisiblePages = (page: number, pageCount: number): (number | 'gap')[] => {
+  const pages = Array.from({ length: pageCount }, (_, index) => index + 1).filter(
+    p => p === 1 || p === pageCount || Math.abs(p - page) <= 2
+  );
+  return pages.reduce<(number | 'gap')[]>((acc, p, index) => {
+    if (index > 0 && p - pages[index - 1] > 1) acc.push('gap');
+    acc.push(p);
+    return acc;
+  }, []);
+};
+
+export default function Pagination({ page, pageCount, onChange }: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav className="flex items-center justify-center gap-1 mt-4" aria-label="페이지">
+      <Button type="button" size="sm" variant="outline" onClick={() => onChange(page - 1)} disabled={page <= 1}>
+        <FiChevronLeft />
+      </Button>
+      {getVisiblePages(page, pageCount).map((p, index) =>
+        p === 'gap' ? (
+          <span key={`gap-${index}`} className="px-2 text-gray-400">…</span>
+        ) : (
+          <Button
+            key={p}
+            type="button"
+            size="sm"
+            variant={p === page ? 'default' : 'outline'}
+            onClick={() => onChange(p)}
+            aria-current={p === page ? 'page' : undefined}
+          >
+            {p}
+          </Button>
+        )
+      )}
+      <Button type="button" size="sm" variant="outline" onClick={() => onChange(page + 1)} disabled={page >= pageCount}>
+        <FiChevronRight />
+      </Button>
+    </nav>
+  );
+}
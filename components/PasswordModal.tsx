@@ -2,6 +2,9 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api');
 
 interface PasswordModalProps {
   isOpen: boolean;
@@ -29,7 +32,7 @@ export default function PasswordModal({ isOpen, onConfirm, onCancel, title, mess
       await onConfirm(password);
       setPassword('');
     } catch (error) {
-      console.error('Password confirmation error:', error);
+      log.error('Password confirmation error:', error);
     } finally {
       setIsSubmitting(false);
     }
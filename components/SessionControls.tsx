@@ -0,0 +1,36 @@
+'use client';
+
+import { format } from 'date-fns';
+import { endAdminSession, useAdminSession } from '@/lib/auth';
+import { FiLogOut } from 'react-icons/fi';
+
+// 사이드바 하단의 세션 정보와 로그아웃 버튼
+export default function SessionControls() {
+  const session = useAdminSession();
+
+  if (session.status !== 'active') return null;
+
+  const handleLogout = () => {
+    if (!confirm('로그아웃하시겠습니까?')) return;
+    endAdminSession('logout');
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 space-y-2">
+      {session.session.operatorName && (
+        <p className="px-3 text-sm font-medium text-gray-700">{session.session.operatorName}</p>
+      )}
+      <p className="px-3 text-xs text-gray-500">
+        세션 만료: {format(new Date(session.session.expiresAt), 'HH:mm')}
+      </p>
+      <button
+        type="button"
+        onClick={handleLogout}
+        className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-gray-700 hover:bg-red-50 hover:text-red-700 transition font-medium"
+      >
+        <FiLogOut className="text-xl" />
+        Logout
+      </button>
+    </div>
+  );
+}
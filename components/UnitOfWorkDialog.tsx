@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { UnitOfWorkState, WorkStepState, WorkStepStatus } from '@/lib/unit-of-work';
+import { FiAlertCircle, FiCheckCircle, FiCircle, FiCornerUpLeft, FiLoader, FiXCircle } from 'react-icons/fi';
+
+interface UnitOfWorkDialogProps {
+  title: string;
+  state: UnitOfWorkState | null;
+  onRetry: () => void;
+  onRollback: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<WorkStepStatus, string> = {
+  pending: '대기',
+  running: '진행 중',
+  done: '완료',
+  failed: '실패',
+  undoing: '되돌리는 중',
+  undone: '되돌림',
+  undoFailed: '되돌리기 실패',
+};
+
+const StepIcon = ({ status }: { status: WorkStepStatus }) => {
+  switch (status) {
+    case 'running':
+    case 'undoing':
+      return <FiLoader className="animate-spin text-blue-500" />;
+    case 'done':
+      return <FiCheckCircle className="text-green-600" />;
+    case 'failed':
+    case 'undoFailed':
+      return <FiXCircle className="text-red-600" />;
+    case 'undone':
+      return <FiCornerUpLeft className="text-gray-500" />;
+    default:
+      return <FiCircle className="text-gray-300" />;
+  }
+};
+
+const describeStep = (step: WorkStepState, isFinished: boolean) => {
+  if (step.status === 'done' && !step.canUndo && isFinished) return '완료 (되돌릴 수 없음)';
+  return STATUS_LABELS[step.status];
+};
+
+// 여러 요청을 묶은 변경의 단계별 진행 상황 - 실패하면 실패한 단계만 다시 시도하거나 적용된 단계를 되돌림
+export default function UnitOfWorkDialog({ title, state, onRetry, onRollback, onClose }: UnitOfWorkDialogProps) {
+  if (!state) return null;
+
+  const isBusy = state.status === 'running' || state.status === 'rollingBack';
+  const isFailed = state.status === 'failed';
+  const hasRollbackStarted = state.steps.some(s => s.status === 'undone' || s.status === 'undoFailed');
+  const canRollback = state.steps.some(s => s.canUndo && (s.status === 'done' || s.status === 'undoFailed'));
+  const doneCount = state.steps.filter(s => s.status === 'done').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h2 className="text-xl font-bold">{title}</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {doneCount}/{state.steps.length} 단계 완료
+            </p>
+          </div>
+          {!isBusy && <Button variant="ghost" size="sm" onClick={onClose}>✕</Button>}
+        </div>
+
+        <ul className="p-6 space-y-3 overflow-y-auto">
+          {state.steps.map(step => (
+            <li key={step.id} className="flex items-start gap-3">
+              <span className="mt-1"><StepIcon status={step.status} /></span>
+              <div className="flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-900">{step.label}</span>
+                  <span className="shrink-0 text-xs text-gray-500">{describeStep(step, !isBusy)}</span>
+                </div>
+                {step.errorMessage && <p className="text-xs text-red-600 mt-1">{step.errorMessage}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {isFailed && (
+          <div className="mx-6 mb-4 flex items-start gap-2 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            <FiAlertCircle className="mt-0.5 shrink-0" />
+            {hasRollbackStarted
+              ? '일부 단계를 되돌리지 못했습니다. 다시 되돌리기를 시도하거나 닫은 뒤 직접 확인해주세요.'
+              : '일부 단계만 적용되었습니다. 실패한 단계부터 다시 시도하거나, 적용된 변경을 되돌릴 수 있습니다.'}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          {isFailed && canRollback && (
+            <Button type="button" variant="outline" onClick={onRollback}>
+              적용된 변경 되돌리기
+            </Button>
+          )}
+          {isFailed && !hasRollbackStarted && (
+            <Button type="button" onClick={onRetry}>
+              실패한 단계 다시 시도
+            </Button>
+          )}
+          {!isBusy && (
+            <Button type="button" variant="outline" onClick={onClose}>
+              닫기
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
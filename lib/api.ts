@@ -1,165 +1,309 @@
-import { Festival, TimeTable, ReservationInfo, FestivalResponse, TimeTableResponse, ReservationInfoResponse, TimeTableArtist, FestivalCreateRequest, TimeTableRequest, ReservationInfoRequest, PerformanceRequest, TimeTableAddRequest } from '@/types/festival';
-import { Place, PlaceRequestBody, Hall } from '@/types/place';
-
-// 아티스트 관련 타입 정의
-export interface ArtistAlias {
-  id: number;
-  name: string;
-}
-
-export interface Artist {
-  id: number;
-  name: string;
-  description: string;
-  imageUrl?: string | null;
-  aliases: ArtistAlias[];
-}
-
-// API Base URL - 환경에 따라 동적으로 설정
-const getApiBaseUrl = () => {
-  // 브라우저 환경에서 현재 호스트가 localhost인지 확인
-  if (typeof window !== 'undefined') {
-    const hostname = window.location.hostname;
-    const port = window.location.port;
-    
-    // localhost에서 실행 중이면 8080 포트로 요청
-    if (hostname === 'localhost' || hostname === '127.0.0.1') {
-      return `http://localhost:8080`;
-    }
-  }
-  
-  // 그렇지 않으면 원격 서버로 요청 (현재는 개발 서버만 사용)
-  return 'https://darayo-festival.shop';
-};
+import { Festival, ReservationInfo, PerformanceURL, FestivalResponse, TimeTableResponse, TimeTableArtist, FestivalCreateRequest, TimeTableRequest, ReservationInfoRequest, TimeTableAddRequest, PerformanceUpdateRequest, EditReservationInfoRequest, TimeTableArtistAddRequest } from '@/types/festival';
+import { Place, PlaceRequestBody, Hall, HallRequestBody } from '@/types/place';
+import { AuthError, ConflictError, createApiError, getErrorMessage, NetworkError, OfflineQueuedError, TimeoutError } from '@/lib/errors';
+import { endAdminSession, getAdminPassword, touchAdminSession } from '@/lib/auth';
+import { getApiBaseUrl } from '@/lib/environment';
+import { loadMockFetch } from '@/lib/mock';
+import {
+  appleMusicArtistSchema,
+  array,
+  artistAliasSchema,
+  artistSchema,
+  festivalResponseSchema,
+  hallSchema,
+  parseResponse,
+  performanceUrlSchema,
+  placeSchema,
+  reservationInfoResponseSchema,
+  Schema,
+  timeTableResponseSchema,
+} from '@/lib/schemas';
+import * as endpoints from '@/lib/generated/endpoints';
+import { ApiRequest, SendAlarmTestQuery } from '@/lib/generated/endpoints';
+import { AlarmTestResponse, AppleMusicArtistResponse, ArtistAliasResponse, ArtistCreateRequest, ArtistResponse, ArtistUpdateRequest } from '@/lib/generated/models';
+import { AuditEntryInput, recordAudit } from '@/lib/audit';
+import { enqueueOutbox, hasPendingOutboxItems, OutboxItem, OutboxMutation, processOutbox } from '@/lib/outbox';
+import { createLogger } from '@/lib/logger';
+import { recordRequest } from '@/lib/request-log';
+import { resolveFestivalLinks, setHallOverride } from '@/lib/resolution';
+import { cachedQuery, getQueryData, invalidateQueries, keyPrefix, queryKeys, removeQuery, setQueryData } from '@/lib/query-cache';
+import { isUrlEditingEnabled } from '@/lib/url-types';
+
+const log = createLogger('api');
+
+// 아티스트 관련 타입 - openapi/dals2bo-admin.json에서 생성된 모델
+export type ArtistAlias = ArtistAliasResponse;
+
+export type Artist = ArtistResponse;
+
+// 인증 정책 - 조회(GET)를 제외한 모든 요청은 관리자 인증이 필요한 보호 요청으로 취급
+// 비밀번호는 항상 같은 헤더로 전송하고, 요청 본문에는 넣지 않음
+const ADMIN_PASSWORD_HEADER = 'X-Admin-Password';
+
+const isProtectedMethod = (method: string) => method !== 'GET' && method !== 'HEAD';
 
 // Helper function for API calls
 async function apiCall<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  // 사이드바에서 선택한 환경 프로필의 API 주소
   const baseUrl = getApiBaseUrl();
   const url = `${baseUrl}${endpoint}`;
+  const method = (options.method || 'GET').toUpperCase();
+
+  // 보호 요청인데 유효한 세션이 없으면 요청을 보내지 않고 AuthError
+  const authHeaders: Record<string, string> = isProtectedMethod(method)
+    ? { [ADMIN_PASSWORD_HEADER]: getAdminPassword({ endpoint, method }) }
+    : {};
   
   const defaultOptions: RequestInit = {
+    // 타임아웃 설정 (30초)
+    signal: AbortSignal.timeout(30000),
+    ...options,
     headers: {
       'Content-Type': 'application/json',
       ...options.headers,
+      ...authHeaders,
     },
-    // 타임아웃 설정 (30초)
-    signal: AbortSignal.timeout(30000),
-    ...options,
   };
 
+  // 관리자 세션 유휴 타이머 연장
+  touchAdminSession();
+
+  log.debug(`${method} ${endpoint}`, options.body);
+  const recordResponse = recordRequest({
+    method,
+    endpoint,
+    baseUrl,
+    isAuthenticated: ADMIN_PASSWORD_HEADER in authHeaders,
+    body: options.body,
+  });
+
+  let response: Response;
   try {
-    const response = await fetch(url, defaultOptions);
+    // NEXT_PUBLIC_USE_MOCK_API=true이면 실제 서버 대신 목업 서버로 요청
+    const mockFetch = await loadMockFetch();
+    response = mockFetch
+      ? await mockFetch(url, defaultOptions)
+      : await fetch(url, defaultOptions);
+  } catch (error) {
+    log.error(`${method} ${endpoint} failed:`, error);
+    recordResponse({ status: 0, error: error instanceof Error ? `${error.name}: ${error.message}` : String(error) });
     
-    if (!response.ok) {
-      // 서버에서 에러 응답을 받았을 때
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      
+    // 타임아웃 에러 처리
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new TimeoutError('요청 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.', { status: 0, endpoint, method });
+    }
+    
+    // 서버에 도달하지 못한 경우 (오프라인, CORS 등)
+    throw new NetworkError('서버에 연결할 수 없습니다.', { status: 0, endpoint, method, details: error });
+  }
+    
+  if (!response.ok) {
+    // 서버에서 에러 응답을 받았을 때
+    let errorBody: unknown = null;
+    
+    try {
+      // 서버에서 JSON 형태로 에러 메시지를 보냈을 경우
+      const text = await response.text();
       try {
-        // 서버에서 JSON 형태로 에러 메시지를 보냈을 경우
-        const errorData = await response.json();
-        errorMessage = errorData.message || errorData.error || errorMessage;
-        console.error('Server error details:', errorData);
+        errorBody = text ? JSON.parse(text) : null;
       } catch {
-        // JSON 파싱이 실패하면 기본 에러 메시지 사용
-        console.error('Failed to parse error response as JSON');
+        errorBody = text;
       }
-      
-      throw new Error(errorMessage);
-    }
-    
-    // 응답이 비어있을 수 있음 (DELETE 요청 등)
-    if (response.status === 204 || response.headers.get('content-length') === '0') {
-      return {} as T;
+    } catch {
+      // 본문을 읽지 못하면 상태 코드 기반 기본 메시지 사용
+      log.warn(`${method} ${endpoint}: failed to read error response body`);
     }
     
-    return await response.json();
-  } catch (error) {
-    console.error(`API call failed for ${endpoint}:`, error);
+    const apiError = createApiError(response.status, response.statusText, errorBody, { endpoint, method });
+    log.error(`${method} ${endpoint} → ${response.status}`, errorBody);
+    recordResponse({ status: response.status, body: errorBody, error: apiError.message });
     
-    // 타임아웃 에러 처리
-    if (error instanceof Error && error.name === 'TimeoutError') {
-      throw new Error('요청 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.');
+    // 변경 요청이 인증 실패하면 세션을 만료시켜 재인증 프롬프트를 띄움
+    if (apiError instanceof AuthError && method !== 'GET') {
+      endAdminSession('rejected');
     }
     
-    throw error;
+    throw apiError;
+  }
+  
+  // 응답이 비어있을 수 있음 (DELETE 요청 등)
+  if (response.status === 204 || response.headers.get('content-length') === '0') {
+    log.debug(`${method} ${endpoint} → ${response.status} (empty)`);
+    recordResponse({ status: response.status });
+    return {} as T;
   }
+  
+  const text = await response.text();
+  log.debug(`${method} ${endpoint} → ${response.status}`);
+  recordResponse({ status: response.status, body: text });
+  return text ? JSON.parse(text) : ({} as T);
+}
+
+// 응답 스키마 검증을 거치는 apiCall - 스키마와 다른 부분은 응답 진단 목록에 기록됨
+async function apiCallWithSchema<T>(endpoint: string, schema: Schema<T>, options: RequestInit = {}): Promise<T> {
+  const method = (options.method || 'GET').toUpperCase();
+  const data = await apiCall<unknown>(endpoint, options);
+
+  if (method === 'GET') {
+    return parseResponse(schema, data, { endpoint, method });
+  }
+
+  // 변경 요청은 이미 서버에 반영되었으므로 응답이 비어있거나 이상해도 실패로 처리하지 않음
+  const isEmpty = typeof data === 'object' && data !== null && !Array.isArray(data) && Object.keys(data).length === 0;
+  return isEmpty ? (data as T) : parseResponse(schema, data, { endpoint, method }, { strict: false });
 }
 
+// 생성된 엔드포인트 함수(lib/generated/endpoints.ts)가 만든 요청을 전송
+// 스키마를 넘기면 apiCallWithSchema로 응답을 검증
+function send<T>(request: ApiRequest<T>, schema?: Schema<T>): Promise<T> {
+  const options: RequestInit = { method: request.method };
+  if (request.body !== undefined) {
+    options.body = JSON.stringify(request.body);
+  }
+  return schema ? apiCallWithSchema(request.path, schema, options) : apiCall<T>(request.path, options);
+}
+
+// 감사 로그 - 변경 요청의 성공/실패를 모두 기록하고 결과나 에러는 그대로 전달
+// before는 캐시에 있던 값, after는 서버로 보낸 값, 생성 요청의 entityId는 응답의 id
+const withAudit = async <T>(
+  entry: Omit<AuditEntryInput, 'result' | 'error'>,
+  request: () => Promise<T>
+): Promise<T> => {
+  try {
+    const result = await request();
+    const resultId = (result as { id?: unknown } | null)?.id;
+    void recordAudit({
+      ...entry,
+      entityId: entry.entityId ?? (typeof resultId === 'number' ? resultId : undefined),
+      result: 'success',
+    });
+    return result;
+  } catch (error) {
+    void recordAudit({ ...entry, result: 'failure', error: getErrorMessage(error) });
+    throw error;
+  }
+};
+
+// 감사 로그의 before 값 - 변경 전 데이터를 다시 조회하지 않고 캐시에서 찾음
+const findCachedFestival = (id: number) =>
+  getQueryData<Festival>(queryKeys.festival(id)) ??
+  getQueryData<Festival[]>(queryKeys.festivals)?.find(f => f.id === id);
+
+const findCachedTimeTable = (timetableId: number) =>
+  getQueryData<Festival[]>(queryKeys.festivals)
+    ?.flatMap(f => f.timeTables)
+    .find(tt => tt.id === timetableId);
+
+const findCachedArtist = (id: number) =>
+  getQueryData<Artist>(queryKeys.artist(id)) ??
+  getQueryData<Artist[]>(queryKeys.artists)?.find(a => a.id === id);
+
+const findCachedAlias = (aliasId: number) =>
+  getQueryData<Artist[]>(queryKeys.artists)
+    ?.flatMap(a => a.aliases)
+    .find(alias => alias.id === aliasId);
+
+const findCachedPlace = (id: number) =>
+  getQueryData<Place>(queryKeys.place(id)) ??
+  getQueryData<Place[]>(queryKeys.places)?.find(p => p.id === id);
+
+const findCachedHall = (hallId: number) =>
+  getQueryData<Place[]>(queryKeys.places)
+    ?.flatMap(p => p.halls)
+    .find(h => h.id === hallId);
+
 // API 구현 - 아티스트
 export const fetchArtists = async (): Promise<Artist[]> => {
-  return await apiCall<Artist[]>('/api/admin/artist');
+  return await cachedQuery(queryKeys.artists, () =>
+    send(endpoints.getArtists(), array(artistSchema))
+  );
 };
 
 export const fetchArtistById = async (id: number): Promise<Artist> => {
-  return await apiCall<Artist>(`/api/admin/artist/${id}`);
-};
-
-export const createArtist = async (artist: Omit<Artist, 'id'>, password: string): Promise<Artist> => {
-  return await apiCall<Artist>('/api/admin/artist', {
-    method: 'POST',
-    body: JSON.stringify({
-      password: password,
-      name: artist.name,
-      description: artist.description,
-      imageUrl: artist.imageUrl || null,
-      aliasList: artist.aliases?.map(alias => alias.name) || []
-    }),
-  });
+  return await cachedQuery(queryKeys.artist(id), () =>
+    send(endpoints.getArtist(id), artistSchema)
+  );
 };
 
-export const updateArtist = async (id: number, artistUpdate: Partial<Artist>, password: string): Promise<Artist> => {
-  return await apiCall<Artist>(`/api/admin/artist/${id}`, {
-    method: 'PUT',
-    body: JSON.stringify({
-      password: password,
-      ...artistUpdate
-    }),
-  });
+// 아티스트 이름은 페스티벌 타임테이블/라인업에도 표시되므로 함께 무효화
+const invalidateArtists = (options: { includeFestivals?: boolean } = {}) => {
+  invalidateQueries(queryKeys.artists, keyPrefix('artist'));
+  if (options.includeFestivals) {
+    invalidateQueries(queryKeys.festivals, keyPrefix('festival'));
+  }
 };
 
-export const deleteArtist = async (id: number, password: string): Promise<void> => {
-  return await apiCall(`/api/admin/artist/${id}`, {
-    method: 'DELETE',
-    headers: {
-      'X-Admin-Password': password,
-    },
-  });
+export const createArtist = async (artist: Omit<Artist, 'id'>): Promise<Artist> => {
+  const requestBody: ArtistCreateRequest = {
+    name: artist.name,
+    description: artist.description,
+    imageUrl: artist.imageUrl || null,
+    aliasList: artist.aliases?.map(alias => alias.name) || []
+  };
+  const created = await withAudit({ operation: 'createArtist', action: 'create', entityType: 'artist', after: requestBody }, () =>
+    send(endpoints.createArtist(requestBody), artistSchema)
+  );
+  invalidateArtists();
+  return created;
+};
+
+export const updateArtist = async (id: number, artistUpdate: ArtistUpdateRequest): Promise<Artist> => {
+  const updated = await withAudit(
+    { operation: 'updateArtist', action: 'update', entityType: 'artist', entityId: id, before: findCachedArtist(id), after: artistUpdate },
+    () => send(endpoints.updateArtist(id, artistUpdate), artistSchema)
+  );
+  invalidateArtists({ includeFestivals: true });
+  return updated;
+};
+
+export const deleteArtist = async (id: number): Promise<void> => {
+  await withAudit(
+    { operation: 'deleteArtist', action: 'delete', entityType: 'artist', entityId: id, before: findCachedArtist(id) },
+    () => send(endpoints.deleteArtist(id))
+  );
+  removeQuery(queryKeys.artist(id));
+  invalidateArtists({ includeFestivals: true });
 };
 
 export const updateArtistAlias = async (aliasId: number, alias: string): Promise<ArtistAlias> => {
-  return await apiCall<ArtistAlias>(`/api/admin/artist/aliases/${aliasId}`, {
-    method: 'PUT',
-    body: JSON.stringify({ name: alias }),
-  });
+  const updated = await withAudit(
+    {
+      operation: 'updateArtistAlias',
+      action: 'update',
+      entityType: 'artistAlias',
+      entityId: aliasId,
+      before: findCachedAlias(aliasId),
+      after: { name: alias },
+    },
+    () => send(endpoints.updateArtistAlias(aliasId, { name: alias }), artistAliasSchema)
+  );
+  invalidateArtists();
+  return updated;
 };
 
-export const addArtistAliases = async (artistId: number, aliases: string[], password: string): Promise<ArtistAlias[]> => {
-  return await apiCall<ArtistAlias[]>('/api/admin/artist/aliases', {
-    method: 'POST',
-    body: JSON.stringify({
-      password: password,
-      artistId: artistId,
-      aliases: aliases
-    }),
-  });
+export const addArtistAliases = async (artistId: number, aliases: string[]): Promise<ArtistAlias[]> => {
+  const created = await withAudit(
+    { operation: 'addArtistAliases', action: 'create', entityType: 'artistAlias', after: { artistId, aliases } },
+    () => send(endpoints.addArtistAliases({ artistId, aliases }), array(artistAliasSchema))
+  );
+  invalidateArtists();
+  return created;
 };
 
 export const deleteArtistAlias = async (aliasId: number): Promise<void> => {
-  return await apiCall(`/api/admin/artist/aliases/${aliasId}`, {
-    method: 'DELETE',
-  });
+  await withAudit(
+    { operation: 'deleteArtistAlias', action: 'delete', entityType: 'artistAlias', entityId: aliasId, before: findCachedAlias(aliasId) },
+    () => send(endpoints.deleteArtistAlias(aliasId))
+  );
+  invalidateArtists();
 };
 
 // Apple Music 검색 결과 타입
-export interface AppleMusicArtist {
-  artworkUrl: string | null;
-  genreNames: string[];
-  name: string;
-}
+export type AppleMusicArtist = AppleMusicArtistResponse;
 
 // Apple Music 검색 API
 export const searchAppleMusicArtists = async (term: string): Promise<AppleMusicArtist[]> => {
-  return await apiCall<AppleMusicArtist[]>(`/api/admin/applemusic/search?term=${encodeURIComponent(term)}&types=artists`);
+  return await send(endpoints.searchAppleMusicArtists({ term, types: 'artists' }), array(appleMusicArtistSchema));
 };
 
 // 아티스트 중복 체크 (이름과 별명 모두 확인)
@@ -206,7 +350,7 @@ export const checkArtistDuplicate = async (name: string, excludeId?: number): Pr
       duplicateName: null
     };
   } catch (error) {
-    console.error('Error checking artist duplicate:', error);
+    log.error('Error checking artist duplicate:', error);
     return {
       isDuplicate: false,
       duplicateType: null,
@@ -216,46 +360,17 @@ export const checkArtistDuplicate = async (name: string, excludeId?: number): Pr
 };
 
 // Helper to transform the nested API response to our flat frontend Festival type
-const transformFestivalResponse = (res: FestivalResponse, places?: Place[]): Festival => {
-  // 응답 구조 검증
-  if (!res || !res.performance) {
-    console.error('Invalid response structure:', res);
-    throw new Error('서버 응답이 올바르지 않습니다.');
-  }
-  
+// 응답 구조는 festivalResponseSchema로 이미 검증/정리된 상태
+const transformFestivalResponse = (res: FestivalResponse, places: Place[]): Festival => {
   const { performance, timeTables = [], reservationInfos = [], artists = [], urlInfos = [] } = res;
-  
-  // placeName과 placeAddress를 기반으로 placeId 찾기 (더 정확한 매칭)
-  let placeId: number | undefined;
-  if (places && performance.placeName) {
-    let matchingPlace;
-    
-    // 1. 이름과 주소가 모두 일치하는 경우 (가장 정확)
-    if (performance.placeAddress) {
-      matchingPlace = places.find(place => 
-        place.placeName === performance.placeName && 
-        place.address === performance.placeAddress
-      );
-    }
-    
-    // 2. 이름만 일치하는 경우 (fallback)
-    if (!matchingPlace) {
-      matchingPlace = places.find(place => place.placeName === performance.placeName);
-    }
-    
-    placeId = matchingPlace?.id;
-    
-    // 디버깅 로그
-    if (performance.placeName && !placeId) {
-      console.warn(`Place not found: ${performance.placeName} (${performance.placeAddress})`);
-      console.log('Available places:', places.map(p => ({ id: p.id, name: p.placeName, address: p.address })));
-    }
-  }
-  
+
+  // 장소/홀 id 연결 - 확정하지 못한 항목은 linkIssues로 남겨 목록에서 관리자가 직접 연결
+  const links = resolveFestivalLinks(performance, timeTables, places);
+
   return {
     id: performance.id,
     name: performance.name,
-    placeId: placeId,
+    placeId: links.placeId,
     placeName: performance.placeName,
     placeAddress: performance.placeAddress,
     startDate: performance.startDate,
@@ -265,39 +380,14 @@ const transformFestivalResponse = (res: FestivalResponse, places?: Place[]): Fes
     transportationInfo: performance.transportationInfo,
     remark: performance.remark,
     urlInfos: urlInfos || [],
+    linkIssues: links.issues,
     timeTables: timeTables.map(tt => {
-      // performanceHall을 기반으로 hallId 찾기 (매칭된 장소에서만 검색)
-      let hallId: number | undefined;
-      if (places && tt.performanceHall && placeId) {
-        // 매칭된 장소에서 홀 찾기
-        const matchingPlace = places.find(place => place.id === placeId);
-        if (matchingPlace) {
-          const matchingHall = matchingPlace.halls.find(hall => hall.name === tt.performanceHall);
-          hallId = matchingHall?.id;
-          
-          // 디버깅 로그
-          if (tt.performanceHall && !hallId) {
-            console.warn(`Hall not found in place ${matchingPlace.placeName}: ${tt.performanceHall}`);
-            console.log('Available halls:', matchingPlace.halls.map(h => ({ id: h.id, name: h.name })));
-          }
-        }
-      } else if (places && tt.performanceHall) {
-        // placeId가 없는 경우 fallback: 모든 장소에서 검색
-        const matchingPlace = places.find(place => 
-          place.halls.some(hall => hall.name === tt.performanceHall)
-        );
-        if (matchingPlace) {
-          const matchingHall = matchingPlace.halls.find(hall => hall.name === tt.performanceHall);
-          hallId = matchingHall?.id;
-        }
-      }
-      
       return {
         id: tt.id,
         performanceDate: tt.performanceDate,
         startTime: tt.startTime,
         endTime: tt.endTime,
-        hallId: hallId,
+        hallId: links.hallIds.get(tt.id),
         hallName: tt.performanceHall,
         artists: tt.artists.map(artist => ({
           timetableArtistId: artist.timetableArtistId,
@@ -323,24 +413,83 @@ const transformFestivalResponse = (res: FestivalResponse, places?: Place[]): Fes
 };
 
 // API 구현 - 페스티벌
+// 장소 목록은 placeId/hallId 매칭에만 쓰이므로 캐시된 목록을 재사용
 export const fetchFestivals = async (): Promise<Festival[]> => {
-  const [response, places] = await Promise.all([
-    apiCall<FestivalResponse[]>('/api/admin/performance'),
-    apiCall<Place[]>('/api/admin/place')
-  ]);
-  return response.map(res => transformFestivalResponse(res, places));
+  return await cachedQuery(queryKeys.festivals, async () => {
+    const [response, places] = await Promise.all([
+      send(endpoints.getPerformances(), array(festivalResponseSchema)),
+      fetchPlaces()
+    ]);
+    return response.map(res => transformFestivalResponse(res, places));
+  });
 };
 
-export const fetchFestivalById = async (id: number): Promise<Festival> => {
+const fetchFestivalFromServer = async (id: number): Promise<Festival> => {
   const [response, places] = await Promise.all([
-    apiCall<FestivalResponse>(`/api/admin/performance/${id}`),
-    apiCall<Place[]>('/api/admin/place')
+    send(endpoints.getPerformance(id), festivalResponseSchema),
+    fetchPlaces()
   ]);
   return transformFestivalResponse(response, places);
 };
 
+export const fetchFestivalById = async (id: number): Promise<Festival> => {
+  return await cachedQuery(queryKeys.festival(id), () => fetchFestivalFromServer(id));
+};
+
+// 페스티벌 하나가 바뀐 경우 목록 전체를 다시 받지 않고 해당 항목만 조회해서 목록에 반영
+const refreshFestival = async (id: number) => {
+  invalidateQueries(queryKeys.festival(id));
+  try {
+    const festival = await fetchFestivalFromServer(id);
+    setQueryData<Festival>(queryKeys.festival(id), () => festival);
+    setQueryData<Festival[]>(queryKeys.festivals, festivals =>
+      festivals.map(f => (f.id === id ? festival : f))
+    );
+  } catch (error) {
+    // 변경은 이미 성공했으므로 실패를 전파하지 않고 다음 조회 때 목록 전체를 다시 불러옴
+    log.error(`Failed to refresh festival ${id}:`, error);
+    invalidateQueries(queryKeys.festivals);
+  }
+};
+
+// 장소/홀 연결을 관리자가 직접 지정
+// - 장소는 공연의 placeId를 서버에서 수정
+// - 홀은 타임테이블 수정 API가 없어 이 브라우저에만 저장하고, 감사 로그에도 로컬 지정(localOverride)으로 기록
+export const saveFestivalLinks = async (
+  festivalId: number,
+  links: { placeId?: number; hallIds?: Record<number, number> }
+): Promise<void> => {
+  if (links.placeId !== undefined) {
+    const festival = findCachedFestival(festivalId) ?? (await fetchFestivalById(festivalId));
+    await updateFestival(festivalId, { ...festival, placeId: links.placeId });
+  }
+
+  const hallIds = Object.entries(links.hallIds || {});
+  if (hallIds.length === 0) return;
+  await withAudit(
+    { operation: 'saveFestivalLinks', action: 'localOverride', entityType: 'festival', entityId: festivalId, before: findCachedFestival(festivalId)?.linkIssues, after: links.hallIds },
+    async () => {
+      hallIds.forEach(([timeTableId, hallId]) => {
+        setHallOverride(Number(timeTableId), hallId);
+      });
+    }
+  );
+  await refreshFestival(festivalId);
+};
+
+// 타임테이블 id만 알고 있는 변경 요청은 캐시된 목록에서 소속 페스티벌을 찾음
+const refreshFestivalOfTimeTable = async (timetableId: number) => {
+  const festival = getQueryData<Festival[]>(queryKeys.festivals)
+    ?.find(f => f.timeTables.some(tt => tt.id === timetableId));
+  if (festival) {
+    await refreshFestival(festival.id);
+  } else {
+    invalidateQueries(queryKeys.festivals, keyPrefix('festival'));
+  }
+};
+
 // Helper function to convert form data to API request format
-function convertToRequestFormat(festivalData: any, password: string): FestivalCreateRequest {
+function convertToRequestFormat(festivalData: any): FestivalCreateRequest {
   const { 
     id, // performanceId
     timeTables = [], 
@@ -352,12 +501,7 @@ function convertToRequestFormat(festivalData: any, password: string): FestivalCr
   // 새 페스티벌 생성 시에는 타임테이블과 예매정보를 제외
   const isNewFestival = !id;
 
-  // 디버깅 로그
-  console.log('convertToRequestFormat - input urlInfos:', urlInfos);
-  console.log('convertToRequestFormat - festivalData:', festivalData);
-
   const result = {
-    password,
     performance: {
       ...(id ? { id } : {}), // id가 있으면 포함
       name: performanceInfo.name,
@@ -404,52 +548,102 @@ function convertToRequestFormat(festivalData: any, password: string): FestivalCr
     urlInfos: urlInfos || [], // null 방지
   };
 
-  console.log('convertToRequestFormat - result urlInfos:', result.urlInfos);
   return result;
 }
 
-export const createFestival = async (festival: Omit<Festival, 'id'>, password: string): Promise<void> => {
-  const requestData = convertToRequestFormat(festival, password);
-  await apiCall('/api/admin/performance', {
-    method: 'POST',
-    body: JSON.stringify(requestData),
-  });
+// 생성된 페스티벌을 반환 - 복제처럼 이어서 타임테이블 등을 추가하는 경우 id가 필요
+// 서버가 빈 응답을 보내면 생성은 성공한 것으로 보고 undefined 반환
+export const createFestival = async (festival: Omit<Festival, 'id'>): Promise<Festival | undefined> => {
+  const requestData = convertToRequestFormat(festival);
+  // 장소 목록은 생성 전에 받아둠 - 생성 후에 실패하면 호출한 쪽이 실패로 보고 다시 시도해서 같은 페스티벌이 두 번 생성됨
+  const places = await fetchPlaces();
+  const response = await withAudit({ operation: 'createFestival', action: 'create', entityType: 'festival', after: requestData }, () =>
+    send(endpoints.createPerformance(requestData), festivalResponseSchema)
+  );
+  invalidateQueries(queryKeys.festivals);
+  return response?.performance ? transformFestivalResponse(response, places) : undefined;
 };
 
-export const addTimeTable = async (performanceId: number, timeTableData: TimeTableAddRequest): Promise<TimeTableResponse> => {
-  return await apiCall<TimeTableResponse>(`/api/admin/performance/${performanceId}/timetable`, {
-    method: 'POST',
-    body: JSON.stringify(timeTableData),
-  });
+const performAddTimeTable = async (performanceId: number, timeTableData: TimeTableAddRequest): Promise<TimeTableResponse> => {
+  const created = await withAudit(
+    { operation: 'addTimeTable', action: 'create', entityType: 'timetable', after: { performanceId, ...timeTableData } },
+    () => send(endpoints.addTimeTable(performanceId, timeTableData), timeTableResponseSchema)
+  );
+  await refreshFestival(performanceId);
+  return created;
+};
+
+export const addTimeTable = async (
+  performanceId: number,
+  timeTableData: TimeTableAddRequest,
+  options: OfflineQueueOptions = {}
+): Promise<TimeTableResponse> => {
+  if (options.queueOffline === false) return await performAddTimeTable(performanceId, timeTableData);
+  return await withOfflineQueue(
+    `${festivalLabel(performanceId)} 타임테이블 추가 (${timeTableData.performanceDate} ${timeTableData.startTime}~${timeTableData.endTime})`,
+    { operation: 'addTimeTable', performanceId, data: timeTableData },
+    () => performAddTimeTable(performanceId, timeTableData)
+  );
+};
+
+const performAddTimeTableArtist = async (timetableId: number, artistData: TimeTableArtistAddRequest): Promise<TimeTableResponse> => {
+  const result = await withAudit(
+    {
+      operation: 'addTimeTableArtist',
+      action: 'update',
+      entityType: 'timetable',
+      entityId: timetableId,
+      before: findCachedTimeTable(timetableId)?.artists,
+      after: artistData,
+    },
+    () => send(endpoints.addTimeTableArtist(timetableId, artistData), timeTableResponseSchema)
+  );
+  await refreshFestivalOfTimeTable(timetableId);
+  return result;
 };
 
 // 타임테이블 아티스트 추가
-export const addTimeTableArtist = async (timetableId: number, artistData: { artistId: number; participationType: string }): Promise<any> => {
-  return await apiCall(`/api/admin/timetable/${timetableId}/artist`, {
-    method: 'PUT',
-    body: JSON.stringify(artistData),
-  });
+export const addTimeTableArtist = async (
+  timetableId: number,
+  artistData: TimeTableArtistAddRequest,
+  options: OfflineQueueOptions = {}
+): Promise<TimeTableResponse> => {
+  if (options.queueOffline === false) return await performAddTimeTableArtist(timetableId, artistData);
+  const artistName = findCachedArtist(artistData.artistId)?.name ?? `아티스트 #${artistData.artistId}`;
+  return await withOfflineQueue(
+    `${artistName} 배정 (타임테이블 #${timetableId})`,
+    { operation: 'addTimeTableArtist', timetableId, data: artistData },
+    () => performAddTimeTableArtist(timetableId, artistData)
+  );
 };
 
 // 타임테이블 아티스트 삭제
 export const deleteTimeTableArtist = async (timetableId: number, artistId: number): Promise<void> => {
-  return await apiCall(`/api/admin/timetable/${timetableId}/artist/${artistId}`, {
-    method: 'DELETE',
-  });
+  await withAudit(
+    {
+      operation: 'deleteTimeTableArtist',
+      action: 'update',
+      entityType: 'timetable',
+      entityId: timetableId,
+      before: findCachedTimeTable(timetableId)?.artists,
+      after: { removedArtistId: artistId },
+    },
+    () => send(endpoints.deleteTimeTableArtist(timetableId, artistId))
+  );
+  await refreshFestivalOfTimeTable(timetableId);
 };
 
-export const deleteTimeTable = async (performanceId: number, timeTableId: number, password: string): Promise<void> => {
-  return await apiCall(`/api/admin/performance/${performanceId}/timetable/${timeTableId}`, {
-    method: 'DELETE',
-    headers: {
-      'X-Admin-Password': password,
-    },
-  });
+export const deleteTimeTable = async (performanceId: number, timeTableId: number): Promise<void> => {
+  await withAudit(
+    { operation: 'deleteTimeTable', action: 'delete', entityType: 'timetable', entityId: timeTableId, before: findCachedTimeTable(timeTableId) },
+    () => send(endpoints.deleteTimeTable(performanceId, timeTableId))
+  );
+  await refreshFestival(performanceId);
 };
 
-export const updateFestival = async (id: number, festivalUpdate: Partial<Festival>, password: string): Promise<void> => {
-  // performance 정보만 추출하여 전송
-  const performanceData = {
+export const updateFestival = async (id: number, festivalUpdate: Omit<PerformanceUpdateRequest, 'id'>): Promise<void> => {
+  // performance 정보만 추출하여 전송 (폼 데이터의 타임테이블 등 다른 필드는 제외)
+  const performanceData: PerformanceUpdateRequest = {
     id,
     name: festivalUpdate.name,
     placeId: festivalUpdate.placeId,
@@ -461,43 +655,32 @@ export const updateFestival = async (id: number, festivalUpdate: Partial<Festiva
     remark: festivalUpdate.remark,
   };
 
-  try {
-    const response = await apiCall<FestivalResponse>(`/api/admin/performance/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(performanceData),
-    });
-    
-    // 디버깅을 위한 로깅
-    console.log('updateFestival response:', response);
-    console.log('response type:', typeof response);
-    console.log('response.performance:', response?.performance);
-    
-    // 응답이 올바른 구조인지 확인
-    if (response && response.performance) {
-      // 응답이 있으면 로그만 출력하고 void 반환
-      console.log('Update successful with response:', response);
-    } else {
-      // 서버가 빈 응답을 보내거나 예상과 다른 응답을 보낸 경우
-      // 성공적으로 업데이트되었다고 가정
-      console.warn('Server returned empty or unexpected response, assuming update was successful');
-    }
-    // void 함수이므로 아무것도 반환하지 않음
-  } catch (error) {
-    console.error('Error in updateFestival:', error);
-    throw error;
+  const response = await withAudit(
+    { operation: 'updateFestival', action: 'update', entityType: 'festival', entityId: id, before: findCachedFestival(id), after: performanceData },
+    () => send(endpoints.updatePerformance(id, performanceData), festivalResponseSchema)
+  );
+
+  // 서버가 빈 응답을 보내거나 예상과 다른 응답을 보낸 경우에도 업데이트는 성공한 것으로 처리
+  // (응답 본문은 디버그 패널의 요청 기록에서 확인)
+  if (!response?.performance) {
+    log.debug(`updateFestival ${id}: empty or unexpected response, assuming success`);
   }
+  await refreshFestival(id);
 };
 
 export const deleteFestival = async (id: number): Promise<void> => {
-  return await apiCall(`/api/admin/performance/${id}`, {
-    method: 'DELETE',
-  });
+  await withAudit(
+    { operation: 'deleteFestival', action: 'delete', entityType: 'festival', entityId: id, before: findCachedFestival(id) },
+    () => send(endpoints.deletePerformance(id))
+  );
+  removeQuery(queryKeys.festival(id));
+  setQueryData<Festival[]>(queryKeys.festivals, festivals => festivals.filter(f => f.id !== id));
 };
 
-export const updateReservationInfos = async (performanceId: number, reservationInfos: ReservationInfo[], password: string): Promise<void> => {
-  // 서버의 List<EditReservationInfoReq> 구조에 맞게 변환
+const performUpdateReservationInfos = async (performanceId: number, reservationInfos: ReservationInfo[]): Promise<void> => {
+  // 서버의 EditReservationInfoRequest 목록으로 변환 - 목록 전체를 교체하므로
   // reservationInfos에는 수정된 항목과 수정되지 않은 기존 항목들이 모두 포함됨
-  const reservationInfosForServer = reservationInfos.map(ri => {
+  const reservationInfosForServer = reservationInfos.map((ri): EditReservationInfoRequest => {
     // 시간 형식 처리: 이미 초가 있으면 그대로, 없으면 :00:00 추가
     const formatDateTime = (dateTime: string) => {
       if (dateTime.includes('Z')) {
@@ -521,71 +704,200 @@ export const updateReservationInfos = async (performanceId: number, reservationI
     };
   });
 
-  return await apiCall(`/api/admin/performance/${performanceId}/reservation`, {
-    method: 'PUT',
-    body: JSON.stringify(reservationInfosForServer), // password 없이 배열만 전송
-  });
+  await withAudit(
+    {
+      operation: 'updateReservationInfos',
+      action: 'update',
+      entityType: 'festival',
+      entityId: performanceId,
+      before: findCachedFestival(performanceId)?.reservationInfos,
+      after: reservationInfosForServer,
+    },
+    () => send(endpoints.updateReservationInfos(performanceId, reservationInfosForServer), array(reservationInfoResponseSchema))
+  );
+  await refreshFestival(performanceId);
+};
+
+export const updateReservationInfos = async (
+  performanceId: number,
+  reservationInfos: ReservationInfo[],
+  options: OfflineQueueOptions = {}
+): Promise<void> => {
+  if (options.queueOffline === false) {
+    await performUpdateReservationInfos(performanceId, reservationInfos);
+    return;
+  }
+  await withOfflineQueue(
+    `${festivalLabel(performanceId)} 예매 정보 수정 (${reservationInfos.length}건)`,
+    {
+      operation: 'updateReservationInfos',
+      performanceId,
+      data: reservationInfos,
+      baseline: findCachedFestival(performanceId)?.reservationInfos,
+    },
+    () => performUpdateReservationInfos(performanceId, reservationInfos)
+  );
+};
+
+// URL 목록 교체 - 서버 지원이 확인되지 않아 명세(openapi)에 넣지 않음, 지금은 목업 서버(lib/mock/server.ts)에만 있음
+const updatePerformanceUrls = (performanceId: number, body: PerformanceURL[]): ApiRequest<PerformanceURL[]> => ({
+  operationId: 'updatePerformanceUrls',
+  method: 'PUT',
+  path: `/api/admin/performance/${performanceId}/url`,
+  body,
+});
+
+// URL 목록 전체를 교체 - 보낸 순서가 앱에 표시되는 순서
+// 기본 정보 수정(updateFestival)과 별도 API라서 함께 바꿀 때는 lib/festival-steps.ts의 buildFestivalUpdateSteps로 묶음
+// 등록 후 URL 수정을 켠 빌드에서만 사용 (lib/url-types.ts의 isUrlEditingEnabled)
+export const updateUrlInfos = async (performanceId: number, urlInfos: PerformanceURL[]): Promise<void> => {
+  if (!isUrlEditingEnabled()) throw new Error('등록 후 URL 수정은 아직 지원하지 않습니다.');
+  const urlInfosForServer = urlInfos.map(({ type, url }): PerformanceURL => ({ type, url: url.trim() }));
+
+  await withAudit(
+    {
+      operation: 'updateUrlInfos',
+      action: 'update',
+      entityType: 'festival',
+      entityId: performanceId,
+      before: findCachedFestival(performanceId)?.urlInfos,
+      after: urlInfosForServer,
+    },
+    () => send(updatePerformanceUrls(performanceId, urlInfosForServer), array(performanceUrlSchema))
+  );
+  await refreshFestival(performanceId);
+};
+
+// --- 오프라인 대기열 ---
+
+// queueOffline: false - 대기열에 저장하지 않고 NetworkError를 그대로 던짐
+// 작업 단위(lib/unit-of-work.ts)의 단계처럼 다시 시도/되돌리기를 직접 처리하는 곳에서 사용
+// (대기열에도 저장하면 다시 시도할 때 같은 변경이 두 번 전송되고, 되돌린 뒤에도 대기열이 다시 전송함)
+export interface OfflineQueueOptions {
+  queueOffline?: boolean;
+}
+
+const OFFLINE_QUEUED_MESSAGE = '서버에 연결할 수 없어 변경을 전송 대기열에 저장했습니다. 연결되면 자동으로 다시 전송합니다.';
+
+const festivalLabel = (performanceId: number) => findCachedFestival(performanceId)?.name ?? `페스티벌 #${performanceId}`;
+
+// 대기열 대상 변경 - 서버에 도달하지 못하면(NetworkError) 대기열에 저장하고 OfflineQueuedError를 던짐
+// 타임아웃은 서버에 반영됐을 수도 있으므로 저장하지 않음
+const withOfflineQueue = async <T>(label: string, mutation: OutboxMutation, request: () => Promise<T>): Promise<T> => {
+  // 먼저 저장된 변경이 있으면 순서를 지키기 위해 그것부터 전송하고, 여전히 연결되지 않으면 이 변경도 뒤에 저장
+  const offlineError = hasPendingOutboxItems() ? await replayOutbox() : null;
+  try {
+    if (offlineError) throw offlineError;
+    return await request();
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+    enqueueOutbox(label, mutation);
+    throw new OfflineQueuedError(OFFLINE_QUEUED_MESSAGE, { status: 0, endpoint: error.endpoint, method: error.method, details: error });
+  }
+};
+
+const reservationSignature = (reservationInfos: ReservationInfo[]) =>
+  JSON.stringify(reservationInfos.map(ri => [ri.id, ri.openDateTime, ri.closeDateTime, ri.type, ri.ticketURL, ri.remark]));
+
+// 예매 정보는 목록 전체를 교체하므로, 저장한 뒤 서버 목록이 바뀌었으면 덮어쓰지 않고 충돌로 처리
+const checkReservationBaseline = async (performanceId: number, baseline: ReservationInfo[]) => {
+  const current = await fetchFestivalFromServer(performanceId);
+  if (reservationSignature(current.reservationInfos) !== reservationSignature(baseline)) {
+    const request = endpoints.getPerformance(performanceId);
+    throw new ConflictError('대기열에 저장한 뒤 다른 곳에서 예매 정보가 변경되었습니다. 다시 시도하면 서버의 현재 목록을 덮어씁니다.', {
+      status: 409,
+      endpoint: request.path,
+      method: request.method,
+      code: 'OUTBOX_STALE',
+    });
+  }
+};
+
+const performOutboxMutation = async (item: OutboxItem): Promise<void> => {
+  const { mutation } = item;
+  switch (mutation.operation) {
+    case 'addTimeTable':
+      await performAddTimeTable(mutation.performanceId, mutation.data);
+      return;
+    case 'addTimeTableArtist':
+      await performAddTimeTableArtist(mutation.timetableId, mutation.data);
+      return;
+    case 'updateReservationInfos':
+      if (mutation.baseline && !item.isForced) {
+        await checkReservationBaseline(mutation.performanceId, mutation.baseline);
+      }
+      await performUpdateReservationInfos(mutation.performanceId, mutation.data);
+      return;
+  }
 };
 
+// 대기열 전송 - 연결이 끊겨 멈췄으면 그 NetworkError를 반환
+export const replayOutbox = (): Promise<NetworkError | null> => processOutbox(performOutboxMutation);
+
 // API 구현 - 장소
 export const fetchPlaces = async (): Promise<Place[]> => {
-  return await apiCall<Place[]>('/api/admin/place');
+  return await cachedQuery(queryKeys.places, () =>
+    send(endpoints.getPlaces(), array(placeSchema))
+  );
+};
+
+// 장소/홀 이름은 페스티벌 응답에도 포함되므로 이름이 바뀌면 페스티벌도 무효화
+const invalidatePlaces = (options: { includeFestivals?: boolean } = {}) => {
+  invalidateQueries(queryKeys.places, keyPrefix('place'));
+  if (options.includeFestivals) {
+    invalidateQueries(queryKeys.festivals, keyPrefix('festival'));
+  }
 };
 
 export const createPlace = async (placeData: PlaceRequestBody): Promise<Place> => {
-  return await apiCall<Place>('/api/admin/place', {
-    method: 'POST',
-    body: JSON.stringify(placeData),
-  });
+  const created = await withAudit({ operation: 'createPlace', action: 'create', entityType: 'place', after: placeData }, () =>
+    send(endpoints.createPlace(placeData), placeSchema)
+  );
+  invalidatePlaces();
+  return created;
 };
 
-export const updatePlace = async (id: number, placeData: PlaceRequestBody, password: string): Promise<Place> => {
-  return await apiCall<Place>(`/api/admin/place/${id}`, {
-    method: 'PUT',
-    body: JSON.stringify({
-      password: password,
-      ...placeData
-    }),
-  });
+export const updatePlace = async (id: number, placeData: PlaceRequestBody): Promise<Place> => {
+  const updated = await withAudit(
+    { operation: 'updatePlace', action: 'update', entityType: 'place', entityId: id, before: findCachedPlace(id), after: placeData },
+    () => send(endpoints.updatePlace(id, placeData), placeSchema)
+  );
+  invalidatePlaces({ includeFestivals: true });
+  return updated;
 };
 
-export const updateHall = async (hallId: number, hallData: { name: string }, password: string): Promise<Hall> => {
-  return await apiCall<Hall>(`/api/admin/place/hall/${hallId}`, {
-    method: 'PUT',
-    body: JSON.stringify({
-      password: password,
-      ...hallData
-    }),
-  });
+export const updateHall = async (hallId: number, hallData: HallRequestBody): Promise<Hall> => {
+  const updated = await withAudit(
+    { operation: 'updateHall', action: 'update', entityType: 'hall', entityId: hallId, before: findCachedHall(hallId), after: hallData },
+    () => send(endpoints.updateHall(hallId, hallData), hallSchema)
+  );
+  invalidatePlaces({ includeFestivals: true });
+  return updated;
 };
 
-export const addHalls = async (placeId: number, hallNames: string[], password: string): Promise<Hall[]> => {
-  const results: Hall[] = [];
-  for (const name of hallNames) {
-    const hall = await apiCall<Hall>(`/api/admin/place/${placeId}/hall`, {
-      method: 'POST',
-      body: JSON.stringify({
-        password: password,
-        name: name
-      }),
-    });
-    results.push(hall);
-  }
-  return results;
+// 홀 하나 추가 - 여러 개를 추가할 때는 lib/place-edits.ts의 작업 단위로 묶어서 단계별 결과를 확인
+export const addHall = async (placeId: number, name: string): Promise<Hall> => {
+  const hall = await withAudit({ operation: 'addHall', action: 'create', entityType: 'hall', after: { placeId, name } }, () =>
+    send(endpoints.addHall(placeId, { name }), hallSchema)
+  );
+  invalidatePlaces();
+  return hall;
 };
 
-export const deletePlace = async (id: number, password: string): Promise<void> => {
-  return await apiCall(`/api/admin/place/${id}`, {
-    method: 'DELETE',
-    headers: {
-      'X-Admin-Password': password,
-    },
-  });
+export const deletePlace = async (id: number): Promise<void> => {
+  await withAudit(
+    { operation: 'deletePlace', action: 'delete', entityType: 'place', entityId: id, before: findCachedPlace(id) },
+    () => send(endpoints.deletePlace(id))
+  );
+  removeQuery(queryKeys.place(id));
+  invalidatePlaces();
 };
 
 // 장소별 홀 목록 가져오기
 export const fetchHallsByPlaceId = async (placeId: number): Promise<Hall[]> => {
-  const place = await apiCall<Place>(`/api/admin/place/${placeId}`);
+  const place = await cachedQuery(queryKeys.place(placeId), () =>
+    send(endpoints.getPlace(placeId), placeSchema)
+  );
   return place.halls || [];
 };
 
@@ -616,18 +928,8 @@ export function getInitialFormData(): Festival {
 }
 
 // 알람 테스트 API 함수들
-export interface AlarmTestRequest {
-  type: 'updateReservation' | 'reservation' | 'timetable' | 'guide';
-  date: string;
-  dayLeft?: number;
-}
+export type AlarmTestRequest = SendAlarmTestQuery;
 
-export const sendAlarmTest = async (request: AlarmTestRequest): Promise<any> => {
-  const params = new URLSearchParams({
-    type: request.type,
-    date: request.date,
-    ...(request.dayLeft !== undefined && { dayLeft: request.dayLeft.toString() })
-  });
-  
-  return await apiCall(`/v1/alarm/test?${params.toString()}`);
-}; 
\ No newline at end of file
+export const sendAlarmTest = async (request: AlarmTestRequest): Promise<AlarmTestResponse> => {
+  return await send(endpoints.sendAlarmTest(request));
+};
@@ -0,0 +1,176 @@
+import { getOperatorName } from '@/lib/auth';
+import { toCsv } from '@/lib/csv';
+import { getApiEnvironment } from '@/lib/environment';
+import { createLogger } from '@/lib/logger';
+
+// 감사 로그 - lib/api.ts의 모든 변경 요청을 IndexedDB에 기록
+// 누가(로그인 시 입력한 운영자 이름), 언제, 어느 환경에서, 무엇을 어떻게 바꿨는지와 성공 여부를 보관
+// 브라우저에만 저장되므로 다른 브라우저/운영자의 기록과는 합쳐지지 않음
+
+// localOverride - 서버에 저장하지 않고 이 브라우저에만 남긴 지정 (홀 연결 등)
+export type AuditAction = 'create' | 'update' | 'delete' | 'localOverride';
+
+// 타임테이블 아티스트와 예매 정보는 각각 소속 타임테이블/페스티벌의 update로 기록
+export type AuditEntityType = 'festival' | 'timetable' | 'artist' | 'artistAlias' | 'place' | 'hall';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'localOverride'];
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['festival', 'timetable', 'artist', 'artistAlias', 'place', 'hall'];
+
+export interface AuditEntry {
+  id?: number;
+  timestamp: number;
+  operator: string;
+  environment: string; // API 환경 프로필 id
+  operation: string; // lib/api.ts의 함수 이름
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: number;
+  before?: unknown;
+  after?: unknown;
+  result: 'success' | 'failure';
+  error?: string;
+}
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'timestamp' | 'operator' | 'environment'>;
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  action?: AuditAction;
+  from?: number; // timestamp (포함)
+  to?: number; // timestamp (포함)
+}
+
+const DB_NAME = 'dals2bo-audit';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const log = createLogger('api');
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 실패한 연결은 다음 호출 때 다시 시도
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB에 넣을 수 없는 값(함수, 클래스 인스턴스 등)을 걸러냄
+const toStorable = (value: unknown): unknown => {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+};
+
+// 기록 실패가 변경 요청 자체를 실패시키지 않도록 에러는 로그로만 남김
+export const recordAudit = async (input: AuditEntryInput): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+
+  const entry: AuditEntry = {
+    ...input,
+    before: toStorable(input.before),
+    after: toStorable(input.after),
+    timestamp: Date.now(),
+    operator: getOperatorName(),
+    environment: getApiEnvironment().profile.id,
+  };
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    await toPromise(transaction.objectStore(STORE_NAME).add(entry));
+    notify();
+  } catch (error) {
+    log.warn('Failed to write audit entry:', error, entry);
+  }
+};
+
+const matchesFilter = (entry: AuditEntry, filter: AuditFilter) =>
+  (!filter.entityType || entry.entityType === filter.entityType) &&
+  (filter.entityId === undefined || entry.entityId === filter.entityId) &&
+  (!filter.action || entry.action === filter.action) &&
+  (filter.from === undefined || entry.timestamp >= filter.from) &&
+  (filter.to === undefined || entry.timestamp <= filter.to);
+
+// 최신 기록부터 반환
+export const fetchAuditEntries = async (filter: AuditFilter = {}): Promise<AuditEntry[]> => {
+  if (typeof indexedDB === 'undefined') return [];
+
+  const db = await openDatabase();
+  const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('timestamp');
+  const range =
+    filter.from !== undefined && filter.to !== undefined ? IDBKeyRange.bound(filter.from, filter.to)
+    : filter.from !== undefined ? IDBKeyRange.lowerBound(filter.from)
+    : filter.to !== undefined ? IDBKeyRange.upperBound(filter.to)
+    : undefined;
+  const entries = (await toPromise(index.getAll(range))) as AuditEntry[];
+  return entries.filter(entry => matchesFilter(entry, filter)).reverse();
+};
+
+export const subscribeAudit = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- 내보내기 ---
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'timestamp',
+  'operator',
+  'environment',
+  'operation',
+  'action',
+  'entityType',
+  'entityId',
+  'result',
+  'error',
+  'before',
+  'after',
+];
+
+// 객체(before/after)는 JSON 문자열로, 따옴표 처리는 lib/csv.ts의 toCsv에 맡김
+const toCsvText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column =>
+      column === 'timestamp' ? new Date(entry.timestamp).toISOString() : toCsvText(entry[column])
+    )
+  );
+  return toCsv([CSV_COLUMNS, ...rows]);
+};
+
+export const auditEntriesToJson = (entries: AuditEntry[]): string => JSON.stringify(entries, null, 2);
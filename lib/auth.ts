@@ -0,0 +1,168 @@
+import { useSyncExternalStore } from 'react';
+import { AuthError } from '@/lib/errors';
+
+// 관리자 세션 - 로그인 시 한 번 입력한 비밀번호를 만료 시간과 함께 보관
+// sessionStorage에 저장하므로 브라우저 탭을 닫으면 세션도 사라짐
+
+const SESSION_STORAGE_KEY = 'dals2bo-admin-session';
+// 마지막으로 로그인한 운영자 이름 - 다음 로그인 시 미리 채우고 재인증 시 그대로 사용
+const OPERATOR_STORAGE_KEY = 'dals2bo-operator-name';
+
+// 로그인 후 최대 유지 시간 (8시간)
+export const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+// 입력이 없으면 만료되는 시간 (30분)
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export type SessionEndReason = 'logout' | 'expired' | 'idle' | 'rejected';
+
+export interface AdminSession {
+  password: string;
+  operatorName: string; // 감사 로그에 기록되는 이름
+  startedAt: number;
+  expiresAt: number;
+  lastActivityAt: number;
+}
+
+export type AdminSessionState =
+  | { status: 'anonymous' }
+  | { status: 'active'; session: AdminSession }
+  | { status: 'expired'; reason: SessionEndReason };
+
+let state: AdminSessionState = { status: 'anonymous' };
+let isHydrated = false;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const persist = (session: AdminSession | null) => {
+  if (typeof window === 'undefined') return;
+  if (session) {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+const getEndReason = (session: AdminSession, now: number): SessionEndReason | null => {
+  if (now >= session.expiresAt) return 'expired';
+  if (now - session.lastActivityAt >= SESSION_IDLE_TIMEOUT_MS) return 'idle';
+  return null;
+};
+
+// 새로고침 후 sessionStorage에 남아있는 세션 복원
+const hydrate = () => {
+  if (isHydrated || typeof window === 'undefined') return;
+  isHydrated = true;
+
+  try {
+    const raw = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return;
+    const saved = JSON.parse(raw) as AdminSession;
+    const session: AdminSession = { ...saved, operatorName: saved.operatorName || getLastOperatorName() };
+    const reason = getEndReason(session, Date.now());
+    state = reason ? { status: 'expired', reason } : { status: 'active', session };
+    if (reason) persist(null);
+  } catch {
+    persist(null);
+  }
+};
+
+export const getAdminSessionState = (): AdminSessionState => {
+  hydrate();
+  return state;
+};
+
+export const subscribeAdminSession = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLastOperatorName = (): string => {
+  if (typeof window === 'undefined') return '';
+  return window.localStorage.getItem(OPERATOR_STORAGE_KEY) || '';
+};
+
+// 재인증(세션 만료 후 비밀번호만 다시 입력)에서는 운영자 이름을 생략하고 이전 이름을 사용
+export const startAdminSession = (password: string, operatorName: string = getLastOperatorName()) => {
+  const now = Date.now();
+  const trimmedName = operatorName.trim();
+  if (typeof window !== 'undefined') window.localStorage.setItem(OPERATOR_STORAGE_KEY, trimmedName);
+
+  const session: AdminSession = {
+    password,
+    operatorName: trimmedName,
+    startedAt: now,
+    expiresAt: now + SESSION_MAX_AGE_MS,
+    lastActivityAt: now,
+  };
+  isHydrated = true;
+  state = { status: 'active', session };
+  persist(session);
+  notify();
+};
+
+// 로그아웃은 anonymous, 그 외 사유는 expired 상태로 전환 (재인증 프롬프트 표시)
+export const endAdminSession = (reason: SessionEndReason) => {
+  hydrate();
+  if (state.status === 'anonymous') return;
+  if (state.status === 'expired' && reason !== 'logout') return;
+
+  state = reason === 'logout' ? { status: 'anonymous' } : { status: 'expired', reason };
+  persist(null);
+  notify();
+};
+
+// 사용자 활동 시 유휴 타이머 연장 (저장은 1분에 한 번만)
+export const touchAdminSession = () => {
+  hydrate();
+  if (state.status !== 'active') return;
+
+  const now = Date.now();
+  const reason = getEndReason(state.session, now);
+  if (reason) {
+    endAdminSession(reason);
+    return;
+  }
+  if (now - state.session.lastActivityAt < 60 * 1000) return;
+
+  state = { status: 'active', session: { ...state.session, lastActivityAt: now } };
+  persist(state.session);
+};
+
+// 주기적으로 호출해서 만료된 세션 정리
+export const checkAdminSessionExpiry = () => {
+  hydrate();
+  if (state.status !== 'active') return;
+  const reason = getEndReason(state.session, Date.now());
+  if (reason) endAdminSession(reason);
+};
+
+// 보호 요청에 첨부할 비밀번호 - 유효한 세션이 없으면 요청 전에 실패
+export const getAdminPassword = (request: { endpoint: string; method: string } = { endpoint: '', method: '' }): string => {
+  checkAdminSessionExpiry();
+  if (state.status !== 'active') {
+    throw new AuthError('관리자 세션이 만료되었습니다. 다시 로그인해주세요.', {
+      status: 401,
+      endpoint: request.endpoint,
+      method: request.method,
+      code: 'SESSION_EXPIRED',
+    });
+  }
+  return state.session.password;
+};
+
+// 감사 로그에 기록할 운영자 이름
+export const getOperatorName = (): string => {
+  hydrate();
+  return state.status === 'active' ? state.session.operatorName : getLastOperatorName();
+};
+
+const SERVER_SNAPSHOT: AdminSessionState = { status: 'anonymous' };
+const getServerSnapshot = () => SERVER_SNAPSHOT;
+
+export const useAdminSession = (): AdminSessionState =>
+  useSyncExternalStore(subscribeAdminSession, getAdminSessionState, getServerSnapshot);
@@ -0,0 +1,84 @@
+import { useSyncExternalStore } from 'react';
+import { createLogger } from '@/lib/logger';
+
+// 응답 진단 목록 - 서버 응답이 스키마와 맞지 않을 때 어느 API의 어느 필드인지 기록
+// 화면은 기본값으로 대체해서 계속 동작하고, 개발자는 DiagnosticsPanel에서 목록을 확인
+
+export interface ResponseDiagnostic {
+  id: number;
+  method: string;
+  endpoint: string;
+  path: string;
+  expected: string;
+  received: string;
+  count: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+export interface DiagnosticInput {
+  method: string;
+  endpoint: string;
+  path: string;
+  expected: string;
+  received: string;
+}
+
+// 같은 문제가 반복되면 count만 올리고, 종류는 최대 200개까지 보관
+const MAX_DIAGNOSTICS = 200;
+
+let diagnostics: ResponseDiagnostic[] = [];
+let sequence = 0;
+const listeners = new Set<() => void>();
+const log = createLogger('api');
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const isSameProblem = (diagnostic: ResponseDiagnostic, input: DiagnosticInput) =>
+  diagnostic.method === input.method &&
+  diagnostic.endpoint === input.endpoint &&
+  diagnostic.path === input.path &&
+  diagnostic.expected === input.expected &&
+  diagnostic.received === input.received;
+
+export const reportDiagnostics = (inputs: DiagnosticInput[]) => {
+  if (inputs.length === 0) return;
+
+  const now = Date.now();
+  let next = diagnostics;
+  inputs.forEach(input => {
+    const existing = next.find(d => isSameProblem(d, input));
+    if (existing) {
+      next = next.map(d => (d === existing ? { ...d, count: d.count + 1, lastSeenAt: now } : d));
+      return;
+    }
+    log.warn(`response mismatch: ${input.method} ${input.endpoint} ${input.path}: expected ${input.expected}, received ${input.received}`);
+    sequence += 1;
+    next = [{ ...input, id: sequence, count: 1, firstSeenAt: now, lastSeenAt: now }, ...next];
+  });
+
+  diagnostics = next.slice(0, MAX_DIAGNOSTICS);
+  notify();
+};
+
+export const getDiagnostics = (): ResponseDiagnostic[] => diagnostics;
+
+export const clearDiagnostics = () => {
+  diagnostics = [];
+  notify();
+};
+
+export const subscribeDiagnostics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const EMPTY: ResponseDiagnostic[] = [];
+const getServerSnapshot = () => EMPTY;
+
+export const useDiagnostics = (): ResponseDiagnostic[] =>
+  useSyncExternalStore(subscribeDiagnostics, getDiagnostics, getServerSnapshot);
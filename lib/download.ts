@@ -0,0 +1,11 @@
+// 브라우저에서 텍스트 파일 내려받기
+// - 엑셀에서 한글이 깨지지 않도록 CSV에는 BOM을 붙임
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([type === 'text/csv' ? '\uFEFF' : '', content], { type: `${type};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
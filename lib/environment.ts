@@ -0,0 +1,138 @@
+import { useSyncExternalStore } from 'react';
+
+// 백엔드 환경 프로필 - URL은 환경 변수로 설정하고, 사용할 프로필은 사이드바에서 선택
+// 선택한 프로필은 localStorage에 저장되어 브라우저별로 유지됨
+
+export type ApiEnvironmentId = 'local' | 'dev' | 'staging' | 'prod' | 'custom';
+
+export interface ApiEnvironmentProfile {
+  id: ApiEnvironmentId;
+  label: string;
+  baseUrl: string;
+  isProduction: boolean;
+}
+
+export interface ApiEnvironmentState {
+  profile: ApiEnvironmentProfile;
+  customUrl: string;
+}
+
+const ENVIRONMENT_STORAGE_KEY = 'dals2bo-api-environment';
+
+// NEXT_PUBLIC_ 변수는 빌드 시 문자열로 치환되므로 반드시 process.env.XXX 형태로 직접 참조해야 함
+const PROFILE_URLS: Record<Exclude<ApiEnvironmentId, 'custom'>, string | undefined> = {
+  local: process.env.NEXT_PUBLIC_API_URL_LOCAL || 'http://localhost:8080',
+  dev: process.env.NEXT_PUBLIC_API_URL_DEV || 'https://darayo-festival.shop',
+  staging: process.env.NEXT_PUBLIC_API_URL_STAGING,
+  prod: process.env.NEXT_PUBLIC_API_URL_PROD,
+};
+
+// README에 안내된 NEXT_PUBLIC_API_URL은 사용자 지정 URL의 기본값으로 사용
+const DEFAULT_CUSTOM_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+const PROFILE_LABELS: Record<ApiEnvironmentId, string> = {
+  local: 'Local',
+  dev: 'Dev',
+  staging: 'Staging',
+  prod: 'Production',
+  custom: 'Custom URL',
+};
+
+const ENVIRONMENT_IDS: ApiEnvironmentId[] = ['local', 'dev', 'staging', 'prod', 'custom'];
+
+const isEnvironmentId = (value: unknown): value is ApiEnvironmentId =>
+  typeof value === 'string' && (ENVIRONMENT_IDS as string[]).includes(value);
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const isValidApiUrl = (url: string) => /^https?:\/\/[^\s/]+/.test(url.trim());
+
+const buildProfile = (id: ApiEnvironmentId, customUrl: string): ApiEnvironmentProfile => ({
+  id,
+  label: PROFILE_LABELS[id],
+  baseUrl: normalizeUrl(id === 'custom' ? customUrl : PROFILE_URLS[id] || ''),
+  isProduction: id === 'prod',
+});
+
+// URL이 설정된 프로필만 선택지로 노출
+export const getAvailableEnvironments = (customUrl: string): ApiEnvironmentProfile[] =>
+  ENVIRONMENT_IDS
+    .map(id => buildProfile(id, customUrl))
+    .filter(profile => profile.id === 'custom' || profile.baseUrl);
+
+// 기본 프로필: NEXT_PUBLIC_API_ENV > NEXT_PUBLIC_API_URL(custom) > 접속 호스트 기준 local/dev
+const getDefaultEnvironmentId = (): ApiEnvironmentId => {
+  const configured = process.env.NEXT_PUBLIC_API_ENV;
+  if (isEnvironmentId(configured)) return configured;
+  if (DEFAULT_CUSTOM_URL) return 'custom';
+
+  if (typeof window !== 'undefined') {
+    const hostname = window.location.hostname;
+    if (hostname === 'localhost' || hostname === '127.0.0.1') return 'local';
+  }
+  return 'dev';
+};
+
+const createState = (id: ApiEnvironmentId, customUrl: string): ApiEnvironmentState => {
+  const profile = buildProfile(id, customUrl);
+  // URL이 비어있는 프로필이 저장되어 있으면 기본 프로필로 대체
+  if (!profile.baseUrl && id !== getDefaultEnvironmentId()) {
+    return createState(getDefaultEnvironmentId(), customUrl);
+  }
+  return { profile, customUrl };
+};
+
+let state: ApiEnvironmentState = createState('dev', DEFAULT_CUSTOM_URL);
+let isHydrated = false;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const hydrate = () => {
+  if (isHydrated || typeof window === 'undefined') return;
+  isHydrated = true;
+
+  let id = getDefaultEnvironmentId();
+  let customUrl = DEFAULT_CUSTOM_URL;
+  try {
+    const raw = window.localStorage.getItem(ENVIRONMENT_STORAGE_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw) as { id?: unknown; customUrl?: unknown };
+      if (isEnvironmentId(saved.id)) id = saved.id;
+      if (typeof saved.customUrl === 'string') customUrl = saved.customUrl;
+    }
+  } catch {
+    window.localStorage.removeItem(ENVIRONMENT_STORAGE_KEY);
+  }
+  state = createState(id, customUrl);
+};
+
+export const getApiEnvironment = (): ApiEnvironmentState => {
+  hydrate();
+  return state;
+};
+
+export const subscribeApiEnvironment = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setApiEnvironment = (id: ApiEnvironmentId, customUrl: string = state.customUrl) => {
+  hydrate();
+  state = createState(id, normalizeUrl(customUrl));
+  window.localStorage.setItem(ENVIRONMENT_STORAGE_KEY, JSON.stringify({ id: state.profile.id, customUrl: state.customUrl }));
+  notify();
+};
+
+// apiCall에서 사용하는 현재 환경의 API 주소
+export const getApiBaseUrl = (): string => getApiEnvironment().profile.baseUrl;
+
+const SERVER_SNAPSHOT = state;
+const getServerSnapshot = () => SERVER_SNAPSHOT;
+
+export const useApiEnvironment = (): ApiEnvironmentState =>
+  useSyncExternalStore(subscribeApiEnvironment, getApiEnvironment, getServerSnapshot);
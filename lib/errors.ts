@@ -0,0 +1,141 @@
+// API 에러 계층 - apiCall이 던지는 구조화된 에러 타입 정의
+
+export interface ApiFieldError {
+  field: string;
+  message: string;
+  rejectedValue?: unknown;
+}
+
+interface ApiErrorInit {
+  status: number;
+  endpoint: string;
+  method: string;
+  code?: string | null;
+  fieldErrors?: ApiFieldError[];
+  details?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status: number; // 네트워크/타임아웃 에러는 0
+  readonly code: string | null;
+  readonly fieldErrors: ApiFieldError[];
+  readonly endpoint: string;
+  readonly method: string;
+  readonly details?: unknown;
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message);
+    // ES5 타겟에서도 instanceof가 동작하도록 프로토타입 복원
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = init.status;
+    this.code = init.code ?? null;
+    this.fieldErrors = init.fieldErrors ?? [];
+    this.endpoint = init.endpoint;
+    this.method = init.method;
+    this.details = init.details;
+  }
+}
+
+// 401/403 - 비밀번호 불일치 또는 권한 없음
+export class AuthError extends ApiError {}
+
+// 400/422 - 요청 값 검증 실패 (fieldErrors에 필드별 상세 포함)
+export class ValidationError extends ApiError {}
+
+// 404 - 대상 리소스 없음
+export class NotFoundError extends ApiError {}
+
+// 409 - 중복 또는 다른 데이터와 충돌
+export class ConflictError extends ApiError {}
+
+// 요청 시간 초과 (30초)
+export class TimeoutError extends ApiError {}
+
+// 서버에 도달하지 못함 (오프라인, CORS, DNS 등)
+export class NetworkError extends ApiError {}
+
+// 서버에 도달하지 못한 변경을 오프라인 대기열(lib/outbox.ts)에 저장함 - 연결되면 다시 전송됨
+export class OfflineQueuedError extends NetworkError {}
+
+// 성공 응답이지만 본문이 스키마와 맞지 않아 사용할 수 없음 (lib/schemas.ts)
+export class ResponseFormatError extends ApiError {}
+
+// 서버 에러 응답 본문에서 필드 에러 추출 (Spring 기본 형식과 커스텀 형식 모두 지원)
+const parseFieldErrors = (body: any): ApiFieldError[] => {
+  const raw = body?.fieldErrors ?? body?.errors ?? body?.details;
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((item: any) => item && typeof item === 'object' && typeof item.field === 'string')
+    .map((item: any) => ({
+      field: item.field,
+      message: item.message || item.defaultMessage || item.reason || '올바르지 않은 값입니다.',
+      rejectedValue: item.rejectedValue,
+    }));
+};
+
+// HTTP 응답 상태와 본문으로 적절한 에러 인스턴스 생성
+export const createApiError = (
+  status: number,
+  statusText: string,
+  body: any,
+  context: { endpoint: string; method: string }
+): ApiError => {
+  const message =
+    (typeof body === 'string' && body) ||
+    body?.message ||
+    body?.error ||
+    `HTTP ${status}: ${statusText}`;
+
+  const init: ApiErrorInit = {
+    status,
+    endpoint: context.endpoint,
+    method: context.method,
+    code: body?.code ?? body?.errorCode ?? null,
+    fieldErrors: parseFieldErrors(body),
+    details: body,
+  };
+
+  if (status === 401 || status === 403) return new AuthError(message, init);
+  if (status === 400 || status === 422) return new ValidationError(message, init);
+  if (status === 404) return new NotFoundError(message, init);
+  if (status === 409) return new ConflictError(message, init);
+  return new ApiError(message, init);
+};
+
+// 필드 에러를 { 필드명: 메시지 } 형태로 변환
+// 서버 필드 경로의 접두사(예: "performance.")는 폼 필드명에 맞게 제거
+export const getFieldErrorMap = (error: unknown, stripPrefix?: string): Record<string, string> => {
+  if (!(error instanceof ApiError)) return {};
+
+  return error.fieldErrors.reduce((acc, fieldError) => {
+    const field = stripPrefix && fieldError.field.startsWith(stripPrefix)
+      ? fieldError.field.slice(stripPrefix.length)
+      : fieldError.field;
+    if (!acc[field]) {
+      acc[field] = fieldError.message;
+    }
+    return acc;
+  }, {} as Record<string, string>);
+};
+
+// 사용자에게 보여줄 에러 메시지
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof AuthError) {
+    return error.code === 'SESSION_EXPIRED' ? error.message : '관리자 인증에 실패했습니다. 비밀번호를 다시 입력해주세요.';
+  }
+  if (error instanceof TimeoutError) return '요청 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.';
+  if (error instanceof OfflineQueuedError) return error.message;
+  if (error instanceof NetworkError) return '서버에 연결할 수 없습니다. 네트워크 상태를 확인해주세요.';
+  if (error instanceof NotFoundError) return '요청한 데이터를 찾을 수 없습니다. 이미 삭제되었을 수 있습니다.';
+  if (error instanceof ResponseFormatError) return '서버 응답 형식이 올바르지 않습니다. 화면 오른쪽 아래의 응답 진단 목록을 확인해주세요.';
+  if (error instanceof ConflictError) return `이미 존재하거나 다른 데이터와 충돌합니다: ${error.message}`;
+  if (error instanceof ValidationError) {
+    return error.fieldErrors.length > 0
+      ? `입력값을 확인해주세요.\n${error.fieldErrors.map(fe => `- ${fe.field}: ${fe.message}`).join('\n')}`
+      : `입력값을 확인해주세요: ${error.message}`;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return '알 수 없는 오류가 발생했습니다.';
+};
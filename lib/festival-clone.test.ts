@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { cloneFestival, DEFAULT_CLONE_OFFSET_DAYS, getCloneOffsetDays, shiftDate } from '@/lib/festival-clone';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { Festival, URLType } from '@/types/festival';
+
+const festival: Festival = {
+  id: 1,
+  name: '페스티벌',
+  placeId: 1,
+  placeName: '올림픽공원',
+  startDate: '2025-05-30',
+  endDate: '2025-06-01',
+  posterUrl: 'https://example.com/poster.jpg',
+  banGoods: '',
+  transportationInfo: '',
+  remark: '',
+  urlInfos: [{ type: URLType.HOMEPAGE, url: 'https://example.com' }],
+  reservationInfos: [
+    { id: 5, openDateTime: '2025-03-01T12:00:00', closeDateTime: '2025-03-31T23:59:00', type: '1차 예매', ticketURL: 'https://example.com/tickets', remark: '' },
+  ],
+  timeTables: [
+    {
+      id: 7,
+      performanceDate: '2025-05-31',
+      startTime: '18:00',
+      endTime: '19:00',
+      hallId: 10,
+      hallName: '88잔디마당',
+      artists: [{ timetableArtistId: 3, artistId: 100, artistName: '아티스트 A', type: 'MAIN' }],
+    },
+    { id: 8, performanceDate: UNDECIDED_DATE, startTime: '00:00', endTime: '00:00', hallId: 10, artists: [] },
+  ],
+  artists: [{ id: 100, displayName: '아티스트 A' }],
+};
+
+describe('cloneFestival', () => {
+  it('moves every date by the offset and keeps times', () => {
+    const clone = cloneFestival(festival, { offsetDays: DEFAULT_CLONE_OFFSET_DAYS, includeArtists: false });
+
+    expect(clone).toMatchObject({ startDate: '2026-05-29', endDate: '2026-05-31' });
+    expect(clone.reservationInfos[0]).toMatchObject({ openDateTime: '2026-02-28T12:00:00', closeDateTime: '2026-03-30T23:59:00' });
+    expect(clone.timeTables[0]).toMatchObject({ performanceDate: '2026-05-30', startTime: '18:00', endTime: '19:00' });
+  });
+
+  it('keeps undecided timetable dates undecided', () => {
+    const clone = cloneFestival(festival, { offsetDays: 364, includeArtists: false });
+
+    expect(clone.timeTables[1].performanceDate).toBe(UNDECIDED_DATE);
+  });
+
+  it('drops server ids and response-only fields', () => {
+    const clone = cloneFestival(festival, { offsetDays: 0, includeArtists: true });
+
+    expect(clone).not.toHaveProperty('id');
+    expect(clone).not.toHaveProperty('artists');
+    expect(clone.reservationInfos[0]).not.toHaveProperty('id');
+    expect(clone.timeTables[0]).not.toHaveProperty('id');
+    expect(clone.timeTables[0].artists).toEqual([{ artistId: 100, artistName: '아티스트 A', type: 'MAIN' }]);
+  });
+
+  it('copies artist assignments only when asked', () => {
+    expect(cloneFestival(festival, { offsetDays: 0, includeArtists: false }).timeTables[0].artists).toEqual([]);
+  });
+});
+
+describe('clone dates', () => {
+  it('counts the offset from the original start date', () => {
+    expect(getCloneOffsetDays(festival, '2026-05-29')).toBe(364);
+  });
+
+  it('shifts calendar days and leaves an empty date empty', () => {
+    expect(shiftDate('', 7)).toBe('');
+    expect(shiftDate('2024-02-28', 1)).toBe('2024-02-29');
+  });
+});
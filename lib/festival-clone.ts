@@ -0,0 +1,58 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { Festival } from '@/types/festival';
+
+// 페스티벌 복제 - 매년 같은 장소/홀 구성으로 열리는 페스티벌을 날짜만 옮겨서 새로 만듦
+// 복제본은 폼에서 검토한 뒤 lib/festival-steps.ts의 단계로 저장
+
+export interface CloneOptions {
+  offsetDays: number;
+  includeArtists: boolean; // 타임테이블의 아티스트 배정까지 복사
+}
+
+// 같은 요일이 되도록 기본값은 52주 뒤
+export const DEFAULT_CLONE_OFFSET_DAYS = 364;
+
+export const shiftDate = (date: string, offsetDays: number) =>
+  date ? format(addDays(parseISO(date), offsetDays), 'yyyy-MM-dd') : date;
+
+// yyyy-MM-ddTHH:mm(:ss) - 날짜 부분만 옮기고 시간은 그대로
+const shiftDateTime = (dateTime: string, offsetDays: number) =>
+  dateTime ? `${shiftDate(dateTime.slice(0, 10), offsetDays)}${dateTime.slice(10)}` : dateTime;
+
+// 새 시작일까지의 날짜 차이
+export const getCloneOffsetDays = (festival: Festival, newStartDate: string) =>
+  differenceInCalendarDays(parseISO(newStartDate), parseISO(festival.startDate));
+
+// 서버가 만든 id와 응답 전용 필드는 빼고 복사
+export const cloneFestival = (festival: Festival, { offsetDays, includeArtists }: CloneOptions): Omit<Festival, 'id'> => ({
+  name: festival.name,
+  placeId: festival.placeId,
+  placeName: festival.placeName,
+  placeAddress: festival.placeAddress,
+  startDate: shiftDate(festival.startDate, offsetDays),
+  endDate: shiftDate(festival.endDate, offsetDays),
+  posterUrl: festival.posterUrl,
+  banGoods: festival.banGoods,
+  transportationInfo: festival.transportationInfo,
+  remark: festival.remark,
+  urlInfos: festival.urlInfos.map(urlInfo => ({ ...urlInfo })),
+  reservationInfos: festival.reservationInfos.map(ri => ({
+    openDateTime: shiftDateTime(ri.openDateTime, offsetDays),
+    closeDateTime: shiftDateTime(ri.closeDateTime, offsetDays),
+    type: ri.type,
+    ticketURL: ri.ticketURL,
+    remark: ri.remark,
+  })),
+  timeTables: festival.timeTables.map(tt => ({
+    // 날짜 미정은 옮기지 않고 그대로 미정으로
+    performanceDate: tt.performanceDate === UNDECIDED_DATE ? UNDECIDED_DATE : shiftDate(tt.performanceDate, offsetDays),
+    startTime: tt.startTime,
+    endTime: tt.endTime,
+    hallId: tt.hallId,
+    hallName: tt.hallName,
+    artists: includeArtists
+      ? tt.artists.map(artist => ({ artistId: artist.artistId, artistName: artist.artistName, type: artist.type }))
+      : [],
+  })),
+});
@@ -0,0 +1,123 @@
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { URL_TYPE_LABELS } from '@/lib/url-types';
+import { Festival } from '@/types/festival';
+
+// 페스티벌 수정 전후 비교 - 저장하기 전에 앱에 반영될 내용을 확인
+//
+// - 수정 요청으로 바뀌는 기본 정보와 URL만 비교 (타임테이블/예매정보는 각 탭에서 따로 저장)
+// - 여러 줄 필드는 줄 단위로 비교해서 추가/삭제된 줄을 표시
+// - 장소/기간 변경이 기존 타임테이블과 예매정보에 주는 영향은 따로 안내
+
+export interface FestivalFieldDiff {
+  field: keyof Festival;
+  label: string;
+  before: string;
+  after: string;
+  isMultiline: boolean;
+  isChanged: boolean;
+}
+
+export interface LineDiff {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+type FestivalInput = Omit<Festival, 'id'>;
+
+interface DiffField {
+  field: keyof Festival;
+  label: string;
+  isMultiline?: boolean;
+  format: (festival: FestivalInput) => string;
+}
+
+const DIFF_FIELDS: DiffField[] = [
+  { field: 'name', label: '이름', format: f => f.name },
+  { field: 'placeId', label: '장소', format: f => f.placeName || (f.placeId ? `장소 #${f.placeId}` : '') },
+  { field: 'startDate', label: '시작일', format: f => f.startDate },
+  { field: 'endDate', label: '종료일', format: f => f.endDate },
+  { field: 'posterUrl', label: '포스터', format: f => f.posterUrl },
+  { field: 'banGoods', label: '금지물품', isMultiline: true, format: f => f.banGoods },
+  { field: 'transportationInfo', label: '교통정보', isMultiline: true, format: f => f.transportationInfo },
+  { field: 'remark', label: '비고', isMultiline: true, format: f => f.remark },
+  {
+    field: 'urlInfos',
+    label: 'URL',
+    isMultiline: true,
+    format: f => f.urlInfos.map(urlInfo => `${URL_TYPE_LABELS[urlInfo.type] || urlInfo.type}: ${urlInfo.url}`).join('\n'),
+  },
+];
+
+export const getFestivalDiff = (original: FestivalInput, edited: FestivalInput): FestivalFieldDiff[] =>
+  DIFF_FIELDS.map(({ field, label, isMultiline = false, format }) => {
+    const before = format(original);
+    const after = format(edited);
+    // 장소는 이름이 아니라 id로 비교 - 이름이 같은 다른 장소도 변경으로 표시
+    const isChanged = field === 'placeId' ? original.placeId !== edited.placeId : before !== after;
+    return { field, label, before, after, isMultiline, isChanged };
+  });
+
+const splitLines = (text: string) => (text ? text.replace(/\r\n/g, '\n').split('\n') : []);
+
+// 최장 공통 부분열로 줄 단위 비교 - 입력 필드 크기라 O(n×m)으로 충분
+export const diffLines = (before: string, after: string): LineDiff[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  return result;
+};
+
+// 장소/기간 변경이 이미 등록된 타임테이블과 예매정보에 주는 영향
+export const getFestivalUpdateImpacts = (original: Festival, edited: FestivalInput): string[] => {
+  const impacts: string[] = [];
+  const { timeTables, reservationInfos } = original;
+
+  if (original.placeId !== edited.placeId && timeTables.length > 0) {
+    const hallNames = Array.from(new Set(timeTables.map(tt => tt.hallName).filter(Boolean)));
+    impacts.push(
+      `장소를 바꾸면 타임테이블 ${timeTables.length}개의 홀${hallNames.length > 0 ? `(${hallNames.join(', ')})` : ''}이 새 장소와 맞지 않습니다. 서버가 장소 변경을 거부할 수 있습니다.`
+    );
+  }
+
+  const isPeriodChanged = original.startDate !== edited.startDate || original.endDate !== edited.endDate;
+  if (!isPeriodChanged) return impacts;
+
+  const outOfRange = timeTables.filter(
+    tt => tt.performanceDate !== UNDECIDED_DATE && (tt.performanceDate < edited.startDate || tt.performanceDate > edited.endDate)
+  );
+  if (outOfRange.length > 0) {
+    const dates = Array.from(new Set(outOfRange.map(tt => tt.performanceDate))).sort();
+    impacts.push(`타임테이블 ${outOfRange.length}개가 새 기간(${edited.startDate} ~ ${edited.endDate}) 밖에 있습니다: ${dates.join(', ')}`);
+  } else if (timeTables.length > 0) {
+    impacts.push(`기간을 바꿔도 타임테이블 ${timeTables.length}개의 날짜는 그대로입니다. 날짜가 맞는지 타임테이블 탭에서 확인해주세요.`);
+  }
+
+  const closingAfterEnd = reservationInfos.filter(ri => ri.closeDateTime && ri.closeDateTime.slice(0, 10) > edited.endDate);
+  if (closingAfterEnd.length > 0) {
+    impacts.push(`예매정보 ${closingAfterEnd.length}건의 마감 일시가 새 종료일(${edited.endDate}) 이후입니다.`);
+  }
+
+  return impacts;
+};
@@ -0,0 +1,53 @@
+import { getApiEnvironment } from '@/lib/environment';
+import { createLogger } from '@/lib/logger';
+import { Festival } from '@/types/festival';
+
+// 페스티벌 폼 초안 - 작성 중인 내용을 localStorage에 자동 저장했다가 폼을 다시 열면 복원
+//
+// - 페스티벌 id별(새 페스티벌은 'new')로 하나씩, API 환경 프로필마다 따로 보관
+// - 저장에 성공하면 삭제, 취소로 닫은 초안은 다음에 열 때 복원할지 물어봄
+
+export type FestivalDraftKey = number | 'new';
+
+export interface FestivalDraft {
+  savedAt: number;
+  data: Omit<Festival, 'id'>;
+}
+
+const DRAFT_STORAGE_KEY_PREFIX = 'dals2bo-festival-draft';
+
+const log = createLogger('festivals');
+
+const getStorageKey = (key: FestivalDraftKey) => `${DRAFT_STORAGE_KEY_PREFIX}:${getApiEnvironment().profile.id}:${key}`;
+
+export const loadFestivalDraft = (key: FestivalDraftKey): FestivalDraft | null => {
+  if (typeof window === 'undefined') return null;
+  const storageKey = getStorageKey(key);
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as FestivalDraft;
+    return typeof draft?.savedAt === 'number' && draft.data ? draft : null;
+  } catch {
+    window.localStorage.removeItem(storageKey);
+    return null;
+  }
+};
+
+export const saveFestivalDraft = (key: FestivalDraftKey, data: Omit<Festival, 'id'>) => {
+  const draft: FestivalDraft = { savedAt: Date.now(), data };
+  try {
+    window.localStorage.setItem(getStorageKey(key), JSON.stringify(draft));
+  } catch (error) {
+    // 용량 초과(로컬 파일 포스터 등) - 초안만 포기하고 작성은 계속
+    log.warn('Failed to save festival draft:', error);
+  }
+};
+
+export const clearFestivalDraft = (key: FestivalDraftKey) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(getStorageKey(key));
+};
+
+// 내용이 같은지 - 초안이 처음 연 상태와 다를 때만 저장/복원
+export const isSameFestivalFormData = (a: Omit<Festival, 'id'>, b: Omit<Festival, 'id'>) => JSON.stringify(a) === JSON.stringify(b);
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { festivalsToIcs, timeTablesToCsv } from '@/lib/festival-export';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { Festival } from '@/types/festival';
+
+const festival = {
+  id: 1,
+  name: '페스티벌',
+  placeName: '올림픽공원',
+  reservationInfos: [],
+  timeTables: [
+    { id: 10, performanceDate: UNDECIDED_DATE, startTime: '00:00', endTime: '00:00', hallName: 'A', artists: [] },
+    { id: 11, performanceDate: '2025-05-31', startTime: '00:00', endTime: '00:00', hallName: 'A', artists: [] },
+    { id: 12, performanceDate: '2025-05-30', startTime: '18:00', endTime: '19:00', hallName: 'A', artists: [] },
+  ],
+} as unknown as Festival;
+
+describe('undecided timetables in exports', () => {
+  it('marks undecided dates and times in the CSV and lists undecided dates last', () => {
+    const [, ...rows] = timeTablesToCsv([festival]).trim().split(/\r?\n/);
+
+    expect(rows).toEqual([
+      '페스티벌,올림픽공원,2025-05-30,A,18:00,19:00,,',
+      '페스티벌,올림픽공원,2025-05-31,A,미정,미정,,',
+      '페스티벌,올림픽공원,미정,A,미정,미정,,',
+    ]);
+  });
+
+  it('leaves undecided slots out of the calendar', () => {
+    const ics = festivalsToIcs([festival], new Date('2025-01-01T00:00:00Z'));
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain('UID:timetable-1-12@dals2bo-admin');
+    expect(ics).toContain('DTSTART:20250530T090000Z');
+    expect(ics).not.toContain('0001');
+  });
+});
@@ -0,0 +1,193 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import { isUndecidedDate, isUndecidedTime } from '@/lib/timetable-grid';
+import { Festival, TimeTable } from '@/types/festival';
+
+// 페스티벌 내보내기 - fetchFestivals가 돌려준 데이터를 그대로 파일로 만듦
+// - JSON: Festival 객체 전체
+// - CSV: 타임테이블을 한 줄에 한 슬롯으로 펼친 표 (날짜/시간 미정은 '미정')
+// - ICS: 타임테이블 슬롯과 예매 오픈 일시를 일정으로 (캘린더 앱 구독/가져오기용, 날짜/시간 미정인 슬롯은 제외)
+
+export type ExportFormat = 'json' | 'csv' | 'ics';
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ics: 'text/calendar',
+};
+
+export const festivalsToJson = (festivals: Festival[]): string => JSON.stringify(festivals, null, 2);
+
+const TIMETABLE_CSV_COLUMNS = ['페스티벌', '장소', '날짜', '홀', '시작', '종료', '아티스트', '서브 아티스트'];
+
+const getArtistNames = (timeTable: TimeTable, type: string) =>
+  timeTable.artists.filter(artist => artist.type === type).map(artist => artist.artistName ?? `#${artist.artistId}`);
+
+const UNDECIDED_LABEL = '미정';
+
+// 날짜 미정은 맨 뒤로
+const sortTimeTables = (timeTables: TimeTable[]) =>
+  [...timeTables].sort(
+    (a, b) =>
+      Number(isUndecidedDate(a)) - Number(isUndecidedDate(b)) ||
+      a.performanceDate.localeCompare(b.performanceDate) ||
+      a.startTime.localeCompare(b.startTime) ||
+      (a.hallName ?? '').localeCompare(b.hallName ?? '')
+  );
+
+export const timeTablesToCsv = (festivals: Festival[]): string => {
+  const rows = festivals.flatMap(festival =>
+    sortTimeTables(festival.timeTables).map(tt => [
+      festival.name,
+      festival.placeName ?? '',
+      isUndecidedDate(tt) ? UNDECIDED_LABEL : tt.performanceDate,
+      tt.hallName ?? '',
+      isUndecidedTime(tt) ? UNDECIDED_LABEL : tt.startTime,
+      isUndecidedTime(tt) ? UNDECIDED_LABEL : tt.endTime,
+      getArtistNames(tt, 'MAIN').join(', '),
+      getArtistNames(tt, 'SUB').join(', '),
+    ])
+  );
+  return toCsv([TIMETABLE_CSV_COLUMNS, ...rows]);
+};
+
+// --- ICS (RFC 5545) ---
+
+// 공연 일시는 한국 시간 기준 - 캘린더 앱에서 시간대가 어긋나지 않도록 UTC로 바꿔서 씀
+const KST_OFFSET = '+09:00';
+
+const toKstDate = (date: string, time: string) => {
+  const value = parseISO(`${date}T${time.length === 5 ? `${time}:00` : time}${KST_OFFSET}`);
+  return isNaN(value.getTime()) ? null : value;
+};
+
+const formatIcsDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const getUtf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// 한 줄은 75바이트를 넘지 않게 접고, 이어지는 줄은 공백으로 시작
+const foldIcsLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of Array.from(line)) {
+    const charLength = getUtf8Length(char);
+    const limit = lines.length === 0 ? 75 : 74;
+    if (length + charLength > limit) {
+      lines.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += charLength;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+interface IcsEvent {
+  uid: string;
+  start: Date;
+  end?: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+  url?: string;
+}
+
+const toIcsEventLines = (event: IcsEvent, stamp: string) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART:${formatIcsDateTime(event.start)}`,
+  ...(event.end ? [`DTEND:${formatIcsDateTime(event.end)}`] : []),
+  `SUMMARY:${escapeIcsText(event.summary)}`,
+  ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+  ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  'END:VEVENT',
+];
+
+const getTimeTableEvents = (festival: Festival): IcsEvent[] =>
+  festival.timeTables.flatMap((tt, index) => {
+    if (isUndecidedDate(tt) || isUndecidedTime(tt)) return [];
+    const start = toKstDate(tt.performanceDate, tt.startTime);
+    let end = toKstDate(tt.performanceDate, tt.endTime);
+    if (!start) return [];
+    // 자정을 넘기는 공연은 종료 시간이 시작보다 빠름
+    if (end && end <= start) end = addDays(end, 1);
+
+    const mainArtists = getArtistNames(tt, 'MAIN');
+    const subArtists = getArtistNames(tt, 'SUB');
+    const description = [
+      mainArtists.length > 0 ? `아티스트: ${mainArtists.join(', ')}` : '',
+      subArtists.length > 0 ? `서브 아티스트: ${subArtists.join(', ')}` : '',
+    ].filter(Boolean);
+
+    return [
+      {
+        uid: `timetable-${festival.id}-${tt.id ?? `${tt.performanceDate}-${index}`}@dals2bo-admin`,
+        start,
+        end: end ?? undefined,
+        summary: mainArtists.length > 0 ? `${festival.name} - ${mainArtists.join(', ')}` : festival.name,
+        location: [festival.placeName, tt.hallName].filter(Boolean).join(' '),
+        description: description.join('\n'),
+      },
+    ];
+  });
+
+const getReservationEvents = (festival: Festival): IcsEvent[] =>
+  festival.reservationInfos.flatMap((ri, index) => {
+    const start = ri.openDateTime ? toKstDate(ri.openDateTime.slice(0, 10), ri.openDateTime.slice(11)) : null;
+    if (!start) return [];
+
+    const description = [
+      ri.closeDateTime ? `예매 마감: ${ri.closeDateTime.slice(0, 16).replace('T', ' ')}` : '',
+      ri.remark,
+    ].filter(Boolean);
+
+    return [
+      {
+        uid: `reservation-${festival.id}-${ri.id ?? index}@dals2bo-admin`,
+        start,
+        summary: `[예매 오픈] ${festival.name}${ri.type ? ` ${ri.type}` : ''}`,
+        description: description.join('\n'),
+        url: ri.ticketURL || undefined,
+      },
+    ];
+  });
+
+export const festivalsToIcs = (festivals: Festival[], now: Date = new Date()): string => {
+  const stamp = formatIcsDateTime(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//dals2bo//admin//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...festivals.flatMap(festival =>
+      [...getTimeTableEvents(festival), ...getReservationEvents(festival)].flatMap(event => toIcsEventLines(event, stamp))
+    ),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+export const exportFestivals = (festivals: Festival[], exportFormat: ExportFormat): string => {
+  if (exportFormat === 'json') return festivalsToJson(festivals);
+  if (exportFormat === 'csv') return timeTablesToCsv(festivals);
+  return festivalsToIcs(festivals);
+};
+
+// festivals-20260301-120000.json / 타임테이블 CSV는 -timetable 접미사
+export const getExportFileName = (baseName: string, exportFormat: ExportFormat, now: Date = new Date()) =>
+  `${baseName}${exportFormat === 'csv' ? '-timetable' : ''}-${format(now, 'yyyyMMdd-HHmmss')}.${exportFormat}`;
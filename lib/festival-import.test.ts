@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/csv';
+import { CSV_COLUMNS, IMPORT_CSV_TEMPLATE, IMPORT_JSON_TEMPLATE, ImportReferenceData, previewFestivalImport } from '@/lib/festival-import';
+
+const refs: ImportReferenceData = {
+  places: [{ id: 1, placeName: '올림픽공원', address: '서울 송파구', halls: [{ id: 10, name: '88잔디마당' }] }],
+  artists: [
+    { id: 100, name: '아티스트 A', description: '', aliases: [] },
+    { id: 101, name: '아티스트 B', description: '', aliases: [{ id: 1, name: 'B' }] },
+    { id: 102, name: '아티스트 C', description: '', aliases: [] },
+  ],
+  festivals: [],
+};
+
+const csv = (...rows: Array<Partial<Record<(typeof CSV_COLUMNS)[number], string>>>) =>
+  toCsv([[...CSV_COLUMNS], ...rows.map(values => CSV_COLUMNS.map(column => values[column] || ''))]);
+
+const performance = { kind: 'performance', festival: '페스티벌', place: '올림픽공원', startDate: '2025-05-30', endDate: '2025-06-01' };
+
+describe('previewFestivalImport', () => {
+  it('reads the CSV template into a festival without errors', () => {
+    const { festivals, unmatchedRows, fileErrors } = previewFestivalImport(IMPORT_CSV_TEMPLATE, 'csv', refs);
+
+    expect(fileErrors).toEqual([]);
+    expect(unmatchedRows).toEqual([]);
+    expect(festivals).toHaveLength(1);
+    expect(festivals[0].hasErrors).toBe(false);
+    expect(festivals[0].festival).toMatchObject({
+      placeId: 1,
+      urlInfos: [{ type: 'HOMEPAGE', url: 'https://example.com' }],
+      reservationInfos: [{ openDateTime: '2025-03-01T12:00:00', closeDateTime: '2025-03-31T23:59:00' }],
+      timeTables: [
+        {
+          performanceDate: '2025-05-30',
+          hallId: 10,
+          artists: [
+            { artistId: 100, type: 'MAIN' },
+            { artistId: 101, type: 'MAIN' },
+            { artistId: 102, type: 'SUB' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('reads the JSON template the same way as the CSV template', () => {
+    const fromJson = previewFestivalImport(IMPORT_JSON_TEMPLATE, 'json', refs);
+    const fromCsv = previewFestivalImport(IMPORT_CSV_TEMPLATE, 'csv', refs);
+
+    expect(fromJson.festivals.map(f => f.festival)).toEqual(fromCsv.festivals.map(f => f.festival));
+  });
+
+  it('groups rows that come before their performance row', () => {
+    const { festivals } = previewFestivalImport(
+      csv({ kind: 'url', festival: '페스티벌', type: 'homepage', url: 'https://example.com' }, performance),
+      'csv',
+      refs
+    );
+
+    expect(festivals[0].festival.urlInfos).toEqual([{ type: 'HOMEPAGE', url: 'https://example.com' }]);
+  });
+
+  it('reports an unknown kind as an error row on its festival and excludes the festival', () => {
+    const { festivals, unmatchedRows } = previewFestivalImport(
+      csv(performance, { kind: 'timetabel', festival: '페스티벌', date: '2025-05-30', start: '18:00', end: '19:00', hall: '88잔디마당' }),
+      'csv',
+      refs
+    );
+
+    expect(unmatchedRows).toEqual([]);
+    expect(festivals[0].hasErrors).toBe(true);
+    expect(festivals[0].festival.timeTables).toEqual([]);
+    expect(festivals[0].rows[1]).toMatchObject({ location: '3행', kind: 'unknown' });
+    expect(festivals[0].rows[1].errors[0]).toContain("'timetabel'");
+  });
+
+  it('keeps rows without a matching performance row as unmatched', () => {
+    const { unmatchedRows } = previewFestivalImport(
+      csv(performance, { kind: 'url', festival: '다른 페스티벌', type: 'HOMEPAGE', url: 'https://example.com' }, { kind: 'memo', festival: '' }),
+      'csv',
+      refs
+    );
+
+    expect(unmatchedRows.map(row => [row.location, row.kind])).toEqual([
+      ['3행', 'url'],
+      ['4행', 'unknown'],
+    ]);
+  });
+
+  it('reports names that cannot be found on the rows that use them', () => {
+    const { festivals } = previewFestivalImport(
+      csv(performance, { kind: 'timetable', festival: '페스티벌', date: '2025-05-30', start: '18:00', end: '19:00', hall: '없는 홀', artists: '없는 아티스트' }),
+      'csv',
+      refs
+    );
+
+    expect(festivals[0].rows[1].errors).toEqual([
+      "'올림픽공원'에 '없는 홀' 홀이 없습니다. 장소 관리에서 먼저 추가해주세요.",
+      "아티스트 '없는 아티스트'을(를) 찾을 수 없습니다. 아티스트 관리에서 먼저 추가하거나 별칭을 등록해주세요.",
+    ]);
+  });
+
+  it('rejects a duplicate festival in the file and warns about one already registered', () => {
+    const registered = { ...refs, festivals: [{ id: 1, name: '페스티벌', startDate: '2025-05-30' }] } as ImportReferenceData;
+
+    const json = JSON.stringify([performance, performance].map(({ festival: name, ...rest }) => ({ name, ...rest })));
+
+    const { festivals } = previewFestivalImport(json, 'json', registered);
+
+    expect(festivals[0].rows[0].warnings).toHaveLength(1);
+    expect(festivals[1].rows[0].errors).toEqual(['파일 안에 이름과 시작일이 같은 페스티벌이 이미 있습니다.']);
+  });
+
+  it('rejects CSV festivals that share a name because their rows cannot be told apart', () => {
+    const { festivals } = previewFestivalImport(
+      csv(performance, { ...performance, startDate: '2026-05-29', endDate: '2026-05-31' }, { kind: 'url', festival: '페스티벌', type: 'HOMEPAGE', url: 'https://example.com' }),
+      'csv',
+      refs
+    );
+
+    expect(festivals.map(f => f.hasErrors)).toEqual([true, true]);
+    expect(festivals[1].rows[0].errors[0]).toContain("이름이 '페스티벌'인 페스티벌이 2개");
+  });
+
+  it('reports file level errors', () => {
+    expect(previewFestivalImport('name\n', 'csv', refs).fileErrors).toEqual(['CSV 첫 행에 kind, festival 열이 없습니다.']);
+    expect(previewFestivalImport('{"festivals": 1}', 'json', refs).fileErrors).toHaveLength(1);
+    expect(previewFestivalImport('[]', 'json', refs).fileErrors).toEqual(['가져올 페스티벌이 없습니다.']);
+  });
+});
@@ -0,0 +1,608 @@
+import { isValid, parseISO } from 'date-fns';
+import type { Artist } from '@/lib/api';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { getPosterHostWarning } from '@/lib/poster-image';
+import { pickSingle, Resolution } from '@/lib/resolution';
+import { isHttpUrl, isTime, validate, ValidationSchema } from '@/lib/validation';
+import { Festival, PerformanceURL, ReservationInfo, TimeTable, TimeTableArtist, URLType } from '@/types/festival';
+import { festivalInfoRules, reservationInfoRules, timeTableRules, urlInfoRules } from '@/types/festival-rules';
+import { Hall, Place } from '@/types/place';
+
+// 페스티벌 일괄 가져오기 - CSV/JSON 파일을 읽어 장소/홀/아티스트를 이름(과 별칭)으로 찾고
+// 행마다 오류/경고를 붙인 미리보기를 만듦. 저장은 lib/festival-steps.ts의 단계로 실행
+//
+// CSV는 한 행이 하나의 항목이며 kind 열로 종류를 구분하고 festival 열(페스티벌 이름)로 묶음 - 한 파일 안에서 이름은 겹치면 안 됨
+// - performance: place, placeAddress, startDate, endDate, posterUrl, banGoods, transportationInfo, remark
+// - timetable: date, start, end, hall, artists, subArtists (아티스트는 | 로 구분)
+// - reservation: type, open, close, url, remark
+// - url: type (HOMEPAGE, INSTAGRAM, YOUTUBE, X, TICKET, APP, KAKAO_CHANNEL), url
+//
+// JSON은 페스티벌 배열 (IMPORT_JSON_TEMPLATE 참고)
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportRowKind = 'performance' | 'timetable' | 'reservation' | 'url' | 'unknown'; // unknown - CSV kind 값이 잘못된 행
+
+export interface ImportRow {
+  location: string; // CSV는 "3행", JSON은 "[0].timeTables[1]"
+  kind: ImportRowKind;
+  festivalName: string;
+  summary: string;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportFestival {
+  name: string;
+  festival: Omit<Festival, 'id'>;
+  rows: ImportRow[]; // performance 행이 맨 앞
+  hasErrors: boolean;
+}
+
+export interface ImportPreview {
+  festivals: ImportFestival[];
+  unmatchedRows: ImportRow[]; // 어느 페스티벌에도 속하지 않는 행
+  fileErrors: string[]; // 헤더 누락, JSON 문법 오류 등 파일 전체의 오류
+}
+
+export interface ImportReferenceData {
+  places: Place[];
+  artists: Artist[];
+  festivals: Festival[]; // 이미 등록된 페스티벌 - 중복 경고용
+}
+
+export const CSV_COLUMNS = [
+  'kind',
+  'festival',
+  'place',
+  'placeAddress',
+  'startDate',
+  'endDate',
+  'posterUrl',
+  'banGoods',
+  'transportationInfo',
+  'remark',
+  'date',
+  'start',
+  'end',
+  'hall',
+  'artists',
+  'subArtists',
+  'type',
+  'open',
+  'close',
+  'url',
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const LIST_SEPARATOR = '|';
+
+// --- 파일 읽기 ---
+
+interface RawUrl {
+  location: string;
+  type: string;
+  url: string;
+}
+
+interface RawTimeTable {
+  location: string;
+  date: string;
+  start: string;
+  end: string;
+  hall: string;
+  artists: string[];
+  subArtists: string[];
+}
+
+interface RawReservation {
+  location: string;
+  type: string;
+  open: string;
+  close: string;
+  url: string;
+  remark: string;
+}
+
+interface RawFestival {
+  location: string;
+  name: string;
+  place: string;
+  placeAddress: string;
+  startDate: string;
+  endDate: string;
+  posterUrl: string;
+  banGoods: string;
+  transportationInfo: string;
+  remark: string;
+  urls: RawUrl[];
+  timeTables: RawTimeTable[];
+  reservations: RawReservation[];
+  invalidRows: ImportRow[]; // 이 페스티벌에 속하지만 읽을 수 없는 행 - 페스티벌 전체를 오류로 제외
+  errors: string[]; // 파일을 읽으면서 찾은 performance 행의 오류
+}
+
+interface RawImport {
+  festivals: RawFestival[];
+  unmatchedRows: ImportRow[];
+  fileErrors: string[];
+}
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+const list = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value.map(text) : text(value).split(LIST_SEPARATOR).map(item => item.trim());
+  return items.filter(Boolean);
+};
+
+const unmatchedRow = (location: string, kind: ImportRowKind, festivalName: string, message: string): ImportRow => ({
+  location,
+  kind,
+  festivalName,
+  summary: '',
+  errors: [message],
+  warnings: [],
+});
+
+const readCsv = (content: string): RawImport => {
+  const [header = [], ...rows] = parseCsv(content);
+  const columns = header.map(column => column.trim());
+  const missing = (['kind', 'festival'] as CsvColumn[]).filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return { festivals: [], unmatchedRows: [], fileErrors: [`CSV 첫 행에 ${missing.join(', ')} 열이 없습니다.`] };
+  }
+
+  const festivals: RawFestival[] = [];
+  const unmatchedRows: ImportRow[] = [];
+  const festivalsByName = new Map<string, RawFestival>();
+  const childRows: Array<{ location: string; get: (column: CsvColumn) => string }> = [];
+
+  rows.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+
+    const location = `${index + 2}행`;
+    const get = (column: CsvColumn) => text(cells[columns.indexOf(column)]);
+
+    if (get('kind') !== 'performance') {
+      childRows.push({ location, get });
+      return;
+    }
+
+    const festival: RawFestival = {
+      location,
+      name: get('festival'),
+      place: get('place'),
+      placeAddress: get('placeAddress'),
+      startDate: get('startDate'),
+      endDate: get('endDate'),
+      posterUrl: get('posterUrl'),
+      banGoods: get('banGoods'),
+      transportationInfo: get('transportationInfo'),
+      remark: get('remark'),
+      urls: [],
+      timeTables: [],
+      reservations: [],
+      invalidRows: [],
+      errors: [],
+    };
+    festivals.push(festival);
+    if (!festivalsByName.has(festival.name)) festivalsByName.set(festival.name, festival);
+  });
+
+  // 다른 행은 이름으로만 묶으므로 이름이 같은 페스티벌은 어느 쪽 행인지 알 수 없음 - 모두 오류로 제외
+  festivals.forEach(festival => {
+    const count = festivals.filter(f => f.name === festival.name).length;
+    if (count > 1) {
+      festival.errors.push(`파일 안에 이름이 '${festival.name}'인 페스티벌이 ${count}개 있습니다. CSV는 festival 열로 행을 묶으므로 이름을 서로 다르게 해주세요.`);
+    }
+  });
+
+  // performance 행보다 위에 있는 행도 묶을 수 있도록 페스티벌을 모두 읽은 뒤 처리
+  childRows.forEach(({ location, get }) => {
+    const kind = get('kind');
+    const festivalName = get('festival');
+    const festival = festivalsByName.get(festivalName);
+
+    // 오타로 행이 빠진 채 가져오지 않도록 해당 페스티벌에 오류 행으로 붙임
+    if (kind !== 'timetable' && kind !== 'reservation' && kind !== 'url') {
+      const row = unmatchedRow(location, 'unknown', festivalName, `알 수 없는 kind 값입니다: '${kind}' (performance, timetable, reservation, url 중 하나)`);
+      if (festival) {
+        festival.invalidRows.push(row);
+      } else {
+        unmatchedRows.push(row);
+      }
+      return;
+    }
+    if (!festival) {
+      unmatchedRows.push(unmatchedRow(location, kind, festivalName, `'${festivalName}' 페스티벌의 performance 행이 없습니다.`));
+      return;
+    }
+
+    switch (kind) {
+      case 'timetable':
+        festival.timeTables.push({
+          location,
+          date: get('date'),
+          start: get('start'),
+          end: get('end'),
+          hall: get('hall'),
+          artists: list(get('artists')),
+          subArtists: list(get('subArtists')),
+        });
+        break;
+      case 'reservation':
+        festival.reservations.push({
+          location,
+          type: get('type'),
+          open: get('open'),
+          close: get('close'),
+          url: get('url'),
+          remark: get('remark'),
+        });
+        break;
+      case 'url':
+        festival.urls.push({ location, type: get('type'), url: get('url') });
+        break;
+    }
+  });
+
+  return { festivals, unmatchedRows, fileErrors: [] };
+};
+
+const readJson = (content: string): RawImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { festivals: [], unmatchedRows: [], fileErrors: [`JSON 형식이 올바르지 않습니다: ${(error as Error).message}`] };
+  }
+
+  // 배열 또는 { festivals: [...] }
+  const items = Array.isArray(data) ? data : (data as { festivals?: unknown } | null)?.festivals;
+  if (!Array.isArray(items)) {
+    return { festivals: [], unmatchedRows: [], fileErrors: ['JSON 최상위는 페스티벌 배열이거나 festivals 배열을 가진 객체여야 합니다.'] };
+  }
+
+  const children = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value : []);
+
+  const festivals = items.map((item: Record<string, unknown>, index): RawFestival => ({
+    location: `[${index}]`,
+    name: text(item?.name),
+    place: text(item?.place),
+    placeAddress: text(item?.placeAddress),
+    startDate: text(item?.startDate),
+    endDate: text(item?.endDate),
+    posterUrl: text(item?.posterUrl),
+    banGoods: text(item?.banGoods),
+    transportationInfo: text(item?.transportationInfo),
+    remark: text(item?.remark),
+    urls: children(item?.urls).map((url, i) => ({ location: `[${index}].urls[${i}]`, type: text(url?.type), url: text(url?.url) })),
+    timeTables: children(item?.timeTables).map((tt, i) => ({
+      location: `[${index}].timeTables[${i}]`,
+      date: text(tt?.date),
+      start: text(tt?.start),
+      end: text(tt?.end),
+      hall: text(tt?.hall),
+      artists: list(tt?.artists),
+      subArtists: list(tt?.subArtists),
+    })),
+    reservations: children(item?.reservations).map((ri, i) => ({
+      location: `[${index}].reservations[${i}]`,
+      type: text(ri?.type),
+      open: text(ri?.open),
+      close: text(ri?.close),
+      url: text(ri?.url),
+      remark: text(ri?.remark),
+    })),
+    invalidRows: [],
+    errors: [],
+  }));
+
+  return { festivals, unmatchedRows: [], fileErrors: [] };
+};
+
+export const getImportFormat = (fileName: string): ImportFormat => (fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+
+// --- 이름으로 찾기 ---
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const resolvePlaceByName = (name: string, address: string, places: Place[]): Resolution<Place> => {
+  const sameName = places.filter(p => normalizeName(p.placeName) === normalizeName(name));
+  if (sameName.length > 1 && address) {
+    const sameAddress = sameName.filter(p => normalizeName(p.address) === normalizeName(address));
+    if (sameAddress.length > 0) return pickSingle(sameAddress);
+  }
+  return pickSingle(sameName);
+};
+
+const resolveHallByName = (name: string, place: Place): Resolution<Hall> =>
+  pickSingle(place.halls.filter(h => normalizeName(h.name) === normalizeName(name)));
+
+// 대표 이름이 일치하는 아티스트를 먼저 찾고, 없으면 별칭으로 찾음
+const resolveArtistByName = (name: string, artists: Artist[]): Resolution<Artist> => {
+  const target = normalizeName(name);
+  const byName = artists.filter(a => normalizeName(a.name) === target);
+  if (byName.length > 0) return pickSingle(byName);
+  return pickSingle(artists.filter(a => a.aliases.some(alias => normalizeName(alias.name) === target)));
+};
+
+// --- 값 검사 ---
+
+// 형식과 필수 값은 공통 규칙(types/festival-rules.ts)으로 검사하고, 여기서는 파일 값을 저장 형식으로 맞추기만 함
+
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(:\d{2})?$/;
+
+// HHmm도 허용
+const normalizeTime = (value: string) => (/^\d{4}$/.test(value) ? `${value.slice(0, 2)}:${value.slice(2)}` : value);
+
+// yyyy-MM-dd HH:mm(:ss) 또는 yyyy-MM-ddTHH:mm(:ss) → yyyy-MM-ddTHH:mm:ss
+const normalizeDateTime = (value: string): string | undefined => {
+  const match = DATE_TIME_PATTERN.exec(value);
+  if (!match) return undefined;
+  const normalized = `${match[1]}T${match[2]}${match[3] || ':00'}`;
+  return isValid(parseISO(normalized)) ? normalized : undefined;
+};
+
+// 이름으로 찾는 필드(장소, 홀)는 찾지 못한 이유를 따로 안내하므로 제외
+const pushRuleErrors = <T>(row: ImportRow, schema: ValidationSchema<T>, data: T, skipFields: string[] = []) => {
+  Object.entries(validate(schema, data)).forEach(([field, message]) => {
+    if (!skipFields.includes(field)) row.errors.push(message);
+  });
+};
+
+// --- 미리보기 ---
+
+const buildTimeTable = (raw: RawTimeTable, festival: Omit<Festival, 'id'>, place: Place | undefined, artists: Artist[]) => {
+  const row: ImportRow = {
+    location: raw.location,
+    kind: 'timetable',
+    festivalName: festival.name,
+    summary: `${raw.date} ${raw.start}~${raw.end} ${raw.hall}${raw.artists.length + raw.subArtists.length > 0 ? ` · ${[...raw.artists, ...raw.subArtists].join(', ')}` : ''}`,
+    errors: [],
+    warnings: [],
+  };
+
+  const startTime = normalizeTime(raw.start);
+  const endTime = normalizeTime(raw.end);
+
+  if (isTime(startTime) && isTime(endTime) && endTime <= startTime) {
+    row.warnings.push('종료 시간이 시작 시간보다 빠릅니다. 자정을 넘기는 공연인지 확인해주세요.');
+  }
+
+  let hall: Hall | undefined;
+  if (!raw.hall) {
+    row.errors.push('홀 이름이 없습니다.');
+  } else if (place) {
+    const resolution = resolveHallByName(raw.hall, place);
+    if (resolution.status === 'resolved') {
+      hall = resolution.value;
+    } else if (resolution.status === 'ambiguous') {
+      row.errors.push(`'${place.placeName}'에 '${raw.hall}' 홀이 ${resolution.candidates.length}개 있습니다.`);
+    } else {
+      row.errors.push(`'${place.placeName}'에 '${raw.hall}' 홀이 없습니다. 장소 관리에서 먼저 추가해주세요.`);
+    }
+  } else {
+    row.errors.push('장소를 찾지 못해 홀을 확인할 수 없습니다.');
+  }
+
+  const timeTableArtists: TimeTableArtist[] = [];
+  const addArtists = (names: string[], type: string) => {
+    names.forEach(name => {
+      const resolution = resolveArtistByName(name, artists);
+      if (resolution.status === 'resolved') {
+        if (timeTableArtists.some(a => a.artistId === resolution.value.id)) {
+          row.warnings.push(`'${name}'이(가) 중복되어 한 번만 배정합니다.`);
+          return;
+        }
+        timeTableArtists.push({ artistId: resolution.value.id, artistName: resolution.value.name, type });
+      } else if (resolution.status === 'ambiguous') {
+        row.errors.push(`'${name}'에 해당하는 아티스트가 ${resolution.candidates.length}명 있습니다: ${resolution.candidates.map(a => a.name).join(', ')}`);
+      } else {
+        row.errors.push(`아티스트 '${name}'을(를) 찾을 수 없습니다. 아티스트 관리에서 먼저 추가하거나 별칭을 등록해주세요.`);
+      }
+    });
+  };
+  addArtists(raw.artists, 'MAIN');
+  addArtists(raw.subArtists, 'SUB');
+
+  const timeTable: TimeTable = {
+    performanceDate: raw.date,
+    startTime,
+    endTime,
+    hallId: hall?.id,
+    hallName: hall?.name,
+    artists: timeTableArtists,
+  };
+  pushRuleErrors(row, timeTableRules(festival), timeTable, ['hallId']);
+  return { row, timeTable };
+};
+
+const buildReservation = (raw: RawReservation, festivalName: string) => {
+  const row: ImportRow = {
+    location: raw.location,
+    kind: 'reservation',
+    festivalName,
+    summary: `${raw.type} · ${raw.open} ~ ${raw.close}`,
+    errors: [],
+    warnings: [],
+  };
+
+  const openDateTime = normalizeDateTime(raw.open);
+  const closeDateTime = normalizeDateTime(raw.close);
+
+  const reservation: ReservationInfo = {
+    openDateTime: openDateTime || raw.open,
+    closeDateTime: closeDateTime || raw.close,
+    type: raw.type,
+    ticketURL: raw.url,
+    remark: raw.remark,
+  };
+  pushRuleErrors(row, reservationInfoRules, reservation);
+  return { row, reservation };
+};
+
+const buildUrl = (raw: RawUrl, festivalName: string) => {
+  const row: ImportRow = {
+    location: raw.location,
+    kind: 'url',
+    festivalName,
+    summary: `${raw.type} · ${raw.url}`,
+    errors: [],
+    warnings: [],
+  };
+
+  const urlInfo: PerformanceURL = { type: raw.type.toUpperCase() as URLType, url: raw.url };
+  pushRuleErrors(row, urlInfoRules, urlInfo);
+  return { row, urlInfo };
+};
+
+const festivalKey = (name: string, startDate: string) => `${normalizeName(name)}|${startDate}`;
+
+const buildFestival = (raw: RawFestival, refs: ImportReferenceData, seenKeys: Set<string>): ImportFestival => {
+  const row: ImportRow = {
+    location: raw.location,
+    kind: 'performance',
+    festivalName: raw.name,
+    summary: `${raw.name} · ${raw.place} · ${raw.startDate} ~ ${raw.endDate}`,
+    errors: [...raw.errors],
+    warnings: [],
+  };
+
+  if (isHttpUrl(raw.posterUrl)) {
+    const hostWarning = getPosterHostWarning(raw.posterUrl);
+    if (hostWarning) row.warnings.push(hostWarning);
+  }
+
+  let place: Place | undefined;
+  if (!raw.place) {
+    row.errors.push('장소 이름이 없습니다.');
+  } else {
+    const resolution = resolvePlaceByName(raw.place, raw.placeAddress, refs.places);
+    if (resolution.status === 'resolved') {
+      place = resolution.value;
+    } else if (resolution.status === 'ambiguous') {
+      row.errors.push(`이름이 '${raw.place}'인 장소가 ${resolution.candidates.length}개 있습니다. placeAddress로 구분해주세요.`);
+    } else {
+      row.errors.push(`장소 '${raw.place}'을(를) 찾을 수 없습니다. 장소 관리에서 먼저 추가해주세요.`);
+    }
+  }
+
+  const key = festivalKey(raw.name, raw.startDate);
+  if (seenKeys.has(key)) {
+    row.errors.push('파일 안에 이름과 시작일이 같은 페스티벌이 이미 있습니다.');
+  } else if (refs.festivals.some(f => festivalKey(f.name, f.startDate) === key)) {
+    row.warnings.push('이름과 시작일이 같은 페스티벌이 이미 등록되어 있습니다. 가져오면 중복으로 추가됩니다.');
+  }
+  seenKeys.add(key);
+
+  const festival: Omit<Festival, 'id'> = {
+    name: raw.name,
+    placeId: place?.id,
+    placeName: place?.placeName,
+    placeAddress: place?.address,
+    startDate: raw.startDate,
+    endDate: raw.endDate,
+    posterUrl: raw.posterUrl,
+    banGoods: raw.banGoods,
+    transportationInfo: raw.transportationInfo,
+    remark: raw.remark,
+    urlInfos: [],
+    reservationInfos: [],
+    timeTables: [],
+  };
+  pushRuleErrors(row, festivalInfoRules, festival, ['placeId']);
+
+  const rows = [row, ...raw.invalidRows];
+  raw.urls.forEach(rawUrl => {
+    const { row: urlRow, urlInfo } = buildUrl(rawUrl, raw.name);
+    rows.push(urlRow);
+    festival.urlInfos.push(urlInfo);
+  });
+  raw.reservations.forEach(rawReservation => {
+    const { row: reservationRow, reservation } = buildReservation(rawReservation, raw.name);
+    rows.push(reservationRow);
+    festival.reservationInfos.push(reservation);
+  });
+  raw.timeTables.forEach(rawTimeTable => {
+    const { row: timeTableRow, timeTable } = buildTimeTable(rawTimeTable, festival, place, refs.artists);
+    rows.push(timeTableRow);
+    festival.timeTables.push(timeTable);
+  });
+
+  return { name: raw.name, festival, rows, hasErrors: rows.some(r => r.errors.length > 0) };
+};
+
+export const previewFestivalImport = (content: string, format: ImportFormat, refs: ImportReferenceData): ImportPreview => {
+  const raw = format === 'json' ? readJson(content) : readCsv(content);
+  if (raw.fileErrors.length === 0 && raw.festivals.length === 0 && raw.unmatchedRows.length === 0) {
+    raw.fileErrors.push('가져올 페스티벌이 없습니다.');
+  }
+
+  const seenKeys = new Set<string>();
+  return {
+    festivals: raw.festivals.map(festival => buildFestival(festival, refs, seenKeys)),
+    unmatchedRows: raw.unmatchedRows,
+    fileErrors: raw.fileErrors,
+  };
+};
+
+// --- 예시 파일 ---
+
+const csvRow = (values: Partial<Record<CsvColumn, string>>) => CSV_COLUMNS.map(column => values[column] || '');
+
+export const IMPORT_CSV_TEMPLATE = toCsv([
+  [...CSV_COLUMNS],
+  csvRow({
+    kind: 'performance',
+    festival: '서울 재즈 페스티벌 2025',
+    place: '올림픽공원',
+    startDate: '2025-05-30',
+    endDate: '2025-06-01',
+    posterUrl: 'https://tkfile.yes24.com/upload2/PerfBlog/poster.jpg',
+    banGoods: '캔, 병 음료',
+    transportationInfo: '5호선 올림픽공원역 3번 출구',
+  }),
+  csvRow({ kind: 'url', festival: '서울 재즈 페스티벌 2025', type: 'HOMEPAGE', url: 'https://example.com' }),
+  csvRow({
+    kind: 'reservation',
+    festival: '서울 재즈 페스티벌 2025',
+    type: '1차 예매',
+    open: '2025-03-01 12:00',
+    close: '2025-03-31 23:59',
+    url: 'https://example.com/tickets',
+  }),
+  csvRow({
+    kind: 'timetable',
+    festival: '서울 재즈 페스티벌 2025',
+    date: '2025-05-30',
+    start: '18:00',
+    end: '19:30',
+    hall: '88잔디마당',
+    artists: '아티스트 A|아티스트 B',
+    subArtists: '아티스트 C',
+  }),
+]);
+
+export const IMPORT_JSON_TEMPLATE = JSON.stringify(
+  [
+    {
+      name: '서울 재즈 페스티벌 2025',
+      place: '올림픽공원',
+      placeAddress: '',
+      startDate: '2025-05-30',
+      endDate: '2025-06-01',
+      posterUrl: 'https://tkfile.yes24.com/upload2/PerfBlog/poster.jpg',
+      banGoods: '캔, 병 음료',
+      transportationInfo: '5호선 올림픽공원역 3번 출구',
+      remark: '',
+      urls: [{ type: 'HOMEPAGE', url: 'https://example.com' }],
+      reservations: [{ type: '1차 예매', open: '2025-03-01 12:00', close: '2025-03-31 23:59', url: 'https://example.com/tickets', remark: '' }],
+      timeTables: [
+        { date: '2025-05-30', start: '18:00', end: '19:30', hall: '88잔디마당', artists: ['아티스트 A', '아티스트 B'], subArtists: ['아티스트 C'] },
+      ],
+    },
+  ],
+  null,
+  2
+);
@@ -0,0 +1,173 @@
+import { format } from 'date-fns';
+import { Festival } from '@/types/festival';
+
+// 페스티벌 목록의 검색/필터/정렬/페이지 상태
+// 팀원에게 링크로 공유할 수 있도록 URL 쿼리와 서로 변환하고, 기본값은 쿼리에 넣지 않음
+
+export type FestivalStatus = 'upcoming' | 'ongoing' | 'past';
+export type FestivalSortKey = 'name' | 'place' | 'startDate' | 'endDate';
+export type SortOrder = 'asc' | 'desc';
+
+export const FESTIVAL_STATUSES: FestivalStatus[] = ['upcoming', 'ongoing', 'past'];
+export const FESTIVAL_PAGE_SIZE = 20;
+
+export interface FestivalListQuery {
+  search: string; // 이름, 장소, 아티스트 이름
+  from: string; // yyyy-MM-dd - 기간이 겹치는 페스티벌
+  to: string; // yyyy-MM-dd
+  placeId?: number;
+  status?: FestivalStatus;
+  isMissingPoster: boolean;
+  isMissingTimeTable: boolean;
+  sort: FestivalSortKey;
+  order: SortOrder;
+  page: number; // 1부터
+}
+
+export const DEFAULT_FESTIVAL_LIST_QUERY: FestivalListQuery = {
+  search: '',
+  from: '',
+  to: '',
+  isMissingPoster: false,
+  isMissingTimeTable: false,
+  sort: 'startDate',
+  order: 'desc',
+  page: 1,
+};
+
+const SORT_KEYS: FestivalSortKey[] = ['name', 'place', 'startDate', 'endDate'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isFestivalStatus = (value: unknown): value is FestivalStatus => FESTIVAL_STATUSES.includes(value as FestivalStatus);
+const isSortKey = (value: unknown): value is FestivalSortKey => SORT_KEYS.includes(value as FestivalSortKey);
+
+const toPositiveInt = (value: string | null) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+// 잘못된 값은 무시하고 기본값 사용
+export const parseFestivalListQuery = (params: URLSearchParams): FestivalListQuery => {
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  const status = params.get('status');
+  const sort = params.get('sort');
+
+  return {
+    search: params.get('q') || '',
+    from: DATE_PATTERN.test(from) ? from : '',
+    to: DATE_PATTERN.test(to) ? to : '',
+    placeId: toPositiveInt(params.get('place')),
+    status: isFestivalStatus(status) ? status : undefined,
+    isMissingPoster: params.get('noPoster') === '1',
+    isMissingTimeTable: params.get('noTimetable') === '1',
+    sort: isSortKey(sort) ? sort : DEFAULT_FESTIVAL_LIST_QUERY.sort,
+    order: params.get('order') === 'asc' ? 'asc' : params.get('order') === 'desc' ? 'desc' : DEFAULT_FESTIVAL_LIST_QUERY.order,
+    page: toPositiveInt(params.get('page')) ?? 1,
+  };
+};
+
+export const toFestivalListSearchParams = (query: FestivalListQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search.trim()) params.set('q', query.search.trim());
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.placeId) params.set('place', String(query.placeId));
+  if (query.status) params.set('status', query.status);
+  if (query.isMissingPoster) params.set('noPoster', '1');
+  if (query.isMissingTimeTable) params.set('noTimetable', '1');
+  if (query.sort !== DEFAULT_FESTIVAL_LIST_QUERY.sort) params.set('sort', query.sort);
+  if (query.order !== DEFAULT_FESTIVAL_LIST_QUERY.order) params.set('order', query.order);
+  if (query.page > 1) params.set('page', String(query.page));
+  return params;
+};
+
+export const hasActiveFilters = (query: FestivalListQuery) =>
+  !!query.search.trim() ||
+  !!query.from ||
+  !!query.to ||
+  query.placeId !== undefined ||
+  query.status !== undefined ||
+  query.isMissingPoster ||
+  query.isMissingTimeTable;
+
+export const getToday = () => format(new Date(), 'yyyy-MM-dd');
+
+// 날짜는 yyyy-MM-dd 문자열이라 그대로 비교
+export const getFestivalStatus = (festival: Festival, today: string = getToday()): FestivalStatus => {
+  if (festival.startDate > today) return 'upcoming';
+  if (festival.endDate < today) return 'past';
+  return 'ongoing';
+};
+
+const matchesSearch = (festival: Festival, search: string) => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  const artistNames = [
+    ...(festival.artists || []).map(a => a.displayName),
+    ...festival.timeTables.flatMap(tt => tt.artists.map(a => a.artistName || '')),
+  ];
+  return [festival.name, festival.placeName || '', festival.placeAddress || '', ...artistNames].some(text =>
+    text.toLowerCase().includes(term)
+  );
+};
+
+const matchesQuery = (festival: Festival, query: FestivalListQuery, today: string) =>
+  matchesSearch(festival, query.search) &&
+  (!query.from || festival.endDate >= query.from) &&
+  (!query.to || festival.startDate <= query.to) &&
+  (query.placeId === undefined || festival.placeId === query.placeId) &&
+  (!query.status || getFestivalStatus(festival, today) === query.status) &&
+  (!query.isMissingPoster || !festival.posterUrl?.trim()) &&
+  (!query.isMissingTimeTable || festival.timeTables.length === 0);
+
+const getSortValue = (festival: Festival, key: FestivalSortKey) => {
+  switch (key) {
+    case 'name':
+      return festival.name;
+    case 'place':
+      return festival.placeName || '';
+    case 'startDate':
+      return festival.startDate;
+    case 'endDate':
+      return festival.endDate;
+  }
+};
+
+const compareFestivals = (a: Festival, b: Festival, query: FestivalListQuery) => {
+  const result = getSortValue(a, query.sort).localeCompare(getSortValue(b, query.sort), 'ko');
+  // 같은 값이면 id 순서로 고정해서 페이지를 넘겨도 순서가 바뀌지 않게 함
+  const ordered = result !== 0 ? result : a.id - b.id;
+  return query.order === 'asc' ? ordered : -ordered;
+};
+
+export interface FestivalListResult {
+  items: Festival[]; // 현재 페이지
+  filtered: Festival[]; // 필터와 정렬을 적용한 전체 목록 (내보내기용)
+  totalCount: number; // 필터를 통과한 전체 수
+  page: number; // 범위를 벗어난 페이지는 마지막 페이지로 맞춤
+  pageCount: number;
+}
+
+export const applyFestivalListQuery = (
+  festivals: Festival[],
+  query: FestivalListQuery,
+  today: string = getToday()
+): FestivalListResult => {
+  const filtered = festivals
+    .filter(festival => matchesQuery(festival, query, today))
+    .sort((a, b) => compareFestivals(a, b, query));
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / FESTIVAL_PAGE_SIZE));
+  const page = Math.min(query.page, pageCount);
+  const start = (page - 1) * FESTIVAL_PAGE_SIZE;
+
+  return {
+    items: filtered.slice(start, start + FESTIVAL_PAGE_SIZE),
+    filtered,
+    totalCount: filtered.length,
+    page,
+    pageCount,
+  };
+};
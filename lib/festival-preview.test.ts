@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildFestivalPreview } from '@/lib/festival-preview';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { Festival } from '@/types/festival';
+
+describe('buildFestivalPreview', () => {
+  it('shows undecided dates and times as undecided instead of real days and slots', () => {
+    const festival = {
+      startDate: '2025-05-01',
+      endDate: '2025-05-01',
+      banGoods: '',
+      transportationInfo: '',
+      reservationInfos: [],
+      timeTables: [
+        { performanceDate: UNDECIDED_DATE, startTime: '00:00', endTime: '00:00', hallName: 'A', artists: [] },
+        { performanceDate: '2025-05-01', startTime: '00:00', endTime: '00:00', hallName: 'A', artists: [] },
+        { performanceDate: '2025-05-01', startTime: '18:00', endTime: '19:00', hallName: 'A', artists: [] },
+      ],
+    } as unknown as Omit<Festival, 'id'>;
+
+    const { days } = buildFestivalPreview(festival);
+
+    expect(days.map(day => [day.label, day.halls[0].slots.map(slot => slot.time)])).toEqual([
+      ['5.1 (목)', ['18:00~19:00', '시간 미정']],
+      ['날짜 미정', ['시간 미정']],
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { isUndecidedDate, isUndecidedTime } from '@/lib/timetable-grid';
+import { ArtistSummary, Festival } from '@/types/festival';
+
+// 앱 미리보기 - 폼에 입력 중인 페스티벌을 소비자 앱 화면 구성대로 정리
+//
+// - 날짜는 앱과 같이 M.d (요일), 타임테이블은 날짜 → 홀 → 시작 시간 순
+// - 날짜 미정(UNDECIDED_DATE)은 맨 뒤의 '날짜 미정'으로 묶고, 시간 미정(00:00~00:00)은 그날의 맨 뒤에 '시간 미정'으로 표시
+// - 라인업은 페스티벌 아티스트 목록에 타임테이블에 배정된 아티스트를 더해 중복 없이
+// - 금지물품/교통정보는 줄마다 한 항목 (앞의 -, •, * 기호는 제거)
+
+export interface PreviewSlot {
+  time: string; // 18:00~19:00 또는 시간 미정
+  artists: string[];
+}
+
+export interface PreviewHall {
+  name: string;
+  slots: PreviewSlot[];
+}
+
+export interface PreviewDay {
+  date: string;
+  label: string; // 5.1 (목) 또는 날짜 미정
+  halls: PreviewHall[];
+}
+
+export interface PreviewReservation {
+  type: string;
+  open: string;
+  close: string;
+  ticketURL: string;
+  remark: string;
+}
+
+export interface FestivalPreview {
+  period: string;
+  lineup: string[];
+  days: PreviewDay[];
+  reservations: PreviewReservation[];
+  banGoods: string[];
+  transportation: string[];
+}
+
+export interface FestivalPreviewOptions {
+  artists?: ArtistSummary[]; // 서버 응답의 라인업 (새 페스티벌은 없음)
+  hallNames?: Record<number, string>; // 폼에서 새로 추가한 타임테이블은 홀 id만 있음
+}
+
+const formatDay = (date: string) => {
+  if (isUndecidedDate({ performanceDate: date })) return '날짜 미정';
+  const parsed = parseISO(date);
+  return isValid(parsed) ? format(parsed, 'M.d (EEE)', { locale: ko }) : date;
+};
+
+const formatDateTime = (dateTime: string) => {
+  const parsed = parseISO(dateTime.replace('Z', ''));
+  return isValid(parsed) ? format(parsed, 'M.d (EEE) HH:mm', { locale: ko }) : dateTime;
+};
+
+const formatPeriod = (startDate: string, endDate: string) => {
+  if (!startDate) return '';
+  const start = parseISO(startDate);
+  if (!isValid(start)) return startDate;
+  const startLabel = format(start, 'yyyy.M.d (EEE)', { locale: ko });
+  if (!endDate || endDate === startDate) return startLabel;
+  const end = parseISO(endDate);
+  if (!isValid(end)) return startLabel;
+  const endPattern = end.getFullYear() === start.getFullYear() ? 'M.d (EEE)' : 'yyyy.M.d (EEE)';
+  return `${startLabel} ~ ${format(end, endPattern, { locale: ko })}`;
+};
+
+const toPreviewLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+
+export const buildFestivalPreview = (festival: Omit<Festival, 'id'>, options: FestivalPreviewOptions = {}): FestivalPreview => {
+  const { artists = [], hallNames = {} } = options;
+
+  const lineup = Array.from(
+    new Set([
+      ...artists.map(artist => artist.displayName),
+      ...festival.timeTables.flatMap(tt => tt.artists.map(artist => artist.artistName || '')),
+    ])
+  ).filter(Boolean);
+
+  const dayMap = new Map<string, Map<string, PreviewSlot[]>>();
+  [...festival.timeTables]
+    .sort(
+      (a, b) =>
+        Number(isUndecidedDate(a)) - Number(isUndecidedDate(b)) ||
+        a.performanceDate.localeCompare(b.performanceDate) ||
+        Number(isUndecidedTime(a)) - Number(isUndecidedTime(b)) ||
+        a.startTime.localeCompare(b.startTime)
+    )
+    .forEach(tt => {
+      const hallName = tt.hallName || (tt.hallId ? hallNames[tt.hallId] || `홀 #${tt.hallId}` : '홀 미정');
+      const halls = dayMap.get(tt.performanceDate) ?? new Map<string, PreviewSlot[]>();
+      dayMap.set(tt.performanceDate, halls);
+      const slots = halls.get(hallName) ?? [];
+      halls.set(hallName, slots);
+      slots.push({
+        time: isUndecidedTime(tt) ? '시간 미정' : `${tt.startTime}~${tt.endTime}`,
+        artists: tt.artists.map(artist => artist.artistName || `#${artist.artistId}`),
+      });
+    });
+
+  const days: PreviewDay[] = Array.from(dayMap, ([date, halls]) => ({
+    date,
+    label: formatDay(date),
+    halls: Array.from(halls, ([name, slots]) => ({ name, slots })),
+  }));
+
+  const reservations = [...festival.reservationInfos]
+    .sort((a, b) => a.openDateTime.localeCompare(b.openDateTime))
+    .map(ri => ({
+      type: ri.type,
+      open: formatDateTime(ri.openDateTime),
+      close: ri.closeDateTime ? formatDateTime(ri.closeDateTime) : '',
+      ticketURL: ri.ticketURL,
+      remark: ri.remark,
+    }));
+
+  return {
+    period: formatPeriod(festival.startDate, festival.endDate),
+    lineup,
+    days,
+    reservations,
+    banGoods: toPreviewLines(festival.banGoods),
+    transportation: toPreviewLines(festival.transportationInfo),
+  };
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { updateFestival, updateUrlInfos } from '@/lib/api';
+import { buildFestivalUpdateSteps } from '@/lib/festival-steps';
+import { createUnitOfWork } from '@/lib/unit-of-work';
+import { Festival, URLType } from '@/types/festival';
+
+vi.mock('@/lib/api', () => ({
+  updateFestival: vi.fn(),
+  updateUrlInfos: vi.fn(),
+}));
+
+const original = {
+  id: 1,
+  name: '페스티벌',
+  placeId: 1,
+  startDate: '2025-05-30',
+  endDate: '2025-06-01',
+  posterUrl: 'https://example.com/poster.jpg',
+  banGoods: '',
+  transportationInfo: '',
+  remark: '',
+  urlInfos: [{ type: URLType.HOMEPAGE, url: 'https://example.com' }],
+  reservationInfos: [],
+  timeTables: [],
+} as Festival;
+
+const edited = {
+  ...original,
+  name: '페스티벌 2025',
+  urlInfos: [...original.urlInfos, { type: URLType.YOUTUBE, url: 'https://www.youtube.com/@festival' }],
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.stubEnv('NEXT_PUBLIC_ENABLE_URL_EDITING', 'true');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('buildFestivalUpdateSteps', () => {
+  it('stops before the festival update when saving the URLs fails', async () => {
+    vi.mocked(updateUrlInfos).mockRejectedValue(new Error('URL 저장 실패'));
+
+    const result = await createUnitOfWork(buildFestivalUpdateSteps(original, edited)).run();
+
+    expect(result.status).toBe('failed');
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([
+      ['urls', 'failed'],
+      ['festival', 'pending'],
+    ]);
+    expect(updateFestival).not.toHaveBeenCalled();
+  });
+
+  it('restores the original URLs on rollback when the festival update fails', async () => {
+    vi.mocked(updateFestival).mockRejectedValue(new Error('수정 실패'));
+    const unit = createUnitOfWork(buildFestivalUpdateSteps(original, edited));
+
+    await unit.run();
+    const result = await unit.rollback();
+
+    expect(result.status).toBe('rolledBack');
+    expect(vi.mocked(updateUrlInfos).mock.calls).toEqual([
+      [1, edited.urlInfos],
+      [1, original.urlInfos],
+    ]);
+  });
+
+  it('does not touch the URLs while editing them is turned off', () => {
+    vi.stubEnv('NEXT_PUBLIC_ENABLE_URL_EDITING', 'false');
+
+    expect(buildFestivalUpdateSteps(original, edited).map(step => step.id)).toEqual(['festival']);
+  });
+});
@@ -0,0 +1,127 @@
+import { addTimeTable, addTimeTableArtist, createFestival, deleteFestival, updateFestival, updateReservationInfos, updateUrlInfos } from '@/lib/api';
+import { WorkStep } from '@/lib/unit-of-work';
+import { isUrlEditingEnabled } from '@/lib/url-types';
+import { Festival, PerformanceUpdateRequest } from '@/types/festival';
+
+const NO_OFFLINE_QUEUE = { queueOffline: false };
+
+// 타임테이블/예매정보까지 갖춘 페스티벌을 새로 만드는 작업 단위(lib/unit-of-work.ts)의 단계
+// 복제(lib/festival-clone.ts)와 일괄 가져오기(lib/festival-import.ts)에서 사용
+//
+// - createFestival은 새 페스티벌의 타임테이블/예매정보를 보내지 않으므로 생성 후 예매정보 → 타임테이블(과 아티스트) 순서로 추가
+// - 페스티벌을 삭제하면 딸린 항목도 함께 삭제되므로 되돌리기는 생성 단계에서만 처리
+// - 여러 페스티벌을 한 작업 단위로 만들 때는 idPrefix로 단계 id를 구분
+// - 다시 시도/되돌리기는 작업 단위가 맡으므로 오프라인 대기열에 저장하지 않음 (queueOffline: false)
+export const buildFestivalCreateSteps = (festival: Omit<Festival, 'id'>, idPrefix = ''): WorkStep[] => {
+  let festivalId: number | undefined;
+  const timeTableIds = new Map<number, number>(); // 타임테이블 위치 → 생성된 id
+
+  const getFestivalId = () => {
+    if (festivalId === undefined) throw new Error('페스티벌이 아직 생성되지 않았습니다.');
+    return festivalId;
+  };
+
+  const removedWithFestival = async () => {};
+
+  const steps: WorkStep[] = [
+    {
+      id: `${idPrefix}festival`,
+      label: `페스티벌 생성: ${festival.name}`,
+      run: async () => {
+        const created = await createFestival(festival);
+        if (!created) throw new Error('생성된 페스티벌 정보를 받지 못했습니다. 목록에서 확인 후 타임테이블을 직접 추가해주세요.');
+        festivalId = created.id;
+      },
+      undo: async () => {
+        await deleteFestival(getFestivalId());
+        festivalId = undefined;
+        timeTableIds.clear();
+      },
+    },
+  ];
+
+  if (festival.reservationInfos.length > 0) {
+    steps.push({
+      id: `${idPrefix}reservations`,
+      label: `예매정보 ${festival.reservationInfos.length}건 추가`,
+      run: () => updateReservationInfos(getFestivalId(), festival.reservationInfos, NO_OFFLINE_QUEUE),
+      undo: removedWithFestival,
+    });
+  }
+
+  festival.timeTables.forEach((tt, index) => {
+    const timeTableLabel = `${tt.performanceDate} ${tt.startTime}~${tt.endTime}${tt.hallName ? ` ${tt.hallName}` : ''}`;
+
+    steps.push({
+      id: `${idPrefix}timetable-${index}`,
+      label: `타임테이블 추가: ${timeTableLabel}`,
+      run: async () => {
+        const created = await addTimeTable(
+          getFestivalId(),
+          { performanceDate: tt.performanceDate, startTime: tt.startTime, endTime: tt.endTime, hallId: tt.hallId || 0 },
+          NO_OFFLINE_QUEUE
+        );
+        timeTableIds.set(index, created.id);
+      },
+      undo: removedWithFestival,
+    });
+
+    // 아티스트마다 단계를 나눠서 다시 시도할 때 이미 배정된 아티스트가 중복되지 않게 함
+    tt.artists.forEach((artist, artistIndex) => {
+      steps.push({
+        id: `${idPrefix}timetable-${index}-artist-${artistIndex}`,
+        label: `아티스트 배정: ${artist.artistName || `#${artist.artistId}`} (${timeTableLabel})`,
+        run: () => {
+          const timetableId = timeTableIds.get(index);
+          if (timetableId === undefined) throw new Error('타임테이블이 아직 생성되지 않았습니다.');
+          return addTimeTableArtist(timetableId, { artistId: artist.artistId, participationType: artist.type }, NO_OFFLINE_QUEUE);
+        },
+        undo: removedWithFestival,
+      });
+    });
+  });
+
+  return steps;
+};
+
+// 장소 연결이 끊긴 페스티벌은 placeId가 없음 - 서버가 검증 오류로 거부하고 단계가 실패로 표시됨
+const toPerformanceUpdate = (festival: Omit<Festival, 'id'>): Omit<PerformanceUpdateRequest, 'id'> => ({
+  name: festival.name,
+  placeId: festival.placeId ?? 0,
+  startDate: festival.startDate,
+  endDate: festival.endDate,
+  posterUrl: festival.posterUrl,
+  banGoods: festival.banGoods,
+  transportationInfo: festival.transportationInfo,
+  remark: festival.remark,
+});
+
+const isSameUrlInfos = (a: Festival['urlInfos'], b: Festival['urlInfos']) =>
+  JSON.stringify(a.map(({ type, url }) => [type, url])) === JSON.stringify(b.map(({ type, url }) => [type, url]));
+
+// 페스티벌 수정 - 기본 정보와 URL은 서로 다른 API라서 한 작업 단위로 묶어 한쪽만 반영된 상태를 되돌릴 수 있게 함
+//
+// - URL 목록 교체(PUT .../url)를 먼저 실행 - 실패하면 기본 정보는 아직 바뀌지 않은 상태로 멈춤
+// - 등록 후 URL 수정을 끈 빌드(isUrlEditingEnabled)에서는 폼이 URL을 바꾸지 않으므로 URL 단계를 만들지 않음
+// - 되돌리기는 수정 전 값(original)으로 다시 저장
+export const buildFestivalUpdateSteps = (original: Festival, edited: Omit<Festival, 'id'>): WorkStep[] => {
+  const steps: WorkStep[] = [];
+
+  if (isUrlEditingEnabled() && !isSameUrlInfos(original.urlInfos, edited.urlInfos)) {
+    steps.push({
+      id: 'urls',
+      label: `URL ${edited.urlInfos.length}건 저장`,
+      run: () => updateUrlInfos(original.id, edited.urlInfos),
+      undo: () => updateUrlInfos(original.id, original.urlInfos),
+    });
+  }
+
+  steps.push({
+    id: 'festival',
+    label: `기본 정보 수정: ${edited.name}`,
+    run: () => updateFestival(original.id, toPerformanceUpdate(edited)),
+    undo: () => updateFestival(original.id, toPerformanceUpdate(original)),
+  });
+
+  return steps;
+};
@@ -0,0 +1,259 @@
+// 자동 생성 파일 - 직접 수정하지 마세요.
+// 원본: openapi/dals2bo-admin.json (DalS2bo Admin API 1.0.0)
+// 다시 생성: npm run generate:api
+
+import type {
+  AlarmTestResponse,
+  AppleMusicArtistResponse,
+  ArtistAliasAddRequest,
+  ArtistAliasResponse,
+  ArtistAliasUpdateRequest,
+  ArtistCreateRequest,
+  ArtistResponse,
+  ArtistUpdateRequest,
+  EditReservationInfoRequest,
+  FestivalCreateRequest,
+  FestivalResponse,
+  HallRequest,
+  HallResponse,
+  PerformanceUpdateRequest,
+  PlaceRequest,
+  PlaceResponse,
+  ReservationInfoResponse,
+  TimeTableAddRequest,
+  TimeTableArtistAddRequest,
+  TimeTableResponse,
+} from './models';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// 보낼 요청의 설명 - 실제 전송(인증 헤더, 목업 서버, 로그)은 lib/api.ts의 apiCall이 담당
+export interface ApiRequest<TResponse> {
+  operationId: string;
+  method: HttpMethod;
+  path: string; // 쿼리 문자열 포함
+  body?: unknown;
+  readonly __response?: TResponse; // 응답 타입 추론용 (값은 항상 없음)
+}
+
+const withQuery = (path: string, query: object = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) params.append(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+// 아티스트 목록 조회
+export const getArtists = (): ApiRequest<ArtistResponse[]> => ({
+  operationId: 'getArtists',
+  method: 'GET',
+  path: '/api/admin/artist',
+});
+
+// 아티스트 추가
+export const createArtist = (body: ArtistCreateRequest): ApiRequest<ArtistResponse> => ({
+  operationId: 'createArtist',
+  method: 'POST',
+  path: '/api/admin/artist',
+  body,
+});
+
+// 아티스트 조회
+export const getArtist = (artistId: number): ApiRequest<ArtistResponse> => ({
+  operationId: 'getArtist',
+  method: 'GET',
+  path: `/api/admin/artist/${artistId}`,
+});
+
+// 아티스트 수정 - 보낸 필드만 변경
+export const updateArtist = (artistId: number, body: ArtistUpdateRequest): ApiRequest<ArtistResponse> => ({
+  operationId: 'updateArtist',
+  method: 'PUT',
+  path: `/api/admin/artist/${artistId}`,
+  body,
+});
+
+// 아티스트 삭제 - 타임테이블에 배정된 아티스트는 삭제할 수 없음
+export const deleteArtist = (artistId: number): ApiRequest<void> => ({
+  operationId: 'deleteArtist',
+  method: 'DELETE',
+  path: `/api/admin/artist/${artistId}`,
+});
+
+// 아티스트 별칭 추가
+export const addArtistAliases = (body: ArtistAliasAddRequest): ApiRequest<ArtistAliasResponse[]> => ({
+  operationId: 'addArtistAliases',
+  method: 'POST',
+  path: '/api/admin/artist/aliases',
+  body,
+});
+
+// 아티스트 별칭 수정
+export const updateArtistAlias = (aliasId: number, body: ArtistAliasUpdateRequest): ApiRequest<ArtistAliasResponse> => ({
+  operationId: 'updateArtistAlias',
+  method: 'PUT',
+  path: `/api/admin/artist/aliases/${aliasId}`,
+  body,
+});
+
+// 아티스트 별칭 삭제
+export const deleteArtistAlias = (aliasId: number): ApiRequest<void> => ({
+  operationId: 'deleteArtistAlias',
+  method: 'DELETE',
+  path: `/api/admin/artist/aliases/${aliasId}`,
+});
+
+export interface SearchAppleMusicArtistsQuery {
+  term: string;
+  types?: string; // 기본값: artists
+}
+
+// Apple Music 아티스트 검색
+export const searchAppleMusicArtists = (query: SearchAppleMusicArtistsQuery): ApiRequest<AppleMusicArtistResponse[]> => ({
+  operationId: 'searchAppleMusicArtists',
+  method: 'GET',
+  path: withQuery('/api/admin/applemusic/search', query),
+});
+
+// 공연 목록 조회
+export const getPerformances = (): ApiRequest<FestivalResponse[]> => ({
+  operationId: 'getPerformances',
+  method: 'GET',
+  path: '/api/admin/performance',
+});
+
+// 공연 추가 - 타임테이블/예매 정보/URL을 함께 등록
+export const createPerformance = (body: FestivalCreateRequest): ApiRequest<FestivalResponse> => ({
+  operationId: 'createPerformance',
+  method: 'POST',
+  path: '/api/admin/performance',
+  body,
+});
+
+// 공연 조회
+export const getPerformance = (performanceId: number): ApiRequest<FestivalResponse> => ({
+  operationId: 'getPerformance',
+  method: 'GET',
+  path: `/api/admin/performance/${performanceId}`,
+});
+
+// 공연 기본 정보 수정 - 타임테이블이 있으면 장소를 바꿀 수 없음
+export const updatePerformance = (performanceId: number, body: PerformanceUpdateRequest): ApiRequest<FestivalResponse> => ({
+  operationId: 'updatePerformance',
+  method: 'PUT',
+  path: `/api/admin/performance/${performanceId}`,
+  body,
+});
+
+// 공연 삭제
+export const deletePerformance = (performanceId: number): ApiRequest<void> => ({
+  operationId: 'deletePerformance',
+  method: 'DELETE',
+  path: `/api/admin/performance/${performanceId}`,
+});
+
+// 타임테이블 추가
+export const addTimeTable = (performanceId: number, body: TimeTableAddRequest): ApiRequest<TimeTableResponse> => ({
+  operationId: 'addTimeTable',
+  method: 'POST',
+  path: `/api/admin/performance/${performanceId}/timetable`,
+  body,
+});
+
+// 타임테이블 삭제
+export const deleteTimeTable = (performanceId: number, timetableId: number): ApiRequest<void> => ({
+  operationId: 'deleteTimeTable',
+  method: 'DELETE',
+  path: `/api/admin/performance/${performanceId}/timetable/${timetableId}`,
+});
+
+// 예매 정보 목록 교체 - id가 있으면 기존 항목 수정, null이면 새 항목, 목록에 없는 항목은 삭제
+export const updateReservationInfos = (performanceId: number, body: EditReservationInfoRequest[]): ApiRequest<ReservationInfoResponse[]> => ({
+  operationId: 'updateReservationInfos',
+  method: 'PUT',
+  path: `/api/admin/performance/${performanceId}/reservation`,
+  body,
+});
+
+// 타임테이블에 아티스트 배정
+export const addTimeTableArtist = (timetableId: number, body: TimeTableArtistAddRequest): ApiRequest<TimeTableResponse> => ({
+  operationId: 'addTimeTableArtist',
+  method: 'PUT',
+  path: `/api/admin/timetable/${timetableId}/artist`,
+  body,
+});
+
+// 타임테이블에서 아티스트 제외
+export const deleteTimeTableArtist = (timetableId: number, artistId: number): ApiRequest<void> => ({
+  operationId: 'deleteTimeTableArtist',
+  method: 'DELETE',
+  path: `/api/admin/timetable/${timetableId}/artist/${artistId}`,
+});
+
+// 장소 목록 조회
+export const getPlaces = (): ApiRequest<PlaceResponse[]> => ({
+  operationId: 'getPlaces',
+  method: 'GET',
+  path: '/api/admin/place',
+});
+
+// 장소 추가 - 홀을 함께 등록
+export const createPlace = (body: PlaceRequest): ApiRequest<PlaceResponse> => ({
+  operationId: 'createPlace',
+  method: 'POST',
+  path: '/api/admin/place',
+  body,
+});
+
+// 장소 조회 (홀 포함)
+export const getPlace = (placeId: number): ApiRequest<PlaceResponse> => ({
+  operationId: 'getPlace',
+  method: 'GET',
+  path: `/api/admin/place/${placeId}`,
+});
+
+// 장소 정보 수정 - placeHalls는 무시됨 (홀은 홀 API로 변경)
+export const updatePlace = (placeId: number, body: PlaceRequest): ApiRequest<PlaceResponse> => ({
+  operationId: 'updatePlace',
+  method: 'PUT',
+  path: `/api/admin/place/${placeId}`,
+  body,
+});
+
+// 장소 삭제 - 공연이 등록된 장소는 삭제할 수 없음
+export const deletePlace = (placeId: number): ApiRequest<void> => ({
+  operationId: 'deletePlace',
+  method: 'DELETE',
+  path: `/api/admin/place/${placeId}`,
+});
+
+// 홀 추가
+export const addHall = (placeId: number, body: HallRequest): ApiRequest<HallResponse> => ({
+  operationId: 'addHall',
+  method: 'POST',
+  path: `/api/admin/place/${placeId}/hall`,
+  body,
+});
+
+// 홀 이름 수정
+export const updateHall = (hallId: number, body: HallRequest): ApiRequest<HallResponse> => ({
+  operationId: 'updateHall',
+  method: 'PUT',
+  path: `/api/admin/place/hall/${hallId}`,
+  body,
+});
+
+export interface SendAlarmTestQuery {
+  type: 'updateReservation' | 'reservation' | 'timetable' | 'guide';
+  date: string;
+  dayLeft?: number;
+}
+
+// 알람 테스트 발송
+export const sendAlarmTest = (query: SendAlarmTestQuery): ApiRequest<AlarmTestResponse> => ({
+  operationId: 'sendAlarmTest',
+  method: 'GET',
+  path: withQuery('/v1/alarm/test', query),
+});
@@ -0,0 +1,226 @@
+// 자동 생성 파일 - 직접 수정하지 마세요.
+// 원본: openapi/dals2bo-admin.json (DalS2bo Admin API 1.0.0)
+// 다시 생성: npm run generate:api
+
+export interface ErrorResponse {
+  code: string;
+  message: string;
+  fieldErrors?: FieldErrorResponse[];
+}
+
+export interface FieldErrorResponse {
+  field: string;
+  message: string;
+  rejectedValue?: unknown;
+}
+
+export interface ArtistAliasResponse {
+  id: number;
+  name: string;
+}
+
+export interface ArtistResponse {
+  id: number;
+  name: string;
+  description: string;
+  imageUrl?: string | null;
+  aliases: ArtistAliasResponse[];
+}
+
+export interface ArtistCreateRequest {
+  name: string;
+  description: string;
+  imageUrl: string | null;
+  aliasList: string[];
+}
+
+export interface ArtistUpdateRequest {
+  name?: string;
+  description?: string;
+  imageUrl?: string | null;
+}
+
+export interface ArtistAliasAddRequest {
+  artistId: number;
+  aliases: string[];
+}
+
+export interface ArtistAliasUpdateRequest {
+  name: string;
+}
+
+export interface AppleMusicArtistResponse {
+  artworkUrl: string | null;
+  genreNames: string[];
+  name: string;
+}
+
+export enum URLType {
+  INSTAGRAM = 'INSTAGRAM',
+  HOMEPAGE = 'HOMEPAGE',
+  YOUTUBE = 'YOUTUBE',
+  X = 'X',
+  TICKET = 'TICKET',
+  APP = 'APP',
+  KAKAO_CHANNEL = 'KAKAO_CHANNEL',
+}
+
+export interface PerformanceURL {
+  url: string;
+  type: URLType;
+}
+
+export interface PerformanceResponse {
+  id: number;
+  name: string;
+  placeId?: number; // 구버전 서버는 보내지 않음 - 없으면 장소 이름으로 연결
+  placeName: string;
+  placeAddress: string;
+  startDate: string;
+  endDate: string;
+  posterUrl: string;
+  banGoods: string;
+  transportationInfo: string;
+  remark: string;
+}
+
+export interface TimeTableArtistResponse {
+  timetableArtistId: number;
+  artistId: number;
+  artistName: string;
+  type: string;
+}
+
+export interface TimeTableResponse {
+  id: number;
+  performanceDate: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  hallId?: number; // 구버전 서버는 보내지 않음 - 없으면 홀 이름으로 연결
+  performanceHall: string;
+  artists: TimeTableArtistResponse[];
+}
+
+export interface ReservationInfoResponse {
+  id: number;
+  openDateTime: string;
+  closeDateTime: string;
+  ticketURL: string;
+  type: string;
+  remark: string;
+}
+
+export interface ArtistSummaryResponse {
+  id: number;
+  displayName: string;
+}
+
+export interface FestivalResponse {
+  performance: PerformanceResponse;
+  timeTables: TimeTableResponse[];
+  reservationInfos: ReservationInfoResponse[];
+  artists: ArtistSummaryResponse[];
+  urlInfos: PerformanceURL[];
+}
+
+export interface PerformanceRequest {
+  name: string;
+  placeId: number;
+  startDate: string;
+  endDate: string;
+  posterUrl: string;
+  banGoods: string;
+  transportationInfo: string;
+  remark: string;
+}
+
+export interface PerformanceUpdateRequest {
+  id: number;
+  name: string;
+  placeId: number;
+  startDate: string;
+  endDate: string;
+  posterUrl?: string; // 보내지 않으면 기존 값 유지
+  banGoods?: string; // 보내지 않으면 기존 값 유지
+  transportationInfo?: string; // 보내지 않으면 기존 값 유지
+  remark?: string; // 보내지 않으면 기존 값 유지
+}
+
+export interface TimeTableArtistRequest {
+  artistId: number;
+  type: string;
+}
+
+export interface TimeTableRequest {
+  performanceDate: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  hallId: number;
+  artists: TimeTableArtistRequest[];
+}
+
+export interface ReservationInfoRequest {
+  openDateTime: string; // yyyy-MM-ddTHH:mm:ss
+  closeDateTime: string; // yyyy-MM-ddTHH:mm:ss
+  type: string;
+  ticketURL: string;
+  remark: string;
+}
+
+export interface EditReservationInfoRequest {
+  id: number | null; // null이면 새 항목
+  openDateTime: string; // yyyy-MM-ddTHH:mm:ss
+  closeDateTime: string; // yyyy-MM-ddTHH:mm:ss
+  type: string;
+  ticketURL: string;
+  remark: string | null;
+}
+
+export interface FestivalCreateRequest {
+  performance: PerformanceRequest;
+  timeTables: TimeTableRequest[];
+  reservationInfos: ReservationInfoRequest[];
+  urlInfos: PerformanceURL[];
+}
+
+export interface TimeTableAddRequest {
+  performanceDate: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  hallId: number;
+}
+
+export interface TimeTableArtistAddRequest {
+  artistId: number;
+  participationType: string;
+}
+
+export interface HallResponse {
+  id: number;
+  name: string;
+}
+
+export interface PlaceResponse {
+  id: number;
+  placeName: string;
+  address: string;
+  halls: HallResponse[];
+}
+
+export interface PlaceRequest {
+  placeName: string;
+  address: string;
+  placeHalls: string[]; // 홀 이름 목록 (추가 시에만 사용)
+}
+
+export interface HallRequest {
+  name: string;
+}
+
+export interface AlarmTestResponse {
+  type: string;
+  date: string;
+  dayLeft: number | null;
+  sentCount: number;
+  message: string;
+}
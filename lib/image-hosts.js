@@ -0,0 +1,13 @@
+// 포스터 이미지를 불러올 수 있는 호스트 (https만 허용)
+// next.config.js의 images.remotePatterns와 포스터 입력 폼(lib/poster-image.ts)이 함께 사용 - 호스트는 여기에서만 추가
+// next.config.js에서 require 하므로 CommonJS로 작성
+
+/** @type {string[]} */
+const POSTER_IMAGE_HOSTS = [
+  'cdnticket.melon.co.kr',
+  'cdnimg.melon.co.kr',
+  'ticketimage.interpark.com',
+  'tkfile.yes24.com',
+];
+
+module.exports = { POSTER_IMAGE_HOSTS };
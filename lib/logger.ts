@@ -0,0 +1,133 @@
+import { useSyncExternalStore } from 'react';
+
+// 클라이언트 로거 - 범위(scope)별로 나눠서 필요한 로그만 콘솔에 출력
+//
+// - warn/error는 항상 출력, debug/info는 디버그 모드에서 선택한 범위만 출력
+// - 디버그 모드는 사이드바의 디버그 패널이나 ?debug 쿼리로 켤 수 있음
+//   (?debug=1 전체 범위, ?debug=api,timetable 일부 범위, ?debug=0 끄기)
+// - 설정은 localStorage에 저장되어 새로고침 후에도 유지됨
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogScope = 'api' | 'festivals' | 'timetable' | 'artists' | 'places';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_SCOPES: LogScope[] = ['api', 'festivals', 'timetable', 'artists', 'places'];
+
+export interface LogSettings {
+  isDebugEnabled: boolean;
+  level: LogLevel; // 디버그 모드에서 출력할 최소 레벨
+  scopes: LogScope[];
+}
+
+const LOG_SETTINGS_STORAGE_KEY = 'dals2bo-log-settings';
+const DEBUG_QUERY_PARAM = 'debug';
+
+const DEFAULT_SETTINGS: LogSettings = { isDebugEnabled: false, level: 'debug', scopes: LOG_SCOPES };
+
+let settings: LogSettings = DEFAULT_SETTINGS;
+let isHydrated = false;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const isLogLevel = (value: unknown): value is LogLevel => LOG_LEVELS.includes(value as LogLevel);
+const isLogScope = (value: unknown): value is LogScope => LOG_SCOPES.includes(value as LogScope);
+
+const readStoredSettings = (): LogSettings => {
+  try {
+    const raw = window.localStorage.getItem(LOG_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<LogSettings>;
+    return {
+      isDebugEnabled: saved.isDebugEnabled === true,
+      level: isLogLevel(saved.level) ? saved.level : DEFAULT_SETTINGS.level,
+      scopes: Array.isArray(saved.scopes) ? saved.scopes.filter(isLogScope) : DEFAULT_SETTINGS.scopes,
+    };
+  } catch {
+    window.localStorage.removeItem(LOG_SETTINGS_STORAGE_KEY);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// ?debug 쿼리가 있으면 저장된 설정보다 우선
+const applyQueryParam = (current: LogSettings): LogSettings | null => {
+  const value = new URLSearchParams(window.location.search).get(DEBUG_QUERY_PARAM);
+  if (value === null) return null;
+  if (value === '0' || value === 'false') return { ...current, isDebugEnabled: false };
+  if (value === '' || value === '1' || value === 'true') return { ...current, isDebugEnabled: true, scopes: LOG_SCOPES };
+
+  const scopes = value.split(',').map(s => s.trim()).filter(isLogScope);
+  return { ...current, isDebugEnabled: true, scopes: scopes.length > 0 ? scopes : LOG_SCOPES };
+};
+
+const hydrate = () => {
+  if (isHydrated || typeof window === 'undefined') return;
+  isHydrated = true;
+
+  settings = readStoredSettings();
+  const fromQuery = applyQueryParam(settings);
+  if (fromQuery) {
+    settings = fromQuery;
+    window.localStorage.setItem(LOG_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+};
+
+export const getLogSettings = (): LogSettings => {
+  hydrate();
+  return settings;
+};
+
+export const updateLogSettings = (changes: Partial<LogSettings>) => {
+  hydrate();
+  settings = { ...settings, ...changes };
+  window.localStorage.setItem(LOG_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  notify();
+};
+
+export const subscribeLogSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getServerSnapshot = () => DEFAULT_SETTINGS;
+
+export const useLogSettings = (): LogSettings =>
+  useSyncExternalStore(subscribeLogSettings, getLogSettings, getServerSnapshot);
+
+const shouldPrint = (scope: LogScope, level: LogLevel) => {
+  if (level === 'warn' || level === 'error') return true;
+  const current = getLogSettings();
+  return (
+    current.isDebugEnabled &&
+    current.scopes.includes(scope) &&
+    LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(current.level)
+  );
+};
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+const write = (scope: LogScope, level: LogLevel, message: string, data: unknown[]) => {
+  if (!shouldPrint(scope, level)) return;
+  const prefix = `[${scope}] ${message}`;
+  if (level === 'error') console.error(prefix, ...data);
+  else if (level === 'warn') console.warn(prefix, ...data);
+  else if (level === 'info') console.info(prefix, ...data);
+  else console.debug(prefix, ...data);
+};
+
+// 모듈마다 범위를 정해서 사용 - const log = createLogger('festivals');
+export const createLogger = (scope: LogScope): Logger => ({
+  debug: (message, ...data) => write(scope, 'debug', message, data),
+  info: (message, ...data) => write(scope, 'info', message, data),
+  warn: (message, ...data) => write(scope, 'warn', message, data),
+  error: (message, ...data) => write(scope, 'error', message, data),
+});
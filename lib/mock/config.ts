@@ -0,0 +1,4 @@
+// 목업 백엔드 사용 여부 - NEXT_PUBLIC_USE_MOCK_API=true이면 실제 서버 대신 브라우저 안의 목업 서버 사용
+export const isMockApiEnabled = (): boolean => process.env.NEXT_PUBLIC_USE_MOCK_API === 'true';
+
+export const MOCK_ADMIN_PASSWORD = process.env.NEXT_PUBLIC_MOCK_ADMIN_PASSWORD || 'admin';
@@ -0,0 +1,84 @@
+import { Artist } from '@/lib/api';
+import { PerformanceURL, ReservationInfoResponse } from '@/types/festival';
+import { Place } from '@/types/place';
+import { createSeedDatabase } from './fixtures';
+
+// 목업 서버 저장소 - 메모리에 보관하고 변경될 때마다 localStorage에 저장
+// 응답은 server.ts에서 실제 API 응답 형태로 조립하고, 여기서는 id 기준으로 정규화된 데이터만 보관
+
+export interface MockTimeTableArtist {
+  timetableArtistId: number;
+  artistId: number;
+  type: string;
+}
+
+export interface MockTimeTable {
+  id: number;
+  performanceDate: string;
+  startTime: string;
+  endTime: string;
+  hallId: number;
+  artists: MockTimeTableArtist[];
+}
+
+export interface MockFestival {
+  id: number;
+  name: string;
+  placeId: number;
+  startDate: string;
+  endDate: string;
+  posterUrl: string;
+  banGoods: string;
+  transportationInfo: string;
+  remark: string;
+  urlInfos: PerformanceURL[];
+  timeTables: MockTimeTable[];
+  reservationInfos: ReservationInfoResponse[];
+}
+
+export interface MockDatabase {
+  nextId: number;
+  places: Place[];
+  artists: Artist[];
+  festivals: MockFestival[];
+}
+
+const MOCK_DB_STORAGE_KEY = 'dals2bo-mock-db';
+
+let db: MockDatabase | null = null;
+
+const load = (): MockDatabase => {
+  if (typeof window !== 'undefined') {
+    try {
+      const raw = window.localStorage.getItem(MOCK_DB_STORAGE_KEY);
+      if (raw) return JSON.parse(raw) as MockDatabase;
+    } catch {
+      window.localStorage.removeItem(MOCK_DB_STORAGE_KEY);
+    }
+  }
+  return createSeedDatabase();
+};
+
+export const getMockDatabase = (): MockDatabase => {
+  if (!db) db = load();
+  return db;
+};
+
+export const saveMockDatabase = () => {
+  if (!db || typeof window === 'undefined') return;
+  window.localStorage.setItem(MOCK_DB_STORAGE_KEY, JSON.stringify(db));
+};
+
+// 모든 엔티티가 하나의 시퀀스를 공유 (실제 서버와 달리 테이블별로 나누지 않음)
+export const nextMockId = (): number => {
+  const database = getMockDatabase();
+  const id = database.nextId;
+  database.nextId += 1;
+  return id;
+};
+
+// 초기 데이터로 되돌리기
+export const resetMockDatabase = () => {
+  db = createSeedDatabase();
+  saveMockDatabase();
+};
@@ -0,0 +1,264 @@
+import { AppleMusicArtist } from '@/lib/api';
+import { URLType } from '@/types/festival';
+import { MockDatabase } from './db';
+
+// 목업 서버 초기 데이터 - 실제 국내 페스티벌 구성을 참고한 예시 데이터
+
+export const createSeedDatabase = (): MockDatabase => ({
+  nextId: 1000,
+  places: [
+    {
+      id: 1,
+      placeName: '올림픽공원',
+      address: '서울특별시 송파구 올림픽로 424',
+      halls: [
+        { id: 11, name: '88잔디마당' },
+        { id: 12, name: 'KSPO DOME' },
+        { id: 13, name: '티켓링크 라이브 아레나' },
+        { id: 14, name: '올림픽홀' },
+      ],
+    },
+    {
+      id: 2,
+      placeName: '송도달빛축제공원',
+      address: '인천광역시 연수구 송도동 7-3',
+      halls: [
+        { id: 21, name: 'KB STAGE' },
+        { id: 22, name: 'AIRPORT STAGE' },
+        { id: 23, name: 'GLOBAL STAGE' },
+      ],
+    },
+    {
+      id: 3,
+      placeName: '난지한강공원',
+      address: '서울특별시 마포구 한강난지로 162',
+      halls: [
+        { id: 31, name: '메인 스테이지' },
+        { id: 32, name: '강변 스테이지' },
+      ],
+    },
+  ],
+  artists: [
+    { id: 101, name: '잔나비', description: '2014년 데뷔한 5인조 밴드', imageUrl: null, aliases: [{ id: 501, name: 'JANNABI' }] },
+    { id: 102, name: '실리카겔', description: '사이키델릭 록 밴드', imageUrl: null, aliases: [{ id: 502, name: 'Silica Gel' }] },
+    { id: 103, name: '혁오', description: '오혁이 이끄는 4인조 밴드', imageUrl: null, aliases: [{ id: 503, name: 'HYUKOH' }, { id: 504, name: '혁오밴드' }] },
+    { id: 104, name: '새소년', description: '황소윤의 3인조 밴드', imageUrl: null, aliases: [{ id: 505, name: 'SE SO NEON' }] },
+    { id: 105, name: '검정치마', description: '조휴일의 1인 프로젝트', imageUrl: null, aliases: [{ id: 506, name: 'The Black Skirts' }] },
+    { id: 106, name: '데이먼스 이어', description: '싱어송라이터', imageUrl: null, aliases: [{ id: 507, name: "Damons year" }] },
+    { id: 107, name: '너드커넥션', description: '4인조 록 밴드', imageUrl: null, aliases: [{ id: 508, name: 'Nerd Connection' }] },
+    { id: 108, name: '루시', description: '바이올린이 있는 4인조 밴드', imageUrl: null, aliases: [{ id: 509, name: 'LUCY' }] },
+    { id: 109, name: '장기하', description: '싱어송라이터', imageUrl: null, aliases: [] },
+    { id: 110, name: '넬', description: '모던 록 밴드', imageUrl: null, aliases: [{ id: 510, name: 'NELL' }] },
+    { id: 111, name: '쏜애플', description: '3인조 록 밴드', imageUrl: null, aliases: [{ id: 511, name: 'THORNAPPLE' }] },
+    { id: 112, name: '카더가든', description: '싱어송라이터', imageUrl: null, aliases: [{ id: 512, name: 'Car, the garden' }] },
+  ],
+  festivals: [
+    {
+      id: 201,
+      name: '서울재즈페스티벌 2026',
+      placeId: 1,
+      startDate: '2026-05-22',
+      endDate: '2026-05-24',
+      posterUrl: 'https://tkfile.yes24.com/upload2/PerfBlog/202603/20260310/20260310-50001.jpg',
+      banGoods: '캔/병 음료, 셀카봉, 전문 촬영 장비',
+      transportationInfo: '지하철 5호선 올림픽공원역 3번 출구, 9호선 한성백제역 1번 출구',
+      remark: '우천 시에도 공연은 진행됩니다.',
+      urlInfos: [
+        { url: 'https://www.instagram.com/seouljazzfestival', type: URLType.INSTAGRAM },
+        { url: 'https://www.seouljazz.co.kr', type: URLType.HOMEPAGE },
+        { url: 'https://www.youtube.com/@seouljazzfestival', type: URLType.YOUTUBE },
+      ],
+      timeTables: [
+        {
+          id: 301,
+          performanceDate: '2026-05-22',
+          startTime: '17:00',
+          endTime: '18:00',
+          hallId: 11,
+          artists: [{ timetableArtistId: 401, artistId: 106, type: 'MAIN' }],
+        },
+        {
+          id: 302,
+          performanceDate: '2026-05-22',
+          startTime: '19:30',
+          endTime: '21:00',
+          hallId: 12,
+          artists: [{ timetableArtistId: 402, artistId: 105, type: 'MAIN' }],
+        },
+        {
+          id: 303,
+          performanceDate: '2026-05-23',
+          startTime: '18:00',
+          endTime: '19:10',
+          hallId: 13,
+          artists: [{ timetableArtistId: 403, artistId: 112, type: 'MAIN' }],
+        },
+      ],
+      reservationInfos: [
+        {
+          id: 601,
+          openDateTime: '2026-02-10T12:00:00',
+          closeDateTime: '2026-02-17T23:59:00',
+          type: 'EARLY_BIRD',
+          ticketURL: 'https://ticket.yes24.com/Perf/50001',
+          remark: '1인 2매 한정',
+        },
+        {
+          id: 602,
+          openDateTime: '2026-03-10T14:00:00',
+          closeDateTime: '2026-05-21T17:00:00',
+          type: 'GENERAL',
+          ticketURL: 'https://ticket.yes24.com/Perf/50002',
+          remark: '',
+        },
+      ],
+    },
+    {
+      id: 202,
+      name: '인천펜타포트 락 페스티벌 2026',
+      placeId: 2,
+      startDate: '2026-07-31',
+      endDate: '2026-08-02',
+      posterUrl: 'https://ticketimage.interpark.com/Play/image/large/26/26005001_p.gif',
+      banGoods: '돗자리(2인용 초과), 텐트, 화기류, 반려동물',
+      transportationInfo: '인천 1호선 센트럴파크역 셔틀버스 운행',
+      remark: '모든 공연은 스탠딩으로 진행됩니다.',
+      urlInfos: [
+        { url: 'https://www.instagram.com/pentaportrf', type: URLType.INSTAGRAM },
+        { url: 'https://www.pentaport.co.kr', type: URLType.HOMEPAGE },
+        { url: 'https://x.com/pentaportrf', type: URLType.X },
+      ],
+      timeTables: [
+        {
+          id: 311,
+          performanceDate: '2026-07-31',
+          startTime: '16:00',
+          endTime: '16:50',
+          hallId: 22,
+          artists: [{ timetableArtistId: 411, artistId: 107, type: 'MAIN' }],
+        },
+        {
+          id: 312,
+          performanceDate: '2026-07-31',
+          startTime: '20:00',
+          endTime: '21:20',
+          hallId: 21,
+          artists: [{ timetableArtistId: 412, artistId: 102, type: 'MAIN' }],
+        },
+        {
+          id: 313,
+          performanceDate: '2026-08-01',
+          startTime: '19:00',
+          endTime: '20:10',
+          hallId: 21,
+          artists: [
+            { timetableArtistId: 413, artistId: 103, type: 'MAIN' },
+            { timetableArtistId: 414, artistId: 104, type: 'SUB' },
+          ],
+        },
+        {
+          id: 314,
+          performanceDate: '2026-08-02',
+          startTime: '21:00',
+          endTime: '22:30',
+          hallId: 21,
+          artists: [{ timetableArtistId: 415, artistId: 110, type: 'MAIN' }],
+        },
+      ],
+      reservationInfos: [
+        {
+          id: 611,
+          openDateTime: '2026-04-01T11:00:00',
+          closeDateTime: '2026-07-30T23:59:00',
+          type: 'GENERAL',
+          ticketURL: 'https://tickets.interpark.com/goods/26005001',
+          remark: '3일권/1일권 판매',
+        },
+      ],
+    },
+    {
+      id: 203,
+      name: '그랜드 민트 페스티벌 2026',
+      placeId: 1,
+      startDate: '2026-10-24',
+      endDate: '2026-10-25',
+      posterUrl: 'https://cdnticket.melon.co.kr/resource/image/upload/product/2026/08/202608121200.jpg',
+      banGoods: '주류 반입 금지',
+      transportationInfo: '지하철 8호선 몽촌토성역 1번 출구',
+      remark: '',
+      urlInfos: [
+        { url: 'https://www.instagram.com/mintpaper', type: URLType.INSTAGRAM },
+        { url: 'https://pf.kakao.com/_mintpaper', type: URLType.KAKAO_CHANNEL },
+      ],
+      timeTables: [
+        {
+          id: 321,
+          performanceDate: '2026-10-24',
+          startTime: '15:00',
+          endTime: '15:50',
+          hallId: 14,
+          artists: [{ timetableArtistId: 421, artistId: 108, type: 'MAIN' }],
+        },
+        {
+          id: 322,
+          performanceDate: '2026-10-24',
+          startTime: '19:40',
+          endTime: '21:00',
+          hallId: 11,
+          artists: [{ timetableArtistId: 422, artistId: 101, type: 'MAIN' }],
+        },
+        {
+          id: 323,
+          performanceDate: '2026-10-25',
+          startTime: '18:00',
+          endTime: '19:00',
+          hallId: 11,
+          artists: [{ timetableArtistId: 423, artistId: 111, type: 'MAIN' }],
+        },
+      ],
+      reservationInfos: [
+        {
+          id: 621,
+          openDateTime: '2026-08-20T12:00:00',
+          closeDateTime: '2026-10-23T18:00:00',
+          type: 'GENERAL',
+          ticketURL: 'https://ticket.melon.com/performance/index.htm?prodId=212345',
+          remark: '',
+        },
+      ],
+    },
+    {
+      id: 204,
+      name: '뷰티풀 민트 라이프 2027',
+      placeId: 3,
+      startDate: '2027-05-08',
+      endDate: '2027-05-09',
+      posterUrl: '',
+      banGoods: '',
+      transportationInfo: '지하철 6호선 월드컵경기장역 1번 출구 도보 20분',
+      remark: '라인업 미정',
+      urlInfos: [],
+      timeTables: [],
+      reservationInfos: [],
+    },
+  ],
+});
+
+// Apple Music 검색 목업 결과
+export const APPLE_MUSIC_FIXTURES: AppleMusicArtist[] = [
+  { name: '잔나비', genreNames: ['K-Pop', 'Rock'], artworkUrl: null },
+  { name: '실리카겔', genreNames: ['Alternative'], artworkUrl: null },
+  { name: 'HYUKOH', genreNames: ['Rock'], artworkUrl: null },
+  { name: '새소년', genreNames: ['Alternative'], artworkUrl: null },
+  { name: '검정치마', genreNames: ['K-Pop', 'Indie Rock'], artworkUrl: null },
+  { name: '데이먼스 이어', genreNames: ['K-Pop'], artworkUrl: null },
+  { name: '너드커넥션', genreNames: ['Rock'], artworkUrl: null },
+  { name: 'LUCY', genreNames: ['K-Pop', 'Rock'], artworkUrl: null },
+  { name: '장기하', genreNames: ['K-Pop'], artworkUrl: null },
+  { name: '넬', genreNames: ['Rock'], artworkUrl: null },
+  { name: '쏜애플', genreNames: ['Rock'], artworkUrl: null },
+  { name: '카더가든', genreNames: ['K-Pop', 'R&B/Soul'], artworkUrl: null },
+  { name: '이승윤', genreNames: ['K-Pop'], artworkUrl: null },
+  { name: '한로로', genreNames: ['Indie Pop'], artworkUrl: null },
+  { name: 'wave to earth', genreNames: ['Indie Pop'], artworkUrl: null },
+];
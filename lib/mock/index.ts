@@ -0,0 +1,13 @@
+// 목업 서버(server.ts)와 데이터(db.ts, fixtures.ts)는 목업을 켰을 때만 동적으로 불러옴
+// 조건에 환경 변수를 그대로 써야 빌드 시 값이 치환되어 목업을 끈 배포 번들에서 import()가 제거됨
+export { isMockApiEnabled, MOCK_ADMIN_PASSWORD } from './config';
+
+export type MockFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+// 목업을 끈 경우 null
+export const loadMockFetch = async (): Promise<MockFetch | null> =>
+  process.env.NEXT_PUBLIC_USE_MOCK_API === 'true' ? (await import('./server')).mockFetch : null;
+
+export const resetMockDatabase = async (): Promise<void> => {
+  if (process.env.NEXT_PUBLIC_USE_MOCK_API === 'true') (await import('./db')).resetMockDatabase();
+};
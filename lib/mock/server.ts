@@ -0,0 +1,719 @@
+import { Artist, ArtistAlias } from '@/lib/api';
+import { ApiFieldError } from '@/lib/errors';
+import {
+  FestivalCreateRequest,
+  FestivalResponse,
+  PerformanceRequest,
+  ReservationInfoResponse,
+  TimeTableAddRequest,
+  TimeTableResponse,
+  URLType,
+} from '@/types/festival';
+import { Hall, Place, PlaceRequestBody } from '@/types/place';
+import { createLogger } from '@/lib/logger';
+import { getMockDatabase, MockFestival, MockTimeTable, nextMockId, saveMockDatabase } from './db';
+import { APPLE_MUSIC_FIXTURES } from './fixtures';
+import { MOCK_ADMIN_PASSWORD } from './config';
+
+// 목업 백엔드 - lib/api.ts가 호출하는 모든 엔드포인트를 브라우저 안에서 처리
+// 실제 서버와 같은 응답 형태, 에러 본문({ code, message, fieldErrors }), 비밀번호 검사를 흉내냄
+
+const log = createLogger('api');
+
+// 네트워크 지연 흉내 (ms)
+const MOCK_LATENCY_MS = 150;
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly fieldErrors: ApiFieldError[] = []
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  headers: Headers;
+  body: any;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  isProtected?: boolean;
+  handler: (request: MockRequest) => unknown;
+}
+
+// --- 공통 헬퍼 ---
+
+const notFound = (message: string) => new MockHttpError(404, 'NOT_FOUND', message);
+const conflict = (message: string) => new MockHttpError(409, 'CONFLICT', message);
+
+const validate = (fieldErrors: (ApiFieldError | null)[]) => {
+  const errors = fieldErrors.filter((error): error is ApiFieldError => error !== null);
+  if (errors.length > 0) {
+    throw new MockHttpError(400, 'INVALID_INPUT', errors[0].message, errors);
+  }
+};
+
+const required = (field: string, value: unknown, message: string): ApiFieldError | null =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || value === 0
+    ? { field, message, rejectedValue: value }
+    : null;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+
+// 서버는 초 단위 없이 HH:mm으로 응답
+const normalizeTime = (time: string) => time.slice(0, 5);
+
+// 예매 일시는 yyyy-MM-ddTHH:mm:ss로 저장 (클라이언트가 붙이는 여분의 ":00"은 잘라냄)
+const normalizeDateTime = (dateTime: string) => dateTime.replace('Z', '').slice(0, 19);
+
+const findPlace = (placeId: number): Place => {
+  const place = getMockDatabase().places.find(p => p.id === placeId);
+  if (!place) throw notFound(`장소를 찾을 수 없습니다. (id: ${placeId})`);
+  return place;
+};
+
+const findFestival = (id: number): MockFestival => {
+  const festival = getMockDatabase().festivals.find(f => f.id === id);
+  if (!festival) throw notFound(`공연을 찾을 수 없습니다. (id: ${id})`);
+  return festival;
+};
+
+const findArtist = (id: number): Artist => {
+  const artist = getMockDatabase().artists.find(a => a.id === id);
+  if (!artist) throw notFound(`아티스트를 찾을 수 없습니다. (id: ${id})`);
+  return artist;
+};
+
+const findTimeTable = (timeTableId: number): { festival: MockFestival; timeTable: MockTimeTable } => {
+  for (const festival of getMockDatabase().festivals) {
+    const timeTable = festival.timeTables.find(tt => tt.id === timeTableId);
+    if (timeTable) return { festival, timeTable };
+  }
+  throw notFound(`타임테이블을 찾을 수 없습니다. (id: ${timeTableId})`);
+};
+
+const findAlias = (aliasId: number): { artist: Artist; alias: ArtistAlias } => {
+  for (const artist of getMockDatabase().artists) {
+    const alias = artist.aliases.find(a => a.id === aliasId);
+    if (alias) return { artist, alias };
+  }
+  throw notFound(`별칭을 찾을 수 없습니다. (id: ${aliasId})`);
+};
+
+const isNameTaken = (name: string, excludeArtistId?: number) =>
+  getMockDatabase().artists.some(artist =>
+    artist.id !== excludeArtistId &&
+    (artist.name.toLowerCase() === name.toLowerCase() ||
+      artist.aliases.some(alias => alias.name.toLowerCase() === name.toLowerCase()))
+  );
+
+// --- 응답 조립 ---
+
+const toTimeTableResponse = (timeTable: MockTimeTable, place: Place | undefined): TimeTableResponse => {
+  const { artists } = getMockDatabase();
+  return {
+    id: timeTable.id,
+    performanceDate: timeTable.performanceDate,
+    startTime: timeTable.startTime,
+    endTime: timeTable.endTime,
+    hallId: timeTable.hallId,
+    performanceHall: place?.halls.find(h => h.id === timeTable.hallId)?.name || '',
+    artists: timeTable.artists.map(ta => ({
+      timetableArtistId: ta.timetableArtistId,
+      artistId: ta.artistId,
+      artistName: artists.find(a => a.id === ta.artistId)?.name || '',
+      type: ta.type,
+    })),
+  };
+};
+
+const toFestivalResponse = (festival: MockFestival): FestivalResponse => {
+  const { places, artists } = getMockDatabase();
+  const place = places.find(p => p.id === festival.placeId);
+
+  // 공연 전체 라인업은 타임테이블에 배정된 아티스트를 중복 없이 모은 것
+  const lineupIds = Array.from(new Set(festival.timeTables.flatMap(tt => tt.artists.map(a => a.artistId))));
+
+  return {
+    performance: {
+      id: festival.id,
+      name: festival.name,
+      placeId: festival.placeId,
+      placeName: place?.placeName || '',
+      placeAddress: place?.address || '',
+      startDate: festival.startDate,
+      endDate: festival.endDate,
+      posterUrl: festival.posterUrl,
+      banGoods: festival.banGoods,
+      transportationInfo: festival.transportationInfo,
+      remark: festival.remark,
+    },
+    timeTables: festival.timeTables.map(tt => toTimeTableResponse(tt, place)),
+    reservationInfos: festival.reservationInfos,
+    artists: lineupIds.map(id => ({
+      id,
+      displayName: artists.find(a => a.id === id)?.name || '',
+    })),
+    urlInfos: festival.urlInfos,
+  };
+};
+
+// --- 검증 ---
+
+const validatePerformance = (performance: Partial<PerformanceRequest> | undefined, prefix: string) => {
+  validate([
+    required(`${prefix}name`, performance?.name, '공연 이름은 필수입니다.'),
+    required(`${prefix}placeId`, performance?.placeId, '장소를 선택해주세요.'),
+    required(`${prefix}startDate`, performance?.startDate, '시작일은 필수입니다.'),
+    required(`${prefix}endDate`, performance?.endDate, '종료일은 필수입니다.'),
+  ]);
+  validate([
+    DATE_PATTERN.test(performance!.startDate!) ? null : { field: `${prefix}startDate`, message: '날짜 형식이 올바르지 않습니다. (yyyy-MM-dd)' },
+    DATE_PATTERN.test(performance!.endDate!) ? null : { field: `${prefix}endDate`, message: '날짜 형식이 올바르지 않습니다. (yyyy-MM-dd)' },
+  ]);
+  validate([
+    performance!.startDate! <= performance!.endDate!
+      ? null
+      : { field: `${prefix}endDate`, message: '종료일은 시작일보다 빠를 수 없습니다.', rejectedValue: performance!.endDate },
+  ]);
+  findPlace(performance!.placeId!);
+};
+
+const validateTimeTable = (data: Partial<TimeTableAddRequest>, festival: MockFestival, prefix = '') => {
+  validate([
+    required(`${prefix}performanceDate`, data.performanceDate, '공연 날짜는 필수입니다.'),
+    required(`${prefix}startTime`, data.startTime, '시작 시간은 필수입니다.'),
+    required(`${prefix}endTime`, data.endTime, '종료 시간은 필수입니다.'),
+    required(`${prefix}hallId`, data.hallId, '홀을 선택해주세요.'),
+  ]);
+  validate([
+    TIME_PATTERN.test(data.startTime!) ? null : { field: `${prefix}startTime`, message: '시간 형식이 올바르지 않습니다. (HH:mm)' },
+    TIME_PATTERN.test(data.endTime!) ? null : { field: `${prefix}endTime`, message: '시간 형식이 올바르지 않습니다. (HH:mm)' },
+    data.performanceDate! >= festival.startDate && data.performanceDate! <= festival.endDate
+      ? null
+      : { field: `${prefix}performanceDate`, message: '공연 날짜가 페스티벌 기간을 벗어납니다.', rejectedValue: data.performanceDate },
+    findPlace(festival.placeId).halls.some(h => h.id === data.hallId)
+      ? null
+      : { field: `${prefix}hallId`, message: '페스티벌 장소에 없는 홀입니다.', rejectedValue: data.hallId },
+  ]);
+};
+
+const createTimeTable = (data: TimeTableAddRequest): MockTimeTable => ({
+  id: nextMockId(),
+  performanceDate: data.performanceDate,
+  startTime: normalizeTime(data.startTime),
+  endTime: normalizeTime(data.endTime),
+  hallId: data.hallId,
+  artists: [],
+});
+
+const createReservationInfo = (data: any, id: number): ReservationInfoResponse => ({
+  id,
+  openDateTime: normalizeDateTime(data.openDateTime || ''),
+  closeDateTime: normalizeDateTime(data.closeDateTime || ''),
+  ticketURL: data.ticketURL || '',
+  type: data.type || 'GENERAL',
+  remark: data.remark || '',
+});
+
+// --- 라우트 ---
+
+const id = (value: string) => Number(value);
+
+const routes: MockRoute[] = [
+  // 아티스트
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/artist$/,
+    handler: () => getMockDatabase().artists,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/artist\/(\d+)$/,
+    handler: ({ params }) => findArtist(id(params[0])),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/artist$/,
+    isProtected: true,
+    handler: ({ body }) => {
+      validate([required('name', body?.name, '아티스트 이름은 필수입니다.')]);
+      if (isNameTaken(body.name)) throw conflict(`이미 등록된 아티스트 이름입니다: ${body.name}`);
+
+      const aliasList: string[] = body.aliasList || [];
+      const artist: Artist = {
+        id: nextMockId(),
+        name: body.name.trim(),
+        description: body.description || '',
+        imageUrl: body.imageUrl || null,
+        aliases: aliasList.map(name => ({ id: nextMockId(), name })),
+      };
+      getMockDatabase().artists.push(artist);
+      return artist;
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/artist\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const artist = findArtist(id(params[0]));
+      if (body?.name !== undefined) {
+        validate([required('name', body.name, '아티스트 이름은 필수입니다.')]);
+        if (isNameTaken(body.name, artist.id)) throw conflict(`이미 등록된 아티스트 이름입니다: ${body.name}`);
+        artist.name = body.name.trim();
+      }
+      if (body?.description !== undefined) artist.description = body.description;
+      if (body?.imageUrl !== undefined) artist.imageUrl = body.imageUrl || null;
+      return artist;
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/artist\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const artist = findArtist(id(params[0]));
+      const database = getMockDatabase();
+      const isScheduled = database.festivals.some(f => f.timeTables.some(tt => tt.artists.some(a => a.artistId === artist.id)));
+      if (isScheduled) throw conflict('타임테이블에 배정된 아티스트는 삭제할 수 없습니다.');
+      database.artists = database.artists.filter(a => a.id !== artist.id);
+      return null;
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/artist\/aliases$/,
+    isProtected: true,
+    handler: ({ body }) => {
+      const artist = findArtist(Number(body?.artistId));
+      const names: string[] = body?.aliases || [];
+      validate([names.length > 0 ? null : { field: 'aliases', message: '추가할 별칭을 입력해주세요.' }]);
+      const duplicate = names.find(name => isNameTaken(name));
+      if (duplicate) throw conflict(`이미 사용 중인 이름입니다: ${duplicate}`);
+
+      const created = names.map(name => ({ id: nextMockId(), name }));
+      artist.aliases.push(...created);
+      return created;
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/artist\/aliases\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const { artist, alias } = findAlias(id(params[0]));
+      validate([required('name', body?.name, '별칭을 입력해주세요.')]);
+      if (body.name.toLowerCase() !== alias.name.toLowerCase() && isNameTaken(body.name, artist.id)) {
+        throw conflict(`이미 사용 중인 이름입니다: ${body.name}`);
+      }
+      alias.name = body.name;
+      return alias;
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/artist\/aliases\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const { artist, alias } = findAlias(id(params[0]));
+      artist.aliases = artist.aliases.filter(a => a.id !== alias.id);
+      return null;
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/applemusic\/search$/,
+    handler: ({ query }) => {
+      const term = (query.get('term') || '').toLowerCase();
+      if (!term) return [];
+      return APPLE_MUSIC_FIXTURES.filter(artist => artist.name.toLowerCase().includes(term));
+    },
+  },
+
+  // 공연
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/performance$/,
+    handler: () => getMockDatabase().festivals.map(toFestivalResponse),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/performance\/(\d+)$/,
+    handler: ({ params }) => toFestivalResponse(findFestival(id(params[0]))),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/performance$/,
+    isProtected: true,
+    handler: ({ body }) => {
+      const request = body as FestivalCreateRequest;
+      validatePerformance(request?.performance, 'performance.');
+
+      const festival: MockFestival = {
+        id: nextMockId(),
+        name: request.performance.name,
+        placeId: request.performance.placeId,
+        startDate: request.performance.startDate,
+        endDate: request.performance.endDate,
+        posterUrl: request.performance.posterUrl || '',
+        banGoods: request.performance.banGoods || '',
+        transportationInfo: request.performance.transportationInfo || '',
+        remark: request.performance.remark || '',
+        urlInfos: request.urlInfos || [],
+        timeTables: [],
+        reservationInfos: [],
+      };
+
+      (request.timeTables || []).forEach((tt, index) => {
+        validateTimeTable(tt, festival, `timeTables[${index}].`);
+        festival.timeTables.push({
+          ...createTimeTable(tt),
+          artists: tt.artists.map(a => ({ timetableArtistId: nextMockId(), artistId: findArtist(a.artistId).id, type: a.type })),
+        });
+      });
+      festival.reservationInfos = (request.reservationInfos || []).map(ri => createReservationInfo(ri, nextMockId()));
+
+      getMockDatabase().festivals.push(festival);
+      return toFestivalResponse(festival);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/performance\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const festival = findFestival(id(params[0]));
+      validatePerformance(body, '');
+
+      if (body.placeId !== festival.placeId && festival.timeTables.length > 0) {
+        throw conflict('타임테이블이 있는 공연은 장소를 변경할 수 없습니다. 타임테이블을 먼저 삭제해주세요.');
+      }
+      Object.assign(festival, {
+        name: body.name,
+        placeId: body.placeId,
+        startDate: body.startDate,
+        endDate: body.endDate,
+        posterUrl: body.posterUrl ?? festival.posterUrl,
+        banGoods: body.banGoods ?? festival.banGoods,
+        transportationInfo: body.transportationInfo ?? festival.transportationInfo,
+        remark: body.remark ?? festival.remark,
+      });
+      return toFestivalResponse(festival);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/performance\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const festival = findFestival(id(params[0]));
+      const database = getMockDatabase();
+      database.festivals = database.festivals.filter(f => f.id !== festival.id);
+      return null;
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/performance\/(\d+)\/timetable$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const festival = findFestival(id(params[0]));
+      validateTimeTable(body || {}, festival);
+      const timeTable = createTimeTable(body);
+      festival.timeTables.push(timeTable);
+      return toTimeTableResponse(timeTable, findPlace(festival.placeId));
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/performance\/(\d+)\/timetable\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const festival = findFestival(id(params[0]));
+      const timeTableId = id(params[1]);
+      if (!festival.timeTables.some(tt => tt.id === timeTableId)) {
+        throw notFound(`타임테이블을 찾을 수 없습니다. (id: ${timeTableId})`);
+      }
+      festival.timeTables = festival.timeTables.filter(tt => tt.id !== timeTableId);
+      return null;
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/performance\/(\d+)\/reservation$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const festival = findFestival(id(params[0]));
+      const items: any[] = Array.isArray(body) ? body : [];
+      validate(items.flatMap((item, index) => [
+        required(`[${index}].openDateTime`, item.openDateTime, '예매 시작 일시는 필수입니다.'),
+        required(`[${index}].ticketURL`, item.ticketURL, '티켓 URL은 필수입니다.'),
+      ]));
+
+      // 목록 전체를 교체 - id가 있으면 기존 항목 수정, null이면 새 항목
+      festival.reservationInfos = items.map(item => {
+        if (item.id !== null && item.id !== undefined && !festival.reservationInfos.some(ri => ri.id === item.id)) {
+          throw notFound(`예매 정보를 찾을 수 없습니다. (id: ${item.id})`);
+        }
+        return createReservationInfo(item, item.id ?? nextMockId());
+      });
+      return festival.reservationInfos;
+    },
+  },
+
+  // URL 목록 교체 - 실제 서버 지원이 확인되지 않은 API (NEXT_PUBLIC_ENABLE_URL_EDITING, lib/url-types.ts)
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/performance\/(\d+)\/url$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const festival = findFestival(id(params[0]));
+      const items: any[] = Array.isArray(body) ? body : [];
+      const urlTypes = Object.values(URLType) as string[];
+      validate(items.flatMap((item, index) => [
+        required(`[${index}].url`, item.url, 'URL은 필수입니다.'),
+        urlTypes.includes(item.type) ? null : { field: `[${index}].type`, message: '알 수 없는 URL 종류입니다.', rejectedValue: item.type },
+      ]));
+
+      // 목록 전체를 보낸 순서대로 교체
+      festival.urlInfos = items.map(item => ({ url: item.url.trim(), type: item.type }));
+      return festival.urlInfos;
+    },
+  },
+
+  // 타임테이블 아티스트
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/timetable\/(\d+)\/artist$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const { festival, timeTable } = findTimeTable(id(params[0]));
+      const artist = findArtist(Number(body?.artistId));
+      if (timeTable.artists.some(a => a.artistId === artist.id)) {
+        throw conflict(`이미 타임테이블에 배정된 아티스트입니다: ${artist.name}`);
+      }
+      timeTable.artists.push({
+        timetableArtistId: nextMockId(),
+        artistId: artist.id,
+        type: body.participationType || 'MAIN',
+      });
+      return toTimeTableResponse(timeTable, findPlace(festival.placeId));
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/timetable\/(\d+)\/artist\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const { timeTable } = findTimeTable(id(params[0]));
+      const artistId = id(params[1]);
+      if (!timeTable.artists.some(a => a.artistId === artistId)) {
+        throw notFound(`타임테이블에 배정되지 않은 아티스트입니다. (id: ${artistId})`);
+      }
+      timeTable.artists = timeTable.artists.filter(a => a.artistId !== artistId);
+      return null;
+    },
+  },
+
+  // 장소
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/place$/,
+    handler: () => getMockDatabase().places,
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/place\/(\d+)$/,
+    handler: ({ params }) => findPlace(id(params[0])),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/place$/,
+    isProtected: true,
+    handler: ({ body }) => {
+      const request = body as PlaceRequestBody;
+      validate([
+        required('placeName', request?.placeName, '장소 이름은 필수입니다.'),
+        required('address', request?.address, '주소는 필수입니다.'),
+      ]);
+      if (getMockDatabase().places.some(p => p.placeName === request.placeName.trim())) {
+        throw new MockHttpError(409, 'DUPLICATE_PLACE', '이미 등록된 장소입니다.', [
+          { field: 'placeName', message: '이미 등록된 장소 이름입니다.', rejectedValue: request.placeName },
+        ]);
+      }
+      const place: Place = {
+        id: nextMockId(),
+        placeName: request.placeName.trim(),
+        address: request.address.trim(),
+        halls: (request.placeHalls || [])
+          .filter(name => name.trim())
+          .map(name => ({ id: nextMockId(), name: name.trim() })),
+      };
+      getMockDatabase().places.push(place);
+      return place;
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/place\/hall\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const hallId = id(params[0]);
+      const hall = getMockDatabase().places.flatMap(p => p.halls).find(h => h.id === hallId);
+      if (!hall) throw notFound(`홀을 찾을 수 없습니다. (id: ${hallId})`);
+      validate([required('name', body?.name, '홀 이름은 필수입니다.')]);
+      hall.name = body.name.trim();
+      return hall;
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/place\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const place = findPlace(id(params[0]));
+      validate([
+        required('placeName', body?.placeName, '장소 이름은 필수입니다.'),
+        required('address', body?.address, '주소는 필수입니다.'),
+      ]);
+      place.placeName = body.placeName.trim();
+      place.address = body.address.trim();
+      return place;
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/place\/(\d+)\/hall$/,
+    isProtected: true,
+    handler: ({ params, body }) => {
+      const place = findPlace(id(params[0]));
+      validate([required('name', body?.name, '홀 이름은 필수입니다.')]);
+      if (place.halls.some(h => h.name === body.name.trim())) {
+        throw conflict(`이미 등록된 홀입니다: ${body.name}`);
+      }
+      const hall: Hall = { id: nextMockId(), name: body.name.trim() };
+      place.halls.push(hall);
+      return hall;
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/place\/(\d+)$/,
+    isProtected: true,
+    handler: ({ params }) => {
+      const place = findPlace(id(params[0]));
+      const database = getMockDatabase();
+      if (database.festivals.some(f => f.placeId === place.id)) {
+        throw conflict('공연이 등록된 장소는 삭제할 수 없습니다.');
+      }
+      database.places = database.places.filter(p => p.id !== place.id);
+      return null;
+    },
+  },
+
+  // 알람 테스트
+  {
+    method: 'GET',
+    pattern: /^\/v1\/alarm\/test$/,
+    handler: ({ query }) => {
+      const type = query.get('type');
+      const date = query.get('date');
+      validate([
+        required('type', type, '알람 유형은 필수입니다.'),
+        required('date', date, '날짜는 필수입니다.'),
+      ]);
+      return {
+        type,
+        date,
+        dayLeft: query.has('dayLeft') ? Number(query.get('dayLeft')) : null,
+        sentCount: 0,
+        message: '목업 서버에서는 실제 알람이 발송되지 않습니다.',
+      };
+    },
+  },
+];
+
+// --- fetch 대체 ---
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (error: MockHttpError) =>
+  jsonResponse(error.status, {
+    code: error.code,
+    message: error.message,
+    fieldErrors: error.fieldErrors,
+  });
+
+// 실제 서버와 같은 관리자 비밀번호 검사
+const checkPassword = (headers: Headers) => {
+  const password = headers.get('X-Admin-Password');
+  if (!password) throw new MockHttpError(401, 'PASSWORD_REQUIRED', '관리자 비밀번호가 필요합니다.');
+  if (password !== MOCK_ADMIN_PASSWORD) throw new MockHttpError(401, 'INVALID_PASSWORD', '관리자 비밀번호가 올바르지 않습니다.');
+};
+
+const handleRequest = (url: URL, init: RequestInit): Response => {
+  const method = (init.method || 'GET').toUpperCase();
+  const path = url.pathname;
+
+  const matching = routes.filter(route => route.pattern.test(path));
+  if (matching.length === 0) {
+    return errorResponse(notFound(`존재하지 않는 API입니다: ${path}`));
+  }
+  const route = matching.find(r => r.method === method);
+  if (!route) {
+    return errorResponse(new MockHttpError(405, 'METHOD_NOT_ALLOWED', `지원하지 않는 메서드입니다: ${method} ${path}`));
+  }
+
+  try {
+    const headers = new Headers(init.headers);
+    if (route.isProtected) checkPassword(headers);
+
+    const result = route.handler({
+      method,
+      params: route.pattern.exec(path)!.slice(1),
+      query: url.searchParams,
+      headers,
+      body: typeof init.body === 'string' && init.body ? JSON.parse(init.body) : null,
+    });
+
+    if (method !== 'GET') saveMockDatabase();
+    return result === null ? new Response(null, { status: 204 }) : jsonResponse(200, result);
+  } catch (error) {
+    if (error instanceof MockHttpError) return errorResponse(error);
+    if (error instanceof SyntaxError) {
+      return errorResponse(new MockHttpError(400, 'INVALID_JSON', '요청 본문을 해석할 수 없습니다.'));
+    }
+    log.error('[mock] Unhandled error:', error);
+    return jsonResponse(500, { code: 'INTERNAL_SERVER_ERROR', message: '목업 서버 내부 오류' });
+  }
+};
+
+// fetch 대신 사용 - 지연 시간과 AbortSignal(타임아웃)까지 흉내냄
+// 핸들러는 검증을 모두 마친 뒤에 저장소를 변경하므로 실패한 요청은 데이터를 바꾸지 않음
+export const mockFetch = (input: string, init: RequestInit = {}): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const url = new URL(input, 'http://mock.local');
+      resolve(handleRequest(url, init));
+    }, MOCK_LATENCY_MS);
+
+    init.signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(init.signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
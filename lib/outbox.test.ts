@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OutboxItem, OutboxMutation } from '@/lib/outbox';
+
+// 대기열은 모듈 상태와 localStorage에 보관되므로 테스트마다 새로 불러옴
+let outbox: typeof import('@/lib/outbox');
+let errors: typeof import('@/lib/errors');
+let environment: typeof import('@/lib/environment');
+
+beforeEach(async () => {
+  window.localStorage.clear();
+  vi.resetModules();
+  outbox = await import('@/lib/outbox');
+  errors = await import('@/lib/errors');
+  environment = await import('@/lib/environment');
+});
+
+const addTimeTable = (performanceId: number): OutboxMutation => ({
+  operation: 'addTimeTable',
+  performanceId,
+  data: { performanceDate: '2025-05-01', startTime: '18:00', endTime: '19:00', hallId: 1 },
+});
+
+const requestInit = { status: 0, endpoint: '/api/admin/performance/1/timetable', method: 'POST' };
+
+describe('outbox', () => {
+  it('stores queued items in localStorage with increasing ids', () => {
+    const first = outbox.enqueueOutbox('첫 번째', addTimeTable(1));
+    const second = outbox.enqueueOutbox('두 번째', addTimeTable(2));
+
+    expect([first.id, second.id]).toEqual([1, 2]);
+    expect(outbox.hasPendingOutboxItems()).toBe(true);
+    expect(JSON.parse(window.localStorage.getItem('dals2bo-outbox')!)).toHaveLength(2);
+  });
+
+  it('replays pending items in the order they were queued and removes them', async () => {
+    outbox.enqueueOutbox('첫 번째', addTimeTable(1));
+    outbox.enqueueOutbox('두 번째', addTimeTable(2));
+    const sent: string[] = [];
+
+    const result = await outbox.processOutbox(async item => void sent.push(item.label));
+
+    expect(result).toBeNull();
+    expect(sent).toEqual(['첫 번째', '두 번째']);
+    expect(outbox.getOutboxItems()).toEqual([]);
+  });
+
+  it('stops at a network error and keeps the rest pending in order', async () => {
+    outbox.enqueueOutbox('첫 번째', addTimeTable(1));
+    outbox.enqueueOutbox('두 번째', addTimeTable(2));
+    const send = vi.fn().mockRejectedValue(new errors.NetworkError('offline', requestInit));
+
+    const result = await outbox.processOutbox(send);
+
+    expect(result).toBeInstanceOf(errors.NetworkError);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getOutboxItems().map(item => [item.label, item.status, item.attempts])).toEqual([
+      ['첫 번째', 'pending', 1],
+      ['두 번째', 'pending', 0],
+    ]);
+  });
+
+  it('marks conflicts and failures on the item and continues with the next one', async () => {
+    outbox.enqueueOutbox('충돌', addTimeTable(1));
+    outbox.enqueueOutbox('검증 실패', addTimeTable(2));
+    outbox.enqueueOutbox('성공', addTimeTable(3));
+    const send = vi.fn(async (item: OutboxItem) => {
+      if (item.label === '충돌') throw new errors.ConflictError('conflict', { ...requestInit, status: 409 });
+      if (item.label === '검증 실패') throw new errors.ValidationError('invalid', { ...requestInit, status: 400 });
+    });
+
+    await outbox.processOutbox(send);
+
+    expect(outbox.getOutboxItems().map(item => [item.label, item.status])).toEqual([
+      ['충돌', 'conflict'],
+      ['검증 실패', 'failed'],
+    ]);
+  });
+
+  it('sends a retried item again as forced and drops discarded items', async () => {
+    const conflicted = outbox.enqueueOutbox('충돌', addTimeTable(1));
+    const failed = outbox.enqueueOutbox('실패', addTimeTable(2));
+    await outbox.processOutbox(() => Promise.reject(new errors.ConflictError('conflict', { ...requestInit, status: 409 })));
+
+    outbox.retryOutboxItem(conflicted.id);
+    outbox.discardOutboxItem(failed.id);
+    const send = vi.fn().mockResolvedValue(undefined);
+    await outbox.processOutbox(send);
+
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: conflicted.id, isForced: true }));
+    expect(outbox.getOutboxItems()).toEqual([]);
+  });
+
+  it('only replays items queued in the current API environment', async () => {
+    outbox.enqueueOutbox('다른 환경', addTimeTable(1));
+    environment.setApiEnvironment('custom', 'https://staging.example.com');
+    outbox.enqueueOutbox('현재 환경', addTimeTable(2));
+    const sent: string[] = [];
+
+    await outbox.processOutbox(async item => void sent.push(item.label));
+
+    expect(sent).toEqual(['현재 환경']);
+    expect(outbox.getOutboxItems().map(item => item.label)).toEqual(['다른 환경']);
+  });
+
+  it('shares one replay between concurrent callers', async () => {
+    outbox.enqueueOutbox('첫 번째', addTimeTable(1));
+    const send = vi.fn().mockResolvedValue(undefined);
+
+    await Promise.all([outbox.processOutbox(send), outbox.processOutbox(send)]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats items left sending by a closed page as pending again', async () => {
+    const saved: Partial<OutboxItem>[] = [
+      { id: 1, environment: environment.getApiEnvironment().profile.id, label: '전송 중', status: 'sending', attempts: 1, mutation: addTimeTable(1) },
+    ];
+    window.localStorage.setItem('dals2bo-outbox', JSON.stringify(saved));
+    vi.resetModules();
+    const reloaded = await import('@/lib/outbox');
+
+    expect(reloaded.getOutboxItems()[0].status).toBe('pending');
+  });
+});
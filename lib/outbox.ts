@@ -0,0 +1,166 @@
+import { useSyncExternalStore } from 'react';
+import { getApiEnvironment } from '@/lib/environment';
+import { ConflictError, getErrorMessage, NetworkError, NotFoundError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { ReservationInfo, TimeTableAddRequest, TimeTableArtistAddRequest } from '@/types/festival';
+
+// 오프라인 대기열(outbox) - 서버에 도달하지 못한 변경을 localStorage에 보관했다가 연결되면 순서대로 다시 전송
+//
+// - 현장 Wi-Fi처럼 연결이 불안정한 곳에서 자주 하는 변경(타임테이블 추가, 아티스트 배정, 예매 정보 수정)만 대상
+// - 항목은 큐에 들어간 환경(API 환경 프로필)에서만 전송
+// - 전송 중 다시 연결이 끊기면 남은 항목은 그대로 두고 다음 기회에 이어서 전송
+// - 충돌(409, 대상 삭제, 큐에 넣은 뒤 서버 데이터가 바뀜)이나 검증 실패는 항목에 표시하고
+//   운영자가 항목별로 다시 시도하거나 버리도록 함
+
+export type OutboxMutation =
+  | { operation: 'addTimeTable'; performanceId: number; data: TimeTableAddRequest }
+  | { operation: 'addTimeTableArtist'; timetableId: number; data: TimeTableArtistAddRequest }
+  | {
+      operation: 'updateReservationInfos';
+      performanceId: number;
+      data: ReservationInfo[];
+      baseline?: ReservationInfo[]; // 큐에 넣을 때 화면에 있던 목록 - 전송 전에 서버 목록과 비교
+    };
+
+export type OutboxItemStatus = 'pending' | 'sending' | 'conflict' | 'failed';
+
+export interface OutboxItem {
+  id: number;
+  environment: string; // API 환경 프로필 id
+  createdAt: number;
+  label: string;
+  mutation: OutboxMutation;
+  status: OutboxItemStatus;
+  attempts: number;
+  error?: string;
+  // 충돌을 확인한 운영자가 다시 시도한 경우 - 서버 데이터 비교를 건너뛰고 그대로 적용
+  isForced?: boolean;
+}
+
+const OUTBOX_STORAGE_KEY = 'dals2bo-outbox';
+
+const log = createLogger('api');
+const listeners = new Set<() => void>();
+const EMPTY_ITEMS: OutboxItem[] = [];
+
+let items: OutboxItem[] = EMPTY_ITEMS;
+let isHydrated = false;
+let replayPromise: Promise<NetworkError | null> | null = null;
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const hydrate = () => {
+  if (isHydrated || typeof window === 'undefined') return;
+  isHydrated = true;
+
+  try {
+    const raw = window.localStorage.getItem(OUTBOX_STORAGE_KEY);
+    const saved = raw ? (JSON.parse(raw) as OutboxItem[]) : [];
+    // 전송 중에 페이지를 닫은 항목은 결과를 알 수 없으므로 다시 전송 대상으로 둠
+    items = Array.isArray(saved) ? saved.map(item => (item.status === 'sending' ? { ...item, status: 'pending' } : item)) : [];
+  } catch {
+    window.localStorage.removeItem(OUTBOX_STORAGE_KEY);
+    items = [];
+  }
+};
+
+const setItems = (next: OutboxItem[]) => {
+  items = next;
+  try {
+    window.localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    log.warn('Failed to save outbox:', error);
+  }
+  notify();
+};
+
+const updateItem = (id: number, changes: Partial<OutboxItem>) => {
+  setItems(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+};
+
+export const getOutboxItems = (): OutboxItem[] => {
+  hydrate();
+  return items;
+};
+
+// 현재 API 환경의 항목만 - 다른 환경의 항목은 그 환경으로 전환해야 전송됨
+export const getCurrentOutboxItems = (): OutboxItem[] => {
+  const environment = getApiEnvironment().profile.id;
+  return getOutboxItems().filter(item => item.environment === environment);
+};
+
+export const hasPendingOutboxItems = () => getCurrentOutboxItems().some(item => item.status === 'pending');
+
+export const enqueueOutbox = (label: string, mutation: OutboxMutation): OutboxItem => {
+  hydrate();
+  const item: OutboxItem = {
+    id: items.reduce((max, i) => Math.max(max, i.id), 0) + 1,
+    environment: getApiEnvironment().profile.id,
+    createdAt: Date.now(),
+    label,
+    mutation,
+    status: 'pending',
+    attempts: 0,
+  };
+  setItems([...items, item]);
+  log.info(`queued offline mutation: ${label}`);
+  return item;
+};
+
+// 충돌/실패 항목을 다시 전송 대상으로 - 다음 전송 때 서버 데이터 비교 없이 적용
+export const retryOutboxItem = (id: number) => {
+  hydrate();
+  updateItem(id, { status: 'pending', error: undefined, isForced: true });
+};
+
+export const discardOutboxItem = (id: number) => {
+  hydrate();
+  setItems(items.filter(item => item.id !== id));
+};
+
+const getFailureStatus = (error: unknown): OutboxItemStatus =>
+  error instanceof ConflictError || error instanceof NotFoundError ? 'conflict' : 'failed';
+
+// 현재 환경의 대기 항목을 만든 순서대로 전송 - 이미 전송 중이면 진행 중인 전송을 기다림
+// 연결이 끊겨 멈춘 경우 그 NetworkError를 반환
+export const processOutbox = (send: (item: OutboxItem) => Promise<void>): Promise<NetworkError | null> => {
+  if (replayPromise) return replayPromise;
+
+  replayPromise = (async () => {
+    for (const item of getCurrentOutboxItems()) {
+      if (item.status !== 'pending') continue;
+
+      updateItem(item.id, { status: 'sending', attempts: item.attempts + 1 });
+      try {
+        await send(item);
+        setItems(items.filter(i => i.id !== item.id));
+      } catch (error) {
+        if (error instanceof NetworkError) {
+          // 아직 연결되지 않음 - 순서를 지키기 위해 이후 항목도 보내지 않음
+          updateItem(item.id, { status: 'pending' });
+          return error;
+        }
+        log.warn(`offline mutation failed: ${item.label}`, error);
+        updateItem(item.id, { status: getFailureStatus(error), error: getErrorMessage(error) });
+      }
+    }
+    return null;
+  })().finally(() => {
+    replayPromise = null;
+  });
+  return replayPromise;
+};
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getServerSnapshot = () => EMPTY_ITEMS;
+
+export const useOutbox = (): OutboxItem[] =>
+  useSyncExternalStore(subscribeOutbox, getOutboxItems, getServerSnapshot);
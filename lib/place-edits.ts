@@ -0,0 +1,66 @@
+import { addHall, updateHall, updatePlace } from '@/lib/api';
+import { WorkStep } from '@/lib/unit-of-work';
+import { Hall, Place, PlaceRequestBody } from '@/types/place';
+
+// 장소 수정 화면의 변경을 작업 단위(lib/unit-of-work.ts)의 단계로 변환
+
+export interface HallChanges {
+  edits: Array<{ id: number; name: string }>;
+  adds: string[];
+}
+
+// 폼의 홀 이름 목록과 기존 홀 비교 - 같은 위치의 이름이 바뀌면 수정, 기존 개수를 넘는 항목은 추가
+// (홀 삭제 API가 없으므로 목록에서 빠진 홀은 변경하지 않음)
+export const diffHalls = (originalHalls: Hall[], hallNames: string[]): HallChanges => {
+  const edits = originalHalls
+    .map((hall, index) => ({ id: hall.id, name: hallNames[index] }))
+    .filter((edit, index) => edit.name && edit.name !== originalHalls[index].name);
+
+  const existingNames = new Set(hallNames.slice(0, originalHalls.length));
+  originalHalls.slice(hallNames.length).forEach(hall => existingNames.add(hall.name));
+  const adds = hallNames.slice(originalHalls.length).filter(name => name && !existingNames.has(name));
+
+  return { edits, adds };
+};
+
+const addHallStep = (placeId: number, name: string, index: number): WorkStep => ({
+  id: `add-hall-${index}`,
+  label: `홀 추가: ${name}`,
+  run: () => addHall(placeId, name),
+  // 홀 삭제 API가 없어서 되돌릴 수 없음
+});
+
+export const buildPlaceUpdateSteps = (original: Place, placeData: PlaceRequestBody, hallChanges?: HallChanges): WorkStep[] => {
+  const steps: WorkStep[] = [];
+
+  if (placeData.placeName !== original.placeName || placeData.address !== original.address) {
+    steps.push({
+      id: 'place',
+      label: `장소 정보 수정: ${original.placeName} → ${placeData.placeName}`,
+      run: () => updatePlace(original.id, placeData),
+      undo: () =>
+        updatePlace(original.id, {
+          placeName: original.placeName,
+          address: original.address,
+          placeHalls: original.halls.map(h => h.name),
+        }),
+    });
+  }
+
+  hallChanges?.edits.forEach(edit => {
+    const originalName = original.halls.find(h => h.id === edit.id)?.name || '';
+    steps.push({
+      id: `edit-hall-${edit.id}`,
+      label: `홀 이름 변경: ${originalName} → ${edit.name}`,
+      run: () => updateHall(edit.id, { name: edit.name }),
+      undo: () => updateHall(edit.id, { name: originalName }),
+    });
+  });
+
+  hallChanges?.adds.forEach((name, index) => steps.push(addHallStep(original.id, name, index)));
+
+  return steps;
+};
+
+export const buildAddHallsSteps = (placeId: number, hallNames: string[]): WorkStep[] =>
+  hallNames.map((name, index) => addHallStep(placeId, name, index));
@@ -0,0 +1,49 @@
+import { POSTER_IMAGE_HOSTS } from '@/lib/image-hosts';
+
+// 포스터 이미지 검사 - 호스트 허용 여부와 크기/비율
+// 검사 결과는 경고로만 보여주고 저장은 막지 않음
+
+// 세로 3:4 포스터 기준
+export const POSTER_MIN_WIDTH = 600;
+export const POSTER_MIN_HEIGHT = 800;
+export const POSTER_ASPECT_RATIO = 3 / 4;
+const POSTER_ASPECT_TOLERANCE = 0.1;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const getHttpsHost = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' ? parsed.hostname : null;
+  } catch {
+    return null;
+  }
+};
+
+// next/image 최적화(remotePatterns)를 거칠 수 있는 주소인지
+export const isAllowedPosterHost = (url: string) => {
+  const host = getHttpsHost(url);
+  return host !== null && POSTER_IMAGE_HOSTS.includes(host);
+};
+
+export const getPosterHostWarning = (url: string): string | null => {
+  if (!url || isAllowedPosterHost(url)) return null;
+  const host = getHttpsHost(url);
+  if (!host) return 'https 주소가 아니어서 이미지 최적화 없이 표시됩니다.';
+  return `'${host}'은(는) 허용된 이미지 호스트가 아닙니다. (허용: ${POSTER_IMAGE_HOSTS.join(', ')})`;
+};
+
+export const getPosterSizeWarnings = ({ width, height }: ImageSize): string[] => {
+  const warnings: string[] = [];
+  if (width < POSTER_MIN_WIDTH || height < POSTER_MIN_HEIGHT) {
+    warnings.push(`해상도가 낮습니다. (${width}×${height}, 최소 ${POSTER_MIN_WIDTH}×${POSTER_MIN_HEIGHT})`);
+  }
+  const ratio = width / height;
+  if (Math.abs(ratio - POSTER_ASPECT_RATIO) / POSTER_ASPECT_RATIO > POSTER_ASPECT_TOLERANCE) {
+    warnings.push(`세로 3:4 비율이 아닙니다. (현재 ${ratio.toFixed(2)}:1, 권장 ${POSTER_ASPECT_RATIO.toFixed(2)}:1)`);
+  }
+  return warnings;
+};
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 캐시는 모듈 상태이므로 테스트마다 새로 불러옴
+let queryCache: typeof import('@/lib/query-cache');
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.restoreAllMocks();
+  queryCache = await import('@/lib/query-cache');
+});
+
+// staleTime 0 - 한 번 받은 데이터는 바로 오래된 데이터가 됨
+const STALE = { staleTime: 0 };
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('cachedQuery', () => {
+  it('keeps serving stale data when the background revalidation fails and retries on the next read', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetcher = vi
+      .fn<() => Promise<string[]>>()
+      .mockResolvedValueOnce(['첫 조회'])
+      .mockRejectedValueOnce(new Error('서버 오류'))
+      .mockResolvedValueOnce(['다시 조회']);
+    const onChange = vi.fn();
+    queryCache.subscribeQueries(onChange);
+
+    await queryCache.cachedQuery('festivals', fetcher, STALE);
+    onChange.mockClear();
+
+    await expect(queryCache.cachedQuery('festivals', fetcher, STALE)).resolves.toEqual(['첫 조회']);
+    await flushPromises();
+
+    expect(consoleError).toHaveBeenCalled();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(queryCache.getQueryData('festivals')).toEqual(['첫 조회']);
+
+    await expect(queryCache.cachedQuery('festivals', fetcher, STALE)).resolves.toEqual(['첫 조회']);
+    await flushPromises();
+
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(queryCache.getQueryData('festivals')).toEqual(['다시 조회']);
+    expect(onChange).toHaveBeenCalledWith('festivals');
+  });
+
+  it('rejects without caching when the first fetch fails', async () => {
+    const fetcher = vi.fn<() => Promise<string[]>>().mockRejectedValueOnce(new Error('서버 오류')).mockResolvedValueOnce(['조회']);
+
+    await expect(queryCache.cachedQuery('places', fetcher)).rejects.toThrow('서버 오류');
+    expect(queryCache.getQueryData('places')).toBeUndefined();
+
+    await expect(queryCache.cachedQuery('places', fetcher)).resolves.toEqual(['조회']);
+  });
+});
@@ -0,0 +1,151 @@
+import { useEffect, useRef } from 'react';
+import { createLogger } from '@/lib/logger';
+
+// 조회 결과 캐시 - 리소스 키(festivals, festival:id, places, artists ...)별로 응답을 보관
+//
+// - 같은 키의 요청이 진행 중이면 새 요청을 보내지 않고 같은 Promise를 공유
+// - staleTime이 지난 데이터는 즉시 반환하고 백그라운드에서 다시 조회 (stale-while-revalidate)
+// - 변경 요청은 lib/api.ts에서 자신이 바꾼 키만 무효화하거나 직접 갱신
+
+export type QueryKey = string;
+
+export const queryKeys = {
+  festivals: 'festivals',
+  festival: (id: number) => `festival:${id}`,
+  places: 'places',
+  place: (id: number) => `place:${id}`,
+  artists: 'artists',
+  artist: (id: number) => `artist:${id}`,
+};
+
+// 기본 신선도 유지 시간 (30초)
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+interface CacheEntry<T = unknown> {
+  data?: T;
+  hasData: boolean;
+  updatedAt: number;
+  isInvalidated: boolean;
+  promise?: Promise<T>;
+  // 무효화될 때마다 증가 - 무효화 이전에 시작된 요청의 결과는 신선한 데이터로 취급하지 않음
+  version: number;
+}
+
+const cache = new Map<QueryKey, CacheEntry>();
+const listeners = new Set<(key: QueryKey) => void>();
+const log = createLogger('api');
+
+const notify = (key: QueryKey) => {
+  listeners.forEach(listener => listener(key));
+};
+
+const getEntry = <T>(key: QueryKey): CacheEntry<T> => {
+  let entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = { hasData: false, updatedAt: 0, isInvalidated: false, version: 0 };
+    cache.set(key, entry as CacheEntry);
+  }
+  return entry;
+};
+
+const isFresh = (entry: CacheEntry, staleTime: number) =>
+  entry.hasData && !entry.isInvalidated && Date.now() - entry.updatedAt < staleTime;
+
+const startFetch = <T>(key: QueryKey, entry: CacheEntry<T>, fetcher: () => Promise<T>): Promise<T> => {
+  if (entry.promise) return entry.promise;
+
+  const version = entry.version;
+  const promise = fetcher()
+    .then(data => {
+      entry.data = data;
+      entry.hasData = true;
+      entry.updatedAt = Date.now();
+      entry.isInvalidated = version !== entry.version;
+      notify(key);
+      return data;
+    })
+    .finally(() => {
+      if (entry.promise === promise) entry.promise = undefined;
+    });
+
+  entry.promise = promise;
+  return promise;
+};
+
+// 캐시를 거치는 조회
+export const cachedQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME_MS }: { staleTime?: number } = {}
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+
+  if (isFresh(entry, staleTime)) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  if (entry.hasData) {
+    // 오래된 데이터를 바로 돌려주고 백그라운드에서 갱신 - 갱신이 끝나면 구독자에게 알림
+    startFetch(key, entry, fetcher).catch(error => {
+      log.error(`Background revalidation failed for ${key}:`, error);
+    });
+    return Promise.resolve(entry.data as T);
+  }
+
+  return startFetch(key, entry, fetcher);
+};
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  return entry?.hasData ? entry.data : undefined;
+};
+
+// 변경 요청의 결과로 캐시를 직접 갱신 (데이터가 없는 키는 건드리지 않음)
+export const setQueryData = <T>(key: QueryKey, updater: (current: T) => T) => {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry?.hasData) return;
+  entry.data = updater(entry.data as T);
+  entry.updatedAt = Date.now();
+  notify(key);
+};
+
+const matchKeys = (target: QueryKey | RegExp) =>
+  Array.from(cache.keys()).filter(key => (typeof target === 'string' ? key === target : target.test(key)));
+
+// 다음 조회 때 다시 불러오도록 표시 - 구독 중인 화면은 알림을 받고 새로 조회
+export const invalidateQueries = (...targets: (QueryKey | RegExp)[]) => {
+  targets.flatMap(matchKeys).forEach(key => {
+    const entry = cache.get(key)!;
+    entry.isInvalidated = true;
+    entry.version += 1;
+    notify(key);
+  });
+};
+
+export const removeQuery = (key: QueryKey) => {
+  if (cache.delete(key)) notify(key);
+};
+
+// 키 접두사 패턴 (예: 모든 festival:id)
+export const keyPrefix = (prefix: string) => new RegExp(`^${prefix}:`);
+
+export const subscribeQueries = (listener: (key: QueryKey) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 지정한 키가 갱신/무효화되면 onChange 호출 - 화면의 load 함수를 다시 실행하는 용도
+export const useQuerySubscription = (keys: QueryKey[], onChange: () => void) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const keysSignature = keys.join('|');
+
+  useEffect(() => {
+    const watched = keysSignature.split('|');
+    return subscribeQueries(key => {
+      if (watched.includes(key)) onChangeRef.current();
+    });
+  }, [keysSignature]);
+};
@@ -0,0 +1,120 @@
+import { useSyncExternalStore } from 'react';
+import { getApiEnvironment } from '@/lib/environment';
+
+// 최근 API 요청/응답 기록 (링 버퍼) - 디버그 패널에서 확인하고 버그 리포트에 첨부
+// 관리자 비밀번호 헤더는 기록하지 않고, 본문은 길이를 잘라서 보관
+
+export interface RequestLogEntry {
+  id: number;
+  method: string;
+  endpoint: string;
+  baseUrl: string;
+  startedAt: number;
+  durationMs?: number;
+  status?: number; // 0이면 서버에 도달하지 못함
+  isAuthenticated: boolean;
+  requestBody?: string;
+  responseBody?: string;
+  error?: string;
+}
+
+const MAX_ENTRIES = 50;
+const MAX_BODY_LENGTH = 2000;
+
+let entries: RequestLogEntry[] = [];
+let sequence = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const truncate = (value: string) =>
+  value.length > MAX_BODY_LENGTH ? `${value.slice(0, MAX_BODY_LENGTH)}… (${value.length}자 중 ${MAX_BODY_LENGTH}자)` : value;
+
+const toText = (body: unknown): string | undefined => {
+  if (body === undefined || body === null || body === '') return undefined;
+  if (typeof body === 'string') return truncate(body);
+  try {
+    return truncate(JSON.stringify(body));
+  } catch {
+    return String(body);
+  }
+};
+
+const updateEntry = (id: number, changes: Partial<RequestLogEntry>) => {
+  entries = entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+  notify();
+};
+
+// 요청 시작 기록 - 반환된 함수로 응답(또는 실패)을 기록
+export const recordRequest = (request: {
+  method: string;
+  endpoint: string;
+  baseUrl: string;
+  isAuthenticated: boolean;
+  body?: unknown;
+}) => {
+  sequence += 1;
+  const id = sequence;
+  const startedAt = Date.now();
+  entries = [
+    {
+      id,
+      method: request.method,
+      endpoint: request.endpoint,
+      baseUrl: request.baseUrl,
+      startedAt,
+      isAuthenticated: request.isAuthenticated,
+      requestBody: toText(request.body),
+    },
+    ...entries,
+  ].slice(0, MAX_ENTRIES);
+  notify();
+
+  return (result: { status: number; body?: unknown; error?: string }) => {
+    updateEntry(id, {
+      durationMs: Date.now() - startedAt,
+      status: result.status,
+      responseBody: toText(result.body),
+      error: result.error,
+    });
+  };
+};
+
+export const getRequestLog = (): RequestLogEntry[] => entries;
+
+export const clearRequestLog = () => {
+  entries = [];
+  notify();
+};
+
+export const subscribeRequestLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const EMPTY: RequestLogEntry[] = [];
+const getServerSnapshot = () => EMPTY;
+
+export const useRequestLog = (): RequestLogEntry[] =>
+  useSyncExternalStore(subscribeRequestLog, getRequestLog, getServerSnapshot);
+
+// 버그 리포트에 첨부할 JSON - 환경과 브라우저 정보를 함께 기록
+export const buildBugReport = (note: string = ''): string => {
+  const environment = getApiEnvironment();
+  return JSON.stringify(
+    {
+      createdAt: new Date().toISOString(),
+      note,
+      page: typeof window !== 'undefined' ? window.location.href : '',
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      environment: { id: environment.profile.id, baseUrl: environment.profile.baseUrl },
+      requests: entries,
+    },
+    null,
+    2
+  );
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PerformanceResponse, TimeTableResponse } from '@/types/festival';
+import type { Place } from '@/types/place';
+
+// 지정한 연결과 선택한 환경은 모듈 상태와 localStorage에 보관되므로 테스트마다 새로 불러옴
+let resolution: typeof import('@/lib/resolution');
+let environment: typeof import('@/lib/environment');
+
+beforeEach(async () => {
+  window.localStorage.clear();
+  vi.resetModules();
+  resolution = await import('@/lib/resolution');
+  environment = await import('@/lib/environment');
+});
+
+// 같은 이름의 홀이 둘이라 관리자가 지정하지 않으면 ambiguous
+const place: Place = {
+  id: 1,
+  placeName: '올림픽공원',
+  address: '서울 송파구',
+  halls: [
+    { id: 10, name: '88잔디마당' },
+    { id: 11, name: '88잔디마당' },
+  ],
+};
+
+const timeTable = { id: 7, performanceDate: '2025-05-30', startTime: '18:00', endTime: '19:00', performanceHall: '88잔디마당', artists: [] } as TimeTableResponse;
+
+const performance = { id: 3, name: '페스티벌', placeName: '올림픽공원', placeAddress: '서울 송파구' } as PerformanceResponse;
+
+describe('link overrides across API environments', () => {
+  it('applies a hall link only in the environment it was saved in', () => {
+    environment.setApiEnvironment('dev');
+    resolution.setHallOverride(timeTable.id, 11);
+    expect(resolution.resolveHall(timeTable, place)).toEqual({ status: 'resolved', value: place.halls[1], source: 'override' });
+
+    environment.setApiEnvironment('custom', 'https://staging.example.com');
+    expect(resolution.resolveHall(timeTable, place)).toEqual({ status: 'ambiguous', candidates: place.halls });
+
+    resolution.setHallOverride(timeTable.id, 10);
+    environment.setApiEnvironment('dev');
+    expect(resolution.resolveHall(timeTable, place)).toMatchObject({ status: 'resolved', value: { id: 11 } });
+  });
+
+  it('keeps reading place links saved earlier, only in their environment', () => {
+    const other: Place = { ...place, id: 2, address: '서울 중구' };
+    const withoutAddress = { ...performance, placeAddress: '' };
+    window.localStorage.setItem('dals2bo-link-overrides:dev', JSON.stringify({ places: { [performance.id]: 2 }, halls: {} }));
+
+    environment.setApiEnvironment('dev');
+    expect(resolution.resolvePlace(withoutAddress, [place, other])).toMatchObject({ status: 'resolved', value: { id: 2 }, source: 'override' });
+
+    environment.setApiEnvironment('custom', 'https://staging.example.com');
+    expect(resolution.resolvePlace(withoutAddress, [place, other])).toEqual({ status: 'ambiguous', candidates: [place, other] });
+  });
+});
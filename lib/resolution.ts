@@ -0,0 +1,151 @@
+import { getApiEnvironment } from '@/lib/environment';
+import { LinkIssue, PerformanceResponse, TimeTableResponse } from '@/types/festival';
+import { Hall, Place } from '@/types/place';
+
+// 공연 응답의 장소/홀을 장소 목록의 id에 연결
+//
+// 1. 응답의 placeId/hallId가 목록에 있으면 그대로 사용 (이름은 표시용으로만 사용)
+// 2. 관리자가 직접 지정한 연결(overrides)이 있으면 사용
+// 3. 이름으로 찾되, 후보가 정확히 하나일 때만 연결하고 여럿이면 ambiguous, 없으면 unresolved로 보고
+//
+// 장소는 관리자가 지정하면 서버의 placeId를 수정하므로, 여기 남은 장소 지정은 이전에 저장된 것만 읽음
+// 홀 지정은 타임테이블 수정 API가 없어 이 브라우저의 localStorage에만 저장되며 서버 데이터는 바뀌지 않음
+// (환경마다 id가 다르므로 API 환경별로 따로 보관)
+
+export type ResolutionSource = 'id' | 'override' | 'name';
+
+export type Resolution<T> =
+  | { status: 'resolved'; value: T; source: ResolutionSource }
+  | { status: 'ambiguous'; candidates: T[] }
+  | { status: 'unresolved'; candidates: T[] };
+
+interface LinkOverrides {
+  places: Record<string, number>; // festivalId -> placeId
+  halls: Record<string, number>; // timetableId -> hallId
+}
+
+const OVERRIDES_STORAGE_KEY_PREFIX = 'dals2bo-link-overrides';
+
+const getStorageKey = () => `${OVERRIDES_STORAGE_KEY_PREFIX}:${getApiEnvironment().profile.id}`;
+
+const readOverrides = (): LinkOverrides => {
+  const empty: LinkOverrides = { places: {}, halls: {} };
+  if (typeof window === 'undefined') return empty;
+
+  const key = getStorageKey();
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return empty;
+    const saved = JSON.parse(raw) as Partial<LinkOverrides>;
+    return { places: saved.places || {}, halls: saved.halls || {} };
+  } catch {
+    window.localStorage.removeItem(key);
+    return empty;
+  }
+};
+
+const writeOverrides = (overrides: LinkOverrides) => {
+  window.localStorage.setItem(getStorageKey(), JSON.stringify(overrides));
+};
+
+export const setHallOverride = (timeTableId: number, hallId: number) => {
+  const overrides = readOverrides();
+  overrides.halls[timeTableId] = hallId;
+  writeOverrides(overrides);
+};
+
+// 후보가 하나면 연결, 여럿이면 ambiguous, 없으면 unresolved
+export const pickSingle = <T>(candidates: T[]): Resolution<T> => {
+  if (candidates.length === 1) return { status: 'resolved', value: candidates[0], source: 'name' };
+  if (candidates.length > 1) return { status: 'ambiguous', candidates };
+  return { status: 'unresolved', candidates: [] };
+};
+
+export const resolvePlace = (
+  performance: PerformanceResponse,
+  places: Place[],
+  overrides: LinkOverrides = readOverrides()
+): Resolution<Place> => {
+  // id가 목록에 없으면(삭제된 장소 등) 아래 단계로 넘어가 관리자 지정/이름으로 찾음
+  const byId = places.find(p => p.id === performance.placeId);
+  if (byId) return { status: 'resolved', value: byId, source: 'id' };
+
+  const overrideId = overrides.places[performance.id];
+  const overridden = places.find(p => p.id === overrideId);
+  if (overridden) return { status: 'resolved', value: overridden, source: 'override' };
+
+  if (!performance.placeName) return { status: 'unresolved', candidates: [] };
+
+  const sameName = places.filter(p => p.placeName === performance.placeName);
+  if (sameName.length > 1 && performance.placeAddress) {
+    // 이름이 같은 장소가 여럿이면 주소로 한 번 더 좁힘
+    const sameAddress = sameName.filter(p => p.address === performance.placeAddress);
+    if (sameAddress.length > 0) return pickSingle(sameAddress);
+  }
+  return pickSingle(sameName);
+};
+
+// 홀은 연결된 장소 안에서만 찾음 - 다른 장소의 같은 이름 홀에 잘못 연결되지 않도록
+export const resolveHall = (
+  timeTable: TimeTableResponse,
+  place: Place | undefined,
+  overrides: LinkOverrides = readOverrides()
+): Resolution<Hall> => {
+  const halls = place?.halls || [];
+
+  const byId = halls.find(h => h.id === timeTable.hallId);
+  if (byId) return { status: 'resolved', value: byId, source: 'id' };
+
+  const overrideId = overrides.halls[timeTable.id];
+  const overridden = halls.find(h => h.id === overrideId);
+  if (overridden) return { status: 'resolved', value: overridden, source: 'override' };
+
+  if (!timeTable.performanceHall) return { status: 'unresolved', candidates: [] };
+  return pickSingle(halls.filter(h => h.name === timeTable.performanceHall));
+};
+
+export interface FestivalLinks {
+  placeId?: number;
+  hallIds: Map<number, number>; // timetableId -> hallId
+  issues: LinkIssue[];
+}
+
+// 공연 하나의 장소/홀 연결 결과와 확인이 필요한 항목
+export const resolveFestivalLinks = (
+  performance: PerformanceResponse,
+  timeTables: TimeTableResponse[],
+  places: Place[]
+): FestivalLinks => {
+  const overrides = readOverrides();
+  const issues: LinkIssue[] = [];
+  const hallIds = new Map<number, number>();
+
+  const place = resolvePlace(performance, places, overrides);
+  if (place.status !== 'resolved') {
+    issues.push({
+      kind: 'place',
+      status: place.status,
+      name: performance.placeName,
+      candidateIds: place.candidates.map(p => p.id),
+    });
+    // 장소를 모르면 홀도 확정할 수 없으므로 장소부터 연결하도록 홀 항목은 보고하지 않음
+    return { hallIds, issues };
+  }
+
+  timeTables.forEach(tt => {
+    const hall = resolveHall(tt, place.value, overrides);
+    if (hall.status === 'resolved') {
+      hallIds.set(tt.id, hall.value.id);
+      return;
+    }
+    issues.push({
+      kind: 'hall',
+      status: hall.status,
+      name: tt.performanceHall,
+      timeTableId: tt.id,
+      candidateIds: hall.candidates.map(h => h.id),
+    });
+  });
+
+  return { placeId: place.value.id, hallIds, issues };
+};
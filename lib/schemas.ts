@@ -0,0 +1,252 @@
+import { AppleMusicArtist, Artist, ArtistAlias } from '@/lib/api';
+import { reportDiagnostics } from '@/lib/diagnostics';
+import { ResponseFormatError } from '@/lib/errors';
+import {
+  ArtistSummaryResponse,
+  FestivalResponse,
+  PerformanceResponse,
+  PerformanceURL,
+  ReservationInfoResponse,
+  TimeTableArtistResponse,
+  TimeTableResponse,
+  URLType,
+} from '@/types/festival';
+import { Hall, Place } from '@/types/place';
+
+// 응답 스키마 - 서버 응답을 런타임에 검사해서 화면이 깨지지 않도록 정리
+//
+// - 필수 값(id, 날짜/시간 등)이 잘못되면 해당 항목을 사용할 수 없음: 배열 안이면 그 항목만 제외
+// - 선택 값(문자열, 배열)이 잘못되면 빈 값으로 대체
+// - 어느 경우든 진단 목록(lib/diagnostics.ts)에 API와 필드 경로를 기록
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+const INVALID = Symbol('invalid');
+type Parsed<T> = T | typeof INVALID;
+
+export interface Schema<T> {
+  parse: (value: unknown, path: string, issues: SchemaIssue[]) => Parsed<T>;
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return value.length > 30 ? `"${value.slice(0, 30)}…"` : `"${value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return typeof value;
+};
+
+const addIssue = (issues: SchemaIssue[], path: string, expected: string, value: unknown) => {
+  issues.push({ path: path || '(root)', expected, received: describe(value) });
+};
+
+// --- 기본 스키마 ---
+
+const requiredValue = <T>(expected: string, isValid: (value: unknown) => boolean): Schema<T> => ({
+  parse: (value, path, issues) => {
+    if (isValid(value)) return value as T;
+    addIssue(issues, path, expected, value);
+    return INVALID;
+  },
+});
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// 양의 정수 id - 없으면 항목을 식별할 수 없으므로 필수
+const id: Schema<number> = requiredValue('id (number)', value => typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+// yyyy-MM-dd - 잘못된 날짜는 date-fns format에서 예외를 일으키므로 필수
+const date: Schema<string> = requiredValue('yyyy-MM-dd', value => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value));
+
+// HH:mm 또는 HH:mm:ss
+const time: Schema<string> = requiredValue('HH:mm', value => isString(value) && /^\d{2}:\d{2}(:\d{2})?$/.test(value));
+
+// 문자열 - null/undefined는 조용히 빈 문자열로, 다른 타입은 진단 기록 후 빈 문자열로 대체
+const text: Schema<string> = {
+  parse: (value, path, issues) => {
+    if (isString(value)) return value;
+    if (value !== null && value !== undefined) addIssue(issues, path, 'string', value);
+    return '';
+  },
+};
+
+const nullableText: Schema<string | null> = {
+  parse: (value, path, issues) => {
+    if (isString(value) || value === null) return value;
+    if (value !== undefined) addIssue(issues, path, 'string | null', value);
+    return null;
+  },
+};
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path, issues) => (value === undefined ? undefined : schema.parse(value, path, issues)),
+});
+
+const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  requiredValue(values.join(' | '), value => isString(value) && (values as readonly string[]).includes(value));
+
+// 배열 - 배열이 아니면 빈 배열로, 사용할 수 없는 항목은 제외
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      if (value !== null && value !== undefined) addIssue(issues, path, 'array', value);
+      return [];
+    }
+    return value.reduce<T[]>((acc, element, index) => {
+      const parsed = item.parse(element, `${path}[${index}]`, issues);
+      if (parsed !== INVALID) acc.push(parsed);
+      return acc;
+    }, []);
+  },
+});
+
+// 객체 - 스키마에 없는 필드는 그대로 두고, 필수 필드가 잘못되면 객체 전체를 사용할 수 없음
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  parse: (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      addIssue(issues, path, 'object', value);
+      return INVALID;
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    let isValid = true;
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      const parsed = shape[key].parse(source[key], path ? `${path}.${key}` : key, issues);
+      if (parsed === INVALID) {
+        isValid = false;
+      } else if (parsed !== undefined || key in source) {
+        result[key] = parsed;
+      }
+    });
+    return isValid ? (result as T) : INVALID;
+  },
+});
+
+// --- 응답 스키마 ---
+
+export const hallSchema = object<Hall>({
+  id,
+  name: text,
+});
+
+export const placeSchema = object<Place>({
+  id,
+  placeName: text,
+  address: text,
+  halls: array(hallSchema),
+});
+
+export const artistAliasSchema = object<ArtistAlias>({
+  id,
+  name: text,
+});
+
+export const artistSchema = object<Artist>({
+  id,
+  name: text,
+  description: text,
+  imageUrl: optional(nullableText),
+  aliases: array(artistAliasSchema),
+});
+
+export const appleMusicArtistSchema = object<AppleMusicArtist>({
+  artworkUrl: nullableText,
+  genreNames: array(text),
+  name: text,
+});
+
+export const performanceResponseSchema = object<PerformanceResponse>({
+  id,
+  name: text,
+  placeId: optional(id),
+  placeName: text,
+  placeAddress: text,
+  startDate: date,
+  endDate: date,
+  posterUrl: text,
+  banGoods: text,
+  transportationInfo: text,
+  remark: text,
+});
+
+export const timeTableArtistResponseSchema = object<TimeTableArtistResponse>({
+  timetableArtistId: id,
+  artistId: id,
+  artistName: text,
+  type: text,
+});
+
+export const timeTableResponseSchema = object<TimeTableResponse>({
+  id,
+  performanceDate: date,
+  startTime: time,
+  endTime: time,
+  hallId: optional(id),
+  performanceHall: text,
+  artists: array(timeTableArtistResponseSchema),
+});
+
+export const reservationInfoResponseSchema = object<ReservationInfoResponse>({
+  id,
+  openDateTime: text,
+  closeDateTime: text,
+  ticketURL: text,
+  type: text,
+  remark: text,
+});
+
+export const artistSummaryResponseSchema = object<ArtistSummaryResponse>({
+  id,
+  displayName: text,
+});
+
+export const performanceUrlSchema = object<PerformanceURL>({
+  url: text,
+  type: oneOf(Object.values(URLType)),
+});
+
+export const festivalResponseSchema = object<FestivalResponse>({
+  performance: performanceResponseSchema,
+  timeTables: array(timeTableResponseSchema),
+  reservationInfos: array(reservationInfoResponseSchema),
+  artists: array(artistSummaryResponseSchema),
+  urlInfos: array(performanceUrlSchema),
+});
+
+// --- 검증 진입점 ---
+
+interface ResponseContext {
+  endpoint: string;
+  method: string;
+}
+
+// 응답 본문 검증 - 문제는 진단 목록에 기록하고 정리된 값을 반환
+// 최상위 값 자체를 사용할 수 없을 때, strict면 ResponseFormatError를 던지고 아니면 원본을 그대로 반환
+// (변경 요청은 이미 서버에 반영되었으므로 strict: false로 호출)
+export const parseResponse = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  context: ResponseContext,
+  { strict = true }: { strict?: boolean } = {}
+): T => {
+  const issues: SchemaIssue[] = [];
+  const parsed = schema.parse(data, '', issues);
+
+  reportDiagnostics(issues.map(issue => ({ ...issue, endpoint: context.endpoint, method: context.method })));
+
+  if (parsed !== INVALID) return parsed;
+  if (!strict) return data as T;
+
+  throw new ResponseFormatError('서버 응답 형식이 올바르지 않습니다.', {
+    status: 200,
+    endpoint: context.endpoint,
+    method: context.method,
+    code: 'INVALID_RESPONSE',
+    details: issues,
+  });
+};
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { addTimeTable, addTimeTableArtist, deleteTimeTable, deleteTimeTableArtist } from '@/lib/api';
+import { buildTimeTableEditSteps, countTimeTableEdits, diffTimeTables } from '@/lib/timetable-edits';
+import { GridSlot, toGridSlot } from '@/lib/timetable-grid';
+import { createUnitOfWork } from '@/lib/unit-of-work';
+import { TimeTable, TimeTableResponse } from '@/types/festival';
+
+vi.mock('@/lib/api', () => ({
+  addTimeTable: vi.fn(),
+  addTimeTableArtist: vi.fn(),
+  deleteTimeTable: vi.fn(),
+  deleteTimeTableArtist: vi.fn(),
+}));
+
+const hallNames = { 10: '88잔디마당' };
+
+const timeTable = (id: number, startTime: string, artists: TimeTable['artists'] = []): TimeTable => ({
+  id,
+  performanceDate: '2025-05-30',
+  startTime,
+  endTime: '19:00',
+  hallId: 10,
+  artists,
+});
+
+const artistA = { artistId: 100, artistName: '아티스트 A', type: 'MAIN' };
+const artistB = { artistId: 101, artistName: '아티스트 B', type: 'MAIN' };
+
+const newSlot = (key: string, start: number, artists = [artistA]): GridSlot => ({
+  key,
+  performanceDate: '2025-05-30',
+  hallId: 10,
+  start,
+  end: start + 60,
+  artists,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  let nextId = 500;
+  vi.mocked(addTimeTable).mockImplementation(async () => ({ id: nextId++ }) as TimeTableResponse);
+});
+
+describe('diffTimeTables', () => {
+  it('sorts grid changes into removed, moved, added and artist changes', () => {
+    const removed = timeTable(1, '12:00');
+    const moved = timeTable(2, '14:00');
+    const reassigned = timeTable(3, '16:00', [artistA]);
+    const unchanged = timeTable(4, '18:00');
+    const added = newSlot('new-1', 20 * 60);
+
+    const edits = diffTimeTables(
+      [removed, moved, reassigned, unchanged],
+      [{ ...toGridSlot(moved), start: 15 * 60 }, { ...toGridSlot(reassigned), artists: [{ ...artistA, type: 'SUB' }] }, toGridSlot(unchanged), added]
+    );
+
+    expect(edits.removed).toEqual([removed]);
+    expect(edits.moved.map(({ original, slot }) => [original.id, slot.start])).toEqual([[2, 15 * 60]]);
+    expect(edits.added).toEqual([added]);
+    expect(edits.artistChanges).toEqual([{ original: reassigned, add: [{ ...artistA, type: 'SUB' }], remove: [artistA] }]);
+    expect(countTimeTableEdits(edits)).toBe(4);
+  });
+});
+
+describe('buildTimeTableEditSteps', () => {
+  it('deletes before adding and changes artists last', () => {
+    const original = timeTable(1, '12:00', [artistA]);
+    const edits = diffTimeTables([original, timeTable(2, '14:00')], [{ ...toGridSlot(original), start: 13 * 60 }, newSlot('new-1', 20 * 60, [])]);
+
+    const steps = buildTimeTableEditSteps(7, edits, hallNames);
+
+    expect(steps.map(step => step.label)).toEqual([
+      '타임테이블 삭제: 2025-05-30 14:00~19:00 88잔디마당',
+      '타임테이블 이동 - 기존 항목 삭제: 2025-05-30 12:00~19:00 88잔디마당',
+      '타임테이블 이동 - 새 위치에 추가: 2025-05-30 13:00~19:00 88잔디마당',
+      '아티스트 배정: 아티스트 A (2025-05-30 13:00~19:00 88잔디마당)',
+      '타임테이블 추가: 2025-05-30 20:00~21:00 88잔디마당',
+    ]);
+  });
+
+  it('assigns artists to the timetable created in an earlier step, outside the offline queue', async () => {
+    const edits = diffTimeTables([], [newSlot('new-1', 20 * 60)]);
+
+    const result = await createUnitOfWork(buildTimeTableEditSteps(7, edits, hallNames)).run();
+
+    expect(result.status).toBe('completed');
+    expect(addTimeTable).toHaveBeenCalledWith(
+      7,
+      { performanceDate: '2025-05-30', startTime: '20:00', endTime: '21:00', hallId: 10 },
+      { queueOffline: false }
+    );
+    expect(addTimeTableArtist).toHaveBeenCalledWith(500, { artistId: 100, participationType: 'MAIN' }, { queueOffline: false });
+  });
+
+  it('sends times past midnight as the next day time', async () => {
+    const edits = diffTimeTables([], [newSlot('new-1', 24 * 60 + 30, [])]);
+
+    await createUnitOfWork(buildTimeTableEditSteps(7, edits, hallNames)).run();
+
+    expect(vi.mocked(addTimeTable).mock.calls[0][1]).toMatchObject({ startTime: '00:30', endTime: '01:30' });
+  });
+
+  it('restores a deleted timetable with its artists on rollback', async () => {
+    const removed = timeTable(1, '12:00', [artistA, artistB]);
+    const edits = diffTimeTables([removed, timeTable(2, '14:00', [artistA])], [{ ...toGridSlot(timeTable(2, '14:00')), artists: [] }]);
+    vi.mocked(deleteTimeTableArtist).mockRejectedValue(new Error('실패'));
+    const unit = createUnitOfWork(buildTimeTableEditSteps(7, edits, hallNames));
+
+    await unit.run();
+    const result = await unit.rollback();
+
+    expect(result.status).toBe('rolledBack');
+    expect(deleteTimeTable).toHaveBeenCalledWith(7, 1);
+    expect(addTimeTable).toHaveBeenCalledWith(7, expect.objectContaining({ startTime: '12:00', endTime: '19:00' }), { queueOffline: false });
+    expect(vi.mocked(addTimeTableArtist).mock.calls.map(([timetableId, artist]) => [timetableId, artist.artistId])).toEqual([
+      [500, 100],
+      [500, 101],
+    ]);
+  });
+
+  it('reuses the restored timetable and skips assigned artists when a rollback is retried', async () => {
+    const removed = timeTable(1, '12:00', [artistA, artistB]);
+    const edits = diffTimeTables([removed, timeTable(2, '14:00', [artistA])], [{ ...toGridSlot(timeTable(2, '14:00')), artists: [] }]);
+    vi.mocked(deleteTimeTableArtist).mockRejectedValue(new Error('실패'));
+    vi.mocked(addTimeTableArtist)
+      .mockResolvedValueOnce({} as TimeTableResponse)
+      .mockRejectedValueOnce(new Error('배정 실패'))
+      .mockResolvedValue({} as TimeTableResponse);
+    const unit = createUnitOfWork(buildTimeTableEditSteps(7, edits, hallNames));
+
+    await unit.run();
+    expect((await unit.rollback()).status).toBe('failed');
+    expect((await unit.rollback()).status).toBe('rolledBack');
+
+    expect(addTimeTable).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(addTimeTableArtist).mock.calls.map(([timetableId, artist]) => [timetableId, artist.artistId])).toEqual([
+      [500, 100],
+      [500, 101],
+      [500, 101],
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { addTimeTable, addTimeTableArtist, deleteTimeTable, deleteTimeTableArtist } from '@/lib/api';
+import { formatGridTime, GridSlot, toGridSlot, toTimeString } from '@/lib/timetable-grid';
+import { WorkStep } from '@/lib/unit-of-work';
+import { TimeTable, TimeTableArtist } from '@/types/festival';
+
+// 타임테이블 그리드의 변경을 작업 단위(lib/unit-of-work.ts)의 단계로 변환
+//
+// - 타임테이블 수정 API가 없으므로 날짜/홀/시간이 바뀐 항목은 삭제 후 다시 추가 (아티스트도 다시 배정)
+// - 겹침을 피하려고 삭제 → 추가 → 아티스트 변경 순서로 실행
+// - 아티스트의 참여 유형(MAIN/SUB)을 바꾼 경우도 배정 해제 후 다시 배정
+// - 다시 시도/되돌리기는 작업 단위가 맡으므로 오프라인 대기열에 저장하지 않음 (queueOffline: false)
+
+const NO_OFFLINE_QUEUE = { queueOffline: false };
+
+export interface TimeTableEdits {
+  removed: TimeTable[];
+  moved: Array<{ original: TimeTable; slot: GridSlot }>;
+  added: GridSlot[];
+  artistChanges: Array<{ original: TimeTable; add: TimeTableArtist[]; remove: TimeTableArtist[] }>;
+}
+
+const isSamePosition = (slot: GridSlot, original: GridSlot) =>
+  slot.performanceDate === original.performanceDate &&
+  slot.hallId === original.hallId &&
+  slot.start === original.start &&
+  slot.end === original.end;
+
+const hasArtist = (artists: TimeTableArtist[], target: TimeTableArtist) =>
+  artists.some(artist => artist.artistId === target.artistId && artist.type === target.type);
+
+// originals는 그리드에 놓을 수 있는 항목만 (lib/timetable-grid.ts의 isGridEditable)
+export const diffTimeTables = (originals: TimeTable[], slots: GridSlot[]): TimeTableEdits => {
+  const edits: TimeTableEdits = { removed: [], moved: [], added: [], artistChanges: [] };
+
+  originals.forEach(original => {
+    const slot = slots.find(s => s.id === original.id);
+    if (!slot) {
+      edits.removed.push(original);
+      return;
+    }
+    if (!isSamePosition(slot, toGridSlot(original))) {
+      edits.moved.push({ original, slot });
+      return;
+    }
+    const add = slot.artists.filter(artist => !hasArtist(original.artists, artist));
+    const remove = original.artists.filter(artist => !hasArtist(slot.artists, artist));
+    if (add.length > 0 || remove.length > 0) edits.artistChanges.push({ original, add, remove });
+  });
+
+  edits.added = slots.filter(slot => slot.id === undefined);
+  return edits;
+};
+
+export const countTimeTableEdits = (edits: TimeTableEdits) =>
+  edits.removed.length + edits.moved.length + edits.added.length + edits.artistChanges.length;
+
+export const describeTimeTable = (
+  tt: { performanceDate: string; start: number; end: number; hallId?: number },
+  hallNames: Record<number, string>
+) => `${tt.performanceDate} ${formatGridTime(tt.start)}~${formatGridTime(tt.end)} ${hallNames[tt.hallId ?? 0] || `홀 #${tt.hallId}`}`;
+
+const artistLabel = (artist: TimeTableArtist) => artist.artistName || `#${artist.artistId}`;
+
+export const buildTimeTableEditSteps = (
+  performanceId: number,
+  edits: TimeTableEdits,
+  hallNames: Record<number, string>
+): WorkStep[] => {
+  const steps: WorkStep[] = [];
+  const createdIds = new Map<string, number>(); // 그리드 항목 key → 새로 만든 타임테이블 id
+
+  const getCreatedId = (key: string) => {
+    const id = createdIds.get(key);
+    if (id === undefined) throw new Error('타임테이블이 아직 생성되지 않았습니다.');
+    return id;
+  };
+
+  const createSlot = async (slot: Pick<GridSlot, 'performanceDate' | 'hallId' | 'start' | 'end'>) => {
+    const created = await addTimeTable(
+      performanceId,
+      { performanceDate: slot.performanceDate, startTime: toTimeString(slot.start), endTime: toTimeString(slot.end), hallId: slot.hallId },
+      NO_OFFLINE_QUEUE
+    );
+    return created.id;
+  };
+
+  const assignArtist = (timetableId: number, artist: TimeTableArtist) =>
+    addTimeTableArtist(timetableId, { artistId: artist.artistId, participationType: artist.type }, NO_OFFLINE_QUEUE);
+
+  // 삭제를 되돌리면 같은 자리에 새 타임테이블을 만들고 아티스트를 다시 배정
+  // 되돌리기가 중간에 실패해서 다시 시도하면 이미 만든 타임테이블과 배정한 아티스트는 건너뜀
+  const deleteStep = (original: TimeTable, label: string): WorkStep => {
+    let restoredId: number | undefined;
+    let restoredArtistCount = 0;
+
+    return {
+      id: `delete-${original.id}`,
+      label,
+      run: async () => {
+        await deleteTimeTable(performanceId, original.id!);
+        restoredId = undefined;
+        restoredArtistCount = 0;
+      },
+      undo: async () => {
+        if (restoredId === undefined) restoredId = await createSlot(toGridSlot(original));
+        for (const artist of original.artists.slice(restoredArtistCount)) {
+          await assignArtist(restoredId, artist);
+          restoredArtistCount += 1;
+        }
+      },
+    };
+  };
+
+  const addSteps = (slot: GridSlot, label: string): WorkStep[] => [
+    {
+      id: `add-${slot.key}`,
+      label,
+      run: async () => {
+        createdIds.set(slot.key, await createSlot(slot));
+      },
+      undo: async () => {
+        await deleteTimeTable(performanceId, getCreatedId(slot.key));
+        createdIds.delete(slot.key);
+      },
+    },
+    // 아티스트마다 단계를 나눠서 다시 시도할 때 이미 배정된 아티스트가 중복되지 않게 함
+    ...slot.artists.map(
+      (artist): WorkStep => ({
+        id: `add-${slot.key}-artist-${artist.artistId}`,
+        label: `아티스트 배정: ${artistLabel(artist)} (${describeTimeTable(slot, hallNames)})`,
+        run: () => assignArtist(getCreatedId(slot.key), artist),
+        // 타임테이블 추가를 되돌리면 함께 삭제됨
+        undo: async () => {},
+      })
+    ),
+  ];
+
+  edits.removed.forEach(original => {
+    steps.push(deleteStep(original, `타임테이블 삭제: ${describeTimeTable(toGridSlot(original), hallNames)}`));
+  });
+  edits.moved.forEach(({ original }) => {
+    steps.push(deleteStep(original, `타임테이블 이동 - 기존 항목 삭제: ${describeTimeTable(toGridSlot(original), hallNames)}`));
+  });
+
+  edits.moved.forEach(({ slot }) => {
+    steps.push(...addSteps(slot, `타임테이블 이동 - 새 위치에 추가: ${describeTimeTable(slot, hallNames)}`));
+  });
+  edits.added.forEach(slot => {
+    steps.push(...addSteps(slot, `타임테이블 추가: ${describeTimeTable(slot, hallNames)}`));
+  });
+
+  edits.artistChanges.forEach(({ original, add, remove }) => {
+    const timetableId = original.id!;
+    const where = describeTimeTable(toGridSlot(original), hallNames);
+    remove.forEach(artist => {
+      steps.push({
+        id: `remove-${timetableId}-artist-${artist.artistId}-${artist.type}`,
+        label: `아티스트 배정 해제: ${artistLabel(artist)} (${where})`,
+        run: () => deleteTimeTableArtist(timetableId, artist.artistId),
+        undo: () => assignArtist(timetableId, artist),
+      });
+    });
+    add.forEach(artist => {
+      steps.push({
+        id: `add-${timetableId}-artist-${artist.artistId}-${artist.type}`,
+        label: `아티스트 배정: ${artistLabel(artist)} (${where})`,
+        run: () => assignArtist(timetableId, artist),
+        undo: () => deleteTimeTableArtist(timetableId, artist.artistId),
+      });
+    });
+  });
+
+  return steps;
+};
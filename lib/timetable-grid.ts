@@ -0,0 +1,108 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { TimeTable, TimeTableArtist } from '@/types/festival';
+
+// 타임테이블 그리드 편집 - 홀을 열, 일정 간격(5/10/15분)을 행으로 두고 끌어서 편집
+//
+// - 시간은 자정 기준 분으로 다루고, 자정을 넘기는 공연은 종료를 24:00 이후(예: 25:00)로 표시
+// - 편집은 화면에만 반영(staged)하고 저장할 때 lib/timetable-edits.ts의 단계로 한 번에 전송
+// - 날짜/시간 미정(0001-01-01, 00:00~00:00)이나 홀을 연결하지 못한 항목은 그리드에 놓을 수 없어 그대로 둠
+
+export type GridStep = 5 | 10 | 15;
+
+export const GRID_STEPS: GridStep[] = [5, 10, 15];
+export const DEFAULT_GRID_STEP: GridStep = 10;
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_RANGE = { start: 12 * 60, end: MINUTES_PER_DAY };
+const MAX_GRID_END = 30 * 60; // 다음 날 06:00까지
+
+// 타임테이블 추가 폼의 "날짜/시간 미정 설정"이 넣는 값
+export const UNDECIDED_DATE = '0001-01-01';
+
+// "시간 미정 설정"은 날짜는 두고 00:00~00:00만 넣음
+export const isUndecidedDate = (tt: Pick<TimeTable, 'performanceDate'>) => tt.performanceDate === UNDECIDED_DATE;
+export const isUndecidedTime = (tt: Pick<TimeTable, 'startTime' | 'endTime'>) =>
+  tt.startTime.slice(0, 5) === '00:00' && tt.endTime.slice(0, 5) === '00:00';
+
+export interface GridSlot {
+  key: string; // 기존 항목은 tt-{id}, 새 항목은 new-{n}
+  id?: number; // 서버의 타임테이블 id
+  performanceDate: string;
+  hallId: number;
+  start: number; // 분
+  end: number; // 분, start보다 큼
+  artists: TimeTableArtist[];
+}
+
+export interface GridRange {
+  start: number;
+  end: number;
+}
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// 그리드 표시용 - 24:00 이후도 그대로 (25:30)
+export const formatGridTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// 서버 전송용 HH:mm - 자정을 넘긴 시간은 다음 날 시각으로
+export const toTimeString = (minutes: number) => formatGridTime(minutes % MINUTES_PER_DAY);
+
+export const snapMinutes = (minutes: number, step: GridStep) => Math.round(minutes / step) * step;
+
+export const isGridEditable = (tt: TimeTable) =>
+  Boolean(tt.id && tt.hallId) && !isUndecidedDate(tt) && !isUndecidedTime(tt);
+
+export const toGridSlot = (tt: TimeTable): GridSlot => {
+  const start = toMinutes(tt.startTime);
+  let end = toMinutes(tt.endTime);
+  if (end <= start) end += MINUTES_PER_DAY;
+  return {
+    key: `tt-${tt.id}`,
+    id: tt.id,
+    performanceDate: tt.performanceDate,
+    hallId: tt.hallId!,
+    start,
+    end,
+    artists: tt.artists.map(artist => ({ ...artist })),
+  };
+};
+
+export const toGridSlots = (timeTables: TimeTable[]) => timeTables.filter(isGridEditable).map(toGridSlot);
+
+// 페스티벌 기간의 날짜 + 기간 밖에 남아 있는 타임테이블 날짜
+export const getGridDates = (startDate: string, endDate: string, slots: GridSlot[]) => {
+  const dates = new Set(slots.map(slot => slot.performanceDate));
+  if (startDate && endDate && startDate <= endDate) {
+    for (let date = startDate; date <= endDate; date = format(addDays(parseISO(date), 1), 'yyyy-MM-dd')) {
+      dates.add(date);
+    }
+  }
+  return Array.from(dates).sort();
+};
+
+// 기본 12:00~24:00, 그날 공연이 범위를 벗어나면 정시 단위로 넓힘
+export const getGridRange = (slots: GridSlot[]): GridRange => {
+  const start = Math.min(DEFAULT_RANGE.start, ...slots.map(slot => Math.floor(slot.start / 60) * 60));
+  const end = Math.max(DEFAULT_RANGE.end, ...slots.map(slot => Math.ceil(slot.end / 60) * 60));
+  return { start: Math.max(0, start), end: Math.min(MAX_GRID_END, end) };
+};
+
+// 같은 날짜, 같은 홀에서 시간이 겹치는지 - 경계가 맞닿는 것은 허용
+export const findOverlap = (slots: GridSlot[], target: Omit<GridSlot, 'artists'>) =>
+  slots.find(
+    slot =>
+      slot.key !== target.key &&
+      slot.performanceDate === target.performanceDate &&
+      slot.hallId === target.hallId &&
+      slot.start < target.end &&
+      target.start < slot.end
+  );
+
+export const clampToRange = (start: number, length: number, range: GridRange) => {
+  const clampedStart = Math.min(Math.max(start, range.start), range.end - length);
+  return { start: clampedStart, end: clampedStart + length };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createUnitOfWork, WorkStep } from '@/lib/unit-of-work';
+
+const step = (id: string, overrides: Partial<WorkStep> = {}): WorkStep => ({
+  id,
+  label: id,
+  run: vi.fn().mockResolvedValue(undefined),
+  undo: vi.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+const statuses = (unit: ReturnType<typeof createUnitOfWork>) => unit.getState().steps.map(s => s.status);
+
+describe('createUnitOfWork', () => {
+  it('runs every step in order and completes', async () => {
+    const order: string[] = [];
+    const steps = ['a', 'b', 'c'].map(id => step(id, { run: async () => void order.push(id) }));
+    const unit = createUnitOfWork(steps);
+
+    const result = await unit.run();
+
+    expect(result.status).toBe('completed');
+    expect(order).toEqual(['a', 'b', 'c']);
+    expect(statuses(unit)).toEqual(['done', 'done', 'done']);
+  });
+
+  it('stops at the first failure and leaves later steps pending', async () => {
+    const later = step('c');
+    const unit = createUnitOfWork([step('a'), step('b', { run: () => Promise.reject(new Error('실패')) }), later]);
+
+    const result = await unit.run();
+
+    expect(result.status).toBe('failed');
+    expect(statuses(unit)).toEqual(['done', 'failed', 'pending']);
+    expect(result.steps[1].errorMessage).toBe('실패');
+    expect(later.run).not.toHaveBeenCalled();
+  });
+
+  it('retries only the failed and pending steps', async () => {
+    const first = step('a');
+    const flaky = vi.fn().mockRejectedValueOnce(new Error('일시 오류')).mockResolvedValue(undefined);
+    const unit = createUnitOfWork([first, step('b', { run: flaky }), step('c')]);
+
+    await unit.run();
+    const result = await unit.retryFailed();
+
+    expect(result.status).toBe('completed');
+    expect(first.run).toHaveBeenCalledTimes(1);
+    expect(flaky).toHaveBeenCalledTimes(2);
+    expect(result.steps[1].errorMessage).toBeUndefined();
+  });
+
+  it('rolls back completed steps in reverse order', async () => {
+    const order: string[] = [];
+    const undoing = (id: string) => step(id, { undo: async () => void order.push(id) });
+    const unit = createUnitOfWork([undoing('a'), undoing('b'), step('c', { run: () => Promise.reject(new Error('실패')) })]);
+
+    await unit.run();
+    const result = await unit.rollback();
+
+    expect(result.status).toBe('rolledBack');
+    expect(order).toEqual(['b', 'a']);
+    expect(statuses(unit)).toEqual(['undone', 'undone', 'failed']);
+  });
+
+  it('keeps steps without undo as done and marks them not undoable', async () => {
+    const unit = createUnitOfWork([step('a', { undo: undefined }), step('b', { run: () => Promise.reject(new Error('실패')) })]);
+
+    await unit.run();
+    const result = await unit.rollback();
+
+    expect(result.steps[0]).toMatchObject({ status: 'done', canUndo: false });
+    expect(result.status).toBe('rolledBack');
+  });
+
+  it('stays failed when an undo fails so the rollback can be repeated', async () => {
+    const undo = vi.fn().mockRejectedValueOnce(new Error('되돌리기 실패')).mockResolvedValue(undefined);
+    const unit = createUnitOfWork([step('a', { undo }), step('b', { run: () => Promise.reject(new Error('실패')) })]);
+
+    await unit.run();
+    const first = await unit.rollback();
+    expect(first.status).toBe('failed');
+    expect(first.steps[0].status).toBe('undoFailed');
+
+    const second = await unit.rollback();
+    expect(second.status).toBe('rolledBack');
+    expect(second.steps[0].status).toBe('undone');
+  });
+
+  it('reports every state change to onChange', async () => {
+    const onChange = vi.fn();
+    const unit = createUnitOfWork([step('a')], onChange);
+
+    await unit.run();
+
+    expect(onChange.mock.calls.map(([state]) => state.status)).toEqual(['running', 'running', 'running', 'completed']);
+  });
+});
@@ -0,0 +1,108 @@
+import { getErrorMessage } from '@/lib/errors';
+
+// 작업 단위(unit of work) - 여러 API 요청을 하나의 변경으로 묶어서 실행
+//
+// - 단계는 순서대로 실행하고, 실패하면 이후 단계는 실행하지 않음 (pending으로 남김)
+// - 실패 후에는 실패/미실행 단계만 다시 시도하거나, 완료된 단계를 역순으로 되돌릴 수 있음
+// - undo가 없는 단계(예: 홀 추가 - 삭제 API 없음)는 되돌릴 수 없는 것으로 표시
+
+export interface WorkStep {
+  id: string;
+  label: string;
+  run: () => Promise<unknown>;
+  undo?: () => Promise<unknown>;
+}
+
+export type WorkStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'undoing' | 'undone' | 'undoFailed';
+
+export interface WorkStepState {
+  id: string;
+  label: string;
+  status: WorkStepStatus;
+  canUndo: boolean;
+  error?: unknown;
+  errorMessage?: string;
+}
+
+export type UnitOfWorkStatus = 'idle' | 'running' | 'completed' | 'failed' | 'rollingBack' | 'rolledBack';
+
+export interface UnitOfWorkState {
+  status: UnitOfWorkStatus;
+  steps: WorkStepState[];
+}
+
+export interface UnitOfWork {
+  getState: () => UnitOfWorkState;
+  // 처음 실행 - 이미 완료된 단계는 건너뜀
+  run: () => Promise<UnitOfWorkState>;
+  // 실패/미실행 단계만 다시 실행
+  retryFailed: () => Promise<UnitOfWorkState>;
+  // 완료된 단계를 역순으로 되돌림
+  rollback: () => Promise<UnitOfWorkState>;
+}
+
+export const createUnitOfWork = (steps: WorkStep[], onChange: (state: UnitOfWorkState) => void = () => {}): UnitOfWork => {
+  let state: UnitOfWorkState = {
+    status: 'idle',
+    steps: steps.map(step => ({ id: step.id, label: step.label, status: 'pending', canUndo: !!step.undo })),
+  };
+
+  const setState = (next: UnitOfWorkState) => {
+    state = next;
+    onChange(state);
+  };
+
+  const updateStep = (id: string, changes: Partial<WorkStepState>) => {
+    setState({ ...state, steps: state.steps.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+  };
+
+  const stepStatus = (id: string) => state.steps.find(s => s.id === id)!.status;
+
+  const runPending = async (): Promise<UnitOfWorkState> => {
+    setState({ ...state, status: 'running' });
+    for (const step of steps) {
+      if (stepStatus(step.id) === 'done') continue;
+
+      updateStep(step.id, { status: 'running', error: undefined, errorMessage: undefined });
+      try {
+        await step.run();
+        updateStep(step.id, { status: 'done' });
+      } catch (error) {
+        updateStep(step.id, { status: 'failed', error, errorMessage: getErrorMessage(error) });
+        setState({ ...state, status: 'failed' });
+        return state;
+      }
+    }
+    setState({ ...state, status: 'completed' });
+    return state;
+  };
+
+  const rollback = async (): Promise<UnitOfWorkState> => {
+    setState({ ...state, status: 'rollingBack' });
+    const applied = steps.filter(step => stepStatus(step.id) === 'done' || stepStatus(step.id) === 'undoFailed').reverse();
+    for (const step of applied) {
+      if (!step.undo) continue;
+
+      updateStep(step.id, { status: 'undoing' });
+      try {
+        await step.undo();
+        updateStep(step.id, { status: 'undone', error: undefined, errorMessage: undefined });
+      } catch (error) {
+        updateStep(step.id, { status: 'undoFailed', error, errorMessage: getErrorMessage(error) });
+      }
+    }
+
+    // 되돌리기에 실패한 단계가 있으면 실패 상태를 유지해서 다시 되돌릴 수 있게 함
+    // (undo가 없는 단계는 done으로 남음)
+    const hasUndoFailure = state.steps.some(s => s.status === 'undoFailed');
+    setState({ ...state, status: hasUndoFailure ? 'failed' : 'rolledBack' });
+    return state;
+  };
+
+  return {
+    getState: () => state,
+    run: runPending,
+    retryFailed: runPending,
+    rollback,
+  };
+};
@@ -0,0 +1,59 @@
+import { URLType } from '@/types/festival';
+
+// 페스티벌 URL 종류별 표시 이름과 주소 형식
+//
+// - 호스트가 정해진 종류는 해당 서비스 주소만 허용 (하위 도메인 포함 - www., m. 등)
+// - 홈페이지/예매처는 사이트가 제각각이라 http(s) 형식만 확인
+
+// 등록 후 URL 수정 - 서버의 URL 목록 교체 API가 확인되기 전까지 NEXT_PUBLIC_ENABLE_URL_EDITING=true인 빌드에서만 사용
+// 꺼져 있으면 URL은 페스티벌을 만들 때만 저장됨 (createFestival)
+export const isUrlEditingEnabled = (): boolean => process.env.NEXT_PUBLIC_ENABLE_URL_EDITING === 'true';
+
+export const URL_TYPE_LABELS: Record<URLType, string> = {
+  [URLType.HOMEPAGE]: '홈페이지',
+  [URLType.INSTAGRAM]: '인스타그램',
+  [URLType.YOUTUBE]: '유튜브',
+  [URLType.X]: 'X(트위터)',
+  [URLType.TICKET]: '예매처',
+  [URLType.APP]: '공식 앱',
+  [URLType.KAKAO_CHANNEL]: '카카오톡 채널',
+};
+
+// 선택 목록 순서
+export const URL_TYPES = Object.values(URLType);
+
+const URL_TYPE_HOSTS: Partial<Record<URLType, string[]>> = {
+  [URLType.INSTAGRAM]: ['instagram.com'],
+  [URLType.YOUTUBE]: ['youtube.com', 'youtu.be'],
+  [URLType.X]: ['x.com', 'twitter.com'],
+  [URLType.APP]: ['apps.apple.com', 'play.google.com'],
+  [URLType.KAKAO_CHANNEL]: ['pf.kakao.com'],
+};
+
+export const URL_TYPE_PLACEHOLDERS: Record<URLType, string> = {
+  [URLType.HOMEPAGE]: 'https://',
+  [URLType.INSTAGRAM]: 'https://www.instagram.com/...',
+  [URLType.YOUTUBE]: 'https://www.youtube.com/@...',
+  [URLType.X]: 'https://x.com/...',
+  [URLType.TICKET]: 'https://',
+  [URLType.APP]: 'https://apps.apple.com/... 또는 https://play.google.com/...',
+  [URLType.KAKAO_CHANNEL]: 'https://pf.kakao.com/...',
+};
+
+const matchesHost = (hostname: string, host: string) => hostname === host || hostname.endsWith(`.${host}`);
+
+// 종류에 맞지 않는 주소면 메시지 - 형식이 잘못된 URL은 httpUrl 검사에 맡기고 통과시킴
+export const getUrlTypeMismatch = (type: string, url: string): string | null => {
+  const hosts = URL_TYPE_HOSTS[type as URLType];
+  if (!hosts) return null;
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return hosts.some(host => matchesHost(hostname, host))
+    ? null
+    : `${URL_TYPE_LABELS[type as URLType]} 주소는 ${hosts.join(', ')} 도메인이어야 합니다.`;
+};
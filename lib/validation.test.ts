@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { dateFormat, getListErrors, hasErrors, isDate, isDateTime, isHttpUrl, isTime, required, validate, ValidationSchema } from '@/lib/validation';
+
+interface Item {
+  name: string;
+}
+
+interface Form {
+  title: string;
+  count: number;
+  date: string;
+  items: Item[];
+}
+
+const schema: ValidationSchema<Form> = {
+  title: [required('제목을 입력해주세요.'), title => (title.length > 5 ? '제목이 너무 깁니다.' : null)],
+  count: [required('개수를 입력해주세요.')],
+  date: [dateFormat()],
+  items: {
+    checks: [items => (items.length === 0 ? '항목을 추가해주세요.' : null)],
+    each: { name: [required('이름을 입력해주세요.')] },
+  },
+};
+
+const form = (overrides: Partial<Form> = {}): Form => ({ title: '제목', count: 1, date: '', items: [{ name: 'a' }], ...overrides });
+
+describe('validate', () => {
+  it('passes valid data', () => {
+    const errors = validate(schema, form());
+
+    expect(errors).toEqual({});
+    expect(hasErrors(errors)).toBe(false);
+  });
+
+  it('keeps only the first failing check of each field', () => {
+    expect(validate(schema, form({ title: ' ', count: 0 }))).toEqual({
+      title: '제목을 입력해주세요.',
+      count: '개수를 입력해주세요.',
+    });
+  });
+
+  it('lets format checks pass blank values', () => {
+    expect(validate(schema, form({ date: '' }))).toEqual({});
+    expect(validate(schema, form({ date: '2025-02-30' }))).toEqual({ date: '날짜 형식이 올바르지 않습니다. (yyyy-MM-dd)' });
+  });
+
+  it('checks the list and each of its items under indexed paths', () => {
+    expect(validate(schema, form({ items: [] }))).toEqual({ items: '항목을 추가해주세요.' });
+
+    const errors = validate(schema, form({ items: [{ name: 'a' }, { name: '' }] }));
+    expect(errors).toEqual({ 'items[1].name': '이름을 입력해주세요.' });
+    expect(getListErrors(errors, 'items')).toEqual([{ index: 1, field: 'name', message: '이름을 입력해주세요.' }]);
+  });
+
+  it('builds item rules from the whole data when each is a function', () => {
+    const titleSchema: ValidationSchema<Form> = {
+      items: { each: ({ title }) => ({ name: [name => (name === title ? '제목과 같은 이름입니다.' : null)] }) },
+    };
+
+    expect(validate(titleSchema, form({ items: [{ name: '제목' }] }))).toEqual({ 'items[0].name': '제목과 같은 이름입니다.' });
+  });
+});
+
+describe('value formats', () => {
+  it('accepts only real calendar dates', () => {
+    expect(isDate('2025-05-01')).toBe(true);
+    expect(isDate('2025-13-01')).toBe(false);
+    expect(isDate('2025-5-1')).toBe(false);
+  });
+
+  it('accepts 24-hour times and date-times with optional seconds', () => {
+    expect(isTime('23:59')).toBe(true);
+    expect(isTime('24:00')).toBe(false);
+    expect(isDateTime('2025-05-01T18:00')).toBe(true);
+    expect(isDateTime('2025-05-01T18:00:30')).toBe(true);
+    expect(isDateTime('2025-05-01 18:00')).toBe(false);
+  });
+
+  it('accepts only http(s) URLs', () => {
+    expect(isHttpUrl('https://example.com/a')).toBe(true);
+    expect(isHttpUrl('ftp://example.com')).toBe(false);
+    expect(isHttpUrl('https://exa mple.com')).toBe(false);
+  });
+});
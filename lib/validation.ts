@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import { isValid, parseISO } from 'date-fns';
+
+// 선언형 검증 - 엔티티별 규칙(types/*-rules.ts)을 폼과 일괄 가져오기에서 함께 사용
+//
+// - 규칙은 필드별 검사 함수 목록, 목록 필드는 항목마다 적용할 규칙(each)을 둘 수 있음
+// - 에러 키는 서버 fieldErrors와 같은 경로 (name, urlInfos[0].url ...)
+// - 필드마다 첫 번째로 실패한 검사의 메시지만 사용
+
+export type ValidationErrors = Record<string, string>;
+
+// 통과하면 null, 실패하면 메시지
+export type Check<V, T> = (value: V, data: T) => string | null;
+
+export interface ListRules<I, T> {
+  checks?: Check<I[], T>[];
+  each?: ValidationSchema<I> | ((data: T) => ValidationSchema<I>);
+}
+
+export type ValidationSchema<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends (infer I)[] ? Check<T[K], T>[] | ListRules<I, T> : Check<T[K], T>[];
+};
+
+const runChecks = <V, T>(checks: Check<V, T>[], value: V, data: T) => {
+  for (const check of checks) {
+    const message = check(value, data);
+    if (message) return message;
+  }
+  return null;
+};
+
+export const validate = <T>(schema: ValidationSchema<T>, data: T, prefix = ''): ValidationErrors => {
+  const errors: ValidationErrors = {};
+
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    const rules = schema[field] as Check<unknown, T>[] | ListRules<unknown, T>;
+    const value: unknown = data[field];
+    const path = `${prefix}${field}`;
+
+    const checks = (Array.isArray(rules) ? rules : rules.checks ?? []) as Check<unknown, T>[];
+    const message = runChecks(checks, value, data);
+    if (message) errors[path] = message;
+
+    if (!Array.isArray(rules) && rules.each && Array.isArray(value)) {
+      const itemSchema = typeof rules.each === 'function' ? rules.each(data) : rules.each;
+      value.forEach((item, index) => Object.assign(errors, validate(itemSchema, item, `${path}[${index}].`)));
+    }
+  });
+
+  return errors;
+};
+
+export const hasErrors = (errors: ValidationErrors) => Object.keys(errors).length > 0;
+
+// 목록 필드 항목의 에러 - urlInfos[0].url → { index: 0, field: 'url', message }
+export const getListErrors = (errors: ValidationErrors, field: string) =>
+  Object.entries(errors).flatMap(([path, message]) => {
+    const match = new RegExp(`^${field}\\[(\\d+)\\]\\.(.+)$`).exec(path);
+    return match ? [{ index: Number(match[1]), field: match[2], message }] : [];
+  });
+
+// --- 값 형식 ---
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+export const isDate = (value: string) => DATE_PATTERN.test(value) && isValid(parseISO(value));
+export const isTime = (value: string) => TIME_PATTERN.test(value);
+export const isDateTime = (value: string) => DATE_TIME_PATTERN.test(value) && isValid(parseISO(value));
+export const isHttpUrl = (value: string) => {
+  if (!/^https?:\/\/\S+$/.test(value)) return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// --- 검사 함수 ---
+// 형식 검사는 빈 값을 통과시킴 - 필수 여부는 required로 따로 지정
+
+export const required = <T>(message: string): Check<unknown, T> => value =>
+  isBlank(value) || value === 0 ? message : null;
+
+export const dateFormat = <T>(message = '날짜 형식이 올바르지 않습니다. (yyyy-MM-dd)'): Check<string, T> => value =>
+  isBlank(value) || isDate(value) ? null : message;
+
+export const timeFormat = <T>(message = '시간 형식이 올바르지 않습니다. (HH:mm)'): Check<string, T> => value =>
+  isBlank(value) || isTime(value) ? null : message;
+
+export const dateTimeFormat = <T>(message = '일시 형식이 올바르지 않습니다. (yyyy-MM-dd HH:mm)'): Check<string, T> => value =>
+  isBlank(value) || isDateTime(value) ? null : message;
+
+export const httpUrl = <T>(message = 'http:// 또는 https://로 시작하는 올바른 URL을 입력해주세요.'): Check<string | null | undefined, T> =>
+  value => (isBlank(value) || isHttpUrl(value as string) ? null : message);
+
+export const oneOf = <T>(values: readonly string[], message: string): Check<string, T> => value =>
+  isBlank(value) || values.includes(value) ? null : message;
+
+// --- 폼에서 사용 ---
+
+// 입력한 필드는 바로, 나머지는 제출할 때 에러를 표시
+// 서버 fieldErrors는 해당 필드를 다시 입력할 때까지 함께 표시
+export const useValidation = <T>(schema: ValidationSchema<T>, data: T, serverErrors?: ValidationErrors) => {
+  const [touchedFields, setTouchedFields] = useState<string[]>([]);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [remainingServerErrors, setRemainingServerErrors] = useState<ValidationErrors>(serverErrors ?? {});
+
+  useEffect(() => {
+    setRemainingServerErrors(serverErrors ?? {});
+  }, [serverErrors]);
+
+  const validationErrors = useMemo(() => validate(schema, data), [schema, data]);
+
+  const isVisible = (path: string) =>
+    isSubmitted || touchedFields.some(field => path === field || path.startsWith(`${field}[`));
+
+  const errors: ValidationErrors = { ...remainingServerErrors };
+  Object.entries(validationErrors).forEach(([path, message]) => {
+    if (isVisible(path)) errors[path] = message;
+  });
+
+  const touch = (field: string) => {
+    if (!touchedFields.includes(field)) setTouchedFields(prev => [...prev, field]);
+    if (remainingServerErrors[field]) {
+      setRemainingServerErrors(prev => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // 제출 전에 호출 - 에러가 있으면 모두 표시하고 false
+  const validateAll = () => {
+    setIsSubmitted(true);
+    return !hasErrors(validationErrors);
+  };
+
+  const reset = () => {
+    setTouchedFields([]);
+    setIsSubmitted(false);
+    setRemainingServerErrors({});
+  };
+
+  return { errors, touch, validateAll, reset };
+};
@@ -1,6 +1,12 @@
+const { POSTER_IMAGE_HOSTS } = require('./lib/image-hosts');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // 목업 사용 여부는 설정하지 않아도 빌드 시 값으로 치환 - 끈 빌드에서 목업 서버 import()를 제거 (lib/mock/index.ts)
+  env: {
+    NEXT_PUBLIC_USE_MOCK_API: process.env.NEXT_PUBLIC_USE_MOCK_API || 'false',
+  },
   // 타임아웃 설정
   experimental: {
     serverComponentsExternalPackages: [],
@@ -8,24 +14,11 @@ const nextConfig = {
   // 빌드 최적화
   swcMinify: true,
   images: {
-    remotePatterns: [
-      {
-        protocol: 'https',
-        hostname: 'cdnticket.melon.co.kr',
-      },
-      {
-        protocol: 'https',
-        hostname: 'cdnimg.melon.co.kr',
-      },
-      {
-        protocol: 'https',
-        hostname: 'ticketimage.interpark.com',
-      },
-      {
-        protocol: 'https',
-        hostname: 'tkfile.yes24.com',
-      },
-    ],
+    // 허용 호스트는 lib/image-hosts.js에서 관리
+    remotePatterns: POSTER_IMAGE_HOSTS.map(hostname => ({
+      protocol: 'https',
+      hostname,
+    })),
     // 이미지 최적화 설정
     formats: ['image/webp', 'image/avif'],
     minimumCacheTTL: 60,
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+// OpenAPI 문서(openapi/dals2bo-admin.json)에서 타입 모델과 엔드포인트 함수를 생성
+//
+//   npm run generate:api           생성 파일 갱신
+//   npm run generate:api -- --check 생성 파일이 문서와 다르면 실패 (CI/커밋 전 확인용)
+//
+// 지원 범위는 이 프로젝트 문서에서 쓰는 기능만 - $ref, object/array/enum, nullable, path/query 파라미터, JSON 본문
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_PATH = join(ROOT, 'openapi/dals2bo-admin.json');
+const MODELS_PATH = join(ROOT, 'lib/generated/models.ts');
+const ENDPOINTS_PATH = join(ROOT, 'lib/generated/endpoints.ts');
+const HTTP_METHODS = ['get', 'post', 'put', 'delete'];
+
+const spec = JSON.parse(readFileSync(SPEC_PATH, 'utf8'));
+const specPath = relative(ROOT, SPEC_PATH);
+
+const header = [
+  '// 자동 생성 파일 - 직접 수정하지 마세요.',
+  `// 원본: ${specPath} (${spec.info.title} ${spec.info.version})`,
+  '// 다시 생성: npm run generate:api',
+  '',
+].join('\n');
+
+// --- 스키마 → TypeScript 타입 ---
+
+const refName = ref => ref.split('/').pop();
+
+const resolveRef = value => {
+  if (!value.$ref) return value;
+  const [, , section, name] = value.$ref.split('/');
+  const resolved = spec.components?.[section]?.[name];
+  if (!resolved) throw new Error(`Unknown $ref: ${value.$ref}`);
+  return resolved;
+};
+
+const toType = schema => {
+  if (schema.$ref) return refName(schema.$ref);
+
+  let type;
+  if (schema.enum) {
+    type = schema.enum.map(value => `'${value}'`).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'string':
+        type = 'string';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'array': {
+        const item = toType(schema.items);
+        type = item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+        break;
+      }
+      case 'object':
+        type = schema.properties ? `{ ${propertyLines(schema).join(' ')} }` : 'Record<string, unknown>';
+        break;
+      default:
+        return 'unknown';
+    }
+  }
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const propertyLines = schema => {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties || {}).map(([name, property]) => {
+    const comment = property.description ? ` // ${property.description}` : '';
+    return `${name}${required.has(name) ? '' : '?'}: ${toType(property)};${comment}`;
+  });
+};
+
+const renderModel = (name, schema) => {
+  const lines = [];
+  if (schema.description) lines.push(`// ${schema.description}`);
+
+  if (schema.enum) {
+    lines.push(`export enum ${name} {`);
+    schema.enum.forEach(value => lines.push(`  ${value} = '${value}',`));
+    lines.push('}');
+  } else if (schema.type === 'object') {
+    lines.push(`export interface ${name} {`);
+    propertyLines(schema).forEach(line => lines.push(`  ${line}`));
+    lines.push('}');
+  } else {
+    lines.push(`export type ${name} = ${toType(schema)};`);
+  }
+  return lines.join('\n');
+};
+
+const generateModels = () => {
+  const models = Object.entries(spec.components?.schemas || {}).map(([name, schema]) => renderModel(name, schema));
+  return `${header}\n${models.join('\n\n')}\n`;
+};
+
+// --- 경로 → 엔드포인트 함수 ---
+
+const pascalCase = value => value.charAt(0).toUpperCase() + value.slice(1);
+
+const jsonSchema = content => content?.['application/json']?.schema;
+
+const responseType = responses => {
+  const success = Object.entries(responses)
+    .filter(([status]) => status.startsWith('2'))
+    .map(([, response]) => jsonSchema(resolveRef(response).content))
+    .find(Boolean);
+  return success ? toType(success) : 'void';
+};
+
+const renderOperation = (path, method, operation, usedModels) => {
+  const { operationId } = operation;
+  if (!operationId) throw new Error(`operationId is missing: ${method.toUpperCase()} ${path}`);
+
+  const parameters = (operation.parameters || []).map(resolveRef);
+  const pathParams = parameters.filter(p => p.in === 'path');
+  const queryParams = parameters.filter(p => p.in === 'query');
+  const bodySchema = jsonSchema(operation.requestBody?.content);
+  const response = responseType(operation.responses);
+
+  const collectModels = type => (type.match(/\b[A-Z]\w*\b/g) || []).forEach(name => usedModels.add(name));
+  collectModels(response);
+
+  const lines = [];
+  const args = pathParams.map(p => `${p.name}: ${toType(p.schema)}`);
+
+  if (bodySchema) {
+    const bodyType = toType(bodySchema);
+    collectModels(bodyType);
+    args.push(`body: ${bodyType}`);
+  }
+
+  let queryTypeName = null;
+  if (queryParams.length > 0) {
+    queryTypeName = `${pascalCase(operationId)}Query`;
+    lines.push(`export interface ${queryTypeName} {`);
+    queryParams.forEach(p => {
+      const comment = p.schema.default !== undefined ? ` // 기본값: ${p.schema.default}` : '';
+      lines.push(`  ${p.name}${p.required ? '' : '?'}: ${toType(p.schema)};${comment}`);
+    });
+    lines.push('}', '');
+    const isQueryRequired = queryParams.some(p => p.required);
+    args.push(`query${isQueryRequired ? '' : '?'}: ${queryTypeName}`);
+  }
+
+  const pathLiteral = path.includes('{') ? `\`${path.replace(/\{(\w+)\}/g, '${$1}')}\`` : `'${path}'`;
+  const pathExpression = queryTypeName ? `withQuery(${pathLiteral}, query)` : pathLiteral;
+
+  if (operation.summary) lines.push(`// ${operation.summary}`);
+  lines.push(`export const ${operationId} = (${args.join(', ')}): ApiRequest<${response}> => ({`);
+  lines.push(`  operationId: '${operationId}',`);
+  lines.push(`  method: '${method.toUpperCase()}',`);
+  lines.push(`  path: ${pathExpression},`);
+  if (bodySchema) lines.push('  body,');
+  lines.push('});');
+  return lines.join('\n');
+};
+
+const generateEndpoints = () => {
+  const usedModels = new Set();
+  const operations = [];
+
+  Object.entries(spec.paths).forEach(([path, item]) => {
+    HTTP_METHODS.forEach(method => {
+      if (item[method]) operations.push(renderOperation(path, method, item[method], usedModels));
+    });
+  });
+
+  const models = [...usedModels].filter(name => spec.components?.schemas?.[name]).sort();
+  const imports = `import type {\n${models.map(name => `  ${name},`).join('\n')}\n} from './models';`;
+
+  const runtime = `export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// 보낼 요청의 설명 - 실제 전송(인증 헤더, 목업 서버, 로그)은 lib/api.ts의 apiCall이 담당
+export interface ApiRequest<TResponse> {
+  operationId: string;
+  method: HttpMethod;
+  path: string; // 쿼리 문자열 포함
+  body?: unknown;
+  readonly __response?: TResponse; // 응답 타입 추론용 (값은 항상 없음)
+}
+
+const withQuery = (path: string, query: object = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) params.append(key, String(value));
+  });
+  const search = params.toString();
+  return search ? \`\${path}?\${search}\` : path;
+};`;
+
+  return `${header}\n${imports}\n\n${runtime}\n\n${operations.join('\n\n')}\n`;
+};
+
+// --- 출력 ---
+
+const outputs = [
+  [MODELS_PATH, generateModels()],
+  [ENDPOINTS_PATH, generateEndpoints()],
+];
+
+if (process.argv.includes('--check')) {
+  const stale = outputs.filter(([file, content]) => {
+    try {
+      return readFileSync(file, 'utf8') !== content;
+    } catch {
+      return true;
+    }
+  });
+  if (stale.length > 0) {
+    console.error(`생성 파일이 ${specPath}와 다릅니다. npm run generate:api를 실행하세요.`);
+    stale.forEach(([file]) => console.error(`  - ${relative(ROOT, file)}`));
+    process.exit(1);
+  }
+  console.log('생성 파일이 최신입니다.');
+} else {
+  outputs.forEach(([file, content]) => {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    console.log(`생성: ${relative(ROOT, file)}`);
+  });
+}
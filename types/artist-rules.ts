@@ -0,0 +1,19 @@
+import type { Artist } from '@/lib/api';
+import { httpUrl, required, ValidationSchema } from '@/lib/validation';
+
+// 아티스트 검증 규칙 - 이름/별칭 중복은 서버 조회가 필요해서 ArtistForm에서 따로 확인
+
+export const artistRules: ValidationSchema<Omit<Artist, 'id'>> = {
+  name: [required('아티스트 이름을 입력해주세요.')],
+  description: [required('설명을 입력해주세요.')],
+  imageUrl: [httpUrl('이미지 URL이 올바르지 않습니다.')],
+  aliases: {
+    checks: [
+      aliases => {
+        const names = aliases.map(alias => alias.name.trim());
+        return new Set(names).size < names.length ? '같은 별칭이 여러 번 추가되어 있습니다.' : null;
+      },
+    ],
+    each: { name: [required('별칭을 입력해주세요.')] },
+  },
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { validate } from '@/lib/validation';
+import { Festival, URLType } from '@/types/festival';
+import { festivalRules, festivalUpdateRules, reservationInfoRules, timeTableRules, urlInfoRules } from '@/types/festival-rules';
+
+const festival = (overrides: Partial<Omit<Festival, 'id'>> = {}): Omit<Festival, 'id'> => ({
+  name: '페스티벌',
+  placeId: 1,
+  startDate: '2025-05-01',
+  endDate: '2025-05-03',
+  posterUrl: '',
+  banGoods: '',
+  transportationInfo: '',
+  remark: '',
+  timeTables: [],
+  reservationInfos: [],
+  urlInfos: [],
+  ...overrides,
+});
+
+const timeTable = (performanceDate: string) => ({ performanceDate, startTime: '18:00', endTime: '19:00', hallId: 1, artists: [] });
+
+describe('festivalRules', () => {
+  it('passes a complete festival', () => {
+    expect(validate(festivalRules, festival())).toEqual({});
+  });
+
+  it('rejects an end date before the start date', () => {
+    expect(validate(festivalRules, festival({ endDate: '2025-04-30' }))).toEqual({ endDate: '종료일은 시작일 이후여야 합니다.' });
+  });
+
+  it('accepts only an http(s) poster URL', () => {
+    expect(validate(festivalRules, festival({ posterUrl: 'https://example.com/poster.png' }))).toEqual({});
+    expect(validate(festivalRules, festival({ posterUrl: 'data:image/png;base64,AAAA' }))).toEqual({ posterUrl: '포스터 URL이 올바르지 않습니다.' });
+  });
+
+  it('checks timetables against the festival period', () => {
+    const errors = validate(festivalRules, festival({ timeTables: [timeTable('2025-05-02'), timeTable('2025-05-04')] }));
+
+    expect(errors).toEqual({ 'timeTables[1].performanceDate': '공연 기간(2025-05-01 ~ 2025-05-03) 밖의 날짜입니다.' });
+  });
+
+  it('only checks timetable dates when updating', () => {
+    const edited = festival({ timeTables: [{ ...timeTable('2025-05-04'), hallId: 0 }] });
+
+    expect(validate(festivalUpdateRules, edited)).toEqual({
+      'timeTables[0].performanceDate': '공연 기간(2025-05-01 ~ 2025-05-03) 밖의 날짜입니다.',
+    });
+  });
+});
+
+describe('timeTableRules', () => {
+  const rules = timeTableRules({ startDate: '2025-05-01', endDate: '2025-05-03' });
+
+  it('accepts the undecided date outside the festival period', () => {
+    expect(validate(rules, timeTable(UNDECIDED_DATE))).toEqual({});
+  });
+
+  it('requires a hall and valid times', () => {
+    expect(validate(rules, { ...timeTable('2025-05-01'), startTime: '25:00', hallId: 0 })).toEqual({
+      startTime: '시간 형식이 올바르지 않습니다. (HH:mm)',
+      hallId: '홀을 선택해주세요.',
+    });
+  });
+});
+
+describe('urlInfoRules', () => {
+  it('requires the host that matches the URL type', () => {
+    expect(validate(urlInfoRules, { type: URLType.INSTAGRAM, url: 'https://m.instagram.com/festival' })).toEqual({});
+    expect(validate(urlInfoRules, { type: URLType.INSTAGRAM, url: 'https://example.com/festival' })).toEqual({
+      url: '인스타그램 주소는 instagram.com 도메인이어야 합니다.',
+    });
+  });
+});
+
+describe('reservationInfoRules', () => {
+  it('rejects a close date-time before the open date-time', () => {
+    const reservation = {
+      type: '일반',
+      openDateTime: '2025-04-01T20:00',
+      closeDateTime: '2025-04-01T12:00',
+      ticketURL: 'https://tickets.example.com',
+      remark: '',
+    };
+
+    expect(validate(reservationInfoRules, reservation)).toEqual({ closeDateTime: '마감 일시는 오픈 일시 이후여야 합니다.' });
+  });
+});
@@ -0,0 +1,77 @@
+import { UNDECIDED_DATE } from '@/lib/timetable-grid';
+import { getUrlTypeMismatch, URL_TYPES } from '@/lib/url-types';
+import { dateFormat, dateTimeFormat, httpUrl, isBlank, isDate, isDateTime, oneOf, required, timeFormat, ValidationSchema } from '@/lib/validation';
+import { Festival, PerformanceURL, ReservationInfo, TimeTable } from '@/types/festival';
+
+// 페스티벌 검증 규칙 - FestivalForm과 일괄 가져오기(lib/festival-import.ts)에서 사용
+
+type FestivalInput = Omit<Festival, 'id'>;
+type FestivalRange = Pick<Festival, 'startDate' | 'endDate'>;
+
+export const urlInfoRules: ValidationSchema<PerformanceURL> = {
+  type: [required('URL 종류를 선택해주세요.'), oneOf(URL_TYPES, `URL 종류는 ${URL_TYPES.join(', ')} 중 하나여야 합니다.`)],
+  url: [required('URL을 입력해주세요.'), httpUrl(), (url, { type }) => (isBlank(url) ? null : getUrlTypeMismatch(type, url))],
+};
+
+export const reservationInfoRules: ValidationSchema<Omit<ReservationInfo, 'id'>> = {
+  type: [required('예매 종류를 입력해주세요.')],
+  openDateTime: [required('오픈 일시를 입력해주세요.'), dateTimeFormat()],
+  closeDateTime: [
+    required('마감 일시를 입력해주세요.'),
+    dateTimeFormat(),
+    (closeDateTime, { openDateTime }) =>
+      isDateTime(openDateTime) && isDateTime(closeDateTime) && openDateTime > closeDateTime
+        ? '마감 일시는 오픈 일시 이후여야 합니다.'
+        : null,
+  ],
+  ticketURL: [required('예매처 URL을 입력해주세요.'), httpUrl()],
+};
+
+// 공연 날짜가 페스티벌 기간 안에 있는지 보려면 페스티벌의 시작일/종료일이 필요
+// 날짜 미정(UNDECIDED_DATE)은 기간과 상관없이 허용
+export const timeTableRules = (festival: FestivalRange): ValidationSchema<Omit<TimeTable, 'id'>> => ({
+  performanceDate: [
+    required('공연 날짜를 입력해주세요.'),
+    dateFormat(),
+    performanceDate =>
+      performanceDate !== UNDECIDED_DATE &&
+      isDate(performanceDate) &&
+      isDate(festival.startDate) &&
+      isDate(festival.endDate) &&
+      (performanceDate < festival.startDate || performanceDate > festival.endDate)
+        ? `공연 기간(${festival.startDate} ~ ${festival.endDate}) 밖의 날짜입니다.`
+        : null,
+  ],
+  startTime: [required('시작 시간을 입력해주세요.'), timeFormat()],
+  endTime: [required('종료 시간을 입력해주세요.'), timeFormat()],
+  hallId: [required('홀을 선택해주세요.')],
+});
+
+// 기본 정보 - 목록(URL, 예매정보, 타임테이블)은 festivalRules에서 함께 검사
+export const festivalInfoRules: ValidationSchema<FestivalInput> = {
+  name: [required('이름을 입력해주세요.')],
+  placeId: [required('장소를 선택해주세요.')],
+  startDate: [required('시작일을 입력해주세요.'), dateFormat()],
+  endDate: [
+    required('종료일을 입력해주세요.'),
+    dateFormat(),
+    (endDate, { startDate }) =>
+      isDate(startDate) && isDate(endDate) && endDate < startDate ? '종료일은 시작일 이후여야 합니다.' : null,
+  ],
+  // 로컬 파일은 미리보기에만 쓰고 저장하지 않으므로 항상 http(s) URL (app/festivals/components/PosterPicker.tsx)
+  posterUrl: [httpUrl('포스터 URL이 올바르지 않습니다.')],
+};
+
+export const festivalRules: ValidationSchema<FestivalInput> = {
+  ...festivalInfoRules,
+  urlInfos: { each: urlInfoRules },
+  reservationInfos: { each: reservationInfoRules },
+  timeTables: { each: festival => timeTableRules(festival) },
+};
+
+// 수정 - URL은 폼에서 함께 저장, 타임테이블/예매정보는 각자 저장하므로 기간을 바꿨을 때 공연 날짜가 기간 안에 남는지만 확인
+export const festivalUpdateRules: ValidationSchema<FestivalInput> = {
+  ...festivalInfoRules,
+  urlInfos: { each: urlInfoRules },
+  timeTables: { each: festival => ({ performanceDate: timeTableRules(festival).performanceDate }) },
+};
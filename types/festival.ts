@@ -1,14 +1,9 @@
-// --- Frontend-facing types ---
+import type { PerformanceURL } from '@/lib/generated/models';
 
-export enum URLType {
-  INSTAGRAM = 'INSTAGRAM',
-  HOMEPAGE = 'HOMEPAGE'
-}
+export { URLType } from '@/lib/generated/models';
+export type { PerformanceURL };
 
-export interface PerformanceURL {
-  url: string;
-  type: URLType;
-}
+// --- Frontend-facing types ---
 
 export interface TimeTableArtist {
   timetableArtistId?: number; // From GET response
@@ -57,108 +52,37 @@ export interface Festival {
   reservationInfos: ReservationInfo[];
   urlInfos: PerformanceURL[];
   artists?: ArtistSummary[]; // From GET response
-}
-
-
-// --- API Response types (for GET /api/admin/performance) ---
-
-export interface PerformanceResponse {
-  id: number;
-  name: string;
-  placeName: string;
-  placeAddress: string;
-  startDate: string;
-  endDate: string;
-  posterUrl: string;
-  banGoods: string;
-  transportationInfo: string;
-  remark: string;
-}
-
-export interface TimeTableArtistResponse {
-  timetableArtistId: number;
-  artistId: number;
-  artistName: string;
-  type: string;
-}
-
-export interface TimeTableResponse {
-  id: number;
-  performanceDate: string;
-  startTime: string;
-  endTime: string;
-  performanceHall: string;
-  artists: TimeTableArtistResponse[];
-}
-
-export interface ReservationInfoResponse {
-  id: number;
-  openDateTime: string;
-  closeDateTime: string;
-  ticketURL: string;
-  type: string;
-  remark: string;
-}
-
-export interface ArtistSummaryResponse {
-  id: number;
-  displayName: string;
-}
-
-export interface FestivalResponse {
-  performance: PerformanceResponse;
-  timeTables: TimeTableResponse[];
-  reservationInfos: ReservationInfoResponse[];
-  artists: ArtistSummaryResponse[];
-  urlInfos: PerformanceURL[];
-}
-
-// --- API Request types (for POST /api/admin/performance) ---
-
-export interface PerformanceRequest {
-  name: string;
-  placeId: number;
-  startDate: string;
-  endDate: string;
-  posterUrl: string;
-  banGoods: string;
-  transportationInfo: string;
-  remark: string;
-}
-
-export interface TimeTableArtistRequest {
-  artistId: number;
-  type: string;
-}
-
-export interface TimeTableRequest {
-  performanceDate: string;
-  startTime: string;
-  endTime: string;
-  hallId: number;
-  artists: TimeTableArtistRequest[];
-}
-
-export interface ReservationInfoRequest {
-  openDateTime: string;
-  closeDateTime: string;
-  type: string;
-  ticketURL: string;
-  remark: string;
-}
-
-export interface FestivalCreateRequest {
-  password: string;
-  performance: PerformanceRequest;
-  timeTables: TimeTableRequest[];
-  reservationInfos: ReservationInfoRequest[];
-  urlInfos: PerformanceURL[];
-}
-
-export interface TimeTableAddRequest {
-  performanceDate: string;
-  startTime: string;
-  endTime: string;
-  hallId: number;
-  password: string;
-} 
\ No newline at end of file
+  linkIssues?: LinkIssue[]; // 장소/홀 연결을 확정하지 못한 항목 (lib/resolution.ts)
+}
+
+// 응답의 장소/홀을 id로 연결하지 못한 경우
+// - ambiguous: 이름이 같은 후보가 여러 개
+// - unresolved: 일치하는 후보가 없음
+export interface LinkIssue {
+  kind: 'place' | 'hall';
+  status: 'ambiguous' | 'unresolved';
+  name: string; // 응답에 들어 있던 장소/홀 이름
+  timeTableId?: number; // kind === 'hall'인 경우
+  candidateIds: number[];
+}
+
+// --- API types ---
+// 요청/응답 형태는 openapi/dals2bo-admin.json에서 생성된 모델을 그대로 사용 (npm run generate:api)
+
+export type {
+  PerformanceResponse,
+  TimeTableArtistResponse,
+  TimeTableResponse,
+  ReservationInfoResponse,
+  ArtistSummaryResponse,
+  FestivalResponse,
+  PerformanceRequest,
+  PerformanceUpdateRequest,
+  TimeTableArtistRequest,
+  TimeTableRequest,
+  ReservationInfoRequest,
+  EditReservationInfoRequest,
+  FestivalCreateRequest,
+  TimeTableAddRequest,
+  TimeTableArtistAddRequest,
+} from '@/lib/generated/models';
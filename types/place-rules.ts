@@ -0,0 +1,16 @@
+import { required, ValidationSchema } from '@/lib/validation';
+import { PlaceRequestBody } from '@/types/place';
+
+// 장소 검증 규칙 - 장소 관리의 PlaceForm과 페스티벌 폼의 새 장소 추가에서 사용
+// 홀을 비워 두면 장소명과 같은 이름의 홀 하나로 저장됨
+
+export const placeRules: ValidationSchema<PlaceRequestBody> = {
+  placeName: [required('장소명을 입력해주세요.')],
+  address: [required('주소를 입력해주세요.')],
+  placeHalls: [
+    placeHalls => {
+      const names = placeHalls.map(hall => hall.trim()).filter(Boolean);
+      return new Set(names).size < names.length ? '홀 이름이 중복됩니다.' : null;
+    },
+  ],
+};
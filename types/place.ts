@@ -1,17 +1,11 @@
-export interface Hall {
-  id: number;
-  name: string;
-}
+import { HallRequest, HallResponse, PlaceRequest, PlaceResponse } from '@/lib/generated/models';
 
-export interface Place {
-  id: number;
-  placeName: string;
-  address: string;
-  halls: Hall[];
-}
+// 장소/홀 API 형태는 openapi/dals2bo-admin.json에서 생성된 모델을 그대로 사용 (npm run generate:api)
 
-export interface PlaceRequestBody {
-  placeName: string;
-  address: string;
-  placeHalls: string[];
-} 
\ No newline at end of file
+export type Hall = HallResponse;
+
+export type Place = PlaceResponse;
+
+export type PlaceRequestBody = PlaceRequest;
+
+export type HallRequestBody = HallRequest;
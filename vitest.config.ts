@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// 단위 테스트 - lib/와 types/의 순수 로직은 같은 폴더의 *.test.ts에 둠
+// localStorage를 쓰는 모듈(대기열, 감사 로그 등)이 있어서 jsdom 환경에서 실행
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['lib/**/*.test.ts', 'types/**/*.test.ts'],
+  },
+});